@@ -1,6 +1,7 @@
 import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import { registerReleaseRoutes } from "./routes/release";
 import { datasetRoutes } from "./routes/datasets";
+import { registerHtsgetRoutes } from "./routes/htsget";
 import { TOKEN_PRIMARY } from "../auth/auth-strings";
 import { ElsaSettings } from "../bootstrap-settings";
 import { AuthenticatedUser } from "../business/authenticated-user";
@@ -168,6 +169,7 @@ export const apiRoutes = async (fastify: FastifyInstance, opts: Opts) => {
     )
     .after(() => {
       registerReleaseRoutes(fastify);
+      registerHtsgetRoutes(fastify);
       fastify.register(datasetRoutes);
     });
 };
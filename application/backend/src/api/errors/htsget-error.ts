@@ -0,0 +1,41 @@
+import { Base7807Error, Base7807Response } from "./_error.types";
+
+export type HtsgetErrorCode =
+  | "InvalidAuthentication"
+  | "PermissionDenied"
+  | "NotFound"
+  | "PayloadTooLarge"
+  | "UnsupportedFormat"
+  | "InvalidInput"
+  | "InvalidRange";
+
+const HTSGET_ERROR_STATUS: Record<HtsgetErrorCode, number> = {
+  InvalidAuthentication: 401,
+  PermissionDenied: 403,
+  NotFound: 404,
+  PayloadTooLarge: 413,
+  UnsupportedFormat: 400,
+  InvalidInput: 400,
+  InvalidRange: 400,
+};
+
+/**
+ * An error from our htsget endpoints. htsget clients expect errors in the body
+ * as { htsget: { error, message } } - so we include that alongside our usual
+ * problem details.
+ */
+export class HtsgetError extends Base7807Error {
+  constructor(public readonly code: HtsgetErrorCode, message: string) {
+    super(code, HTSGET_ERROR_STATUS[code], message);
+  }
+
+  public toResponse(): Base7807Response {
+    return {
+      ...super.toResponse(),
+      htsget: {
+        error: this.code,
+        message: this.detail,
+      },
+    };
+  }
+}
@@ -1,12 +1,21 @@
 import { FastifyInstance } from "fastify";
 import {
+  DatasetConsentReportType,
+  DatasetConsentStatementType,
   DatasetDeepType,
   DatasetGen3SyncRequestType,
   DatasetGen3SyncResponseType,
+  DatasetImportJobType,
+  DatasetImportRequestType,
   DatasetLightType,
+  DatasetOwnedType,
+  DuoLimitationType,
 } from "@umccr/elsa-types";
 import { ElsaSettings } from "../../bootstrap-settings";
-import { datasetGen3SyncRequestValidate } from "../../validators/validate-json";
+import {
+  datasetGen3SyncRequestValidate,
+  datasetImportRequestValidate,
+} from "../../validators/validate-json";
 import {
   currentPageSize,
   LAST_PAGE_HEADER_NAME,
@@ -16,14 +25,22 @@ import {
 import { container } from "tsyringe";
 import { AwsBaseService } from "../../business/services/aws-base-service";
 import { DatasetService } from "../../business/services/dataset-service";
+import { ConsentService } from "../../business/services/consent-service";
 import {
   authenticatedRouteOnEntryHelper,
   sendPagedResult,
 } from "../api-routes";
 import LinkHeader from "http-link-header";
+import { stringify } from "csv-stringify";
+import { Readable } from "stream";
+import streamConsumers from "node:stream/consumers";
+import { DatasetImportJobKind } from "../../business/services/jobs/dataset-import-job-kind";
+import { ApiRequestValidationError } from "../errors/api-request-validation-error";
 
 export const datasetRoutes = async (fastify: FastifyInstance, opts: any) => {
   const datasetsService = container.resolve(DatasetService);
+  const consentService = container.resolve(ConsentService);
+  const datasetImportJobKind = container.resolve(DatasetImportJobKind);
 
   /**
    * Pageable fetching of top-level dataset information (summary level info)
@@ -45,6 +62,19 @@ export const datasetRoutes = async (fastify: FastifyInstance, opts: any) => {
     }
   );
 
+  /**
+   * The datasets owned by the user - i.e. those they can create releases of
+   */
+  fastify.get<{ Reply: DatasetOwnedType[] }>(
+    "/api/datasets/owned",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      reply.send(await datasetsService.getOwned(authenticatedUser));
+    }
+  );
+
   fastify.get<{ Params: { did: string }; Reply: DatasetDeepType }>(
     "/api/datasets/:did",
     {},
@@ -62,6 +92,202 @@ export const datasetRoutes = async (fastify: FastifyInstance, opts: any) => {
     }
   );
 
+  /**
+   * Consent statements directly attached to any node (dataset/case/patient/specimen) of a dataset
+   */
+  fastify.get<{
+    Params: { nid: string };
+    Reply: DatasetConsentStatementType[];
+  }>("/api/datasets/consent/:nid", {}, async function (request, reply) {
+    const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+    reply.send(
+      await consentService.getStatements(authenticatedUser, request.params.nid)
+    );
+  });
+
+  fastify.post<{
+    Params: { nid: string };
+    Body: DuoLimitationType;
+    Reply: DatasetConsentStatementType[];
+  }>("/api/datasets/consent/:nid", {}, async function (request, reply) {
+    const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+    reply.send(
+      await consentService.addStatement(
+        authenticatedUser,
+        request.params.nid,
+        request.body
+      )
+    );
+  });
+
+  fastify.put<{
+    Params: { nid: string; sid: string };
+    Body: DuoLimitationType;
+    Reply: DatasetConsentStatementType[];
+  }>("/api/datasets/consent/:nid/:sid", {}, async function (request, reply) {
+    const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+    reply.send(
+      await consentService.replaceStatement(
+        authenticatedUser,
+        request.params.nid,
+        request.params.sid,
+        request.body
+      )
+    );
+  });
+
+  fastify.delete<{
+    Params: { nid: string; sid: string };
+    Reply: DatasetConsentStatementType[];
+  }>("/api/datasets/consent/:nid/:sid", {}, async function (request, reply) {
+    const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+    reply.send(
+      await consentService.removeStatement(
+        authenticatedUser,
+        request.params.nid,
+        request.params.sid
+      )
+    );
+  });
+
+  /**
+   * An analysis of the consent of every node of a dataset - listing those nodes whose consent
+   * narrows or conflicts with that of their ancestors
+   */
+  fastify.get<{
+    Params: { did: string };
+    Reply: DatasetConsentReportType;
+  }>(
+    "/api/datasets/:did/consent-conflicts",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      reply.send(
+        await consentService.getConflictReport(
+          authenticatedUser,
+          request.params.did
+        )
+      );
+    }
+  );
+
+  fastify.get<{
+    Params: { did: string };
+  }>(
+    "/api/datasets/:did/consent-conflicts/csv",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      const report = await consentService.getConflictReport(
+        authenticatedUser,
+        request.params.did
+      );
+
+      const stringifier = stringify({
+        header: true,
+        columns: [
+          { key: "kind", header: "KIND" },
+          { key: "nodeLevel", header: "LEVEL" },
+          { key: "nodeExternalId", header: "EXTERNALID" },
+          { key: "nodeId", header: "NODEID" },
+          { key: "ancestorLevel", header: "ANCESTORLEVEL" },
+          { key: "ancestorNodeId", header: "ANCESTORNODEID" },
+          { key: "statement", header: "STATEMENT" },
+          { key: "ancestorStatement", header: "ANCESTORSTATEMENT" },
+          { key: "reason", header: "REASON" },
+        ],
+      });
+
+      const csv = await streamConsumers.text(
+        Readable.from(
+          report.conflicts.map((c) => ({
+            ...c,
+            statement: JSON.stringify(c.statement),
+            ancestorStatement: JSON.stringify(c.ancestorStatement),
+          }))
+        ).pipe(stringifier)
+      );
+
+      reply
+        .header(
+          "Content-Disposition",
+          `attachment; filename=consent-conflicts-${request.params.did}.csv`
+        )
+        .header("Content-Type", "text/csv")
+        .send(csv);
+    }
+  );
+
+  /**
+   * Start a background job importing the given cases (and their patients/specimens/files) into a dataset
+   */
+  fastify.post<{
+    Params: { did: string };
+    Body: DatasetImportRequestType;
+    Reply: { jobId: string };
+  }>("/api/datasets/:did/import", {}, async function (request, reply) {
+    const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+    if (!datasetImportRequestValidate(request.body))
+      throw new ApiRequestValidationError(
+        datasetImportRequestValidate.errors ?? []
+      );
+
+    const jobId = await datasetImportJobKind.startJob(
+      authenticatedUser,
+      request.params.did,
+      request.body.cases
+    );
+
+    reply.send({ jobId: jobId });
+  });
+
+  /**
+   * The progress of an import job of a dataset
+   */
+  fastify.get<{
+    Params: { did: string; jid: string };
+    Reply: DatasetImportJobType;
+  }>("/api/datasets/:did/import/:jid", {}, async function (request, reply) {
+    const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+    reply.send(
+      await datasetImportJobKind.getJob(
+        authenticatedUser,
+        request.params.did,
+        request.params.jid
+      )
+    );
+  });
+
+  /**
+   * Request the cancellation of a running import job of a dataset
+   */
+  fastify.post<{
+    Params: { did: string; jid: string };
+    Reply: DatasetImportJobType;
+  }>(
+    "/api/datasets/:did/import/:jid/cancel",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      reply.send(
+        await datasetImportJobKind.cancelJob(
+          authenticatedUser,
+          request.params.did,
+          request.params.jid
+        )
+      );
+    }
+  );
+
   fastify.post<{
     Request: DatasetGen3SyncRequestType;
     Reply: DatasetGen3SyncResponseType;
@@ -0,0 +1,59 @@
+import { FastifyInstance } from "fastify";
+import { container } from "tsyringe";
+import { HtsgetServiceInfoType, HtsgetTicketType } from "@umccr/elsa-types";
+import { authenticatedRouteOnEntryHelper } from "../api-routes";
+import {
+  HtsgetDatatype,
+  HtsgetQuery,
+  HtsgetService,
+} from "../../business/services/htsget-service";
+
+const HTSGET_CONTENT_TYPE = "application/vnd.ga4gh.htsget.v1.3.0+json";
+
+/**
+ * The GA4GH htsget endpoints of each release - at
+ * /api/releases/<rid>/htsget/reads/<specimen id> and
+ * /api/releases/<rid>/htsget/variants/<specimen id>
+ *
+ * @param fastify
+ */
+export function registerHtsgetRoutes(fastify: FastifyInstance) {
+  const htsgetService = container.resolve(HtsgetService);
+
+  for (const datatype of ["reads", "variants"] as HtsgetDatatype[]) {
+    fastify.get<{
+      Params: { rid: string };
+      Reply: HtsgetServiceInfoType;
+    }>(
+      `/api/releases/:rid/htsget/${datatype}/service-info`,
+      {},
+      async function (request, reply) {
+        reply.send(htsgetService.getServiceInfo(datatype));
+      }
+    );
+
+    fastify.get<{
+      Params: { rid: string; id: string };
+      Querystring: HtsgetQuery;
+      Reply: HtsgetTicketType;
+    }>(
+      `/api/releases/:rid/htsget/${datatype}/:id`,
+      {},
+      async function (request, reply) {
+        const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+        const releaseId = request.params.rid;
+
+        const ticket = await htsgetService.getTicket(
+          authenticatedUser,
+          releaseId,
+          datatype,
+          request.params.id,
+          request.query
+        );
+
+        reply.header("Content-Type", HTSGET_CONTENT_TYPE).send(ticket);
+      }
+    );
+  }
+}
@@ -2,19 +2,35 @@ import { FastifyInstance } from "fastify";
 import * as edgedb from "edgedb";
 import e from "../../../dbschema/edgeql-js";
 import {
-  DuoLimitationCodedType,
+  ReleaseAccessStateType,
+  ReleaseAllowedFileTypesRequestType,
+  ReleaseAwsAccessPointConfigRequestType,
+  ReleaseAwsAccessPointStatusType,
   ReleaseAwsS3PresignRequestType,
   ReleaseCaseType,
+  ReleaseConsentStatementType,
+  ReleaseCreateRequestType,
   ReleaseDetailType,
+  ReleaseJobMessageType,
+  ReleaseJobSelectionComparisonType,
+  ReleaseJobSummaryType,
+  ReleaseManualPinRequestType,
+  ReleaseManualPinType,
+  ReleaseSelectionPreviewAcceptType,
+  ReleaseSelectionPreviewType,
   ReleaseMasterAccessRequestSchema,
   ReleaseMasterAccessRequestType,
+  ReleaseParticipantAddRequestType,
+  ReleaseParticipantRoleRequestType,
+  ReleaseParticipantType,
+  ReleaseSpecimenDecisionType,
   ReleaseSummaryType,
 } from "@umccr/elsa-types";
-import { authenticatedRouteOnEntryHelper } from "../api-routes";
+import {
+  authenticatedRouteOnEntryHelper,
+  sendPagedResult,
+} from "../api-routes";
 import { Readable, Stream } from "stream";
-import archiver, { ArchiverOptions } from "archiver";
-import { stringify } from "csv-stringify";
-import streamConsumers from "node:stream/consumers";
 import { Base7807Error } from "../errors/_error.types";
 import { container } from "tsyringe";
 import { JobsService } from "../../business/services/jobs-service";
@@ -29,28 +45,74 @@ import { AwsAccessPointService } from "../../business/services/aws-access-point-
 import { AwsPresignedUrlsService } from "../../business/services/aws-presigned-urls-service";
 import fastifyFormBody from "@fastify/formbody";
 import { isString } from "lodash";
+import { ManifestJobKind } from "../../business/services/jobs/manifest-job-kind";
+import { ChecksumJobKind } from "../../business/services/jobs/checksum-job-kind";
+import { AccessPointInstallJobKind } from "../../business/services/jobs/access-point-install-job-kind";
+import { ReleaseAwsFileRecord } from "../../business/services/aws-base-service";
+import { getManifestFormatter } from "../../business/services/manifest-formats";
+import { ReleaseRevocationService } from "../../business/services/release-revocation-service";
+import { ReleaseParticipationService } from "../../business/services/release-participation-service";
 
 export function registerReleaseRoutes(fastify: FastifyInstance) {
   const jobsService = container.resolve(JobsService);
   const awsPresignedUrlsService = container.resolve(AwsPresignedUrlsService);
   const awsAccessPointService = container.resolve(AwsAccessPointService);
   const releasesService = container.resolve(ReleasesService);
+  const manifestJobKind = container.resolve(ManifestJobKind);
+  const checksumJobKind = container.resolve(ChecksumJobKind);
+  const accessPointInstallJobKind = container.resolve(
+    AccessPointInstallJobKind
+  );
+  const releaseRevocationService = container.resolve(ReleaseRevocationService);
+  const releaseParticipationService = container.resolve(
+    ReleaseParticipationService
+  );
   const edgeDbClient = container.resolve<edgedb.Client>("Database");
 
-  fastify.get<{ Reply: ReleaseSummaryType[] }>(
+  fastify.get<{
+    Querystring: { q?: string; state?: string };
+    Reply: ReleaseSummaryType[];
+  }>("/api/releases", {}, async function (request, reply) {
+    const { authenticatedUser, pageSize, page, offset } =
+      authenticatedRouteOnEntryHelper(request);
+
+    const { q, state } = request.query;
+
+    if (state && !["active", "pending", "ended"].includes(state))
+      throw new Base7807Error(
+        "Invalid release state",
+        400,
+        `The state of a release must be one of active, pending or ended - not ${state}`
+      );
+
+    const releasesPagedResult = await releasesService.getAll(
+      authenticatedUser,
+      pageSize,
+      offset,
+      q,
+      state as ReleaseAccessStateType | undefined
+    );
+
+    // the paging links need to retain the search and filter
+    const searchParams = new URLSearchParams();
+    if (q) searchParams.set("q", q);
+    if (state) searchParams.set("state", state);
+
+    sendPagedResult(
+      reply,
+      releasesPagedResult,
+      page,
+      `/api/releases?${searchParams.toString()}${q || state ? "&" : ""}`
+    );
+  });
+
+  fastify.post<{ Body: ReleaseCreateRequestType; Reply: ReleaseDetailType }>(
     "/api/releases",
     {},
     async function (request, reply) {
-      const { authenticatedUser, pageSize, offset } =
-        authenticatedRouteOnEntryHelper(request);
-
-      const allForUser = await releasesService.getAll(
-        authenticatedUser,
-        pageSize,
-        offset
-      );
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
 
-      reply.send(allForUser);
+      reply.send(await releasesService.create(authenticatedUser, request.body));
     }
   );
 
@@ -122,18 +184,96 @@ export function registerReleaseRoutes(fastify: FastifyInstance) {
 
   fastify.get<{
     Params: { rid: string; nid: string };
-    Reply: DuoLimitationCodedType[];
+    Reply: ReleaseConsentStatementType[];
   }>("/api/releases/:rid/consent/:nid", {}, async function (request, reply) {
-    const { authenticatedUser, pageSize } =
-      authenticatedRouteOnEntryHelper(request);
+    const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
 
     const releaseId = request.params.rid;
     const nodeId = request.params.nid;
 
-    reply.send([
-      { code: "DUO:0000006", modifiers: [] },
-      { code: "DUO:0000042", modifiers: [] },
-    ]);
+    reply.send(
+      await releasesService.getNodeConsent(authenticatedUser, releaseId, nodeId)
+    );
+  });
+
+  fastify.get<{
+    Params: { rid: string; sid: string };
+    Reply: ReleaseSpecimenDecisionType;
+  }>(
+    "/api/releases/:rid/specimens/:sid/decision",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      const releaseId = request.params.rid;
+      const specimenId = request.params.sid;
+
+      const decision = await releasesService.getSpecimenDecision(
+        authenticatedUser,
+        releaseId,
+        specimenId
+      );
+
+      if (!decision)
+        throw new Base7807Error(
+          "No selection decision",
+          404,
+          `No select job has made a decision about specimen ${specimenId} in release ${releaseId}`
+        );
+
+      reply.send(decision);
+    }
+  );
+
+  fastify.get<{
+    Params: { rid: string };
+    Reply: ReleaseManualPinType[];
+  }>("/api/releases/:rid/pins", {}, async function (request, reply) {
+    const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+    const releaseId = request.params.rid;
+
+    reply.send(
+      await releasesService.getManualPins(authenticatedUser, releaseId)
+    );
+  });
+
+  fastify.post<{
+    Body: ReleaseManualPinRequestType;
+    Params: { rid: string; nid: string };
+    Reply: ReleaseManualPinType[];
+  }>("/api/releases/:rid/pins/:nid", {}, async function (request, reply) {
+    const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+    const releaseId = request.params.rid;
+    const nodeId = request.params.nid;
+
+    reply.send(
+      await releasesService.setManualPin(
+        authenticatedUser,
+        releaseId,
+        nodeId,
+        request.body
+      )
+    );
+  });
+
+  fastify.delete<{
+    Params: { rid: string; nid: string };
+    Reply: ReleaseManualPinType[];
+  }>("/api/releases/:rid/pins/:nid", {}, async function (request, reply) {
+    const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+    const releaseId = request.params.rid;
+    const nodeId = request.params.nid;
+
+    reply.send(
+      await releasesService.removeManualPin(
+        authenticatedUser,
+        releaseId,
+        nodeId
+      )
+    );
   });
 
   fastify.post<{ Body: string[]; Params: { rid: string }; Reply: string }>(
@@ -176,6 +316,46 @@ export function registerReleaseRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // the node endpoints take the ids of any cases, patients or specimens - with the
+  // (un)selection cascading down to every specimen below each node
+  fastify.post<{ Body: string[]; Params: { rid: string }; Reply: string }>(
+    "/api/releases/:rid/nodes/select",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      const releaseId = request.params.rid;
+
+      // the body is validated as an array of ids by the service
+      const nodeIds: string[] = request.body;
+
+      await releasesService.setSelected(authenticatedUser, releaseId, nodeIds);
+
+      reply.send("ok");
+    }
+  );
+
+  fastify.post<{ Body: string[]; Params: { rid: string }; Reply: string }>(
+    "/api/releases/:rid/nodes/unselect",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      const releaseId = request.params.rid;
+
+      // the body is validated as an array of ids by the service
+      const nodeIds: string[] = request.body;
+
+      await releasesService.setUnselected(
+        authenticatedUser,
+        releaseId,
+        nodeIds
+      );
+
+      reply.send("ok");
+    }
+  );
+
   fastify.post<{ Params: { rid: string }; Reply: ReleaseDetailType }>(
     "/api/releases/:rid/jobs/select",
     {},
@@ -190,6 +370,265 @@ export function registerReleaseRoutes(fastify: FastifyInstance) {
     }
   );
 
+  fastify.post<{ Params: { rid: string }; Reply: ReleaseDetailType }>(
+    "/api/releases/:rid/jobs/select-dry-run",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      const releaseId = request.params.rid;
+
+      reply.send(
+        await jobsService.startSelectJob(authenticatedUser, releaseId, true)
+      );
+    }
+  );
+
+  fastify.get<{
+    Params: { rid: string; jid: string };
+    Reply: ReleaseSelectionPreviewType;
+  }>(
+    "/api/releases/:rid/jobs/:jid/preview",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      const releaseId = request.params.rid;
+      const jobId = request.params.jid;
+
+      reply.send(
+        await jobsService.getSelectJobPreview(
+          authenticatedUser,
+          releaseId,
+          jobId
+        )
+      );
+    }
+  );
+
+  fastify.post<{
+    Params: { rid: string; jid: string };
+    Body: ReleaseSelectionPreviewAcceptType;
+    Reply: ReleaseDetailType;
+  }>(
+    "/api/releases/:rid/jobs/:jid/preview/accept",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      const releaseId = request.params.rid;
+      const jobId = request.params.jid;
+
+      reply.send(
+        await jobsService.acceptSelectJobPreview(
+          authenticatedUser,
+          releaseId,
+          jobId,
+          request.body ?? {}
+        )
+      );
+    }
+  );
+
+  fastify.post<{ Params: { rid: string; jid: string } }>(
+    "/api/releases/:rid/jobs/:jid/preview/reject",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      const releaseId = request.params.rid;
+      const jobId = request.params.jid;
+
+      await jobsService.rejectSelectJobPreview(
+        authenticatedUser,
+        releaseId,
+        jobId
+      );
+
+      reply.send("ok");
+    }
+  );
+
+  fastify.post<{ Params: { rid: string }; Reply: ReleaseDetailType }>(
+    "/api/releases/:rid/jobs/manifest",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      const releaseId = request.params.rid;
+
+      reply.send(await manifestJobKind.startJob(authenticatedUser, releaseId));
+    }
+  );
+
+  fastify.post<{ Params: { rid: string }; Reply: ReleaseDetailType }>(
+    "/api/releases/:rid/jobs/checksum",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      const releaseId = request.params.rid;
+
+      reply.send(await checksumJobKind.startJob(authenticatedUser, releaseId));
+    }
+  );
+
+  fastify.post<{
+    Params: { rid: string };
+    Reply: ReleaseDetailType;
+  }>(
+    "/api/releases/:rid/jobs/access-point",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      const releaseId = request.params.rid;
+
+      reply.send(
+        await accessPointInstallJobKind.startJob(authenticatedUser, releaseId)
+      );
+    }
+  );
+
+  fastify.post<{
+    Params: { rid: string };
+    Reply: ReleaseDetailType;
+  }>(
+    "/api/releases/:rid/jobs/access-point/update",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      const releaseId = request.params.rid;
+
+      reply.send(
+        await accessPointInstallJobKind.startJob(
+          authenticatedUser,
+          releaseId,
+          "update"
+        )
+      );
+    }
+  );
+
+  fastify.post<{
+    Params: { rid: string };
+    Reply: ReleaseDetailType;
+  }>(
+    "/api/releases/:rid/jobs/access-point/delete",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      const releaseId = request.params.rid;
+
+      reply.send(
+        await accessPointInstallJobKind.startJob(
+          authenticatedUser,
+          releaseId,
+          "delete"
+        )
+      );
+    }
+  );
+
+  fastify.get<{
+    Params: { rid: string };
+    Querystring: { format?: string };
+    Reply: ReleaseAwsFileRecord[] | Readable;
+  }>("/api/releases/:rid/manifest", {}, async function (request, reply) {
+    const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+    const releaseId = request.params.rid;
+
+    // without a format the manifest is returned as the JSON of the file records
+    const formatter = request.query.format
+      ? getManifestFormatter(request.query.format)
+      : undefined;
+
+    const manifest = await manifestJobKind.getLatestManifest(
+      authenticatedUser,
+      releaseId
+    );
+
+    if (!manifest) reply.status(404).send();
+    else if (!formatter) reply.send(manifest);
+    else
+      reply
+        .header(
+          "Content-Disposition",
+          `attachment; filename=${formatter.filename}`
+        )
+        .header("Content-Type", formatter.contentType)
+        .send(formatter.write(manifest));
+  });
+
+  fastify.get<{ Params: { rid: string }; Reply: ReleaseJobSummaryType[] }>(
+    "/api/releases/:rid/jobs",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      const releaseId = request.params.rid;
+
+      reply.send(
+        await jobsService.getPreviousJobs(authenticatedUser, releaseId)
+      );
+    }
+  );
+
+  fastify.get<{
+    Params: { rid: string; jid: string };
+    Reply: ReleaseJobSelectionComparisonType;
+  }>(
+    "/api/releases/:rid/jobs/:jid/comparison",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      const releaseId = request.params.rid;
+      const jobId = request.params.jid;
+
+      reply.send(
+        await jobsService.getJobSelectionComparison(
+          authenticatedUser,
+          releaseId,
+          jobId
+        )
+      );
+    }
+  );
+
+  fastify.get<{
+    Params: { rid: string; jid: string };
+    Reply: ReleaseJobMessageType[];
+  }>(
+    "/api/releases/:rid/jobs/:jid/messages",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser, pageSize, page, offset } =
+        authenticatedRouteOnEntryHelper(request);
+
+      const releaseId = request.params.rid;
+      const jobId = request.params.jid;
+
+      const messages = await jobsService.getJobMessages(
+        authenticatedUser,
+        releaseId,
+        jobId,
+        pageSize,
+        offset
+      );
+
+      sendPagedResult(
+        reply,
+        messages,
+        page,
+        `/api/releases/${releaseId}/jobs/${jobId}/messages?`
+      );
+    }
+  );
+
   fastify.post<{ Params: { rid: string }; Reply: ReleaseDetailType }>(
     "/api/releases/:rid/jobs/cancel",
     {},
@@ -207,6 +646,24 @@ export function registerReleaseRoutes(fastify: FastifyInstance) {
     }
   );
 
+  fastify.post<{
+    Params: { rid: string };
+    Body: { url?: string | null };
+    Reply: ReleaseDetailType;
+  }>("/api/releases/:rid/consent-source", {}, async function (request, reply) {
+    const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+    const releaseId = request.params.rid;
+
+    reply.send(
+      await releasesService.setConsentSourceUrl(
+        authenticatedUser,
+        releaseId,
+        request.body?.url || null
+      )
+    );
+  });
+
   fastify.post<{
     Params: {
       rid: string;
@@ -306,94 +763,264 @@ export function registerReleaseRoutes(fastify: FastifyInstance) {
   fastify.post<{
     Body: ReleaseMasterAccessRequestType;
     Params: { rid: string };
+    Reply: ReleaseDetailType;
   }>("/api/releases/:rid/access", {}, async function (request, reply) {
     const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
 
     const releaseId = request.params.rid;
 
-    await releasesService.setMasterAccess(
-      authenticatedUser,
-      releaseId,
-      undefined, //isString(request.body.start) ? Date.parse(request.body.start) : request.body.start,
-      undefined // request.body.end
+    reply.send(
+      await releasesService.setMasterAccess(
+        authenticatedUser,
+        releaseId,
+        request.body
+      )
     );
   });
 
   fastify.post<{
-    Body: any;
     Params: { rid: string };
-  }>("/api/releases/:rid/cfn", {}, async function (request, reply) {
+    Reply: ReleaseDetailType;
+  }>("/api/releases/:rid/access/stop", {}, async function (request, reply) {
     const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
 
     const releaseId = request.params.rid;
 
-    if (!awsPresignedUrlsService.isEnabled)
-      throw new Error(
-        "The AWS service was not started so no AWS signing will work"
-      );
+    reply.send(
+      await releasesService.stopMasterAccess(authenticatedUser, releaseId)
+    );
+  });
 
-    await awsAccessPointService.installCloudFormationAccessPointForRelease(
-      authenticatedUser,
-      releaseId,
-      ["409003025053"]
+  fastify.post<{
+    Params: { rid: string };
+    Reply: ReleaseDetailType;
+  }>("/api/releases/:rid/access/revoke", {}, async function (request, reply) {
+    const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+    const releaseId = request.params.rid;
+
+    reply.send(
+      await releaseRevocationService.revokeAccess(authenticatedUser, releaseId)
+    );
+  });
+
+  fastify.get<{
+    Params: { rid: string };
+    Reply: ReleaseParticipantType[];
+  }>("/api/releases/:rid/participants", {}, async function (request, reply) {
+    const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+    const releaseId = request.params.rid;
+
+    reply.send(
+      await releaseParticipationService.getParticipants(
+        authenticatedUser,
+        releaseId
+      )
     );
   });
 
   fastify.post<{
-    Body: ReleaseAwsS3PresignRequestType;
+    Body: ReleaseParticipantAddRequestType;
     Params: { rid: string };
-  }>("/api/releases/:rid/pre-signed", {}, async function (request, reply) {
+    Reply: ReleaseParticipantType[];
+  }>("/api/releases/:rid/participants", {}, async function (request, reply) {
     const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
 
     const releaseId = request.params.rid;
 
-    if (!awsPresignedUrlsService.isEnabled)
-      throw new Error(
-        "The AWS service was not started so no AWS signing will work"
+    reply.send(
+      await releaseParticipationService.addParticipant(
+        authenticatedUser,
+        releaseId,
+        request.body
+      )
+    );
+  });
+
+  fastify.post<{
+    Body: ReleaseParticipantRoleRequestType;
+    Params: { rid: string; pid: string };
+    Reply: ReleaseParticipantType[];
+  }>(
+    "/api/releases/:rid/participants/:pid",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      const releaseId = request.params.rid;
+      const participantId = request.params.pid;
+
+      reply.send(
+        await releaseParticipationService.changeParticipantRole(
+          authenticatedUser,
+          releaseId,
+          participantId,
+          request.body?.role
+        )
       );
+    }
+  );
 
-    const awsFiles = await awsPresignedUrlsService.getPresigned(
-      authenticatedUser,
-      releaseId
+  fastify.delete<{
+    Params: { rid: string; pid: string };
+    Reply: ReleaseParticipantType[];
+  }>(
+    "/api/releases/:rid/participants/:pid",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      const releaseId = request.params.rid;
+      const participantId = request.params.pid;
+
+      reply.send(
+        await releaseParticipationService.removeParticipant(
+          authenticatedUser,
+          releaseId,
+          participantId
+        )
+      );
+    }
+  );
+
+  fastify.get<{
+    Params: { rid: string };
+    Reply: ReleaseAwsAccessPointStatusType;
+  }>("/api/releases/:rid/access-point", {}, async function (request, reply) {
+    const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+    const releaseId = request.params.rid;
+
+    reply.send(
+      await awsAccessPointService.getAccessPointStatus(
+        authenticatedUser,
+        releaseId
+      )
     );
+  });
 
-    if (!awsFiles) throw new Error("Could not pre-sign S3 URLs");
-
-    const stringifier = stringify({
-      header: true,
-      columns: [
-        { key: "s3", header: "S3" },
-        { key: "fileType", header: "FILETYPE" },
-        { key: "md5", header: "MD5" },
-        { key: "size", header: "SIZE" },
-        { key: "caseId", header: "CASEID" },
-        { key: "patientId", header: "PATIENTID" },
-        { key: "specimenId", header: "SPECIMENID" },
-        { key: "s3Signed", header: "S3SIGNED" },
-      ],
-      delimiter: "\t",
-    });
+  fastify.post<{
+    Body: ReleaseAllowedFileTypesRequestType;
+    Params: { rid: string };
+    Reply: ReleaseDetailType;
+  }>(
+    "/api/releases/:rid/allowed-file-types",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
 
-    const readableStream = Readable.from(awsFiles);
+      const releaseId = request.params.rid;
 
-    const buf = await streamConsumers.text(readableStream.pipe(stringifier));
+      reply.send(
+        await releasesService.setAllowedFileTypes(
+          authenticatedUser,
+          releaseId,
+          request.body
+        )
+      );
+    }
+  );
 
-    // create archive and specify method of encryption and password
-    let archive = archiver.create("zip-encrypted", {
-      zlib: { level: 8 },
-      encryptionMethod: "aes256",
-      password: "123",
-    } as ArchiverOptions);
+  fastify.post<{
+    Body: ReleaseAwsAccessPointConfigRequestType;
+    Params: { rid: string };
+    Reply: ReleaseDetailType;
+  }>(
+    "/api/releases/:rid/access-point/config",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
 
-    archive.append(buf, { name: "files.tsv" });
+      const releaseId = request.params.rid;
 
-    await archive.finalize();
+      reply.send(
+        await releasesService.setAccessPointConfig(
+          authenticatedUser,
+          releaseId,
+          request.body
+        )
+      );
+    }
+  );
 
-    reply.raw.writeHead(200, {
-      "Content-Disposition": "attachment; filename=releaseXYZ.zip",
-      "Content-Type": "application/octet-stream",
-    });
+  fastify.get<{
+    Params: { rid: string };
+    Querystring: { format?: string };
+  }>(
+    "/api/releases/:rid/access-point/manifest",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      const releaseId = request.params.rid;
+
+      const formatter = getManifestFormatter(request.query.format);
+
+      const files = await awsAccessPointService.getAccessPointManifest(
+        authenticatedUser,
+        releaseId
+      );
+
+      reply
+        .header(
+          "Content-Disposition",
+          `attachment; filename=${formatter.filename}`
+        )
+        .header("Content-Type", formatter.contentType)
+        .send(formatter.write(files));
+    }
+  );
+
+  fastify.get<{ Params: { rid: string }; Reply: string }>(
+    "/api/releases/:rid/password",
+    {},
+    async function (request, reply) {
+      const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+      const releaseId = request.params.rid;
+
+      const password = await releasesService.getPassword(
+        authenticatedUser,
+        releaseId
+      );
+
+      if (password) reply.type("text/plain").send(password);
+      else reply.status(400).send();
+    }
+  );
+
+  fastify.post<{
+    Body: ReleaseAwsS3PresignRequestType;
+    Params: { rid: string };
+  }>("/api/releases/:rid/pre-signed", {}, async function (request, reply) {
+    const { authenticatedUser } = authenticatedRouteOnEntryHelper(request);
+
+    const releaseId = request.params.rid;
+
+    if (!awsPresignedUrlsService.isEnabled)
+      throw new Error(
+        "The AWS service was not started so no AWS signing will work"
+      );
+
+    // this is usually a form POST - so the expiry may come through as a string
+    const expiryHours = request.body?.expiryHours
+      ? Number(request.body.expiryHours)
+      : undefined;
+
+    const formatter = getManifestFormatter(request.body?.format);
+
+    const { filename, archive } =
+      await awsPresignedUrlsService.getPresignedArchive(
+        authenticatedUser,
+        releaseId,
+        expiryHours ? expiryHours * 60 * 60 : undefined,
+        formatter
+      );
 
-    archive.pipe(reply.raw);
+    reply
+      .header("Content-Disposition", `attachment; filename=${filename}`)
+      .header("Content-Type", "application/octet-stream")
+      .send(archive);
   });
 }
@@ -7,6 +7,8 @@ import {
 import { SecureSessionPluginOptions } from "@fastify/secure-session";
 import { ElsaSettings } from "../bootstrap-settings";
 import { TOKEN_PRIMARY } from "./auth-strings";
+import { container } from "tsyringe";
+import { UsersService } from "../business/services/users-service";
 
 type Opts = {
   settings: ElsaSettings;
@@ -29,6 +31,8 @@ export function getSecureSessionOptions(
 }
 
 export const authRoutes = async (fastify: FastifyInstance, opts: Opts) => {
+  const usersService = container.resolve(UsersService);
+
   const client = new opts.settings.oidcIssuer.Client({
     client_id: opts.settings.oidcClientId,
     client_secret: opts.settings.oidcClientSecret,
@@ -108,6 +112,11 @@ export const authRoutes = async (fastify: FastifyInstance, opts: Opts) => {
     // the React code
     request.session.set(TOKEN_PRIMARY, tokenSet.access_token);
 
+    // keep our record of the users email up to date - so they can be found by email
+    const email = tokenSet.claims().email;
+
+    if (email) await usersService.updateEmail(tokenSet.claims().sub, email);
+
     // these cookies however are available to React - PURELY for UI/display purposes
     reply.setCookie(USER_SUBJECT_COOKIE_NAME, tokenSet.claims().sub, {
       secure: true,
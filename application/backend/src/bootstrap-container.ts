@@ -2,6 +2,13 @@ import * as edgedb from "edgedb";
 import { container } from "tsyringe";
 import { S3Client } from "@aws-sdk/client-s3";
 import { CloudFormationClient } from "@aws-sdk/client-cloudformation";
+import { STSClient } from "@aws-sdk/client-sts";
+import { registerJobKinds } from "./business/services/jobs/job-kinds";
+import { ElsaAwsAccessPointSettings } from "./bootstrap-settings";
+import {
+  HtsgetFileStore,
+  S3HtsgetFileStore,
+} from "./business/services/htsget-file-store";
 
 export function registerTypes() {
   container.register<edgedb.Client>("Database", {
@@ -15,4 +22,49 @@ export function registerTypes() {
   container.register<CloudFormationClient>("CloudFormationClient", {
     useFactory: () => new CloudFormationClient({}),
   });
+
+  container.register<STSClient>("STSClient", {
+    useFactory: () => new STSClient({}),
+  });
+
+  container.register<HtsgetFileStore>("HtsgetFileStore", {
+    useClass: S3HtsgetFileStore,
+  });
+
+  // the real settings are only known once they have been located - see registerSettings()
+  container.register<ElsaAwsAccessPointSettings | null>(
+    "AwsAccessPointSettings",
+    {
+      useValue: null,
+    }
+  );
+
+  container.register<string[]>("ConsentSourceHosts", {
+    useValue: [],
+  });
+
+  registerJobKinds(container);
+}
+
+/**
+ * Register the parts of the Elsa settings that services need. The settings must be plain
+ * data as they are passed to the job worker threads as well.
+ *
+ * @param awsAccessPoint
+ * @param consentSourceHosts
+ */
+export function registerSettings(
+  awsAccessPoint: ElsaAwsAccessPointSettings | undefined,
+  consentSourceHosts: string[] | undefined
+) {
+  container.register<ElsaAwsAccessPointSettings | null>(
+    "AwsAccessPointSettings",
+    {
+      useValue: awsAccessPoint ?? null,
+    }
+  );
+
+  container.register<string[]>("ConsentSourceHosts", {
+    useValue: consentSourceHosts ?? [],
+  });
 }
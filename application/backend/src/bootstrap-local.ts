@@ -11,7 +11,7 @@ import Bree from "bree";
 import { container } from "tsyringe";
 import { Client } from "edgedb";
 import * as edgedb from "edgedb";
-import { registerTypes } from "./bootstrap-container";
+import { registerSettings, registerTypes } from "./bootstrap-container";
 import path from "path";
 import i18n from "i18n";
 
@@ -29,17 +29,6 @@ console.log("Creating Fastify app");
   Bree.extend(require("@breejs/ts-worker"));
 }
 
-const bree = new Bree({
-  root: path.resolve("src", "jobs"),
-  jobs: [
-    {
-      name: "select-job.ts",
-      timeout: "5s",
-      interval: "20s",
-    },
-  ],
-});
-
 /*i18n.configure({
   locales: ['en', 'el'],
   defaultLocale: 'en',
@@ -59,11 +48,34 @@ const start = async () => {
 
   const settings = await getLocalSettings();
 
+  registerSettings(settings.awsAccessPoint, settings.consentSourceHosts);
+
   await blankTestData();
   await insertTestData(settings);
 
   console.log("Starting job queue");
 
+  // the jobs run in their own worker threads - so need to be passed any settings they use
+  const bree = new Bree({
+    root: path.resolve("src", "jobs"),
+    jobs: [
+      {
+        name: "dispatch-job.ts",
+        timeout: "5s",
+        interval: "20s",
+        // the time budget of each run is kept well inside the interval so that runs never overlap
+        worker: {
+          workerData: {
+            roughlyMaxSeconds: 10,
+            batchSize: 20,
+            awsAccessPoint: settings.awsAccessPoint,
+            consentSourceHosts: settings.consentSourceHosts,
+          },
+        },
+      },
+    ],
+  });
+
   await bree.start();
 
   const app = new App(() => ({ ...settings }));
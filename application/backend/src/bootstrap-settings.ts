@@ -4,6 +4,20 @@ import { Issuer } from "openid-client";
 
 const execPromise = promisify(exec);
 
+/**
+ * The settings for sharing the files of releases through S3 access points.
+ */
+export type ElsaAwsAccessPointSettings = {
+  // the AWS account and region holding the buckets of data we share - which is where the
+  // access points (and the stacks that install them) are created
+  dataAccountId: string;
+  dataRegion: string;
+
+  // a bucket (and its region) that the CloudFormation templates of access points are staged in
+  templateBucket: string;
+  templateRegion: string;
+};
+
 export type ElsaSettings = {
   sessionSecret: string;
   sessionSalt: string;
@@ -18,6 +32,14 @@ export type ElsaSettings = {
 
   // the FHIR endpoint for an Ontoserver
   ontoFhirUrl: string;
+
+  // if not present then releases cannot be shared through S3 access points
+  awsAccessPoint?: ElsaAwsAccessPointSettings;
+
+  // the hosts that data owners may use as the external consent source of a release (the
+  // server makes requests to the source - so it must never be an arbitrary host). If not
+  // present then releases cannot use external consent sources
+  consentSourceHosts?: string[];
 };
 
 /**
@@ -67,5 +89,12 @@ export async function getLocalSettings(): Promise<ElsaSettings> {
     remsBotKey: remsKeyStdout.trim(),
 
     ontoFhirUrl: "https://onto.prod.umccr.org/fhir",
+
+    awsAccessPoint: {
+      dataAccountId: "843407916570",
+      dataRegion: "ap-southeast-2",
+      templateBucket: "elsa-data-tmp",
+      templateRegion: "ap-southeast-2",
+    },
   };
 }
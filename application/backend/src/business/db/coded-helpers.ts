@@ -0,0 +1,10 @@
+import e from "../../../dbschema/edgeql-js";
+
+/**
+ * Make a code array (array of tuples) that is empty.
+ */
+export function makeEmptyCodeArray() {
+  const tupleArrayType = e.array(e.tuple({ system: e.str, code: e.str }));
+
+  return e.cast(tupleArrayType, e.literal(tupleArrayType, []));
+}
@@ -3,6 +3,7 @@ import e from "../../../dbschema/edgeql-js";
 import { ReleaseSummaryType } from "@umccr/elsa-types";
 import { AuthenticatedUser } from "../authenticated-user";
 import { inject, injectable } from "tsyringe";
+import { Duration } from "edgedb";
 import { UsersService } from "./users-service";
 
 export type AuditEventAction = "C" | "R" | "U" | "D" | "E";
@@ -16,10 +17,18 @@ export class AuditLogService {
   ) {}
 
   /**
+   * Record an audit event.
    *
+   * @param releaseId the release in whose context the event occurred (or null if not release related)
+   * @param user the user who performed the action
+   * @param what a description of what happened
+   * @param action the broad category of action (FHIR AuditEvent style C/R/U/D/E)
+   * @param outcome the success/failure code of the action (FHIR AuditEvent style 0/4/8/12)
+   * @param start when the action started
+   * @param end when the action ended (if it took any significant time)
    */
   public async auditEvent(
-    releaseId: string,
+    releaseId: string | null,
     user: AuthenticatedUser,
     what: string,
     action: AuditEventAction,
@@ -29,7 +38,31 @@ export class AuditLogService {
   ): Promise<void> {
     await e
       .insert(e.audit.AuditEvent, {
+        action: action,
+        outcome: outcome,
+        whoId: user.subjectId,
+        forRelease: releaseId
+          ? e
+              .select(e.release.Release, (r) => ({
+                filter: e.op(r.id, "=", e.uuid(releaseId)),
+              }))
+              .assert_single()
+          : undefined,
         occurredDateTime: start,
+        occurredDuration: end
+          ? e.duration(
+              new Duration(
+                0,
+                0,
+                0,
+                0,
+                0,
+                0,
+                0,
+                Math.max(0, end.getTime() - start.getTime())
+              )
+            )
+          : undefined,
         recordedDateTime: e.datetime_current(),
         what: what,
       })
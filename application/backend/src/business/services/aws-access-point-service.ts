@@ -9,14 +9,75 @@ import { AwsBaseService, ReleaseAwsFileRecord } from "./aws-base-service";
 import {
   CloudFormationClient,
   CreateStackCommand,
-  DescribeStackResourcesCommand,
+  DeleteStackCommand,
   DescribeStacksCommand,
-  waitUntilStackCreateComplete,
+  Stack,
+  UpdateStackCommand,
 } from "@aws-sdk/client-cloudformation";
+import { STSClient } from "@aws-sdk/client-sts";
+import {
+  ReleaseAwsAccessPointConfigType,
+  ReleaseAwsAccessPointStateType,
+  ReleaseAwsAccessPointStatusType,
+} from "@umccr/elsa-types";
+import e from "../../../dbschema/edgeql-js";
+import { doRoleInReleaseCheck } from "./helpers";
+import { Base7807Error } from "../../api/errors/_error.types";
+import { ElsaAwsAccessPointSettings } from "../../bootstrap-settings";
+
+class AccessPointsNotConfigured extends Base7807Error {
+  constructor() {
+    super(
+      "Access points not available",
+      400,
+      "Access points cannot be used as this instance has no access point settings"
+    );
+  }
+}
 
-// need to be configuration eventually
-const BUCKET = "elsa-data-tmp";
-const REGION = "ap-southeast-2";
+class AccessPointAccountsNotSet extends Base7807Error {
+  constructor(releaseId: string) {
+    super(
+      "Access point accounts not set",
+      400,
+      `The AWS accounts that the access points of release ${releaseId} are for have not been set`
+    );
+  }
+}
+
+class AccessPointsNotInstalled extends Base7807Error {
+  constructor(releaseId: string, status?: string) {
+    super(
+      "Access points not installed",
+      400,
+      `The access points of release ${releaseId} are not installed (${
+        status ?? "stack does not exist"
+      })`
+    );
+  }
+}
+
+/**
+ * Interpret the status of a CloudFormation stack as the state of the access points it installs.
+ * An update of the stack is reported as creating - and a failed create, update or delete (including
+ * one that has been rolled back) is reported as failed.
+ *
+ * @param stackStatus the CloudFormation stack status or undefined if there is no stack
+ */
+export function accessPointStateOf(
+  stackStatus: string | undefined
+): ReleaseAwsAccessPointStateType {
+  if (!stackStatus || stackStatus === "DELETE_COMPLETE") return "not-installed";
+
+  if (stackStatus === "DELETE_IN_PROGRESS") return "deleting";
+
+  if (stackStatus.includes("FAILED") || stackStatus.includes("ROLLBACK"))
+    return "failed";
+
+  if (stackStatus.endsWith("_COMPLETE")) return "complete";
+
+  return "creating";
+}
 
 @injectable()
 @singleton()
@@ -26,12 +87,25 @@ export class AwsAccessPointService extends AwsBaseService {
     private readonly cfnClient: CloudFormationClient,
     @inject("S3Client") private readonly s3Client: S3Client,
     @inject("Database") edgeDbClient: edgedb.Client,
-    usersService: UsersService
+    usersService: UsersService,
+    @inject("STSClient") stsClient: STSClient,
+    @inject("AwsAccessPointSettings")
+    private readonly settings: ElsaAwsAccessPointSettings | null
   ) {
-    super(edgeDbClient, usersService);
+    super(edgeDbClient, usersService, stsClient);
   }
 
-  private static getReleaseStackName(releaseId: string): string {
+  public get isEnabled(): boolean {
+    return super.isEnabled && !!this.settings;
+  }
+
+  protected enabledGuard() {
+    super.enabledGuard();
+
+    if (!this.settings) throw new AccessPointsNotConfigured();
+  }
+
+  public static getReleaseStackName(releaseId: string): string {
     return `elsa-data-release-${releaseId}`;
   }
 
@@ -43,58 +117,301 @@ export class AwsAccessPointService extends AwsBaseService {
     return new Buffer(resourceName, "hex").toString("ascii");
   }
 
+  /**
+   * Ask CloudFormation to delete the access point stack of the release (if there is one). This
+   * does not wait for the deletion to finish - but from the moment it is requested the access
+   * points stop being usable.
+   *
+   * @param user
+   * @param releaseId
+   * @returns true if there was a stack that we asked to be deleted
+   */
   public async deleteCloudFormationAccessPointForRelease(
     user: AuthenticatedUser,
     releaseId: string
-  ): Promise<void> {
+  ): Promise<boolean> {
     this.enabledGuard();
+
+    await doRoleInReleaseCheck(this.usersService, user, releaseId);
+
+    return await this.deleteAccessPointStack(releaseId);
   }
 
-  public async getCloudFormationAccessPointForReleaseDetails(
+  /**
+   * Get the state of the access points of the release - along with the outputs of the stack
+   * that installs them and the buckets that they cover.
+   *
+   * @param user
+   * @param releaseId
+   */
+  public async getAccessPointStatus(
     user: AuthenticatedUser,
     releaseId: string
-  ): Promise<void> {
+  ): Promise<ReleaseAwsAccessPointStatusType> {
     this.enabledGuard();
 
-    const releaseStackName =
-      AwsAccessPointService.getReleaseStackName(releaseId);
+    await doRoleInReleaseCheck(this.usersService, user, releaseId);
+
+    const releaseStack = await this.describeReleaseStack(releaseId);
+
+    const outputs = (releaseStack?.Outputs ?? []).map((o) => ({
+      key: o.OutputKey!,
+      value: o.OutputValue!,
+    }));
+
+    return {
+      state: accessPointStateOf(releaseStack?.StackStatus),
+      stackStatus: releaseStack?.StackStatus,
+      stackStatusReason: releaseStack?.StackStatusReason,
+      outputs: outputs,
+      // the root stack has an output (named by the hex encoded bucket name) for each access point
+      buckets: outputs.map((o) => ({
+        bucket: AwsAccessPointService.resourceNameAsBucketName(o.key),
+        alias: o.value,
+      })),
+    };
+  }
+
+  /**
+   * Get the AWS accounts (and VPC) that the access points of the release are to be
+   * installed for.
+   *
+   * @param releaseId
+   */
+  public async getAccessPointConfig(
+    releaseId: string
+  ): Promise<ReleaseAwsAccessPointConfigType> {
+    const release = await e
+      .select(e.release.Release, (r) => ({
+        accessPointAccountIds: true,
+        accessPointVpcId: true,
+        filter: e.op(r.id, "=", e.uuid(releaseId)),
+      }))
+      .assert_single()
+      .run(this.edgeDbClient);
+
+    if (!release?.accessPointAccountIds?.length)
+      throw new AccessPointAccountsNotSet(releaseId);
+
+    return {
+      accountIds: release.accessPointAccountIds,
+      vpcId: release.accessPointVpcId ?? undefined,
+    };
+  }
 
+  /**
+   * Get the manifest of the files of the release - addressed via the aliases of the installed
+   * access points of the release (i.e. s3://<alias>/<key>).
+   *
+   * @param user
+   * @param releaseId
+   */
+  public async getAccessPointManifest(
+    user: AuthenticatedUser,
+    releaseId: string
+  ): Promise<ReleaseAwsFileRecord[]> {
+    this.enabledGuard();
+
+    const { files } = await this.getAllFileRecords(user, releaseId);
+
+    return await this.addressViaAccessPoints(releaseId, files);
+  }
+
+  /**
+   * Replace the bucket of each file with the alias of the access point for that bucket.
+   *
+   * @param releaseId
+   * @param files
+   */
+  private async addressViaAccessPoints(
+    releaseId: string,
+    files: ReleaseAwsFileRecord[]
+  ): Promise<ReleaseAwsFileRecord[]> {
+    const releaseStack = await this.describeReleaseStack(releaseId);
+
+    const status = releaseStack?.StackStatus;
+
+    if (accessPointStateOf(status) !== "complete")
+      throw new AccessPointsNotInstalled(releaseId, status);
+
+    // the root stack has an output (named by the hex encoded bucket name) for each access point
+    const bucketToAliases: { [bucket: string]: string } = {};
+
+    for (const o of releaseStack?.Outputs ?? []) {
+      bucketToAliases[
+        AwsAccessPointService.resourceNameAsBucketName(o.OutputKey!)
+      ] = o.OutputValue!;
+    }
+
+    return files.map((f) => {
+      if (!has(bucketToAliases, f.s3Bucket))
+        throw new Base7807Error(
+          "Access points out of date",
+          400,
+          `The access points of release ${releaseId} do not cover bucket ${f.s3Bucket} - they need to be installed again`
+        );
+
+      const alias = bucketToAliases[f.s3Bucket];
+
+      return {
+        ...f,
+        s3Bucket: alias,
+        s3Url: `s3://${alias}/${f.s3Key}`,
+      };
+    });
+  }
+
+  /**
+   * Return the status of the access point stack of the release (i.e. CREATE_IN_PROGRESS) - or
+   * undefined if there is no stack.
+   *
+   * @param releaseId
+   */
+  public async getAccessPointStackStatus(
+    releaseId: string
+  ): Promise<string | undefined> {
+    this.enabledGuard();
+
+    return (await this.describeReleaseStack(releaseId))?.StackStatus;
+  }
+
+  /**
+   * Ask CloudFormation to delete the access point stack of the release (if there is one
+   * that is not already being deleted). This does not wait for the stack to be deleted.
+   *
+   * @param releaseId
+   * @returns true if there was a stack that we asked to be deleted
+   */
+  public async deleteAccessPointStack(releaseId: string): Promise<boolean> {
+    this.enabledGuard();
+
+    const status = await this.getAccessPointStackStatus(releaseId);
+
+    if (!status || status.startsWith("DELETE_")) return false;
+
+    await this.cfnClient.send(
+      new DeleteStackCommand({
+        StackName: AwsAccessPointService.getReleaseStackName(releaseId),
+      })
+    );
+
+    return true;
+  }
+
+  private async describeReleaseStack(
+    releaseId: string
+  ): Promise<Stack | undefined> {
     try {
-      const releaseReleaseStack = await this.cfnClient.send(
-        new DescribeStackResourcesCommand({
-          StackName: releaseStackName,
+      const releaseStack = await this.cfnClient.send(
+        new DescribeStacksCommand({
+          StackName: AwsAccessPointService.getReleaseStackName(releaseId),
         })
       );
-      console.log(releaseReleaseStack);
+
+      return releaseStack.Stacks?.[0];
     } catch (e) {
-      console.log("Stack for this release does not exist");
+      // CloudFormation reports a stack that does not exist as a validation error
+      return undefined;
     }
   }
 
-  public async installCloudFormationAccessPointForRelease(
-    user: AuthenticatedUser,
+  /**
+   * Build and stage the templates of the access point stack that shares the given files - and
+   * then ask CloudFormation to create the stack. This does not wait for the stack to be created.
+   *
+   * @param releaseId
+   * @param filesArray
+   * @param accountIds
+   * @param vpcId
+   * @returns the name of the stack
+   */
+  public async createAccessPointStack(
     releaseId: string,
+    filesArray: ReleaseAwsFileRecord[],
     accountIds: string[],
     vpcId?: string
-  ): Promise<void> {
+  ): Promise<string> {
     this.enabledGuard();
 
     const releaseStackName =
       AwsAccessPointService.getReleaseStackName(releaseId);
 
-    try {
-      const releaseReleaseStack = await this.cfnClient.send(
-        new DescribeStackResourcesCommand({
-          StackName: releaseStackName,
-        })
-      );
-      console.log(releaseReleaseStack);
-    } catch (e) {
-      console.log("Stack for this release does not exist");
-    }
+    const { stackId, templateUrl } = await this.stageAccessPointTemplates(
+      releaseId,
+      filesArray,
+      accountIds,
+      vpcId
+    );
+
+    await this.cfnClient.send(
+      new CreateStackCommand({
+        StackName: releaseStackName,
+        ClientRequestToken: stackId,
+        TemplateURL: templateUrl,
+        Capabilities: ["CAPABILITY_IAM"],
+        OnFailure: "DELETE",
+      })
+    );
+
+    return releaseStackName;
+  }
 
-    // find all the files encompassed by this release as a flat array of S3 URLs
-    const filesArray = await this.getAllFileRecords(user, releaseId);
+  /**
+   * Build and stage the templates of the access point stack that shares the given files - and
+   * then ask CloudFormation to update the existing stack to match. This is how a change in the
+   * selection of the release reaches the access points. This does not wait for the
+   * stack to be updated.
+   *
+   * @param releaseId
+   * @param filesArray
+   * @param accountIds
+   * @param vpcId
+   * @returns the name of the stack
+   */
+  public async updateAccessPointStack(
+    releaseId: string,
+    filesArray: ReleaseAwsFileRecord[],
+    accountIds: string[],
+    vpcId?: string
+  ): Promise<string> {
+    this.enabledGuard();
+
+    const releaseStackName =
+      AwsAccessPointService.getReleaseStackName(releaseId);
+
+    const { stackId, templateUrl } = await this.stageAccessPointTemplates(
+      releaseId,
+      filesArray,
+      accountIds,
+      vpcId
+    );
+
+    await this.cfnClient.send(
+      new UpdateStackCommand({
+        StackName: releaseStackName,
+        ClientRequestToken: stackId,
+        TemplateURL: templateUrl,
+        Capabilities: ["CAPABILITY_IAM"],
+      })
+    );
+
+    return releaseStackName;
+  }
+
+  /**
+   * Build the templates of the access point stack that shares the given files and
+   * put them in the template bucket.
+   *
+   * @returns the unique id of this set of templates and the URL of the root template
+   */
+  private async stageAccessPointTemplates(
+    releaseId: string,
+    filesArray: ReleaseAwsFileRecord[],
+    accountIds: string[],
+    vpcId?: string
+  ): Promise<{ stackId: string; templateUrl: string }> {
+    const { dataAccountId, dataRegion, templateBucket, templateRegion } =
+      this.settings!;
 
     // the access points can only wrap a single bucket - so we need to
     // first group by bucket
@@ -134,7 +451,7 @@ export class AwsAccessPointService extends AwsBaseService {
         rootStack.Resources[subStackStackName] = {
           Type: "AWS::CloudFormation::Stack",
           Properties: {
-            TemplateURL: `https://${BUCKET}.s3.${REGION}.amazonaws.com/${stackId}/${subStackAccessPointName}.template`,
+            TemplateURL: `https://${templateBucket}.s3.${templateRegion}.amazonaws.com/${stackId}/${subStackAccessPointName}.template`,
           },
         };
         rootStack.Outputs[subStackStackName] = {
@@ -145,7 +462,7 @@ export class AwsAccessPointService extends AwsBaseService {
 
         await this.s3Client.send(
           new PutObjectCommand({
-            Bucket: BUCKET,
+            Bucket: templateBucket,
             Key: `${stackId}/${subStackAccessPointName}.template`,
             ContentType: "application/json",
             Body: Buffer.from(JSON.stringify(subStackCurrent)),
@@ -207,13 +524,14 @@ export class AwsAccessPointService extends AwsBaseService {
           },
         },
       };
-    };
 
-    if (vpcId) {
-      subStackCurrent.Resources.S3AccessPoint.Properties["VpcConfiguration"] = {
-        VpcId: vpcId,
-      };
-    }
+      if (vpcId) {
+        subStackCurrent.Resources.S3AccessPoint.Properties["VpcConfiguration"] =
+          {
+            VpcId: vpcId,
+          };
+      }
+    };
 
     for (const bucket of Object.keys(filesByBucket)) {
       await closeStack();
@@ -222,7 +540,7 @@ export class AwsAccessPointService extends AwsBaseService {
 
       for (const file of filesByBucket[bucket]) {
         subStackCurrent.Resources.S3AccessPoint.Properties.Policy.Statement[0].Resource.push(
-          `arn:aws:s3:ap-southeast-2:843407916570:accesspoint/${subStackAccessPointName}/object/${file.s3Key}*`
+          `arn:aws:s3:${dataRegion}:${dataAccountId}:accesspoint/${subStackAccessPointName}/object/${file.s3Key}*`
         );
       }
     }
@@ -231,64 +549,16 @@ export class AwsAccessPointService extends AwsBaseService {
 
     await this.s3Client.send(
       new PutObjectCommand({
-        Bucket: BUCKET,
+        Bucket: templateBucket,
         Key: `${stackId}/install.template`,
         ContentType: "application/json",
         Body: Buffer.from(JSON.stringify(rootStack)),
       })
     );
 
-    const newReleaseStack = await this.cfnClient.send(
-      new CreateStackCommand({
-        StackName: releaseStackName,
-        ClientRequestToken: stackId,
-        TemplateURL: `https://${BUCKET}.s3.ap-southeast-2.amazonaws.com/${stackId}/install.template`,
-        Capabilities: ["CAPABILITY_IAM"],
-        OnFailure: "DELETE",
-      })
-    );
-
-    await waitUntilStackCreateComplete(
-      { client: this.cfnClient, maxWaitTime: 300 },
-      {
-        StackName: releaseStackName,
-      }
-    );
-
-    const madeReleaseStack = await this.cfnClient.send(
-      new DescribeStacksCommand({
-        StackName: releaseStackName,
-      })
-    );
-
-    if (
-      madeReleaseStack &&
-      madeReleaseStack.Stacks &&
-      madeReleaseStack.Stacks.length > 0
-    ) {
-      const bucketToAliases: { [x: string]: string } = {};
-
-      for (const o of madeReleaseStack.Stacks[0].Outputs || []) {
-        bucketToAliases[
-          AwsAccessPointService.resourceNameAsBucketName(o.OutputKey!)
-        ] = o.OutputValue!;
-      }
-
-      for (const f of filesArray) {
-        if (f.s3Bucket in bucketToAliases) {
-          f.s3Bucket = bucketToAliases[f.s3Bucket];
-          f.s3Url = `s3://${f.s3Bucket}/${f.s3Key}`;
-        } else {
-          throw new Error(`Bucket ${f.s3Bucket} found not in stack outputs`);
-        }
-      }
-
-      console.log(filesArray);
-    } else {
-      console.log("Stack not found");
-    }
-
-    //console.log(`WROTE SCRIPTS IN FOLDER ${stackId}`);
-    //console.log(stackNamesByBucket);
+    return {
+      stackId: stackId,
+      templateUrl: `https://${templateBucket}.s3.${templateRegion}.amazonaws.com/${stackId}/install.template`,
+    };
   }
 }
@@ -1,6 +1,7 @@
 import { AuthenticatedUser } from "../authenticated-user";
 import {
   collapseExternalIds,
+  doAccessEnabledCheck,
   doRoleInReleaseCheck,
   getReleaseInfo,
 } from "./helpers";
@@ -9,6 +10,7 @@ import { GetCallerIdentityCommand, STSClient } from "@aws-sdk/client-sts";
 import e from "../../../dbschema/edgeql-js";
 import { inject, injectable, singleton } from "tsyringe";
 import { UsersService } from "./users-service";
+import { evaluateDuoAccessWindow, LevelledDuoStatement } from "./duo-helpers";
 
 export type ReleaseAwsFileRecord = {
   caseId: string;
@@ -29,18 +31,33 @@ export type ReleaseAwsFileRecord = {
   md5?: string;
 };
 
+/**
+ * A specimen that was selected for release - but whose files are withheld
+ * at this moment in time because of consent restrictions (TS, MOR etc).
+ */
+export type ReleaseAwsWithheldRecord = {
+  caseId: string;
+  patientId: string;
+  specimenId: string;
+  reason: string;
+};
+
+export type ReleaseAwsFileRecords = {
+  files: ReleaseAwsFileRecord[];
+  withheld: ReleaseAwsWithheldRecord[];
+};
+
 export abstract class AwsBaseService {
   private enabled: boolean;
 
   protected constructor(
     protected readonly edgeDbClient: edgedb.Client,
-    protected readonly usersService: UsersService
+    protected readonly usersService: UsersService,
+    stsClient: STSClient
   ) {
     // until we get proof our AWS commands have succeeded we assume AWS functionality is not available
     this.enabled = false;
 
-    const stsClient = new STSClient({});
-
     stsClient
       .send(new GetCallerIdentityCommand({}))
       .then((result) => {
@@ -60,10 +77,18 @@ export abstract class AwsBaseService {
       );
   }
 
+  /**
+   * Get all the files of the selected specimens of a release. The time based consent of
+   * each specimen is checked *now* - so every access artifact created from these records
+   * will only ever include specimens whose consent allows access at the time of creation.
+   *
+   * @param user
+   * @param releaseId
+   */
   protected async getAllFileRecords(
     user: AuthenticatedUser,
     releaseId: string
-  ): Promise<ReleaseAwsFileRecord[]> {
+  ): Promise<ReleaseAwsFileRecords> {
     this.enabledGuard();
 
     const { userRole } = await doRoleInReleaseCheck(
@@ -72,125 +97,192 @@ export abstract class AwsBaseService {
       releaseId
     );
 
+    await doAccessEnabledCheck(this.edgeDbClient, releaseId);
+
     const { releaseInfoQuery } = await getReleaseInfo(
       this.edgeDbClient,
       releaseId
     );
 
-    const filesQuery = e.select(e.dataset.DatasetSpecimen, (rs) => ({
+    return await getSpecimenFileRecords(
+      this.edgeDbClient,
+      releaseInfoQuery.selectedSpecimens,
+      new Date()
+    );
+  }
+}
+
+/**
+ * Get all the files of the given specimens. The time based consent of each specimen
+ * is checked against the given time - with those specimens whose consent does not allow
+ * access being returned as withheld (rather than their files).
+ *
+ * @param executor the edgedb client or transaction to run queries in
+ * @param specimens a query of the specimens to get the files of
+ * @param now the time at which to check the time based consent
+ */
+export async function getSpecimenFileRecords(
+  executor: edgedb.Executor,
+  specimens: any,
+  now: Date
+): Promise<ReleaseAwsFileRecords> {
+  // the consent statements that can be attached to any node of the dataset tree
+  const consentShape = {
+    statements: {
+      ...e.is(e.consent.ConsentStatementDuo, {
+        dataUseLimitation: true,
+      }),
+    },
+  };
+
+  const filesQuery = e.select(e.dataset.DatasetSpecimen, (rs) => ({
+    externalIdentifiers: true,
+    consent: consentShape,
+    patient: {
+      externalIdentifiers: true,
+      consent: consentShape,
+    },
+    case_: {
+      externalIdentifiers: true,
+      consent: consentShape,
+    },
+    dataset: {
       externalIdentifiers: true,
-      patient: {
-        externalIdentifiers: true,
-      },
-      case_: {
-        externalIdentifiers: true,
-      },
-      dataset: {
-        externalIdentifiers: true,
-      },
-      artifacts: {
-        ...e.is(e.lab.ArtifactBcl, {
-          bclFile: { url: true, size: true, checksums: true },
-        }),
-        ...e.is(e.lab.ArtifactFastqPair, {
-          forwardFile: { url: true, size: true, checksums: true },
-          reverseFile: { url: true, size: true, checksums: true },
-        }),
-        ...e.is(e.lab.ArtifactBam, {
-          bamFile: { url: true, size: true, checksums: true },
-          baiFile: { url: true, size: true, checksums: true },
-        }),
-        ...e.is(e.lab.ArtifactCram, {
-          cramFile: { url: true, size: true, checksums: true },
-          craiFile: { url: true, size: true, checksums: true },
-        }),
-        ...e.is(e.lab.ArtifactVcf, {
-          vcfFile: { url: true, size: true, checksums: true },
-          tbiFile: { url: true, size: true, checksums: true },
-        }),
-      },
-      filter: e.op(rs, "in", releaseInfoQuery.selectedSpecimens),
+      consent: consentShape,
+    },
+    artifacts: {
+      ...e.is(e.lab.ArtifactBcl, {
+        bclFile: { url: true, size: true, checksums: true },
+      }),
+      ...e.is(e.lab.ArtifactFastqPair, {
+        forwardFile: { url: true, size: true, checksums: true },
+        reverseFile: { url: true, size: true, checksums: true },
+      }),
+      ...e.is(e.lab.ArtifactBam, {
+        bamFile: { url: true, size: true, checksums: true },
+        baiFile: { url: true, size: true, checksums: true },
+      }),
+      ...e.is(e.lab.ArtifactCram, {
+        cramFile: { url: true, size: true, checksums: true },
+        craiFile: { url: true, size: true, checksums: true },
+      }),
+      ...e.is(e.lab.ArtifactVcf, {
+        vcfFile: { url: true, size: true, checksums: true },
+        tbiFile: { url: true, size: true, checksums: true },
+      }),
+    },
+    filter: e.op(rs, "in", specimens),
+  }));
+
+  const getMd5 = (checksums: any[]): string => {
+    for (const c of checksums || []) {
+      if (c.type === "MD5") return c.value;
+    }
+    return "NONE";
+  };
+
+  const statementsOf = (
+    level: LevelledDuoStatement["level"],
+    node: any
+  ): LevelledDuoStatement[] =>
+    (node?.consent?.statements ?? []).map((st: any) => ({
+      level: level,
+      nodeId: node.id,
+      dataUseLimitation: st.dataUseLimitation,
     }));
 
-    const getMd5 = (checksums: any[]): string => {
-      for (const c of checksums || []) {
-        if (c.type === "MD5") return c.value;
-      }
-      return "NONE";
-    };
-
-    const rows: ReleaseAwsFileRecord[] = [];
-
-    const specimensInFiles = await filesQuery.run(this.edgeDbClient);
-
-    for (const sif of specimensInFiles) {
-      const caseId = collapseExternalIds(sif.case_?.externalIdentifiers);
-      const patientId = collapseExternalIds(sif.patient?.externalIdentifiers);
-      const specimenId = collapseExternalIds(sif.externalIdentifiers);
-
-      for (const fa of sif.artifacts) {
-        const result: Partial<ReleaseAwsFileRecord> = {
-          caseId: caseId,
-          patientId: patientId,
-          specimenId: specimenId,
-          size: "-1",
-        };
-
-        if (fa.forwardFile) {
-          result.fileType = "FASTQ";
-          result.s3Url = fa.forwardFile.url;
-          result.size = fa.forwardFile.size.toString();
-          result.md5 = getMd5(fa.forwardFile.checksums);
-        } else if (fa.reverseFile) {
-          result.fileType = "FASTQ";
-          result.s3Url = fa.reverseFile.url;
-          result.size = fa.reverseFile.size.toString();
-          result.md5 = getMd5(fa.reverseFile.checksums);
-        } else if (fa.bamFile) {
-          result.fileType = "BAM";
-          result.s3Url = fa.bamFile.url;
-          result.size = fa.bamFile.size.toString();
-          result.md5 = getMd5(fa.bamFile.checksums);
-        } else if (fa.baiFile) {
-          result.fileType = "BAM";
-          result.s3Url = fa.baiFile.url;
-          result.size = fa.baiFile.size.toString();
-          result.md5 = getMd5(fa.baiFile.checksums);
-        } else if (fa.cramFile) {
-          result.fileType = "CRAM";
-          result.s3Url = fa.cramFile.url;
-          result.size = fa.cramFile.size.toString();
-          result.md5 = getMd5(fa.cramFile.checksums);
-        } else if (fa.craiFile) {
-          result.fileType = "CRAM";
-          result.s3Url = fa.craiFile.url;
-          result.size = fa.craiFile.size.toString();
-          result.md5 = getMd5(fa.craiFile.checksums);
-        } else if (fa.vcfFile) {
-          result.fileType = "VCF";
-          result.s3Url = fa.vcfFile.url;
-          result.size = fa.vcfFile.size.toString();
-          result.md5 = getMd5(fa.vcfFile.checksums);
-        } else if (fa.tbiFile) {
-          result.fileType = "VCF";
-          result.s3Url = fa.tbiFile.url;
-          result.size = fa.tbiFile.size.toString();
-          result.md5 = getMd5(fa.tbiFile.checksums);
-        } else {
-          continue;
-        }
-
-        // decompose the S3 url into bucket and key
-        const _match = result.s3Url.match(/^s3?:\/\/([^\/]+)\/?(.*?)$/);
-        if (!_match) throw new Error("Bad S3 URL format");
-
-        result.s3Bucket = _match[1];
-        result.s3Key = _match[2];
-
-        rows.push(result as ReleaseAwsFileRecord);
-      }
+  const rows: ReleaseAwsFileRecord[] = [];
+  const withheld: ReleaseAwsWithheldRecord[] = [];
+
+  const specimensInFiles = await filesQuery.run(executor);
+
+  for (const sif of specimensInFiles) {
+    const caseId = collapseExternalIds(sif.case_?.externalIdentifiers);
+    const patientId = collapseExternalIds(sif.patient?.externalIdentifiers);
+    const specimenId = collapseExternalIds(sif.externalIdentifiers);
+
+    const accessWindow = evaluateDuoAccessWindow(
+      [
+        ...statementsOf("dataset", sif.dataset),
+        ...statementsOf("case", sif.case_),
+        ...statementsOf("patient", sif.patient),
+        ...statementsOf("specimen", sif),
+      ],
+      now
+    );
+
+    if (accessWindow.withheld) {
+      withheld.push({
+        caseId: caseId,
+        patientId: patientId,
+        specimenId: specimenId,
+        reason: accessWindow.reasons.join("; "),
+      });
+      continue;
     }
 
-    return rows;
+    for (const fa of sif.artifacts) {
+      const result: Partial<ReleaseAwsFileRecord> = {
+        caseId: caseId,
+        patientId: patientId,
+        specimenId: specimenId,
+        size: "-1",
+      };
+
+      if (fa.forwardFile) {
+        result.fileType = "FASTQ";
+        result.s3Url = fa.forwardFile.url;
+        result.size = fa.forwardFile.size.toString();
+        result.md5 = getMd5(fa.forwardFile.checksums);
+      } else if (fa.reverseFile) {
+        result.fileType = "FASTQ";
+        result.s3Url = fa.reverseFile.url;
+        result.size = fa.reverseFile.size.toString();
+        result.md5 = getMd5(fa.reverseFile.checksums);
+      } else if (fa.bamFile) {
+        result.fileType = "BAM";
+        result.s3Url = fa.bamFile.url;
+        result.size = fa.bamFile.size.toString();
+        result.md5 = getMd5(fa.bamFile.checksums);
+      } else if (fa.baiFile) {
+        result.fileType = "BAM";
+        result.s3Url = fa.baiFile.url;
+        result.size = fa.baiFile.size.toString();
+        result.md5 = getMd5(fa.baiFile.checksums);
+      } else if (fa.cramFile) {
+        result.fileType = "CRAM";
+        result.s3Url = fa.cramFile.url;
+        result.size = fa.cramFile.size.toString();
+        result.md5 = getMd5(fa.cramFile.checksums);
+      } else if (fa.craiFile) {
+        result.fileType = "CRAM";
+        result.s3Url = fa.craiFile.url;
+        result.size = fa.craiFile.size.toString();
+        result.md5 = getMd5(fa.craiFile.checksums);
+      } else if (fa.vcfFile) {
+        result.fileType = "VCF";
+        result.s3Url = fa.vcfFile.url;
+        result.size = fa.vcfFile.size.toString();
+        result.md5 = getMd5(fa.vcfFile.checksums);
+      } else if (fa.tbiFile) {
+        result.fileType = "VCF";
+        result.s3Url = fa.tbiFile.url;
+        result.size = fa.tbiFile.size.toString();
+        result.md5 = getMd5(fa.tbiFile.checksums);
+      } else {
+        continue;
+      }
+
+      // decompose the S3 url into bucket and key
+      const _match = result.s3Url.match(/^s3?:\/\/([^\/]+)\/?(.*?)$/);
+      if (!_match) throw new Error("Bad S3 URL format");
+
+      result.s3Bucket = _match[1];
+      result.s3Key = _match[2];
+
+      rows.push(result as ReleaseAwsFileRecord);
+    }
   }
+
+  return { files: rows, withheld: withheld };
 }
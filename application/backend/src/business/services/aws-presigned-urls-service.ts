@@ -1,30 +1,67 @@
 import { AuthenticatedUser } from "../authenticated-user";
 import { GetObjectCommand, S3Client } from "@aws-sdk/client-s3";
-import e from "../../../dbschema/edgeql-js";
 import * as edgedb from "edgedb";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { STSClient } from "@aws-sdk/client-sts";
 import { inject, injectable, singleton } from "tsyringe";
 import { UsersService } from "./users-service";
-import { AwsBaseService, ReleaseAwsFileRecord } from "./aws-base-service";
-import { all } from "edgedb/dist/reflection/builders";
+import {
+  AwsBaseService,
+  ReleaseAwsFileRecord,
+  ReleaseAwsWithheldRecord,
+} from "./aws-base-service";
+import { Readable } from "stream";
+import archiver, { Archiver, ArchiverOptions } from "archiver";
+import { stringify } from "csv-stringify";
+import { isSafeInteger } from "lodash";
+import { getReleaseInfo } from "./helpers";
+import { Base7807Error } from "../../api/errors/_error.types";
+import { ManifestFormatter, MANIFEST_FORMATTERS } from "./manifest-formats";
+
+// S3 will not honour a presigned URL that is valid for longer than 7 days
+export const PRESIGNED_URL_MAX_EXPIRY_SECONDS = 60 * 60 * 24 * 7;
+export const PRESIGNED_URL_MIN_EXPIRY_SECONDS = 60 * 60;
 
 @injectable()
 @singleton()
 export class AwsPresignedUrlsService extends AwsBaseService {
   constructor(
     @inject("Database") edgeDbClient: edgedb.Client,
-    usersService: UsersService
+    usersService: UsersService,
+    @inject("STSClient") stsClient: STSClient,
+    @inject("S3Client") private readonly s3Client: S3Client
   ) {
-    super(edgeDbClient, usersService);
+    super(edgeDbClient, usersService, stsClient);
   }
 
+  /**
+   * Get presigned URLs for all the files of the release - along with the list
+   * of specimens whose files were withheld because their consent does not allow access right now.
+   *
+   * @param user
+   * @param releaseId
+   * @param expirySeconds the number of seconds the presigned URLs remain valid for
+   */
   public async getPresigned(
     user: AuthenticatedUser,
-    releaseId: string
-  ): Promise<ReleaseAwsFileRecord[] | null> {
+    releaseId: string,
+    expirySeconds: number = PRESIGNED_URL_MAX_EXPIRY_SECONDS
+  ): Promise<{
+    files: ReleaseAwsFileRecord[];
+    withheld: ReleaseAwsWithheldRecord[];
+  } | null> {
     this.enabledGuard();
 
-    const s3Client = new S3Client({});
+    if (
+      !isSafeInteger(expirySeconds) ||
+      expirySeconds < PRESIGNED_URL_MIN_EXPIRY_SECONDS ||
+      expirySeconds > PRESIGNED_URL_MAX_EXPIRY_SECONDS
+    )
+      throw new Base7807Error(
+        "Invalid expiry",
+        400,
+        `Presigned URLs must expire between ${PRESIGNED_URL_MIN_EXPIRY_SECONDS} and ${PRESIGNED_URL_MAX_EXPIRY_SECONDS} seconds from now`
+      );
 
     const presign = async (s3url: string) => {
       const _match = s3url.match(/^s3?:\/\/([^\/]+)\/?(.*?)$/);
@@ -33,17 +70,124 @@ export class AwsPresignedUrlsService extends AwsBaseService {
         Bucket: _match[1],
         Key: _match[2],
       });
-      return await getSignedUrl(s3Client, command, {
-        expiresIn: 60 * 60 * 24 * 7,
+      return await getSignedUrl(this.s3Client, command, {
+        expiresIn: expirySeconds,
       });
     };
 
-    const allFiles = await this.getAllFileRecords(user, releaseId);
+    const { files, withheld } = await this.getAllFileRecords(user, releaseId);
 
     // fill in the file record that we haven't yet done
-    for (const af of allFiles) af.s3Signed = await presign(af.s3Url!);
+    for (const af of files) af.s3Signed = await presign(af.s3Url!);
 
-    // our partial type is now fully filled in so we can fix the type
-    return allFiles as ReleaseAwsFileRecord[];
+    return { files, withheld };
   }
+
+  /**
+   * Get a zip archive (encrypted with the release password) of the manifest of presigned
+   * URLs for all the files of the release. The archive is returned unfinished - and is
+   * generated only as it is read - so it can be streamed straight to the client.
+   *
+   * @param user
+   * @param releaseId
+   * @param expirySeconds the number of seconds the presigned URLs remain valid for
+   * @param formatter the format to write the list of files in
+   * @returns the archive and a filename for it
+   */
+  public async getPresignedArchive(
+    user: AuthenticatedUser,
+    releaseId: string,
+    expirySeconds: number = PRESIGNED_URL_MAX_EXPIRY_SECONDS,
+    formatter: ManifestFormatter = MANIFEST_FORMATTERS.tsv
+  ): Promise<{ filename: string; archive: Archiver }> {
+    const { files, withheld } = (await this.getPresigned(
+      user,
+      releaseId,
+      expirySeconds
+    ))!;
+
+    const { releaseInfo } = await getReleaseInfo(this.edgeDbClient, releaseId);
+
+    const identifier =
+      releaseInfo.releaseIdentifier ??
+      releaseInfo.applicationDacIdentifier ??
+      releaseId;
+
+    const expires = new Date(Date.now() + expirySeconds * 1000);
+
+    const archive = archiver.create("zip-encrypted", {
+      zlib: { level: 8 },
+      encryptionMethod: "aes256",
+      password: releaseInfo.releasePassword,
+    } as ArchiverOptions);
+
+    archive.append(formatter.write(files), { name: formatter.filename });
+
+    // the report of specimens that were selected but whose consent does not allow access right now
+    archive.append(
+      Readable.from(withheld).pipe(
+        stringify({
+          header: true,
+          columns: [
+            { key: "caseId", header: "CASEID" },
+            { key: "patientId", header: "PATIENTID" },
+            { key: "specimenId", header: "SPECIMENID" },
+            { key: "reason", header: "REASON" },
+          ],
+          delimiter: "\t",
+        })
+      ),
+      { name: "withheld.tsv" }
+    );
+
+    // in the format of md5sum - so downloaded files can be checked with md5sum -c
+    archive.append(
+      Readable.from(
+        files
+          .filter((f) => f.md5 && f.md5 !== "NONE")
+          .map((f) => `${f.md5}  ${f.s3Key}\n`)
+      ),
+      { name: "checksums.md5" }
+    );
+
+    archive.append(
+      manifestReadme(identifier, expires, files.length, formatter),
+      {
+        name: "README.txt",
+      }
+    );
+
+    // the archive is only written as it is read - so any error in the writing (i.e. in
+    // formatting the manifest) can only be passed on by destroying the archive stream, which
+    // raises the error to whoever is reading it
+    archive.finalize().catch((err) => archive.destroy(err));
+
+    return {
+      filename: `${identifier.replace(/[^A-Za-z0-9._-]+/g, "_")}.zip`,
+      archive: archive,
+    };
+  }
+}
+
+function manifestReadme(
+  identifier: string,
+  expires: Date,
+  fileCount: number,
+  formatter: ManifestFormatter
+) {
+  return `Release ${identifier}
+
+This archive contains the manifest of the ${fileCount} file(s) shared with you in this release.
+
+${formatter.filename.padEnd(14)} - every file of the release - ${
+    formatter.description
+  }
+withheld.tsv   - the specimens that were selected for the release but whose files
+                 are withheld because their consent does not allow access right now
+checksums.md5  - the MD5 checksums of the files (named by their S3 key) in a format
+                 that can be checked with "md5sum -c checksums.md5" once downloaded
+
+The presigned URLs expire at ${expires.toISOString()}. Once they have expired a new
+manifest must be generated.
+`;
 }
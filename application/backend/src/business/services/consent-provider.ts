@@ -0,0 +1,64 @@
+import { ConsentLevel } from "./duo-helpers";
+import { HttpConsentProvider } from "./http-consent-provider";
+
+/**
+ * An external identifier as stored against any dataset node.
+ */
+export type ConsentProviderIdentifier = {
+  system: string;
+  value: string;
+};
+
+/**
+ * A source of consent statements that exists outside of Elsa (i.e. a consent
+ * registry held by a hospital). Providers are consulted by the SelectService for every node
+ * (case, patient, specimen) and the statements they return are evaluated alongside those
+ * held in our own database.
+ */
+export interface ConsentProvider {
+  /**
+   * Return the raw DUO statements the provider holds for the node with the given
+   * external identifiers. Statements are returned unvalidated - it is the job of the
+   * consent evaluation to decide whether they are meaningful.
+   *
+   * @param level the level of the node in the dataset tree
+   * @param externalIdentifiers all the external identifiers of the node
+   */
+  getStatements(
+    level: ConsentLevel,
+    externalIdentifiers: ConsentProviderIdentifier[]
+  ): Promise<unknown[]>;
+}
+
+/**
+ * Create the consent provider that is configured for a release (if any).
+ *
+ * @param consentSourceUrl the URL of the consent source as configured in the release
+ * @param allowedHosts the hosts that consent sources are allowed to be on (from the settings)
+ * @returns a provider or null if the release has no external consent source
+ */
+export function createConsentProvider(
+  consentSourceUrl: string | null | undefined,
+  allowedHosts: string[]
+): ConsentProvider | null {
+  if (!consentSourceUrl) return null;
+
+  if (
+    !consentSourceUrl.startsWith("http://") &&
+    !consentSourceUrl.startsWith("https://")
+  )
+    throw new Error(
+      `The consent source ${consentSourceUrl} is not of a type for which we have a consent provider`
+    );
+
+  // the server makes requests to the consent source - so it can only be one of the
+  // hosts we have been configured to trust
+  const host = new URL(consentSourceUrl).hostname.toLowerCase();
+
+  if (!allowedHosts.some((h) => h.toLowerCase() === host))
+    throw new Error(
+      `The consent source host ${host} is not one of the hosts allowed for consent sources`
+    );
+
+  return new HttpConsentProvider(consentSourceUrl);
+}
@@ -0,0 +1,443 @@
+import * as edgedb from "edgedb";
+import e from "../../../dbschema/edgeql-js";
+import {
+  DatasetConsentConflictType,
+  DatasetConsentReportType,
+  DatasetConsentStatementType,
+  DuoLimitationType,
+  getStringFromDuoCode,
+} from "@umccr/elsa-types";
+import { AuthenticatedUser } from "../authenticated-user";
+import { inject, injectable } from "tsyringe";
+import { UsersService } from "./users-service";
+import { AuditLogService } from "./audit-log-service";
+import { Base7807Error } from "../../api/errors/_error.types";
+import { duoLimitationValidate } from "../../validators/validate-json";
+import { ApiRequestValidationError } from "../../api/errors/api-request-validation-error";
+import {
+  compareDuoLimitations,
+  ConsentLevel,
+  parseDuoLimitation,
+} from "./duo-helpers";
+import { collapseExternalIds } from "./helpers";
+
+class NotAuthorisedToEditConsent extends Base7807Error {
+  constructor(nodeId: string) {
+    super(
+      "Not authorised to edit consent",
+      403,
+      `Only owners of the dataset containing ${nodeId} can edit its consent`
+    );
+  }
+}
+
+class NotAuthorisedToAnalyseConsent extends Base7807Error {
+  constructor(datasetId: string) {
+    super(
+      "Not authorised to analyse consent",
+      403,
+      `Only owners of dataset ${datasetId} can analyse its consent`
+    );
+  }
+}
+
+class ConsentNodeNotFound extends Base7807Error {
+  constructor(nodeId: string) {
+    super(
+      "Consent node not found",
+      404,
+      `No dataset, case, patient or specimen with id ${nodeId} exists`
+    );
+  }
+}
+
+class ConsentStatementNotFound extends Base7807Error {
+  constructor(nodeId: string, statementId: string) {
+    super(
+      "Consent statement not found",
+      404,
+      `No consent statement ${statementId} is attached to ${nodeId}`
+    );
+  }
+}
+
+/**
+ * A service that allows dataset owners to author the consent statements attached to
+ * any shareable node (dataset, case, patient or specimen) of their datasets.
+ */
+@injectable()
+export class ConsentService {
+  constructor(
+    @inject("Database") private edgeDbClient: edgedb.Client,
+    private usersService: UsersService,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * Fetch the node (and its current consent) - checking that the user is allowed
+   * to edit the consent of the node.
+   *
+   * @param user
+   * @param nodeId
+   */
+  private async getEditableNode(user: AuthenticatedUser, nodeId: string) {
+    const node = await e
+      .select(e.dataset.DatasetShareable, (n) => ({
+        id: true,
+        __type__: {
+          name: true,
+        },
+        ...e.is(e.dataset.DatasetCase, { dataset: { id: true } }),
+        ...e.is(e.dataset.DatasetPatient, { dataset: { id: true } }),
+        ...e.is(e.dataset.DatasetSpecimen, { dataset: { id: true } }),
+        consent: {
+          id: true,
+          statements: {
+            id: true,
+            ...e.is(e.consent.ConsentStatementDuo, {
+              dataUseLimitation: true,
+            }),
+          },
+        },
+        filter: e.op(n.id, "=", e.uuid(nodeId)),
+      }))
+      .assert_single()
+      .run(this.edgeDbClient);
+
+    if (!node) throw new ConsentNodeNotFound(nodeId);
+
+    const datasetId =
+      node.__type__.name === "dataset::Dataset"
+        ? node.id
+        : (node as any).dataset?.id;
+
+    if (!datasetId) throw new ConsentNodeNotFound(nodeId);
+
+    const datasetRole = await this.usersService.roleInDataset(user, datasetId);
+
+    if (datasetRole !== "DataOwner")
+      throw new NotAuthorisedToEditConsent(nodeId);
+
+    return node;
+  }
+
+  /**
+   * Make sure the limitation is valid DUO - throwing a validation error if not.
+   *
+   * @param limitation
+   */
+  private validateLimitation(limitation: any): DuoLimitationType {
+    if (!duoLimitationValidate(limitation))
+      throw new ApiRequestValidationError(duoLimitationValidate.errors ?? []);
+
+    return limitation;
+  }
+
+  /**
+   * Get the consent statements attached directly to a node of a dataset.
+   *
+   * @param user
+   * @param nodeId
+   */
+  public async getStatements(
+    user: AuthenticatedUser,
+    nodeId: string
+  ): Promise<DatasetConsentStatementType[]> {
+    const node = await this.getEditableNode(user, nodeId);
+
+    return (node.consent?.statements ?? []).map((s: any) => ({
+      id: s.id,
+      statement: parseDuoLimitation(s.dataUseLimitation)!,
+    }));
+  }
+
+  /**
+   * Add a new DUO consent statement to a node - creating the node's consent
+   * if it has none.
+   *
+   * @param user
+   * @param nodeId
+   * @param limitation
+   */
+  public async addStatement(
+    user: AuthenticatedUser,
+    nodeId: string,
+    limitation: any
+  ): Promise<DatasetConsentStatementType[]> {
+    const now = new Date();
+    const validLimitation = this.validateLimitation(limitation);
+    const node = await this.getEditableNode(user, nodeId);
+
+    const nodeQuery = e
+      .select(e.dataset.DatasetShareable, (n) => ({
+        filter: e.op(n.id, "=", e.uuid(nodeId)),
+      }))
+      .assert_single();
+
+    const newStatement = e.insert(e.consent.ConsentStatementDuo, {
+      dataUseLimitation: e.json(validLimitation),
+    });
+
+    if (node.consent) {
+      await e
+        .update(e.consent.Consent, (c) => ({
+          filter: e.op(c.id, "=", e.uuid(node.consent!.id)),
+          set: {
+            statements: { "+=": newStatement },
+          },
+        }))
+        .run(this.edgeDbClient);
+    } else {
+      await e
+        .update(nodeQuery, () => ({
+          set: {
+            consent: e.insert(e.consent.Consent, {
+              statements: newStatement,
+            }),
+          },
+        }))
+        .run(this.edgeDbClient);
+    }
+
+    await this.auditLogService.auditEvent(
+      null,
+      user,
+      `Added consent statement ${JSON.stringify(validLimitation)} to ${nodeId}`,
+      "C",
+      0,
+      now,
+      new Date()
+    );
+
+    return this.getStatements(user, nodeId);
+  }
+
+  /**
+   * Replace the DUO limitation of an existing consent statement of a node.
+   *
+   * @param user
+   * @param nodeId
+   * @param statementId
+   * @param limitation
+   */
+  public async replaceStatement(
+    user: AuthenticatedUser,
+    nodeId: string,
+    statementId: string,
+    limitation: any
+  ): Promise<DatasetConsentStatementType[]> {
+    const now = new Date();
+    const validLimitation = this.validateLimitation(limitation);
+    const node = await this.getEditableNode(user, nodeId);
+
+    if (!(node.consent?.statements ?? []).some((s) => s.id === statementId))
+      throw new ConsentStatementNotFound(nodeId, statementId);
+
+    await e
+      .update(e.consent.ConsentStatementDuo, (cs) => ({
+        filter: e.op(cs.id, "=", e.uuid(statementId)),
+        set: {
+          dataUseLimitation: e.json(validLimitation),
+        },
+      }))
+      .run(this.edgeDbClient);
+
+    await this.auditLogService.auditEvent(
+      null,
+      user,
+      `Replaced consent statement ${statementId} of ${nodeId} with ${JSON.stringify(
+        validLimitation
+      )}`,
+      "U",
+      0,
+      now,
+      new Date()
+    );
+
+    return this.getStatements(user, nodeId);
+  }
+
+  /**
+   * Remove a consent statement from a node.
+   *
+   * @param user
+   * @param nodeId
+   * @param statementId
+   */
+  public async removeStatement(
+    user: AuthenticatedUser,
+    nodeId: string,
+    statementId: string
+  ): Promise<DatasetConsentStatementType[]> {
+    const now = new Date();
+    const node = await this.getEditableNode(user, nodeId);
+
+    if (!(node.consent?.statements ?? []).some((s) => s.id === statementId))
+      throw new ConsentStatementNotFound(nodeId, statementId);
+
+    // statements are exclusively owned by their consent - so deleting them removes them from the consent
+    await e
+      .delete(e.consent.ConsentStatementDuo, (cs) => ({
+        filter: e.op(cs.id, "=", e.uuid(statementId)),
+      }))
+      .run(this.edgeDbClient);
+
+    await this.auditLogService.auditEvent(
+      null,
+      user,
+      `Removed consent statement ${statementId} from ${nodeId}`,
+      "D",
+      0,
+      now,
+      new Date()
+    );
+
+    return this.getStatements(user, nodeId);
+  }
+
+  /**
+   * Analyse the consent of every node of a dataset - reporting those nodes whose
+   * consent narrows or conflicts with the consent of any of their ancestors.
+   *
+   * @param user
+   * @param datasetId
+   */
+  public async getConflictReport(
+    user: AuthenticatedUser,
+    datasetId: string
+  ): Promise<DatasetConsentReportType> {
+    const datasetRole = await this.usersService.roleInDataset(user, datasetId);
+
+    if (datasetRole !== "DataOwner")
+      throw new NotAuthorisedToAnalyseConsent(datasetId);
+
+    const consentShape = {
+      statements: {
+        ...e.is(e.consent.ConsentStatementDuo, {
+          dataUseLimitation: true,
+        }),
+      },
+    };
+
+    const dataset = await e
+      .select(e.dataset.Dataset, (ds) => ({
+        id: true,
+        consent: consentShape,
+        cases: {
+          id: true,
+          externalIdentifiers: true,
+          consent: consentShape,
+          patients: {
+            id: true,
+            externalIdentifiers: true,
+            consent: consentShape,
+            specimens: {
+              id: true,
+              externalIdentifiers: true,
+              consent: consentShape,
+            },
+          },
+        },
+        filter: e.op(ds.id, "=", e.uuid(datasetId)),
+      }))
+      .assert_single()
+      .run(this.edgeDbClient);
+
+    if (!dataset) throw new ConsentNodeNotFound(datasetId);
+
+    type AnalysedNode = {
+      id: string;
+      level: ConsentLevel;
+      statements: DuoLimitationType[];
+    };
+
+    const codeCounts = new Map<string, number>();
+    const conflicts: DatasetConsentConflictType[] = [];
+
+    const statementsOf = (node: any): DuoLimitationType[] => {
+      const result: DuoLimitationType[] = [];
+
+      for (const st of node.consent?.statements ?? []) {
+        const limitation = parseDuoLimitation(st.dataUseLimitation);
+
+        if (!limitation) continue;
+
+        result.push(limitation);
+
+        if ("code" in limitation) {
+          for (const code of [
+            limitation.code,
+            ...(limitation.modifiers ?? []).map((m) => m.code),
+          ])
+            codeCounts.set(code, (codeCounts.get(code) ?? 0) + 1);
+        }
+      }
+
+      return result;
+    };
+
+    // compare every statement of the node against every statement of each of its ancestors
+    const analyse = (
+      node: any,
+      level: ConsentLevel,
+      ancestors: AnalysedNode[]
+    ): AnalysedNode => {
+      const analysed = {
+        id: node.id,
+        level: level,
+        statements: statementsOf(node),
+      };
+
+      for (const ancestor of ancestors) {
+        for (const ancestorStatement of ancestor.statements) {
+          for (const statement of analysed.statements) {
+            const comparison = compareDuoLimitations(
+              ancestorStatement,
+              statement
+            );
+
+            if (comparison)
+              conflicts.push({
+                nodeId: node.id,
+                nodeLevel: level,
+                nodeExternalId: collapseExternalIds(node.externalIdentifiers),
+                ancestorNodeId: ancestor.id,
+                ancestorLevel: ancestor.level,
+                kind: comparison.kind,
+                statement: statement,
+                ancestorStatement: ancestorStatement,
+                reason: comparison.reason,
+              });
+          }
+        }
+      }
+
+      return analysed;
+    };
+
+    const datasetNode = analyse(dataset, "dataset", []);
+
+    for (const c of dataset.cases) {
+      const caseNode = analyse(c, "case", [datasetNode]);
+
+      for (const p of c.patients) {
+        const patientNode = analyse(p, "patient", [datasetNode, caseNode]);
+
+        for (const s of p.specimens)
+          analyse(s, "specimen", [datasetNode, caseNode, patientNode]);
+      }
+    }
+
+    return {
+      datasetId: dataset.id,
+      codeCounts: Array.from(codeCounts.entries())
+        .sort((x, y) => x[0].localeCompare(y[0]))
+        .map(([code, count]) => ({
+          code: code,
+          shorthand: getStringFromDuoCode(code),
+          count: count,
+        })),
+      conflicts: conflicts,
+    };
+  }
+}
@@ -1,6 +1,10 @@
 import * as edgedb from "edgedb";
 import e from "../../../dbschema/edgeql-js";
-import { DatasetDeepType, DatasetLightType } from "@umccr/elsa-types";
+import {
+  DatasetDeepType,
+  DatasetLightType,
+  DatasetOwnedType,
+} from "@umccr/elsa-types";
 import { AuthenticatedUser } from "../authenticated-user";
 import { inject, injectable, singleton } from "tsyringe";
 import { createPagedResult, PagedResult } from "../../api/api-pagination";
@@ -64,6 +68,28 @@ export class DatasetService {
     return createPagedResult(converted, fullCount, limit);
   }
 
+  /**
+   * Return the datasets that the user owns (and hence can create releases of).
+   *
+   * @param user
+   */
+  public async getOwned(user: AuthenticatedUser): Promise<DatasetOwnedType[]> {
+    const owner = await e
+      .select(e.permission.User, (u) => ({
+        datasetOwner: (ds) => ({
+          id: true,
+          uri: true,
+          description: true,
+          order_by: ds.uri,
+        }),
+        filter: e.op(u.id, "=", e.uuid(user.dbId)),
+      }))
+      .assert_single()
+      .run(this.edgeDbClient);
+
+    return owner?.datasetOwner ?? [];
+  }
+
   public async get(
     user: AuthenticatedUser,
     datasetId: string
@@ -0,0 +1,597 @@
+import {
+  CodingType,
+  DuoLimitationType,
+  DuoModifierType,
+  getDuoCatalogueEntry,
+  getStringFromDuoCode,
+  isDuoCodeSubsumedBy,
+} from "@umccr/elsa-types";
+import { has, isArray, isObjectLike, isString } from "lodash";
+
+/**
+ * A set of functions that evaluate DUO consent statements against the coded details
+ * of an application. These are deliberately kept free of any database access so that
+ * they can be independently tested.
+ */
+
+// the levels of the dataset tree at which consent statements can be attached
+export type ConsentLevel = "dataset" | "case" | "patient" | "specimen";
+
+// the fields of the application coded that can cause a consent statement to not match
+export type ApplicationCodedField =
+  | "studyType"
+  | "diseasesOfStudy"
+  | "countriesInvolved"
+  | "studyIsNotCommercial"
+  | "studyAgreesToPublish";
+
+/**
+ * The subset of the release ApplicationCoded that is needed for evaluating consent.
+ */
+export type DuoApplicationContext = {
+  studyType: string;
+  diseasesOfStudy: { system: string; code: string }[];
+  countriesInvolved: { system: string; code: string }[];
+  studyIsNotCommercial: boolean;
+  studyAgreesToPublish: boolean;
+};
+
+/**
+ * A consent statement found attached to a node in the dataset tree.
+ */
+export type LevelledDuoStatement = {
+  level: ConsentLevel;
+  // the id of the node the statement was attached to (if known)
+  nodeId?: string;
+  // the data use limitation as stored in the database (which may or may not be valid DUO)
+  dataUseLimitation: unknown;
+};
+
+/**
+ * The outcome of evaluating a single consent statement against the application.
+ */
+export type DuoStatementEvaluation = {
+  level: ConsentLevel;
+  nodeId?: string;
+  // the DUO code of the limitation (if the statement was coded)
+  code?: string;
+  // true if this statement allows use for the application
+  allowed: boolean;
+  // the DUO code of a modifier that caused the statement to not allow use
+  modifier?: string;
+  // the application coded field that was the cause of the statement not allowing use
+  field?: ApplicationCodedField;
+  // a human readable explanation of the outcome
+  reason: string;
+};
+
+/**
+ * The outcome of evaluating all the consent statements that apply to a single node.
+ */
+export type DuoConsentEvaluation = {
+  allowed: boolean;
+  evaluations: DuoStatementEvaluation[];
+};
+
+export const DUO_NO_RESTRICTION = "DUO:0000004";
+export const DUO_GENERAL_RESEARCH_USE = "DUO:0000042";
+export const DUO_HEALTH_MEDICAL_BIOMEDICAL = "DUO:0000006";
+export const DUO_DISEASE_SPECIFIC = "DUO:0000007";
+export const DUO_POPULATION_ANCESTRY = "DUO:0000011";
+
+export const DUO_PUBLICATION_REQUIRED = "DUO:0000019";
+export const DUO_NON_COMMERCIAL_USE = "DUO:0000046";
+export const DUO_NOT_FOR_PROFIT_NON_COMMERCIAL_USE = "DUO:0000018";
+export const DUO_NOT_FOR_PROFIT_USE = "DUO:0000045";
+export const DUO_PUBLICATION_MORATORIUM = "DUO:0000024";
+export const DUO_TIME_LIMIT = "DUO:0000025";
+export const DUO_GEOGRAPHICAL_RESTRICTION = "DUO:0000022";
+export const DUO_CLINICAL_CARE_USE = "DUO:0000043";
+export const DUO_NO_POPULATION_ANCESTRY = "DUO:0000044";
+
+/**
+ * The DUO limitation that corresponds to each application study type. A consent limitation
+ * permits a study if the study's limitation is the same as or subsumed by it in the DUO
+ * catalogue hierarchy (i.e. GRU ⊇ HMB ⊇ DS).
+ *
+ * Clinical care (CC) is not a research use - so is only permitted by NRES or
+ * where the statement explicitly carries the CC modifier.
+ */
+const STUDY_TYPE_LIMITATION: { [studyType: string]: string } = {
+  GRU: DUO_GENERAL_RESEARCH_USE,
+  HMB: DUO_HEALTH_MEDICAL_BIOMEDICAL,
+  DS: DUO_DISEASE_SPECIFIC,
+  POA: DUO_POPULATION_ANCESTRY,
+};
+
+/**
+ * A description of a DUO code for use in evaluation reasons i.e. "NCU (DUO:0000046)".
+ *
+ * @param code
+ */
+function describeDuoCode(code: string): string {
+  const shorthand = getStringFromDuoCode(code);
+
+  return shorthand ? `${shorthand} (${code})` : code;
+}
+
+/**
+ * Convert the raw JSON stored against a consent statement into a DUO limitation. Our
+ * test data (and possibly others) have stored the JSON as a JSON encoded string - so
+ * we handle both.
+ *
+ * @param raw the data use limitation as returned from the database
+ * @returns the limitation or null if it is not even object like
+ */
+export function parseDuoLimitation(raw: unknown): DuoLimitationType | null {
+  let parsed = raw;
+
+  if (isString(raw)) {
+    try {
+      parsed = JSON.parse(raw);
+    } catch (e) {
+      return null;
+    }
+  }
+
+  if (!isObjectLike(parsed)) return null;
+
+  return parsed as DuoLimitationType;
+}
+
+/**
+ * DS diseases were originally stored as bare strings (before they were
+ * coded) - so we accept either form, treating a bare string as a code from an unknown system.
+ *
+ * @param disease the disease field of a DS limitation
+ */
+function asDiseaseCoding(disease: unknown): CodingType {
+  if (isString(disease)) return { system: "", code: disease };
+
+  if (isObjectLike(disease) && isString((disease as any).code))
+    return disease as CodingType;
+
+  return { system: "", code: "" };
+}
+
+/**
+ * Compare diseases - the same code in different disease ontologies is a different disease (so
+ * a disease with no system only matches another disease with no system).
+ */
+function isSameDisease(
+  a: { system: string; code: string },
+  b: { system: string; code: string }
+): boolean {
+  return a.system === b.system && a.code === b.code;
+}
+
+/**
+ * Evaluate the modifiers of a statement against the application, returning
+ * a failing evaluation for the first modifier that does not allow use - or null if
+ * all the modifiers allow use.
+ *
+ * Modifiers that express obligations we cannot compute from the application coding
+ * (MOR, TS, COL, RTN etc) are passed through - they are obligations on the researcher
+ * (TS and MOR are enforced at the time of data access rather than selection - see evaluateDuoAccessWindow).
+ */
+function evaluateModifiers(
+  application: DuoApplicationContext,
+  modifiers: DuoModifierType[]
+): Omit<DuoStatementEvaluation, "level" | "nodeId" | "code"> | null {
+  for (const m of modifiers) {
+    switch (m.code) {
+      // NPUNCU is a more restrictive form of both NPU and NCU - so is caught here too
+      case DUO_NON_COMMERCIAL_USE:
+      case DUO_NOT_FOR_PROFIT_USE:
+      case DUO_NOT_FOR_PROFIT_NON_COMMERCIAL_USE:
+        if (!application.studyIsNotCommercial)
+          return {
+            allowed: false,
+            modifier: m.code,
+            field: "studyIsNotCommercial",
+            reason: `Consent is restricted to non-commercial use ${describeDuoCode(
+              m.code
+            )} but the study is commercial`,
+          };
+        break;
+      case DUO_PUBLICATION_REQUIRED:
+        if (!application.studyAgreesToPublish)
+          return {
+            allowed: false,
+            modifier: m.code,
+            field: "studyAgreesToPublish",
+            reason: `Consent requires publication of results ${describeDuoCode(
+              m.code
+            )} but the study does not agree to publish`,
+          };
+        break;
+      case DUO_NO_POPULATION_ANCESTRY:
+        if (application.studyType === "POA")
+          return {
+            allowed: false,
+            modifier: m.code,
+            field: "studyType",
+            reason: `Consent prohibits population origins or ancestry research ${describeDuoCode(
+              m.code
+            )}`,
+          };
+        break;
+      case DUO_GEOGRAPHICAL_RESTRICTION: {
+        const regions = (m.regions ?? []).map((r) => r.toUpperCase());
+        const outsideCountries = application.countriesInvolved.filter(
+          (c) => !regions.includes(c.code.toUpperCase())
+        );
+        if (application.countriesInvolved.length === 0)
+          return {
+            allowed: false,
+            modifier: m.code,
+            field: "countriesInvolved",
+            reason: `Consent is geographically restricted ${describeDuoCode(
+              m.code
+            )} but the study has no countries coded`,
+          };
+        if (outsideCountries.length > 0)
+          return {
+            allowed: false,
+            modifier: m.code,
+            field: "countriesInvolved",
+            reason: `Consent is geographically restricted ${describeDuoCode(
+              m.code
+            )} to ${regions.join(
+              ", "
+            )} but the study involves ${outsideCountries
+              .map((c) => c.code)
+              .join(", ")}`,
+          };
+        break;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Evaluate a single DUO data use limitation against the coded details of an application.
+ *
+ * @param application the coded application
+ * @param limitation the DUO limitation from a consent statement
+ */
+export function evaluateDuoLimitation(
+  application: DuoApplicationContext,
+  limitation: DuoLimitationType
+): Omit<DuoStatementEvaluation, "level" | "nodeId"> {
+  if (!("code" in limitation)) {
+    // free text limitations are allowed by our schemas for completeness - but we cannot compute with them
+    return {
+      allowed: false,
+      reason:
+        "Consent statement is free text and cannot be computationally evaluated",
+    };
+  }
+
+  const coded = limitation;
+
+  if (getDuoCatalogueEntry(coded.code)?.kind !== "limitation")
+    return {
+      code: coded.code,
+      allowed: false,
+      reason: `Consent statement has a DUO code ${coded.code} that is not a known data use limitation`,
+    };
+
+  const studyLimitation = STUDY_TYPE_LIMITATION[application.studyType];
+
+  const studyTypePermitted =
+    coded.code === DUO_NO_RESTRICTION ||
+    (!!studyLimitation && isDuoCodeSubsumedBy(studyLimitation, coded.code));
+
+  const modifiers: DuoModifierType[] = isArray(coded.modifiers)
+    ? coded.modifiers
+    : [];
+
+  const hasClinicalCareModifier = modifiers.some(
+    (m) => m.code === DUO_CLINICAL_CARE_USE
+  );
+
+  if (
+    !studyTypePermitted &&
+    !(application.studyType === "CC" && hasClinicalCareModifier)
+  )
+    return {
+      code: coded.code,
+      allowed: false,
+      field: "studyType",
+      reason: `Consent ${describeDuoCode(
+        coded.code
+      )} does not permit a study of type ${application.studyType}`,
+    };
+
+  if (coded.code === DUO_DISEASE_SPECIFIC) {
+    const consentedDisease = asDiseaseCoding(coded.disease);
+
+    if (application.diseasesOfStudy.length === 0)
+      return {
+        code: coded.code,
+        allowed: false,
+        field: "diseasesOfStudy",
+        reason: `Consent is disease specific (${consentedDisease.code}) but the study has no diseases coded`,
+      };
+
+    const otherDiseases = application.diseasesOfStudy.filter(
+      (d) => !isSameDisease(d, consentedDisease)
+    );
+
+    if (otherDiseases.length > 0)
+      return {
+        code: coded.code,
+        allowed: false,
+        field: "diseasesOfStudy",
+        reason: `Consent is disease specific (${
+          consentedDisease.code
+        }) but the study includes ${otherDiseases
+          .map((d) => d.code)
+          .join(", ")}`,
+      };
+  }
+
+  const modifierFailure = evaluateModifiers(application, modifiers);
+
+  if (modifierFailure) return { code: coded.code, ...modifierFailure };
+
+  return {
+    code: coded.code,
+    allowed: true,
+    reason: `Consent ${describeDuoCode(coded.code)} permits a study of type ${
+      application.studyType
+    }`,
+  };
+}
+
+/**
+ * Evaluate the complete set of consent statements that apply to a node against
+ * the application. The statements are collected from the node and every one of its
+ * ancestors (consent on a parent always applies to its children) - and use is only
+ * allowed if *every* statement allows it.
+ *
+ * Nodes for which there are no consent statements at all are not allowed - consent
+ * must be positively established.
+ *
+ * @param application the coded application
+ * @param statements all the statements from the node and its ancestors
+ */
+export function evaluateDuoConsent(
+  application: DuoApplicationContext,
+  statements: LevelledDuoStatement[]
+): DuoConsentEvaluation {
+  if (statements.length === 0)
+    return {
+      allowed: false,
+      evaluations: [],
+    };
+
+  const evaluations: DuoStatementEvaluation[] = statements.map((s) => {
+    const limitation = parseDuoLimitation(s.dataUseLimitation);
+
+    if (!limitation)
+      return {
+        level: s.level,
+        nodeId: s.nodeId,
+        allowed: false,
+        reason: "Consent statement could not be interpreted as DUO",
+      };
+
+    return {
+      level: s.level,
+      nodeId: s.nodeId,
+      ...evaluateDuoLimitation(application, limitation),
+    };
+  });
+
+  return {
+    allowed: evaluations.every((ev) => ev.allowed),
+    evaluations: evaluations,
+  };
+}
+
+/**
+ * The outcome of checking the time based restrictions of all the consent
+ * statements that apply to a node at the moment of access.
+ */
+export type DuoAccessWindowEvaluation = {
+  // true if access to the node must be withheld at this time
+  withheld: boolean;
+  // a human readable explanation of each restriction that caused access to be withheld
+  reasons: string[];
+};
+
+/**
+ * Convert a DUO date (YYYY-MM-DD) into the UTC instant of the start (or end) of that day.
+ */
+function duoDateToInstant(date: string, endOfDay: boolean): Date {
+  return new Date(`${date}T${endOfDay ? "23:59:59.999" : "00:00:00.000"}Z`);
+}
+
+/**
+ * Check the time based modifiers of the consent statements that apply to a node against
+ * a moment in time. Unlike the other modifiers these cannot be decided when the specimens are
+ * selected - they must be checked each time an access artifact (presigned URLs, access points etc)
+ * is created.
+ *
+ * - TS (time limit on use) allows access only between its start and end dates (inclusive)
+ * - MOR (publication moratorium) with a date is treated as an embargo - no access is given until the
+ *   moratorium has passed
+ *
+ * @param statements all the statements from the node and its ancestors
+ * @param now the moment of access
+ */
+export function evaluateDuoAccessWindow(
+  statements: LevelledDuoStatement[],
+  now: Date
+): DuoAccessWindowEvaluation {
+  const reasons: string[] = [];
+
+  for (const s of statements) {
+    const limitation = parseDuoLimitation(s.dataUseLimitation);
+
+    if (!limitation || !has(limitation, "code")) continue;
+
+    const modifiers: any[] = isArray((limitation as any).modifiers)
+      ? (limitation as any).modifiers
+      : [];
+
+    for (const m of modifiers) {
+      if (m.code === DUO_TIME_LIMIT) {
+        if (isString(m.start) && now < duoDateToInstant(m.start, false))
+          reasons.push(
+            `Consent at the ${s.level} level ${describeDuoCode(
+              m.code
+            )} does not allow use until ${m.start}`
+          );
+        if (isString(m.end) && now > duoDateToInstant(m.end, true))
+          reasons.push(
+            `Consent at the ${s.level} level ${describeDuoCode(
+              m.code
+            )} allowed use only until ${m.end}`
+          );
+      }
+
+      if (m.code === DUO_PUBLICATION_MORATORIUM) {
+        if (isString(m.date) && now < duoDateToInstant(m.date, false))
+          reasons.push(
+            `Consent at the ${
+              s.level
+            } level has a publication moratorium ${describeDuoCode(
+              m.code
+            )} until ${m.date}`
+          );
+      }
+    }
+  }
+
+  return {
+    withheld: reasons.length > 0,
+    reasons: reasons,
+  };
+}
+
+/**
+ * How the consent of a node relates to the consent of one of its ancestors.
+ *
+ * - narrows - the node's consent is more restrictive than its ancestor's (not an error
+ *             but worth knowing as it will silently exclude the node from some releases)
+ * - conflicts - the node's consent contradicts its ancestor's (i.e. it claims to allow
+ *             use that the ancestor does not - or the two can never both be satisfied)
+ */
+export type DuoComparison = {
+  kind: "narrows" | "conflicts";
+  reason: string;
+};
+
+/**
+ * Compare the limitation attached to a node with a limitation attached to one of its
+ * ancestors.
+ *
+ * @param ancestor the limitation of the ancestor node
+ * @param node the limitation of the node
+ * @returns the relationship - or null if the node consent adds nothing to the ancestor (or
+ * cannot be compared because either is free text)
+ */
+export function compareDuoLimitations(
+  ancestor: DuoLimitationType,
+  node: DuoLimitationType
+): DuoComparison | null {
+  if (!has(ancestor, "code") || !has(node, "code")) return null;
+
+  const a = ancestor as Extract<DuoLimitationType, { code: string }>;
+  const n = node as Extract<DuoLimitationType, { code: string }>;
+
+  const aModifiers: any[] = isArray(a.modifiers) ? a.modifiers : [];
+  const nModifiers: any[] = isArray(n.modifiers) ? n.modifiers : [];
+
+  // first look for limitations that can never both be satisfied
+  if (a.code === DUO_DISEASE_SPECIFIC && n.code === DUO_DISEASE_SPECIFIC) {
+    const aDisease = asDiseaseCoding((a as any).disease);
+    const nDisease = asDiseaseCoding((n as any).disease);
+
+    if (!isSameDisease(aDisease, nDisease))
+      return {
+        kind: "conflicts",
+        reason: `Consent is specific to disease ${nDisease.code} but its parent is specific to disease ${aDisease.code}`,
+      };
+  }
+
+  const aRegions = aModifiers.find(
+    (m) => m.code === DUO_GEOGRAPHICAL_RESTRICTION
+  )?.regions;
+  const nRegions = nModifiers.find(
+    (m) => m.code === DUO_GEOGRAPHICAL_RESTRICTION
+  )?.regions;
+
+  if (
+    isArray(aRegions) &&
+    isArray(nRegions) &&
+    !nRegions.some((r: string) =>
+      aRegions.some((ar: string) => ar.toUpperCase() === r.toUpperCase())
+    )
+  )
+    return {
+      kind: "conflicts",
+      reason: `Consent is geographically restricted to ${nRegions.join(
+        ", "
+      )} but its parent is restricted to ${aRegions.join(", ")}`,
+    };
+
+  if (a.code !== n.code) {
+    // NRES parents are narrowed by anything
+    if (a.code === DUO_NO_RESTRICTION || isDuoCodeSubsumedBy(n.code, a.code))
+      return {
+        kind: "narrows",
+        reason: `Consent ${describeDuoCode(
+          n.code
+        )} narrows its parent consent ${describeDuoCode(a.code)}`,
+      };
+
+    if (n.code === DUO_NO_RESTRICTION || isDuoCodeSubsumedBy(a.code, n.code))
+      return {
+        kind: "conflicts",
+        reason: `Consent ${describeDuoCode(
+          n.code
+        )} is broader than its parent consent ${describeDuoCode(
+          a.code
+        )} (which always applies)`,
+      };
+
+    return {
+      kind: "conflicts",
+      reason: `Consent ${describeDuoCode(
+        n.code
+      )} is incompatible with its parent consent ${describeDuoCode(a.code)}`,
+    };
+  }
+
+  const extraModifiers = nModifiers.filter(
+    (m) => !aModifiers.some((am) => am.code === m.code)
+  );
+
+  if (extraModifiers.length > 0)
+    return {
+      kind: "narrows",
+      reason: `Consent adds modifiers ${extraModifiers
+        .map((m) => describeDuoCode(m.code))
+        .join(", ")} to its parent consent ${describeDuoCode(a.code)}`,
+    };
+
+  if (
+    isArray(aRegions) &&
+    isArray(nRegions) &&
+    nRegions.length < aRegions.length
+  )
+    return {
+      kind: "narrows",
+      reason: `Consent narrows its parent's geographical restriction to ${nRegions.join(
+        ", "
+      )}`,
+    };
+
+  return null;
+}
@@ -1,7 +1,11 @@
 import e from "../../../dbschema/edgeql-js";
-import { Client } from "edgedb";
+import { Client, Executor } from "edgedb";
 import { AuthenticatedUser } from "../authenticated-user";
 import { UsersService } from "./users-service";
+import { ManualPin } from "./select-service";
+import { Base7807Error } from "../../api/errors/_error.types";
+import { randomBytes } from "crypto";
+import { ReleaseFileTypeType } from "@umccr/elsa-types";
 
 /**
  * A set of code snippets used within the releases service - but broken out into separate
@@ -13,6 +17,17 @@ export function collapseExternalIds(externals: any): string {
   else return externals[0].value ?? "<empty id value>";
 }
 
+/**
+ * Every type of data file - which is what a release allows access to unless the data
+ * owner has restricted it.
+ */
+export const ALL_RELEASE_FILE_TYPES: ReleaseFileTypeType[] = [
+  "FASTQ",
+  "BAM",
+  "CRAM",
+  "VCF",
+];
+
 /**
  * Do a boundary level check for entry point into most public service functions - that
  * checks if the user has a role in the given release (and therefore also if the release
@@ -39,6 +54,36 @@ export async function doRoleInReleaseCheck(
   };
 }
 
+/**
+ * Generate a new random password for a release - used for encrypting the artifacts
+ * downloaded from the release.
+ */
+export function generateReleasePassword(): string {
+  return randomBytes(12).toString("base64url");
+}
+
+/**
+ * Do a boundary level check for entry into any service function that gives out access
+ * to the data of a release - that checks the release is currently within its access window
+ * (and hence that access has not been stopped by the data owner).
+ *
+ * @param edgeDbClient
+ * @param releaseId
+ */
+export async function doAccessEnabledCheck(
+  edgeDbClient: Client,
+  releaseId: string
+) {
+  const { releaseInfo } = await getReleaseInfo(edgeDbClient, releaseId);
+
+  if (!releaseInfo.accessEnabled)
+    throw new Base7807Error(
+      "Release access not enabled",
+      403,
+      `Access to the data of release ${releaseId} is not currently enabled`
+    );
+}
+
 /**
  * Do a 'lite' fetch of the information about the given release and return it in a format
  * that is useful and friendly for the caller (i.e. ids -> JS Set())
@@ -66,6 +111,11 @@ export async function getReleaseInfo(edgeDbClient: Client, releaseId: string) {
     },
     runningJob: {
       ...e.job.Job["*"],
+      __type__: { name: true },
+      ...e.is(e.job.SelectJob, {
+        processedCaseCount: true,
+        processingSeconds: true,
+      }),
     },
     // the master computation of whether we are currently enabled for access
     accessEnabled: e.op(
@@ -135,3 +185,49 @@ export async function getReleaseInfo(edgeDbClient: Client, releaseId: string) {
     releaseSelectedCasesQuery,
   };
 }
+
+/**
+ * Get all the manual pins of a release - keyed by the id of the pinned node.
+ *
+ * @param executor the edgedb client or transaction to run the query in
+ * @param releaseId
+ */
+export async function getReleaseManualPins(
+  executor: Executor,
+  releaseId: string
+): Promise<Map<string, ManualPin>> {
+  const pinShape = {
+    id: true,
+    "@who": true,
+    "@recorded": true,
+    "@reason": true,
+  };
+
+  const release = await e
+    .select(e.release.Release, (r) => ({
+      manualExclusions: pinShape,
+      manualInclusions: pinShape,
+      filter: e.op(r.id, "=", e.uuid(releaseId)),
+    }))
+    .assert_single()
+    .run(executor);
+
+  const pins = new Map<string, ManualPin>();
+
+  const addPins = (pin: ManualPin["pin"], nodes: any[]) => {
+    for (const n of nodes)
+      pins.set(n.id, {
+        nodeId: n.id,
+        pin: pin,
+        who: n["@who"] ?? "",
+        recorded: n["@recorded"],
+        reason: n["@reason"] ?? "",
+      });
+  };
+
+  // exclusions are added last so that they win should a node ever somehow be pinned both ways
+  addPins("include", release?.manualInclusions ?? []);
+  addPins("exclude", release?.manualExclusions ?? []);
+
+  return pins;
+}
@@ -0,0 +1,116 @@
+import { GetObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { inject, injectable } from "tsyringe";
+import { Readable } from "stream";
+import { open } from "fs/promises";
+import { join } from "path";
+import { pathToFileURL } from "url";
+import { ByteRange } from "./htsget-indexes";
+
+// htsget tickets are meant to be used straight away - so their URLs need not last long
+export const HTSGET_TICKET_EXPIRY_SECONDS = 60 * 60;
+
+/**
+ * Where the htsget service reads the indexes and headers of genomic files from - and
+ * what the URLs in the tickets it hands out point to.
+ */
+export interface HtsgetFileStore {
+  /**
+   * Read a range of bytes (or all) of a file.
+   *
+   * @param url the (s3://) URL of the file as recorded in the dataset
+   * @param range the range of bytes to read (or undefined for the whole file)
+   */
+  read(url: string, range?: ByteRange): Promise<Buffer>;
+
+  /**
+   * A URL that a client can fetch the file from. Any range of the file is asked
+   * for by the client using a Range header.
+   *
+   * @param url the (s3://) URL of the file as recorded in the dataset
+   */
+  ticketUrl(url: string): Promise<string>;
+}
+
+function splitS3Url(url: string): { bucket: string; key: string } {
+  const _match = url.match(/^s3?:\/\/([^\/]+)\/?(.*?)$/);
+  if (!_match) throw new Error("Bad S3 URL format");
+  return { bucket: _match[1], key: _match[2] };
+}
+
+/**
+ * The file store of the files of our datasets held in S3 - where tickets are
+ * presigned S3 URLs.
+ */
+@injectable()
+export class S3HtsgetFileStore implements HtsgetFileStore {
+  constructor(@inject("S3Client") private readonly s3Client: S3Client) {}
+
+  public async read(url: string, range?: ByteRange): Promise<Buffer> {
+    const { bucket, key } = splitS3Url(url);
+
+    const result = await this.s3Client.send(
+      new GetObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Range: range ? `bytes=${range.start}-${range.end - 1}` : undefined,
+      })
+    );
+
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of result.Body as Readable) chunks.push(chunk);
+
+    return Buffer.concat(chunks);
+  }
+
+  public async ticketUrl(url: string): Promise<string> {
+    const { bucket, key } = splitS3Url(url);
+
+    return await getSignedUrl(
+      this.s3Client,
+      new GetObjectCommand({ Bucket: bucket, Key: key }),
+      { expiresIn: HTSGET_TICKET_EXPIRY_SECONDS }
+    );
+  }
+}
+
+/**
+ * A file store where s3://bucket/key is the local file <root>/bucket/key - and
+ * tickets are file:// URLs. This is for testing (and for local development
+ * without AWS).
+ */
+export class LocalHtsgetFileStore implements HtsgetFileStore {
+  constructor(private readonly rootDirectory: string) {}
+
+  public async read(url: string, range?: ByteRange): Promise<Buffer> {
+    const file = await open(this.localPath(url), "r");
+
+    try {
+      if (!range) return await file.readFile();
+
+      const buffer = Buffer.alloc(range.end - range.start);
+
+      const { bytesRead } = await file.read(
+        buffer,
+        0,
+        buffer.length,
+        range.start
+      );
+
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await file.close();
+    }
+  }
+
+  public async ticketUrl(url: string): Promise<string> {
+    return pathToFileURL(this.localPath(url)).href;
+  }
+
+  private localPath(url: string): string {
+    const { bucket, key } = splitS3Url(url);
+
+    return join(this.rootDirectory, bucket, key);
+  }
+}
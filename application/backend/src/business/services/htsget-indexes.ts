@@ -0,0 +1,499 @@
+import { gunzipSync, inflateRawSync } from "zlib";
+
+/**
+ * A range of bytes in a file - from start (inclusive) to end (exclusive).
+ */
+export type ByteRange = { start: number; end: number };
+
+/**
+ * The index of a genomic file (BAM, CRAM or bgzipped VCF) - able to say which
+ * ranges of bytes of the file hold which parts of the file. The ranges are always of
+ * whole BGZF blocks (or CRAM containers) - so they can be fetched and concatenated
+ * into a valid file.
+ */
+export interface HtsgetIndex {
+  // the names of the references (if the index records them - otherwise they
+  // have to come from the header of the file itself)
+  readonly referenceNames?: string[];
+
+  // the bytes that must be appended to the ranges to make a valid file
+  readonly eof: Buffer;
+
+  /**
+   * The range of the header of the file.
+   */
+  headerRange(): ByteRange;
+
+  /**
+   * The ranges of the body of the file that hold the records overlapping a region
+   * of a reference.
+   *
+   * @param referenceIndex the position of the reference in the header of the file
+   * @param start the 0-based start of the region
+   * @param end the 0-based (exclusive) end of the region
+   */
+  regionRanges(referenceIndex: number, start: number, end: number): ByteRange[];
+
+  /**
+   * The ranges of the body of the file that hold the unplaced unmapped reads.
+   */
+  unmappedRanges(): ByteRange[];
+}
+
+// the empty BGZF block that terminates every BGZF file (BAM and bgzipped VCF)
+export const BGZF_EOF = Buffer.from(
+  "1f8b08040000000000ff0600424302001b0003000000000000000000",
+  "hex"
+);
+
+// the empty container that terminates every CRAM (v3) file
+export const CRAM_EOF = Buffer.from(
+  "0f000000ffffffff0fe0454f4600000000010005bdd94f0001000606010001000100ee63014b",
+  "hex"
+);
+
+// the largest position that can be indexed by a BAI or TBI index
+export const MAX_BINNING_POSITION = 1 << 29;
+
+// the pseudo-bin that holds metadata (rather than chunks) in BAI and TBI indexes
+const PSEUDO_BIN = 37450;
+
+/**
+ * Decompress BGZF data (a series of gzip blocks). Any partial block at the end
+ * of the data is ignored.
+ *
+ * @param data
+ */
+export function bgzfDecompress(data: Buffer): Buffer {
+  const parts: Buffer[] = [];
+
+  let offset = 0;
+
+  while (offset + 18 <= data.length) {
+    if (data[offset] !== 0x1f || data[offset + 1] !== 0x8b)
+      throw new Error("Data is not BGZF compressed");
+
+    const xlen = data.readUInt16LE(offset + 10);
+
+    // the BC extra subfield holds the total size of the block (minus 1)
+    let bsize: number | undefined;
+
+    for (let x = offset + 12; x < offset + 12 + xlen; ) {
+      const slen = data.readUInt16LE(x + 2);
+      if (data[x] === 66 && data[x + 1] === 67 && slen === 2)
+        bsize = data.readUInt16LE(x + 4);
+      x += 4 + slen;
+    }
+
+    if (bsize === undefined) throw new Error("Data is not BGZF compressed");
+
+    const blockEnd = offset + bsize + 1;
+
+    if (blockEnd > data.length) break;
+
+    parts.push(inflateRawSync(data.subarray(offset + 12 + xlen, blockEnd - 8)));
+
+    offset = blockEnd;
+  }
+
+  return Buffer.concat(parts);
+}
+
+/**
+ * The names of the references in the header of a BAM file.
+ *
+ * @param headerData the (BGZF compressed) bytes of the header of the BAM
+ */
+export function parseBamReferenceNames(headerData: Buffer): string[] {
+  const raw = bgzfDecompress(headerData);
+
+  if (raw.toString("latin1", 0, 4) !== "BAM\x01")
+    throw new Error("Data is not the header of a BAM file");
+
+  let offset = 8 + raw.readInt32LE(4);
+
+  const referenceCount = raw.readInt32LE(offset);
+  offset += 4;
+
+  const names: string[] = [];
+
+  for (let i = 0; i < referenceCount; i++) {
+    const nameLength = raw.readInt32LE(offset);
+    // the name is NUL terminated and followed by the length of the reference
+    names.push(raw.toString("latin1", offset + 4, offset + 4 + nameLength - 1));
+    offset += 4 + nameLength + 4;
+  }
+
+  return names;
+}
+
+type Chunk = { beg: bigint; end: bigint };
+
+const compressedOffset = (v: bigint) => Number(v >> 16n);
+const uncompressedOffset = (v: bigint) => Number(v & 0xffffn);
+
+/**
+ * The bins of a BAI/TBI index that may hold records overlapping a region (the
+ * standard reg2bins of the SAM specification).
+ */
+function regionToBins(start: number, end: number): number[] {
+  const bins = [0];
+  const last = end - 1;
+
+  for (const [first, shift] of [
+    [1, 26],
+    [9, 23],
+    [73, 20],
+    [585, 17],
+    [4681, 14],
+  ]) {
+    for (let k = first + (start >> shift); k <= first + (last >> shift); k++)
+      bins.push(k);
+  }
+
+  return bins;
+}
+
+/**
+ * Sort and merge ranges that overlap (or touch).
+ */
+export function mergeRanges(ranges: ByteRange[]): ByteRange[] {
+  const sorted = ranges
+    .filter((r) => r.end > r.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: ByteRange[] = [];
+
+  for (const r of sorted) {
+    const previous = merged[merged.length - 1];
+
+    if (previous && r.start <= previous.end)
+      previous.end = Math.max(previous.end, r.end);
+    else merged.push({ ...r });
+  }
+
+  return merged;
+}
+
+/**
+ * Read a BAI (BAM) or TBI (bgzipped VCF) index.
+ *
+ * @param data the bytes of the index file
+ * @param fileSize the size of the file that is indexed
+ */
+export function readBinningIndex(data: Buffer, fileSize: number): HtsgetIndex {
+  // TBI indexes are themselves BGZF compressed - BAI indexes are not
+  const raw =
+    data[0] === 0x1f && data[1] === 0x8b ? bgzfDecompress(data) : data;
+
+  const magic = raw.toString("latin1", 0, 4);
+
+  if (magic !== "BAI\x01" && magic !== "TBI\x01")
+    throw new Error("Data is not a BAI or TBI index");
+
+  const referenceCount = raw.readInt32LE(4);
+
+  let offset = 8;
+  let referenceNames: string[] | undefined;
+
+  if (magic === "TBI\x01") {
+    // skipping the format and column details (6 int32s) to get to the reference names
+    const namesLength = raw.readInt32LE(32);
+    referenceNames = raw
+      .toString("latin1", 36, 36 + namesLength)
+      .split("\0")
+      .slice(0, referenceCount);
+    offset = 36 + namesLength;
+  }
+
+  const references: { bins: Map<number, Chunk[]>; intervals: bigint[] }[] = [];
+
+  // every compressed offset in the index is the start of a block - which is how
+  // we know where blocks end
+  const blockStarts = new Set<number>();
+
+  for (let r = 0; r < referenceCount; r++) {
+    const bins = new Map<number, Chunk[]>();
+
+    const binCount = raw.readInt32LE(offset);
+    offset += 4;
+
+    for (let b = 0; b < binCount; b++) {
+      const bin = raw.readUInt32LE(offset);
+      const chunkCount = raw.readInt32LE(offset + 4);
+      offset += 8;
+
+      const chunks: Chunk[] = [];
+
+      for (let c = 0; c < chunkCount; c++) {
+        chunks.push({
+          beg: raw.readBigUInt64LE(offset),
+          end: raw.readBigUInt64LE(offset + 8),
+        });
+        offset += 16;
+      }
+
+      if (bin === PSEUDO_BIN) continue;
+
+      bins.set(bin, chunks);
+
+      for (const c of chunks) {
+        blockStarts.add(compressedOffset(c.beg));
+        blockStarts.add(compressedOffset(c.end));
+      }
+    }
+
+    const intervalCount = raw.readInt32LE(offset);
+    offset += 4;
+
+    const intervals: bigint[] = [];
+
+    for (let i = 0; i < intervalCount; i++) {
+      intervals.push(raw.readBigUInt64LE(offset));
+      blockStarts.add(compressedOffset(intervals[i]));
+      offset += 8;
+    }
+
+    references.push({ bins, intervals });
+  }
+
+  const dataEnd = fileSize - BGZF_EOF.length;
+  const sortedBlockStarts = Array.from(blockStarts).sort((a, b) => a - b);
+
+  // the end of the block holding the given virtual offset (or just the compressed
+  // offset if the virtual offset is at the very start of a block)
+  const blockEnd = (v: bigint): number => {
+    const c = compressedOffset(v);
+
+    if (uncompressedOffset(v) === 0) return c;
+
+    // binary search for the first block that starts after c
+    let low = 0;
+    let high = sortedBlockStarts.length;
+
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (sortedBlockStarts[middle] > c) high = middle;
+      else low = middle + 1;
+    }
+
+    return low < sortedBlockStarts.length ? sortedBlockStarts[low] : dataEnd;
+  };
+
+  const allChunks = references.flatMap((r) =>
+    Array.from(r.bins.values()).flat()
+  );
+
+  const firstDataOffset = allChunks.reduce(
+    (first, c) => Math.min(first, compressedOffset(c.beg)),
+    dataEnd
+  );
+
+  return {
+    referenceNames,
+    eof: BGZF_EOF,
+
+    headerRange: () => ({ start: 0, end: firstDataOffset }),
+
+    regionRanges: (referenceIndex, start, end) => {
+      const reference = references[referenceIndex];
+
+      if (!reference) return [];
+
+      // the linear index tells us the earliest record that can overlap the start
+      const minimum = reference.intervals[start >> 14] ?? 0n;
+
+      return mergeRanges(
+        regionToBins(start, Math.min(end, MAX_BINNING_POSITION))
+          .flatMap((b) => reference.bins.get(b) ?? [])
+          .filter((c) => c.end > minimum)
+          .map((c) => ({
+            start: compressedOffset(c.beg),
+            end: blockEnd(c.end),
+          }))
+      );
+    },
+
+    unmappedRanges: () => {
+      // the unplaced unmapped reads come after every read placed on a reference
+      const lastPlaced = allChunks.reduce(
+        (last, c) => Math.max(last, compressedOffset(c.end)),
+        firstDataOffset
+      );
+
+      return mergeRanges([{ start: lastPlaced, end: dataEnd }]);
+    },
+  };
+}
+
+/**
+ * Read an ITF8 encoded integer (as used in CRAM).
+ *
+ * @returns the integer and the number of bytes it was encoded in
+ */
+function readItf8(data: Buffer, offset: number): [number, number] {
+  const b0 = data[offset];
+
+  if ((b0 & 0x80) === 0) return [b0, 1];
+  if ((b0 & 0x40) === 0) return [((b0 & 0x3f) << 8) | data[offset + 1], 2];
+  if ((b0 & 0x20) === 0)
+    return [
+      ((b0 & 0x1f) << 16) | (data[offset + 1] << 8) | data[offset + 2],
+      3,
+    ];
+  if ((b0 & 0x10) === 0)
+    return [
+      ((b0 & 0x0f) << 24) |
+        (data[offset + 1] << 16) |
+        (data[offset + 2] << 8) |
+        data[offset + 3],
+      4,
+    ];
+
+  return [
+    ((b0 & 0x0f) << 28) |
+      (data[offset + 1] << 20) |
+      (data[offset + 2] << 12) |
+      (data[offset + 3] << 4) |
+      (data[offset + 4] & 0x0f),
+    5,
+  ];
+}
+
+/**
+ * The number of bytes of an LTF8 encoded integer (as used in CRAM) - which is
+ * one more than the number of leading 1 bits of its first byte.
+ */
+function ltf8Length(b0: number): number {
+  let length = 1;
+
+  for (let mask = 0x80; mask > 0 && (b0 & mask) !== 0; mask >>= 1) length++;
+
+  return length;
+}
+
+/**
+ * The names of the references in the header of a CRAM file.
+ *
+ * @param headerData the bytes of the file definition and header container of the CRAM
+ */
+export function parseCramReferenceNames(headerData: Buffer): string[] {
+  if (headerData.toString("latin1", 0, 4) !== "CRAM")
+    throw new Error("Data is not the header of a CRAM file");
+
+  const majorVersion = headerData[4];
+
+  // skip the file definition and the length of the header container
+  let offset = 26 + 4;
+
+  const skipItf8 = () => (offset += readItf8(headerData, offset)[1]);
+
+  // reference id, start, span and record count
+  for (let i = 0; i < 4; i++) skipItf8();
+
+  // record counter and base count
+  offset += ltf8Length(headerData[offset]);
+  offset += ltf8Length(headerData[offset]);
+
+  // block count
+  skipItf8();
+
+  const [landmarkCount, landmarkCountLength] = readItf8(headerData, offset);
+  offset += landmarkCountLength;
+  for (let i = 0; i < landmarkCount; i++) skipItf8();
+
+  if (majorVersion >= 3) offset += 4;
+
+  // the first block of the header container holds the SAM header
+  const method = headerData[offset];
+  offset += 2;
+  skipItf8();
+
+  const [compressedSize, compressedSizeLength] = readItf8(headerData, offset);
+  offset += compressedSizeLength;
+  skipItf8();
+
+  const blockData = headerData.subarray(offset, offset + compressedSize);
+
+  let block: Buffer;
+
+  if (method === 0) block = blockData;
+  else if (method === 1) block = gunzipSync(blockData);
+  else
+    throw new Error(`CRAM header compressed with unsupported method ${method}`);
+
+  const text = block.toString("utf8", 4, 4 + block.readInt32LE(0));
+
+  return text
+    .split("\n")
+    .filter((line) => line.startsWith("@SQ\t"))
+    .map(
+      (line) =>
+        line
+          .split("\t")
+          .find((field) => field.startsWith("SN:"))
+          ?.substring(3) ?? ""
+    );
+}
+
+/**
+ * Read a CRAI (CRAM) index.
+ *
+ * @param data the bytes of the index file
+ * @param fileSize the size of the CRAM file that is indexed
+ */
+export function readCramIndex(data: Buffer, fileSize: number): HtsgetIndex {
+  const entries = gunzipSync(data)
+    .toString("utf8")
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line) => {
+      const fields = line.split("\t").map(Number);
+      return {
+        referenceIndex: fields[0],
+        // 1-based
+        start: fields[1],
+        span: fields[2],
+        containerOffset: fields[3],
+      };
+    });
+
+  const dataEnd = fileSize - CRAM_EOF.length;
+
+  const containerOffsets = Array.from(
+    new Set(entries.map((e) => e.containerOffset))
+  ).sort((a, b) => a - b);
+
+  const containerRange = (containerOffset: number): ByteRange => ({
+    start: containerOffset,
+    end: containerOffsets.find((o) => o > containerOffset) ?? dataEnd,
+  });
+
+  return {
+    eof: CRAM_EOF,
+
+    headerRange: () => ({
+      start: 0,
+      end: containerOffsets.length ? containerOffsets[0] : dataEnd,
+    }),
+
+    regionRanges: (referenceIndex, start, end) =>
+      mergeRanges(
+        entries
+          .filter(
+            (e) =>
+              e.referenceIndex === referenceIndex &&
+              e.start - 1 < end &&
+              e.start - 1 + e.span > start
+          )
+          .map((e) => containerRange(e.containerOffset))
+      ),
+
+    unmappedRanges: () =>
+      mergeRanges(
+        entries
+          .filter((e) => e.referenceIndex === -1)
+          .map((e) => containerRange(e.containerOffset))
+      ),
+  };
+}
@@ -0,0 +1,365 @@
+import * as edgedb from "edgedb";
+import e from "../../../dbschema/edgeql-js";
+import { inject, injectable, singleton } from "tsyringe";
+import {
+  HtsgetFormatType,
+  HtsgetServiceInfoType,
+  HtsgetTicketType,
+  HtsgetUrlType,
+} from "@umccr/elsa-types";
+import { AuthenticatedUser } from "../authenticated-user";
+import { HtsgetError } from "../../api/errors/htsget-error";
+import { UsersService } from "./users-service";
+import { ALL_RELEASE_FILE_TYPES, getReleaseInfo } from "./helpers";
+import { getSpecimenFileRecords } from "./aws-base-service";
+import { HtsgetFileStore } from "./htsget-file-store";
+import {
+  ByteRange,
+  HtsgetIndex,
+  parseBamReferenceNames,
+  parseCramReferenceNames,
+  readBinningIndex,
+  readCramIndex,
+} from "./htsget-indexes";
+
+export type HtsgetDatatype = "reads" | "variants";
+
+/**
+ * The query parameters of an htsget request - as they come in from the
+ * query string (so still to be validated).
+ */
+export type HtsgetQuery = {
+  format?: string;
+  class?: string;
+  referenceName?: string;
+  start?: string;
+  end?: string;
+};
+
+const DATATYPE_FORMATS: Record<HtsgetDatatype, HtsgetFormatType[]> = {
+  reads: ["BAM", "CRAM"],
+  variants: ["VCF"],
+};
+
+/**
+ * The GA4GH htsget (v1.3) service for the files of a release. Each id is the
+ * identifier of a selected specimen of the release - and the tickets point to
+ * (ranges of) the BAM/CRAM/VCF files of the specimen in the file store.
+ */
+@injectable()
+@singleton()
+export class HtsgetService {
+  constructor(
+    @inject("Database") private readonly edgeDbClient: edgedb.Client,
+    @inject("HtsgetFileStore") private readonly fileStore: HtsgetFileStore,
+    private readonly usersService: UsersService
+  ) {}
+
+  public getServiceInfo(datatype: HtsgetDatatype): HtsgetServiceInfoType {
+    return {
+      id: `org.umccr.elsa.htsget.${datatype}`,
+      name: `Elsa Data htsget (${datatype})`,
+      type: { group: "org.ga4gh", artifact: "htsget", version: "1.3.0" },
+      version: "1.3.0",
+      htsget: {
+        datatype: datatype,
+        formats: DATATYPE_FORMATS[datatype],
+        // we always return whole records - so fields and tags are never removed
+        fieldsParametersEffective: false,
+        tagsParametersEffective: false,
+      },
+    };
+  }
+
+  /**
+   * Get a ticket for (the region of) the reads or variants of a specimen of the release.
+   * Access is only given to the files of selected specimens whose consent currently allows
+   * access, within the access window of the release, and of the types of file that the
+   * release allows.
+   *
+   * @param user
+   * @param releaseId
+   * @param datatype reads (BAM/CRAM) or variants (VCF)
+   * @param id the identifier of the specimen
+   * @param query the htsget query parameters
+   */
+  public async getTicket(
+    user: AuthenticatedUser,
+    releaseId: string,
+    datatype: HtsgetDatatype,
+    id: string,
+    query: HtsgetQuery
+  ): Promise<HtsgetTicketType> {
+    const format = (query.format ??
+      DATATYPE_FORMATS[datatype][0]) as HtsgetFormatType;
+
+    if (!DATATYPE_FORMATS[datatype].includes(format))
+      throw new HtsgetError(
+        "UnsupportedFormat",
+        `The format ${format} is not available for ${datatype} - only ${DATATYPE_FORMATS[
+          datatype
+        ].join(", ")}`
+      );
+
+    const region = this.parseRegion(datatype, query);
+
+    const userRole = await this.usersService.roleInRelease(user, releaseId);
+
+    if (!userRole)
+      throw new HtsgetError(
+        "PermissionDenied",
+        `Not a participant of release ${releaseId} (or the release does not exist)`
+      );
+
+    const { releaseInfo, releaseInfoQuery } = await getReleaseInfo(
+      this.edgeDbClient,
+      releaseId
+    );
+
+    if (!releaseInfo.accessEnabled)
+      throw new HtsgetError(
+        "PermissionDenied",
+        `Access to the data of release ${releaseId} is not currently enabled`
+      );
+
+    if (
+      !(releaseInfo.allowedFileTypes ?? ALL_RELEASE_FILE_TYPES).includes(format)
+    )
+      throw new HtsgetError(
+        "PermissionDenied",
+        `Files of type ${format} cannot be accessed via release ${releaseId}`
+      );
+
+    // only the requested specimen (if selected) - so a ticket costs the same however big the release
+    const { files, withheld } = await getSpecimenFileRecords(
+      this.edgeDbClient,
+      e.select(releaseInfoQuery.selectedSpecimens, (sp) => ({
+        filter: e.op(
+          id,
+          "in",
+          e.set(e.array_unpack(sp.externalIdentifiers).value)
+        ),
+      })),
+      new Date()
+    );
+
+    // the files (and withheld specimens) are only those of the requested specimen - which
+    // may have been asked for by any of its identifiers
+    if (withheld.length > 0)
+      throw new HtsgetError(
+        "PermissionDenied",
+        `The consent of specimen ${id} does not currently allow access`
+      );
+
+    const file = files.find((f) => f.fileType === format);
+
+    if (!file)
+      throw new HtsgetError(
+        "NotFound",
+        `There is no ${format} file of specimen ${id} in release ${releaseId}`
+      );
+
+    const fileUrl = await this.fileStore.ticketUrl(file.s3Url);
+
+    const md5 = file.md5 && file.md5 !== "NONE" ? file.md5 : undefined;
+
+    // without a region the ticket is simply the whole file
+    if (!region && query.class !== "header")
+      return { htsget: { format, urls: [{ url: fileUrl }], md5 } };
+
+    const index = await this.readIndex(format, file.s3Url, Number(file.size));
+
+    const rangeUrl = (
+      range: ByteRange,
+      urlClass: "header" | "body"
+    ): HtsgetUrlType => ({
+      url: fileUrl,
+      headers: { Range: `bytes=${range.start}-${range.end - 1}` },
+      class: urlClass,
+    });
+
+    const urls: HtsgetUrlType[] = [rangeUrl(index.headerRange(), "header")];
+
+    if (region) {
+      const bodyRanges =
+        region.referenceName === "*"
+          ? index.unmappedRanges()
+          : index.regionRanges(
+              await this.referenceIndex(format, file.s3Url, index, region),
+              region.start,
+              region.end
+            );
+
+      for (const r of bodyRanges) urls.push(rangeUrl(r, "body"));
+
+      urls.push({
+        url: `data:;base64,${index.eof.toString("base64")}`,
+        class: "body",
+      });
+    }
+
+    return { htsget: { format, urls } };
+  }
+
+  /**
+   * Validate the region asked for in the query (if any).
+   */
+  private parseRegion(
+    datatype: HtsgetDatatype,
+    query: HtsgetQuery
+  ): { referenceName: string; start: number; end: number } | undefined {
+    if (query.class !== undefined && query.class !== "header")
+      throw new HtsgetError(
+        "InvalidInput",
+        `The class ${query.class} is not known - the only class is header`
+      );
+
+    if (query.class === "header") {
+      if (query.referenceName || query.start || query.end)
+        throw new HtsgetError(
+          "InvalidInput",
+          "A request for the header cannot also ask for a region"
+        );
+      return undefined;
+    }
+
+    if (!query.referenceName) {
+      if (query.start || query.end)
+        throw new HtsgetError(
+          "InvalidInput",
+          "A start or end can only be given along with a referenceName"
+        );
+      return undefined;
+    }
+
+    if (query.referenceName === "*") {
+      if (datatype !== "reads")
+        throw new HtsgetError(
+          "InvalidInput",
+          "Unplaced unmapped records (referenceName *) only exist for reads"
+        );
+
+      if (query.start || query.end)
+        throw new HtsgetError(
+          "InvalidInput",
+          "A start or end cannot be given for unplaced unmapped reads"
+        );
+
+      return { referenceName: "*", start: 0, end: 0 };
+    }
+
+    const parsePosition = (name: string, value?: string) => {
+      if (value === undefined) return undefined;
+
+      if (!/^[0-9]+$/.test(value) || !Number.isSafeInteger(Number(value)))
+        throw new HtsgetError(
+          "InvalidInput",
+          `The ${name} must be a non-negative integer`
+        );
+
+      return Number(value);
+    };
+
+    const start = parsePosition("start", query.start) ?? 0;
+    const end = parsePosition("end", query.end) ?? Number.MAX_SAFE_INTEGER;
+
+    if (start > end)
+      throw new HtsgetError(
+        "InvalidRange",
+        `The start ${start} is after the end ${end}`
+      );
+
+    return { referenceName: query.referenceName, start, end };
+  }
+
+  /**
+   * Read the index that sits alongside the given file.
+   */
+  private async readIndex(
+    format: HtsgetFormatType,
+    fileUrl: string,
+    fileSize: number
+  ): Promise<HtsgetIndex> {
+    const indexUrl = await this.indexUrl(format, fileUrl);
+
+    if (!indexUrl)
+      throw new HtsgetError(
+        "NotFound",
+        `The ${format} file ${fileUrl} has no index so cannot be accessed by region`
+      );
+
+    const indexData = await this.fileStore.read(indexUrl);
+
+    return format === "CRAM"
+      ? readCramIndex(indexData, fileSize)
+      : readBinningIndex(indexData, fileSize);
+  }
+
+  private async indexUrl(
+    format: HtsgetFormatType,
+    fileUrl: string
+  ): Promise<string | undefined> {
+    let indexes: { indexUrl: string }[];
+
+    switch (format) {
+      case "BAM":
+        indexes = await e
+          .select(e.lab.ArtifactBam, (a) => ({
+            indexUrl: a.baiFile.url,
+            filter: e.op(a.bamFile.url, "=", fileUrl),
+          }))
+          .run(this.edgeDbClient);
+        break;
+      case "CRAM":
+        indexes = await e
+          .select(e.lab.ArtifactCram, (a) => ({
+            indexUrl: a.craiFile.url,
+            filter: e.op(a.cramFile.url, "=", fileUrl),
+          }))
+          .run(this.edgeDbClient);
+        break;
+      case "VCF":
+        indexes = await e
+          .select(e.lab.ArtifactVcf, (a) => ({
+            indexUrl: a.tbiFile.url,
+            filter: e.op(a.vcfFile.url, "=", fileUrl),
+          }))
+          .run(this.edgeDbClient);
+        break;
+    }
+
+    return indexes[0]?.indexUrl;
+  }
+
+  /**
+   * The position of the reference in the file - with the names coming from the
+   * index if it has them or otherwise from the header of the file.
+   */
+  private async referenceIndex(
+    format: HtsgetFormatType,
+    fileUrl: string,
+    index: HtsgetIndex,
+    region: { referenceName: string }
+  ): Promise<number> {
+    let names = index.referenceNames;
+
+    if (!names) {
+      const header = await this.fileStore.read(fileUrl, index.headerRange());
+
+      names =
+        format === "CRAM"
+          ? parseCramReferenceNames(header)
+          : parseBamReferenceNames(header);
+    }
+
+    const referenceIndex = names.indexOf(region.referenceName);
+
+    if (referenceIndex < 0)
+      throw new HtsgetError(
+        "NotFound",
+        `The reference ${region.referenceName} is not in the ${format} file`
+      );
+
+    return referenceIndex;
+  }
+}
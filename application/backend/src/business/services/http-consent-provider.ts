@@ -0,0 +1,99 @@
+import axios from "axios";
+import { isArray, isObjectLike, isString, uniqBy } from "lodash";
+import { ConsentProvider, ConsentProviderIdentifier } from "./consent-provider";
+import { ConsentLevel } from "./duo-helpers";
+
+// a consent source that does not answer within this time fails the select job batch (rather
+// than stalling the job)
+export const DEFAULT_CONSENT_SOURCE_TIMEOUT_MS = 10 * 1000;
+
+// the largest request/response we will exchange with a consent source - far more than any
+// batch of identifiers (and their statements) needs
+export const MAX_CONSENT_SOURCE_BODY_BYTES = 10 * 1024 * 1024;
+
+/**
+ * A consent provider that fetches DUO statements from an HTTP/JSON service.
+ *
+ * The service is sent a POST of
+ *
+ *   { "identifiers": [ { "system": "", "value": "HG00096" }, { "system": "", "value": "CHARLES" } ] }
+ *
+ * and must respond with a JSON array of the identifiers for which it holds consent - each
+ * along with its DUO data use limitations i.e.
+ *
+ *   [ { "system": "", "value": "CHARLES", "statements": [ { "code": "DUO:0000006", "modifiers": [] } ] } ]
+ *
+ * Identifiers for which the service holds no consent can be omitted from the response.
+ *
+ * A single provider instance is used for the duration of a select job batch - so we cache
+ * results to save asking about the same identifier twice (i.e. for patients with many
+ * specimens).
+ */
+export class HttpConsentProvider implements ConsentProvider {
+  // keyed by system *and* value - as identical values from different systems are
+  // different identifiers
+  private readonly cache = new Map<string, unknown[]>();
+
+  constructor(
+    private readonly url: string,
+    private readonly timeoutMs: number = DEFAULT_CONSENT_SOURCE_TIMEOUT_MS
+  ) {}
+
+  public async getStatements(
+    level: ConsentLevel,
+    externalIdentifiers: ConsentProviderIdentifier[]
+  ): Promise<unknown[]> {
+    const uncached = uniqBy(
+      externalIdentifiers.filter((ei) => !this.cache.has(cacheKey(ei))),
+      cacheKey
+    );
+
+    if (uncached.length > 0) {
+      const response = await axios.post(
+        this.url,
+        {
+          identifiers: uncached.map((ei) => ({
+            system: ei.system,
+            value: ei.value,
+          })),
+        },
+        {
+          headers: { Accept: "application/json" },
+          timeout: this.timeoutMs,
+          // the host of the url has been checked against the allowed consent source hosts - but
+          // the target of a redirect has not (so we refuse to follow any)
+          maxRedirects: 0,
+          maxContentLength: MAX_CONSENT_SOURCE_BODY_BYTES,
+          maxBodyLength: MAX_CONSENT_SOURCE_BODY_BYTES,
+        }
+      );
+
+      if (!isArray(response.data))
+        throw new Error(
+          `Consent source ${this.url} did not return a JSON array of identifiers`
+        );
+
+      const found = new Map<string, unknown[]>();
+
+      for (const r of response.data)
+        if (
+          isObjectLike(r) &&
+          isString(r.system) &&
+          isString(r.value) &&
+          isArray(r.statements)
+        )
+          found.set(cacheKey(r), r.statements);
+
+      for (const ei of uncached)
+        this.cache.set(cacheKey(ei), found.get(cacheKey(ei)) ?? []);
+    }
+
+    return externalIdentifiers.flatMap(
+      (ei) => this.cache.get(cacheKey(ei)) ?? []
+    );
+  }
+}
+
+function cacheKey(identifier: ConsentProviderIdentifier): string {
+  return JSON.stringify([identifier.system, identifier.value]);
+}
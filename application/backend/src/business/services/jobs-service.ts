@@ -1,26 +1,130 @@
 import * as edgedb from "edgedb";
 import e from "../../../dbschema/edgeql-js";
 import { AuthenticatedUser } from "../authenticated-user";
-import { doRoleInReleaseCheck, getReleaseInfo } from "./helpers";
+import {
+  collapseExternalIds,
+  doRoleInReleaseCheck,
+  getReleaseInfo,
+  getReleaseManualPins,
+} from "./helpers";
 import { Base7807Error } from "../../api/errors/_error.types";
-import { ReleaseDetailType } from "@umccr/elsa-types";
+import {
+  ReleaseDetailType,
+  ReleaseJobMessageLevelType,
+  ReleaseJobMessageType,
+  ReleaseJobSelectionComparisonType,
+  ReleaseJobSummaryType,
+  ReleaseSelectionPreviewAcceptType,
+  ReleaseSelectionPreviewDatasetType,
+  ReleaseSelectionPreviewSpecimenType,
+  ReleaseSelectionPreviewType,
+} from "@umccr/elsa-types";
 import { inject, injectable, Lifecycle, scoped, singleton } from "tsyringe";
 import { differenceInSeconds } from "date-fns";
+import { isUndefined } from "lodash";
 import { SelectService } from "./select-service";
+import { DuoStatementEvaluation } from "./duo-helpers";
+import { createConsentProvider } from "./consent-provider";
 import { ReleasesService } from "./releases-service";
 import { UsersService } from "./users-service";
 import { Transaction } from "edgedb/dist/transaction";
+import { createPagedResult, PagedResult } from "../../api/api-pagination";
+import { jobMessage, jobMessagesLiteral } from "./jobs/job-messages";
+import { jobTypeFromTypeName } from "./jobs/job-kind";
 
 class NotAuthorisedToControlJob extends Base7807Error {
-  constructor(userRole: string, releaseId: string) {
+  constructor(userRole: string | null, releaseId: string) {
     super(
       "Not authorised to control jobs for this release",
       403,
-      `User is only a ${userRole} in the release ${releaseId}`
+      userRole
+        ? `User is only a ${userRole} in the release ${releaseId}`
+        : `User is not a participant in the release ${releaseId}`
     );
   }
 }
 
+class JobNotFound extends Base7807Error {
+  constructor(jobId: string, releaseId: string) {
+    super(
+      "Job not found",
+      404,
+      `Job ${jobId} does not exist in the release ${releaseId}`
+    );
+  }
+}
+
+class JobNotPreviewable extends Base7807Error {
+  constructor(jobId: string) {
+    super(
+      "Job is not previewable",
+      400,
+      `Job ${jobId} is not a successfully completed dry run select job`
+    );
+  }
+}
+
+class PreviewAlreadyDecided extends Base7807Error {
+  constructor(jobId: string, outcome: string) {
+    super(
+      "Preview has already been decided",
+      400,
+      `The preview of job ${jobId} has already been ${outcome}`
+    );
+  }
+}
+
+class PreviewSpecimenNotChanged extends Base7807Error {
+  constructor(jobId: string, specimenIds: string[]) {
+    super(
+      "Specimen is not a change in the preview",
+      400,
+      `Specimen(s) ${specimenIds.join(
+        " "
+      )} are not changes in the preview of job ${jobId}`
+    );
+  }
+}
+
+/**
+ * An edgeql expression of whether a specimen is pinned by any of the given pinned
+ * nodes - either directly or by a pin on its patient or case.
+ *
+ * @param specimen
+ * @param pinnedNodes
+ */
+function isPinnedBy(specimen: any, pinnedNodes: any) {
+  return e.op(
+    e.op(
+      e.op(specimen, "in", pinnedNodes),
+      "or",
+      e.op(specimen.patient, "in", pinnedNodes)
+    ),
+    "or",
+    e.op(specimen.case_, "in", pinnedNodes)
+  );
+}
+
+/**
+ * The outcome of the consent evaluation of the specimens of one case of a select job.
+ */
+type SelectJobCaseResult = {
+  caseId: string;
+  decisions: {
+    specimenId: string;
+    selected: boolean;
+    evaluations: DuoStatementEvaluation[];
+    manualPinReason?: string;
+  }[];
+  messages: ReleaseJobMessageType[];
+};
+
+// the number of cases each select job transaction will process (unless told otherwise)
+export const DEFAULT_SELECT_JOB_BATCH_SIZE = 20;
+
+// the number of the final job messages returned in the history of previous jobs
+const PREVIOUS_JOB_MESSAGE_COUNT = 5;
+
 @injectable()
 @singleton()
 export class JobsService {
@@ -28,10 +132,19 @@ export class JobsService {
     @inject("Database") private edgeDbClient: edgedb.Client,
     private usersService: UsersService,
     private releasesService: ReleasesService,
-    private selectService: SelectService
+    private selectService: SelectService,
+    @inject("ConsentSourceHosts") private consentSourceHosts: string[]
   ) {}
 
-  private async startGenericJob(
+  /**
+   * Start a job of any kind for the given release - guaranteeing that it will be
+   * the only running job for the release. The final step is expected to insert the
+   * job (and is performed in the same transaction as the check).
+   *
+   * @param releaseId
+   * @param finalJobStartStep
+   */
+  public async startGenericJob(
     releaseId: string,
     finalJobStartStep: (tx: Transaction) => Promise<void>
   ) {
@@ -66,17 +179,60 @@ export class JobsService {
     });
   }
 
+  /**
+   * Check that the user is allowed to control the jobs of the release - returning
+   * their role in the release.
+   *
+   * @param user
+   * @param releaseId
+   */
+  public async checkCanControlJobs(user: AuthenticatedUser, releaseId: string) {
+    const userRole = await this.usersService.roleInRelease(user, releaseId);
+
+    if (userRole != "DataOwner")
+      throw new NotAuthorisedToControlJob(userRole, releaseId);
+
+    return userRole;
+  }
+
+  /**
+   * Start a job of any kind for the given release on behalf of a user - checking that
+   * the user is allowed to control the jobs of the release. Returns the release information
+   * which will now have a 'runningJob' field.
+   *
+   * @param user
+   * @param releaseId
+   * @param finalJobStartStep
+   */
+  public async startReleaseJob(
+    user: AuthenticatedUser,
+    releaseId: string,
+    finalJobStartStep: (tx: Transaction) => Promise<void>
+  ): Promise<ReleaseDetailType> {
+    const userRole = await this.checkCanControlJobs(user, releaseId);
+
+    await this.startGenericJob(releaseId, finalJobStartStep);
+
+    return await this.releasesService.getBase(releaseId, userRole);
+  }
+
   /**
    * For a given release, start a background job identifying/selecting cases/patients/specimens
    * that should be included. Returns the release information which will now have
    * a 'runningJob' field.
    *
+   * A dry run job computes its selection in the same way - but leaves the release untouched
+   * when it ends. Its selection can then be previewed against the release, and accepted
+   * in whole or in part.
+   *
    * @param user
    * @param releaseId
+   * @param isDryRun
    */
   public async startSelectJob(
     user: AuthenticatedUser,
-    releaseId: string
+    releaseId: string,
+    isDryRun: boolean = false
   ): Promise<ReleaseDetailType> {
     const { userRole } = await doRoleInReleaseCheck(
       this.usersService,
@@ -100,10 +256,16 @@ export class JobsService {
           status: e.job.JobStatus.running,
           started: e.datetime_current(),
           percentDone: e.int16(0),
-          messages: e.literal(e.array(e.str), ["Created"]),
+          messages: jobMessagesLiteral([
+            jobMessage(
+              "info",
+              isDryRun ? "Select job (dry run) created" : "Select job created"
+            ),
+          ]),
           initialTodoCount: e.count(releaseAllDatasetCasesQuery),
           todoQueue: releaseAllDatasetCasesQuery,
           selectedSpecimens: e.set(),
+          isDryRun: isDryRun,
         })
         .run(tx);
     });
@@ -112,6 +274,13 @@ export class JobsService {
     return await this.releasesService.getBase(releaseId, userRole);
   }
 
+  /**
+   * Request the cancellation of the running job (of any kind) of the given release. The job
+   * is cancelled asynchronously the next time the job dispatcher runs.
+   *
+   * @param user
+   * @param releaseId
+   */
   public async cancelInProgressSelectJob(
     user: AuthenticatedUser,
     releaseId: string
@@ -146,10 +315,15 @@ export class JobsService {
       if (!currentJob) throw new Error("No job yet");
 
       const x = await e
-        .update(e.job.SelectJob, (sj) => ({
-          filter: e.op(sj.id, "=", e.uuid(currentJob.id)),
+        .update(e.job.Job, (j) => ({
+          filter: e.op(j.id, "=", e.uuid(currentJob.id)),
           set: {
             requestedCancellation: true,
+            messages: e.op(
+              j.messages,
+              "++",
+              jobMessagesLiteral([jobMessage("info", "Cancellation requested")])
+            ),
           },
         }))
         .run(tx);
@@ -160,6 +334,28 @@ export class JobsService {
     return await this.releasesService.getBase(releaseId, userRole);
   }
 
+  /**
+   * Return the ids (and types) of any jobs that are currently in progress.
+   */
+  public async getInProgressJobs() {
+    const jobsInProgress = await e
+      .select(e.job.Job, (j) => ({
+        id: true,
+        __type__: { name: true },
+        requestedCancellation: true,
+        consecutiveErrorCount: true,
+        filter: e.op(j.status, "=", e.job.JobStatus.running),
+      }))
+      .run(this.edgeDbClient);
+
+    return jobsInProgress.map((j) => ({
+      jobId: j.id,
+      jobTypeName: j.__type__.name,
+      requestedCancellation: j.requestedCancellation,
+      consecutiveErrorCount: j.consecutiveErrorCount,
+    }));
+  }
+
   /**
    * Return the ids for any 'select' jobs that are currently in progress.
    */
@@ -181,16 +377,26 @@ export class JobsService {
   }
 
   /**
-   * Safely do a batch of work from the queue of work for the given
-   * release.
+   * Safely do batches of work from the queue of work for the given
+   * release - until the queue is empty or we have used up our time budget.
+   *
+   * Each batch is processed in a single transaction that records the decisions, takes the
+   * cases off the queue and checkpoints the progress of the job. So a worker that dies
+   * part way through loses at most the batch it was working on - which will be cleanly
+   * processed by the next worker.
    *
    * @param jobId
-   * @param roughlyMaxSeconds roughly the number of seconds we should process items for (may exceed)
+   * @param roughlyMaxSeconds roughly the number of seconds we should process items for (may exceed by up to one batch)
+   * @param batchSize the number of cases to take off the queue in each transaction
+   * @returns the number of cases processed
    */
   public async doSelectJobWork(
     jobId: string,
-    roughlyMaxSeconds: number
+    roughlyMaxSeconds: number,
+    batchSize: number = DEFAULT_SELECT_JOB_BATCH_SIZE
   ): Promise<number> {
+    if (batchSize < 1) throw new Error("Batch size must be at least 1");
+
     const selectJobQuery = e
       .select(e.job.SelectJob, (j) => ({
         filter: e.op(j.id, "=", e.uuid(jobId)),
@@ -208,60 +414,198 @@ export class JobsService {
       }))
       .run(this.edgeDbClient);
 
+    if (!applicationCoded)
+      throw new Error("Select Job release had no coded application");
+
+    const release = await e
+      .select(selectJobReleaseQuery, () => ({
+        id: true,
+        consentSourceUrl: true,
+      }))
+      .assert_single()
+      .run(this.edgeDbClient);
+
+    if (!release) throw new Error("Select Job had no release");
+
+    // any external source of consent the release has been configured with
+    const consentProvider = createConsentProvider(
+      release.consentSourceUrl,
+      this.consentSourceHosts
+    );
+
+    // any manual pins made by the data owners override the consent evaluation
+    const manualPins = await getReleaseManualPins(
+      this.edgeDbClient,
+      release.id
+    );
+
+    // the consent statements that can be attached to any node of the dataset tree
+    const consentShape = {
+      statements: {
+        ...e.is(e.consent.ConsentStatementDuo, {
+          dataUseLimitation: true,
+        }),
+      },
+    };
+
     const startTime = new Date();
     let processedCount = 0;
 
     // we want our job processing to be 'time' focussed... so do work until we roughly hit the
     // maximum time allotted
-    while (differenceInSeconds(startTime, new Date()) < 10) {
-      // we need to process a job off the queue - create the corresponding result (if any) - and save the result
-      // we do this transactionally so we can never miss an item
-      const c = await this.edgeDbClient.transaction(async (tx) => {
-        const casesFromQueue = await e
-          .select(selectJobQuery.todoQueue, (c) => ({
-            ...e.dataset.DatasetCase["*"],
-            dataset: {
-              ...e.dataset.Dataset["*"],
-            },
-            patients: {
-              ...e.dataset.DatasetPatient["*"],
-              specimens: {
-                ...e.dataset.DatasetSpecimen["*"],
-              },
+    while (differenceInSeconds(new Date(), startTime) < roughlyMaxSeconds) {
+      const batchStartTime = new Date();
+
+      // consent may be fetched from an external source - so a batch is read and evaluated
+      // *outside* of any transaction (edgedb retries transactions on conflict - which would
+      // repeat every request to the consent source)
+      const casesFromQueue = await e
+        .select(selectJobQuery.todoQueue, (c) => ({
+          ...e.dataset.DatasetCase["*"],
+          consent: consentShape,
+          dataset: {
+            ...e.dataset.Dataset["*"],
+            consent: consentShape,
+          },
+          patients: {
+            ...e.dataset.DatasetPatient["*"],
+            consent: consentShape,
+            specimens: {
+              ...e.dataset.DatasetSpecimen["*"],
+              consent: consentShape,
             },
-            limit: 1,
-          }))
-          .run(tx);
+          },
+          limit: batchSize,
+        }))
+        .run(this.edgeDbClient);
 
-        // todo: need to work out the magic of how EdgeDb wants us to type this kind of stuff...
-        // (it can't be like this??)
-        // edgedb.reflection.$expr_Literal<
-        //           edgedb.reflection.ScalarType<"std::uuid", string, true, string>
-        //         >
-        const resultSpecimens: any[] = [];
-
-        const resultMessages: string[] = [];
-
-        // todo: get some messages back from the selection service
-        resultMessages.push("Doing some work");
-
-        for (const cas of casesFromQueue) {
-          for (const pat of cas.patients || []) {
-            for (const spec of pat.specimens || []) {
-              if (
-                await this.selectService.isSelectable(
-                  applicationCoded as any,
-                  cas as any,
-                  pat as any,
-                  spec as any
-                )
-              ) {
-                resultSpecimens.push(e.uuid(spec.id));
-              }
-            }
+      if (casesFromQueue.length === 0) break;
+
+      const caseResults: SelectJobCaseResult[] = [];
+
+      for (const cas of casesFromQueue) {
+        const caseResult: SelectJobCaseResult = {
+          caseId: cas.id,
+          decisions: [],
+          messages: [],
+        };
+
+        if (!(cas.patients || []).some((p) => p.specimens?.length))
+          caseResult.messages.push(
+            jobMessage(
+              "warning",
+              `Case ${cas.id} has no specimens so nothing from it can be selected`
+            )
+          );
+
+        for (const pat of cas.patients || []) {
+          for (const spec of pat.specimens || []) {
+            const evaluation = await this.selectService.evaluateConsent(
+              applicationCoded as any,
+              cas.dataset as any,
+              cas as any,
+              pat as any,
+              spec as any,
+              consentProvider
+            );
+
+            const manualPin = this.selectService.findManualPin(
+              manualPins,
+              cas as any,
+              pat as any,
+              spec as any
+            );
+
+            // every decision is recorded (along with its reasons) - irrespective of the outcome
+            caseResult.decisions.push({
+              specimenId: spec.id,
+              selected: manualPin
+                ? manualPin.pin === "include"
+                : evaluation.allowed,
+              evaluations: evaluation.evaluations,
+              manualPinReason: manualPin?.reason,
+            });
           }
         }
 
+        caseResults.push(caseResult);
+      }
+
+      // we save the results of the batch and take its cases off the queue - we do this
+      // transactionally so we can never miss (or double count) an item
+      const c = await this.edgeDbClient.transaction(async (tx) => {
+        // the queue may have changed since we read it (i.e. the job was cancelled) - so
+        // we only record the results of those cases still waiting on the queue
+        const stillQueued = new Set(
+          (
+            await e
+              .select(selectJobQuery.todoQueue, (c) => ({
+                id: true,
+                filter: e.op(
+                  c.id,
+                  "in",
+                  e.set(...caseResults.map((cr) => e.uuid(cr.caseId)))
+                ),
+              }))
+              .run(tx)
+          ).map((c) => c.id)
+        );
+
+        const batchResults = caseResults.filter((cr) =>
+          stillQueued.has(cr.caseId)
+        );
+
+        if (batchResults.length === 0) return 0;
+
+        const decisions = batchResults.flatMap((cr) => cr.decisions);
+
+        const resultSpecimens = decisions
+          .filter((d) => d.selected)
+          .map((d) => e.uuid(d.specimenId));
+
+        const resultMessages = batchResults.flatMap((cr) => cr.messages);
+
+        // every decision of the batch is inserted in the one query (a for over a json array)
+        if (decisions.length > 0)
+          await e
+            .update(e.job.SelectJob, (sj) => ({
+              filter: e.op(sj.id, "=", e.uuid(jobId)),
+              set: {
+                decisions: {
+                  "+=": e.for(
+                    e.json_array_unpack(
+                      e.json(
+                        decisions.map((d) => ({
+                          ...d,
+                          manualPinReason: d.manualPinReason ?? null,
+                        }))
+                      )
+                    ),
+                    (d) =>
+                      e.insert(e.release.SelectionDecision, {
+                        specimen: e
+                          .select(e.dataset.DatasetSpecimen, (ds) => ({
+                            filter: e.op(
+                              ds.id,
+                              "=",
+                              e.cast(e.uuid, e.json_get(d, "specimenId"))
+                            ),
+                          }))
+                          .assert_single(),
+                        selected: e.cast(e.bool, e.json_get(d, "selected")),
+                        evaluations: e.json_get(d, "evaluations"),
+                        // a json null casts to an empty set (so no reason)
+                        manualPinReason: e.cast(
+                          e.str,
+                          e.json_get(d, "manualPinReason")
+                        ),
+                      })
+                  ),
+                },
+              },
+            }))
+            .run(tx);
+
         if (resultSpecimens.length > 0) {
           // get all the entries from the db corresponding to the specimens we chose
           const newResults = e.select(e.dataset.DatasetSpecimen, (ds) => ({
@@ -269,7 +613,7 @@ export class JobsService {
           }));
 
           // we add those specimens that survived our consent logic into the selectSpecimens set
-          const x = await e
+          await e
             .update(e.job.SelectJob, (sj) => ({
               filter: e.op(sj.id, "=", e.uuid(jobId)),
               set: {
@@ -280,55 +624,77 @@ export class JobsService {
         }
 
         // and we remove *all* the cases that we process as part of this batch from the todoQueue
-        if (casesFromQueue.length > 0) {
-          const doneCases = e.select(e.dataset.DatasetCase, (dc) => ({
-            filter: e.op(
-              dc.id,
-              "in",
-              e.set(...casesFromQueue.map((m) => e.uuid(m.id)))
-            ),
-          }));
+        resultMessages.push(
+          jobMessage(
+            "info",
+            `Processed ${batchResults.length} case(s) - selected ${resultSpecimens.length} of ${decisions.length} specimen(s)`
+          )
+        );
 
-          await e
-            .update(e.job.SelectJob, (sj) => ({
-              filter: e.op(sj.id, "=", e.uuid(jobId)),
-              set: {
-                // take off from the queue
-                todoQueue: {
-                  "-=": doneCases,
-                },
-                // append any new messages for the UI
-                // TODO: make messages work
-                // messages: e.op(sj.messages, "++", e.array(resultMessages)),
-                // a crude calculation in the db of the percent done
-                percentDone: e.cast(
-                  e.int16,
-                  e.math.floor(
+        const doneCases = e.select(e.dataset.DatasetCase, (dc) => ({
+          filter: e.op(
+            dc.id,
+            "in",
+            e.set(...batchResults.map((cr) => e.uuid(cr.caseId)))
+          ),
+        }));
+
+        await e
+          .update(e.job.SelectJob, (sj) => ({
+            filter: e.op(sj.id, "=", e.uuid(jobId)),
+            set: {
+              // take off from the queue
+              todoQueue: {
+                "-=": doneCases,
+              },
+              // append any new messages for the UI
+              messages: e.op(
+                sj.messages,
+                "++",
+                jobMessagesLiteral(resultMessages)
+              ),
+              // checkpoint our progress
+              processedCaseCount: e.op(
+                sj.processedCaseCount,
+                "+",
+                batchResults.length
+              ),
+              processingSeconds: e.op(
+                sj.processingSeconds,
+                "+",
+                (new Date().getTime() - batchStartTime.getTime()) / 1000
+              ),
+              // a crude calculation in the db of the percent done
+              percentDone: e.cast(
+                e.int16,
+                e.math.floor(
+                  e.op(
                     e.op(
                       e.op(
-                        e.op(
-                          e.op(sj.initialTodoCount, "-", e.count(sj.todoQueue)),
-                          "+",
-                          casesFromQueue.length
-                        ),
-                        "*",
-                        // so we actually don't want this percentDone to ever get us to 100%...
-                        // that step is reserved for the final end job step
-                        99.99
+                        e.op(sj.initialTodoCount, "-", e.count(sj.todoQueue)),
+                        "+",
+                        batchResults.length
                       ),
-                      "/",
-                      sj.initialTodoCount
-                    )
+                      "*",
+                      // so we actually don't want this percentDone to ever get us to 100%...
+                      // that step is reserved for the final end job step
+                      99.99
+                    ),
+                    "/",
+                    sj.initialTodoCount
                   )
-                ),
-              },
-            }))
-            .run(tx);
-        }
-        processedCount += casesFromQueue.length;
-        return casesFromQueue.length;
+                )
+              ),
+            },
+          }))
+          .run(tx);
+
+        return batchResults.length;
       });
 
+      // only count our progress once the transaction has committed
+      processedCount += c;
+
       if (c === 0) break;
     }
 
@@ -349,34 +715,88 @@ export class JobsService {
     isCancellation: boolean
   ): Promise<void> {
     // we need to move the new results into the release - and close this job off
-    await this.edgeDbClient.transaction(async (tx) => {
-      const selectJobQuery = e
-        .select(e.job.SelectJob, (j) => ({
-          filter: e.op(j.id, "=", e.uuid(jobId)),
-        }))
-        .assert_single();
+    await this.endGenericJob(
+      jobId,
+      "Select job",
+      wasSuccessful,
+      isCancellation,
+      async (tx) => {
+        if (!isCancellation && wasSuccessful) {
+          const selectJobQuery = e
+            .select(e.job.SelectJob, (j) => ({
+              filter: e.op(j.id, "=", e.uuid(jobId)),
+            }))
+            .assert_single();
 
-      if (!selectJobQuery)
-        throw new Error("Job id passed in was not a Select Job");
+          const selectJob = await e
+            .select(selectJobQuery, () => ({ isDryRun: true }))
+            .run(tx);
 
-      if (!isCancellation) {
-        const selectJobReleaseQuery = e.select(selectJobQuery.forRelease);
+          // the results of a dry run stay with the job until they are explicitly accepted
+          if (selectJob?.isDryRun) return;
 
-        // selectSpecimens from the job move straight over into the release selectedSpecimens
-        // and blank out the runningJob (making the job now an orphan only gettable from getPreviousJob())
-        if (wasSuccessful) {
+          // selectSpecimens from the job move over into the release selectedSpecimens
+          // and blank out the runningJob (making the job now an orphan only gettable from getPreviousJob())
+          // - pins may have been changed while the job was running so they are applied
+          // once more as the selection moves into the release
           await e
-            .update(selectJobReleaseQuery, (rq) => ({
+            .update(e.select(selectJobQuery.forRelease), (rq) => ({
               set: {
-                selectedSpecimens: selectJobQuery.selectedSpecimens,
+                selectedSpecimens: e.select(
+                  e.dataset.DatasetSpecimen,
+                  (ds) => ({
+                    filter: e.op(
+                      e.op(
+                        e.op(ds, "in", selectJobQuery.selectedSpecimens),
+                        "or",
+                        isPinnedBy(ds, rq.manualInclusions)
+                      ),
+                      "and",
+                      e.op("not", isPinnedBy(ds, rq.manualExclusions))
+                    ),
+                  })
+                ),
+                selectionDecisions: selectJobQuery.decisions,
               },
             }))
             .run(tx);
         }
       }
+    );
+  }
+
+  /**
+   * Finish off a job of any kind - setting its final status. The optional final step
+   * can move the results of the job into place (and is performed in the same
+   * transaction as the status change).
+   *
+   * @param jobId
+   * @param jobDescription a description of the job for the job log (i.e. "Select job")
+   * @param wasSuccessful
+   * @param isCancellation
+   * @param finalJobEndStep
+   */
+  public async endGenericJob(
+    jobId: string,
+    jobDescription: string,
+    wasSuccessful: boolean,
+    isCancellation: boolean,
+    finalJobEndStep?: (tx: Transaction) => Promise<void>
+  ): Promise<void> {
+    await this.edgeDbClient.transaction(async (tx) => {
+      const jobQuery = e
+        .select(e.job.Job, (j) => ({
+          filter: e.op(j.id, "=", e.uuid(jobId)),
+        }))
+        .assert_single();
+
+      if (!(await jobQuery.run(tx)))
+        throw new Error(`Job id ${jobId} passed in was not a job`);
+
+      if (finalJobEndStep) await finalJobEndStep(tx);
 
       await e
-        .update(selectJobQuery, (sj) => ({
+        .update(jobQuery, (j) => ({
           set: {
             percentDone: 100,
             ended: e.datetime_current(),
@@ -385,6 +805,17 @@ export class JobsService {
               : wasSuccessful
               ? e.job.JobStatus.succeeded
               : e.job.JobStatus.failed,
+            messages: e.op(
+              j.messages,
+              "++",
+              jobMessagesLiteral([
+                isCancellation
+                  ? jobMessage("info", `${jobDescription} cancelled`)
+                  : wasSuccessful
+                  ? jobMessage("info", `${jobDescription} succeeded`)
+                  : jobMessage("error", `${jobDescription} failed`),
+              ])
+            ),
           },
         }))
         .run(tx);
@@ -392,19 +823,555 @@ export class JobsService {
   }
 
   /**
-   * Return all the non-running jobs that have been associated with this release.
+   * Append a message to the log of a job - for use by job workers that want to
+   * record events outside the normal processing of work (i.e. errors).
+   *
+   * @param jobId
+   * @param level
+   * @param text
+   */
+  public async appendJobMessage(
+    jobId: string,
+    level: ReleaseJobMessageLevelType,
+    text: string
+  ): Promise<void> {
+    await e
+      .update(e.job.Job, (j) => ({
+        filter: e.op(j.id, "=", e.uuid(jobId)),
+        set: {
+          messages: e.op(
+            j.messages,
+            "++",
+            jobMessagesLiteral([jobMessage(level, text)])
+          ),
+        },
+      }))
+      .run(this.edgeDbClient);
+  }
+
+  /**
+   * Set the number of rounds of work in a row of a job that have ended in an error.
+   *
+   * @param jobId
+   * @param count
+   */
+  public async setJobConsecutiveErrorCount(
+    jobId: string,
+    count: number
+  ): Promise<void> {
+    await e
+      .update(e.job.Job, (j) => ({
+        filter: e.op(j.id, "=", e.uuid(jobId)),
+        set: {
+          consecutiveErrorCount: e.int16(count),
+        },
+      }))
+      .run(this.edgeDbClient);
+  }
+
+  /**
+   * Return a page of the log messages of a job (running or not) in the given release -
+   * in the order they were logged.
+   *
+   * @param user
+   * @param releaseId
+   * @param jobId
+   * @param limit
+   * @param offset
+   */
+  public async getJobMessages(
+    user: AuthenticatedUser,
+    releaseId: string,
+    jobId: string,
+    limit: number,
+    offset: number
+  ): Promise<PagedResult<ReleaseJobMessageType>> {
+    await doRoleInReleaseCheck(this.usersService, user, releaseId);
+
+    const job = await e
+      .select(e.job.Job, (j) => ({
+        messages: true,
+        filter: e.op(
+          e.op(j.id, "=", e.uuid(jobId)),
+          "and",
+          e.op(j.forRelease.id, "=", e.uuid(releaseId))
+        ),
+      }))
+      .assert_single()
+      .run(this.edgeDbClient);
+
+    if (!job) throw new JobNotFound(jobId, releaseId);
+
+    return createPagedResult(
+      job.messages.slice(offset, offset + limit),
+      job.messages.length,
+      limit
+    );
+  }
+
+  /**
+   * Return all the non-running jobs that have been associated with this release (most
+   * recent first).
    *
+   * @param user
    * @param releaseId
    */
-  public async getPreviousJobs(releaseId: string) {
-    return await e
-      .select(e.job.Job, (sj) => ({
+  public async getPreviousJobs(
+    user: AuthenticatedUser,
+    releaseId: string
+  ): Promise<ReleaseJobSummaryType[]> {
+    const { userRole } = await doRoleInReleaseCheck(
+      this.usersService,
+      user,
+      releaseId
+    );
+
+    if (userRole != "DataOwner")
+      throw new NotAuthorisedToControlJob(userRole, releaseId);
+
+    const previousJobs = await e
+      .select(e.job.Job, (j) => ({
+        id: true,
+        __type__: { name: true },
+        status: true,
+        created: true,
+        started: true,
+        ended: true,
+        messages: true,
+        ...e.is(e.job.SelectJob, {
+          initialTodoCount: true,
+          isDryRun: true,
+          previewOutcome: true,
+        }),
+        // counted in the database (there is no need to fetch the specimens themselves)
+        selectedCount: e.count(
+          e.select(e.job.SelectJob, (sj) => ({
+            filter: e.op(sj.id, "=", j.id),
+          })).selectedSpecimens
+        ),
         filter: e.op(
-          e.op(sj.status, "!=", e.job.JobStatus.running),
+          e.op(j.status, "!=", e.job.JobStatus.running),
           "and",
-          e.op(sj.forRelease.id, "=", e.uuid(releaseId))
+          e.op(j.forRelease.id, "=", e.uuid(releaseId))
         ),
+        order_by: {
+          expression: j.created,
+          direction: e.DESC,
+        },
       }))
       .run(this.edgeDbClient);
+
+    return previousJobs.map((pj) => ({
+      id: pj.id,
+      jobType: jobTypeFromTypeName(pj.__type__.name),
+      status: pj.status,
+      created: pj.created,
+      started: pj.started,
+      ended: pj.ended ?? undefined,
+      initialTodoCount: pj.initialTodoCount ?? undefined,
+      selectedCount:
+        pj.__type__.name === "job::SelectJob" ? pj.selectedCount : undefined,
+      isDryRun: pj.isDryRun ?? undefined,
+      previewOutcome: pj.previewOutcome ?? undefined,
+      messages: pj.messages.slice(-PREVIOUS_JOB_MESSAGE_COUNT),
+    }));
+  }
+
+  /**
+   * Compare the specimens selected by a (previous) select job against the specimens
+   * currently selected in the release - i.e. to see the effect of manual changes since
+   * the job ran, or to see how a re-run of the job would differ.
+   *
+   * @param user
+   * @param releaseId
+   * @param jobId
+   */
+  public async getJobSelectionComparison(
+    user: AuthenticatedUser,
+    releaseId: string,
+    jobId: string
+  ): Promise<ReleaseJobSelectionComparisonType> {
+    const { userRole } = await doRoleInReleaseCheck(
+      this.usersService,
+      user,
+      releaseId
+    );
+
+    if (userRole != "DataOwner")
+      throw new NotAuthorisedToControlJob(userRole, releaseId);
+
+    const specimenShape = {
+      id: true,
+      externalIdentifiers: true,
+    };
+
+    const job = await e
+      .select(e.job.SelectJob, (j) => ({
+        selectedSpecimens: specimenShape,
+        forRelease: {
+          selectedSpecimens: specimenShape,
+        },
+        filter: e.op(
+          e.op(j.id, "=", e.uuid(jobId)),
+          "and",
+          e.op(j.forRelease.id, "=", e.uuid(releaseId))
+        ),
+      }))
+      .assert_single()
+      .run(this.edgeDbClient);
+
+    if (!job) throw new JobNotFound(jobId, releaseId);
+
+    const jobIds = new Set<string>(job.selectedSpecimens.map((s) => s.id));
+    const currentIds = new Set<string>(
+      job.forRelease.selectedSpecimens.map((s) => s.id)
+    );
+
+    return {
+      jobId: jobId,
+      jobSelectedCount: jobIds.size,
+      currentSelectedCount: currentIds.size,
+      bothSelectedCount: [...jobIds].filter((id) => currentIds.has(id)).length,
+      onlyInJob: job.selectedSpecimens
+        .filter((s) => !currentIds.has(s.id))
+        .map((s) => collapseExternalIds(s.externalIdentifiers)),
+      onlyInCurrent: job.forRelease.selectedSpecimens
+        .filter((s) => !jobIds.has(s.id))
+        .map((s) => collapseExternalIds(s.externalIdentifiers)),
+    };
+  }
+
+  /**
+   * Preview the selection of a dry run select job against the current selection of
+   * the release - listing every specimen the job would add or remove, with counts
+   * per dataset.
+   *
+   * @param user
+   * @param releaseId
+   * @param jobId
+   */
+  public async getSelectJobPreview(
+    user: AuthenticatedUser,
+    releaseId: string,
+    jobId: string
+  ): Promise<ReleaseSelectionPreviewType> {
+    const { userRole } = await doRoleInReleaseCheck(
+      this.usersService,
+      user,
+      releaseId
+    );
+
+    if (userRole != "DataOwner")
+      throw new NotAuthorisedToControlJob(userRole, releaseId);
+
+    const { job, added, removed, unchanged } = await this.getPreviewChanges(
+      this.edgeDbClient,
+      releaseId,
+      jobId
+    );
+
+    const datasets: { [uri: string]: ReleaseSelectionPreviewDatasetType } = {};
+
+    const count = (
+      specimens: ReleaseSelectionPreviewSpecimenType[],
+      field: "addedCount" | "removedCount" | "unchangedCount"
+    ) => {
+      for (const sp of specimens) {
+        if (!(sp.datasetUri in datasets))
+          datasets[sp.datasetUri] = {
+            datasetUri: sp.datasetUri,
+            addedCount: 0,
+            removedCount: 0,
+            unchangedCount: 0,
+          };
+        datasets[sp.datasetUri][field]++;
+      }
+    };
+
+    count(added, "addedCount");
+    count(removed, "removedCount");
+    count(unchanged, "unchangedCount");
+
+    return {
+      jobId: jobId,
+      previewOutcome: job.previewOutcome ?? undefined,
+      added: added,
+      removed: removed,
+      unchangedCount: unchanged.length,
+      datasets: Object.values(datasets).sort((a, b) =>
+        a.datasetUri.localeCompare(b.datasetUri)
+      ),
+    };
+  }
+
+  /**
+   * Accept the changes previewed by a dry run select job - writing them into the
+   * selection of the release. With no specimen ids given every change is accepted
+   * (and the release takes on the entire selection of the job) - otherwise only the listed
+   * additions/removals are applied.
+   *
+   * @param user
+   * @param releaseId
+   * @param jobId
+   * @param accept
+   */
+  public async acceptSelectJobPreview(
+    user: AuthenticatedUser,
+    releaseId: string,
+    jobId: string,
+    accept: ReleaseSelectionPreviewAcceptType
+  ): Promise<ReleaseDetailType> {
+    const { userRole } = await doRoleInReleaseCheck(
+      this.usersService,
+      user,
+      releaseId
+    );
+
+    if (userRole != "DataOwner")
+      throw new NotAuthorisedToControlJob(userRole, releaseId);
+
+    await this.edgeDbClient.transaction(async (tx) => {
+      const { job, selectJobQuery, releaseQuery, added, removed, unchanged } =
+        await this.getPreviewChanges(tx, releaseId, jobId);
+
+      if (job.previewOutcome)
+        throw new PreviewAlreadyDecided(jobId, job.previewOutcome);
+
+      const isAcceptAll =
+        isUndefined(accept.addedSpecimenIds) &&
+        isUndefined(accept.removedSpecimenIds);
+
+      const acceptedAdded = isAcceptAll
+        ? added.map((sp) => sp.id)
+        : accept.addedSpecimenIds ?? [];
+      const acceptedRemoved = isAcceptAll
+        ? removed.map((sp) => sp.id)
+        : accept.removedSpecimenIds ?? [];
+
+      const addedIds = new Set(added.map((sp) => sp.id));
+      const removedIds = new Set(removed.map((sp) => sp.id));
+
+      const notChanged = [
+        ...acceptedAdded.filter((id) => !addedIds.has(id)),
+        ...acceptedRemoved.filter((id) => !removedIds.has(id)),
+      ];
+
+      if (notChanged.length > 0)
+        throw new PreviewSpecimenNotChanged(jobId, notChanged);
+
+      const acceptedIds = new Set([...acceptedAdded, ...acceptedRemoved]);
+
+      const isEverythingAccepted =
+        acceptedIds.size === addedIds.size + removedIds.size;
+
+      // the new selection is the current selection with just the accepted changes applied
+      const newSelectedIds = [
+        ...unchanged.map((sp) => sp.id),
+        ...removed.filter((sp) => !acceptedIds.has(sp.id)).map((sp) => sp.id),
+        ...acceptedAdded,
+      ];
+
+      const acceptedIdsSet = e.array_unpack(
+        e.literal(e.array(e.uuid), [...acceptedIds])
+      );
+
+      // pins may have been changed since the dry run so (as when ending a select job)
+      // they are applied once more as the selection moves into the release
+      await e
+        .update(releaseQuery, (r) => ({
+          set: {
+            selectedSpecimens: e.select(e.dataset.DatasetSpecimen, (sp) => ({
+              filter: e.op(
+                e.op(
+                  e.op(
+                    sp.id,
+                    "in",
+                    e.array_unpack(e.literal(e.array(e.uuid), newSelectedIds))
+                  ),
+                  "or",
+                  isPinnedBy(sp, r.manualInclusions)
+                ),
+                "and",
+                e.op("not", isPinnedBy(sp, r.manualExclusions))
+              ),
+            })),
+            // the specimens whose selection changed take on the decision made by the job
+            selectionDecisions: isEverythingAccepted
+              ? selectJobQuery.decisions
+              : e.op(
+                  e.select(r.selectionDecisions, (sd) => ({
+                    filter: e.op(sd.specimen.id, "not in", acceptedIdsSet),
+                  })),
+                  "union",
+                  e.select(selectJobQuery.decisions, (sd) => ({
+                    filter: e.op(sd.specimen.id, "in", acceptedIdsSet),
+                  }))
+                ),
+          },
+        }))
+        .run(tx);
+
+      await e
+        .update(selectJobQuery, (j) => ({
+          set: {
+            previewOutcome: isEverythingAccepted
+              ? e.job.SelectJobPreviewOutcome.accepted
+              : e.job.SelectJobPreviewOutcome.partiallyAccepted,
+            messages: e.op(
+              j.messages,
+              "++",
+              jobMessagesLiteral([
+                jobMessage(
+                  "info",
+                  `Preview accepted - added ${acceptedAdded.length} and removed ${acceptedRemoved.length} specimen(s)`
+                ),
+              ])
+            ),
+          },
+        }))
+        .run(tx);
+    });
+
+    return await this.releasesService.getBase(releaseId, userRole);
+  }
+
+  /**
+   * Reject the changes previewed by a dry run select job - leaving the release untouched.
+   *
+   * @param user
+   * @param releaseId
+   * @param jobId
+   */
+  public async rejectSelectJobPreview(
+    user: AuthenticatedUser,
+    releaseId: string,
+    jobId: string
+  ): Promise<void> {
+    const { userRole } = await doRoleInReleaseCheck(
+      this.usersService,
+      user,
+      releaseId
+    );
+
+    if (userRole != "DataOwner")
+      throw new NotAuthorisedToControlJob(userRole, releaseId);
+
+    await this.edgeDbClient.transaction(async (tx) => {
+      const { job, selectJobQuery } = await this.getPreviewChanges(
+        tx,
+        releaseId,
+        jobId
+      );
+
+      if (job.previewOutcome)
+        throw new PreviewAlreadyDecided(jobId, job.previewOutcome);
+
+      await e
+        .update(selectJobQuery, (j) => ({
+          set: {
+            previewOutcome: e.job.SelectJobPreviewOutcome.rejected,
+            messages: e.op(
+              j.messages,
+              "++",
+              jobMessagesLiteral([jobMessage("info", "Preview rejected")])
+            ),
+          },
+        }))
+        .run(tx);
+    });
+  }
+
+  /**
+   * Work out the differences between the selection of a dry run select job and the current
+   * selection of the release.
+   *
+   * @param executor
+   * @param releaseId
+   * @param jobId
+   * @private
+   */
+  private async getPreviewChanges(
+    executor: edgedb.Executor,
+    releaseId: string,
+    jobId: string
+  ) {
+    const selectJobQuery = e
+      .select(e.job.SelectJob, (j) => ({
+        filter: e.op(
+          e.op(j.id, "=", e.uuid(jobId)),
+          "and",
+          e.op(j.forRelease.id, "=", e.uuid(releaseId))
+        ),
+      }))
+      .assert_single();
+
+    const releaseQuery = e
+      .select(e.release.Release, (r) => ({
+        filter: e.op(r.id, "=", e.uuid(releaseId)),
+      }))
+      .assert_single();
+
+    const specimenShape = {
+      id: true,
+      externalIdentifiers: true,
+      patient: { id: true },
+      case_: { id: true, externalIdentifiers: true },
+      dataset: { uri: true },
+    };
+
+    const job = await e
+      .select(selectJobQuery, () => ({
+        status: true,
+        isDryRun: true,
+        previewOutcome: true,
+        selectedSpecimens: specimenShape,
+        forRelease: {
+          selectedSpecimens: specimenShape,
+        },
+      }))
+      .run(executor);
+
+    if (!job) throw new JobNotFound(jobId, releaseId);
+
+    if (!job.isDryRun || job.status !== "succeeded")
+      throw new JobNotPreviewable(jobId);
+
+    // the pins as they are now (rather than when the dry run was made)
+    const manualPins = await getReleaseManualPins(executor, releaseId);
+
+    const asPreviewSpecimen = (
+      sp: typeof job.selectedSpecimens[number]
+    ): ReleaseSelectionPreviewSpecimenType => ({
+      id: sp.id,
+      externalId: collapseExternalIds(sp.externalIdentifiers),
+      caseExternalId: collapseExternalIds(sp.case_?.externalIdentifiers),
+      datasetUri: sp.dataset?.uri ?? "",
+      pinned: this.selectService.findManualPin(
+        manualPins,
+        sp.case_,
+        sp.patient,
+        sp
+      )?.pin,
+    });
+
+    const jobIds = new Set<string>(job.selectedSpecimens.map((sp) => sp.id));
+    const currentIds = new Set<string>(
+      job.forRelease.selectedSpecimens.map((sp) => sp.id)
+    );
+
+    return {
+      job,
+      selectJobQuery,
+      releaseQuery,
+      added: job.selectedSpecimens
+        .filter((sp) => !currentIds.has(sp.id))
+        .map(asPreviewSpecimen),
+      removed: job.forRelease.selectedSpecimens
+        .filter((sp) => !jobIds.has(sp.id))
+        .map(asPreviewSpecimen),
+      unchanged: job.selectedSpecimens
+        .filter((sp) => currentIds.has(sp.id))
+        .map(asPreviewSpecimen),
+    };
   }
 }
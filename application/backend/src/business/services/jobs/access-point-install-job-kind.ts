@@ -0,0 +1,311 @@
+import * as edgedb from "edgedb";
+import e from "../../../../dbschema/edgeql-js";
+import { inject, injectable, singleton } from "tsyringe";
+import { ReleaseDetailType } from "@umccr/elsa-types";
+import { AuthenticatedUser } from "../../authenticated-user";
+import { Base7807Error } from "../../../api/errors/_error.types";
+import { JobsService } from "../jobs-service";
+import { doAccessEnabledCheck, getReleaseInfo } from "../helpers";
+import { getSpecimenFileRecords } from "../aws-base-service";
+import {
+  accessPointStateOf,
+  AwsAccessPointService,
+} from "../aws-access-point-service";
+import { JobKind, JobWorkOutcome, JobWorkSettings } from "./job-kind";
+import { jobMessage, jobMessagesLiteral } from "./job-messages";
+
+class AccessPointsNotAvailable extends Base7807Error {
+  constructor() {
+    super(
+      "Access points not available",
+      400,
+      "Access points cannot be installed as this instance has no AWS credentials"
+    );
+  }
+}
+
+class AccessPointsWrongState extends Base7807Error {
+  constructor(operation: AccessPointJobOperation, state: string) {
+    super(
+      "Access points in wrong state",
+      400,
+      `An access point ${operation} cannot be started when the access points are ${state}`
+    );
+  }
+}
+
+export type AccessPointJobOperation = "install" | "update" | "delete";
+
+/**
+ * For each operation - the stack statuses that mean CloudFormation is still working on the
+ * change, and the stack statuses that mean the change is done (undefined being no stack).
+ */
+const OPERATION_STACK_STATUSES: Record<
+  AccessPointJobOperation,
+  { working: (string | undefined)[]; done: (string | undefined)[] }
+> = {
+  install: {
+    working: ["CREATE_IN_PROGRESS"],
+    done: ["CREATE_COMPLETE"],
+  },
+  update: {
+    working: ["UPDATE_IN_PROGRESS", "UPDATE_COMPLETE_CLEANUP_IN_PROGRESS"],
+    done: ["UPDATE_COMPLETE"],
+  },
+  delete: {
+    working: ["DELETE_IN_PROGRESS"],
+    done: [undefined, "DELETE_COMPLETE"],
+  },
+};
+
+/**
+ * The job that installs, updates or deletes the CloudFormation stack of S3 access points
+ * for a release. The first round of work asks CloudFormation to change the stack - and every
+ * round after that just checks on the progress of the stack until CloudFormation has finished.
+ */
+@injectable()
+@singleton()
+export class AccessPointInstallJobKind implements JobKind {
+  public readonly typeName = "job::AccessPointInstallJob";
+
+  constructor(
+    @inject("Database") private readonly edgeDbClient: edgedb.Client,
+    private readonly jobsService: JobsService,
+    private readonly awsAccessPointService: AwsAccessPointService
+  ) {}
+
+  /**
+   * Start a job installing (or updating or deleting) the access points for the given
+   * release - for the AWS accounts (and VPC) that have been set in the release.
+   *
+   * @param user
+   * @param releaseId
+   * @param operation whether to install the access points, update the installed access points
+   * to match the current selection, or delete them
+   */
+  public async startJob(
+    user: AuthenticatedUser,
+    releaseId: string,
+    operation: AccessPointJobOperation = "install"
+  ): Promise<ReleaseDetailType> {
+    // checked before we look at the stack - so that non data owners learn nothing about the release
+    await this.jobsService.checkCanControlJobs(user, releaseId);
+
+    if (!this.awsAccessPointService.isEnabled)
+      throw new AccessPointsNotAvailable();
+
+    const state = accessPointStateOf(
+      await this.awsAccessPointService.getAccessPointStackStatus(releaseId)
+    );
+
+    const allowed =
+      operation === "install"
+        ? state === "not-installed"
+        : operation === "update"
+        ? state === "complete"
+        : state !== "not-installed" && state !== "deleting";
+
+    if (!allowed) throw new AccessPointsWrongState(operation, state);
+
+    let accountIds: string[] = [];
+    let vpcId: string | undefined = undefined;
+
+    if (operation !== "delete") {
+      // access points are data access - so can only be created within the access window
+      // (whereas taking them away is always allowed)
+      await doAccessEnabledCheck(this.edgeDbClient, releaseId);
+
+      // the job keeps its own copy of the accounts - so that later changes to the release
+      // only apply to the next install
+      ({ accountIds, vpcId } =
+        await this.awsAccessPointService.getAccessPointConfig(releaseId));
+    }
+
+    const { releaseQuery } = await getReleaseInfo(this.edgeDbClient, releaseId);
+
+    return await this.jobsService.startReleaseJob(
+      user,
+      releaseId,
+      async (tx) => {
+        await e
+          .insert(e.job.AccessPointInstallJob, {
+            forRelease: releaseQuery,
+            status: e.job.JobStatus.running,
+            started: e.datetime_current(),
+            percentDone: e.int16(0),
+            messages: jobMessagesLiteral([
+              jobMessage("info", `Access point ${operation} job created`),
+            ]),
+            operation: e.cast(e.job.AccessPointJobOperation, operation),
+            accountIds: e.literal(e.array(e.str), accountIds),
+            vpcId: vpcId,
+          })
+          .run(tx);
+      }
+    );
+  }
+
+  public async doWork(
+    jobId: string,
+    settings: JobWorkSettings
+  ): Promise<JobWorkOutcome> {
+    const accessPointJobQuery = e
+      .select(e.job.AccessPointInstallJob, (j) => ({
+        filter: e.op(j.id, "=", e.uuid(jobId)),
+      }))
+      .assert_single();
+
+    const job = await e
+      .select(accessPointJobQuery, () => ({
+        operation: true,
+        accountIds: true,
+        vpcId: true,
+        stackName: true,
+        forRelease: { id: true },
+      }))
+      .run(this.edgeDbClient);
+
+    if (!job || !job.forRelease)
+      throw new Error("Job id passed in was not an Access Point Install Job");
+
+    const releaseId = job.forRelease.id;
+    const operation = job.operation as AccessPointJobOperation;
+
+    if (!job.stackName && operation === "delete") {
+      const stackName = AwsAccessPointService.getReleaseStackName(releaseId);
+
+      await this.recordStackRequest(
+        jobId,
+        stackName,
+        `Requesting deletion of stack ${stackName}`
+      );
+
+      await this.awsAccessPointService.deleteAccessPointStack(releaseId);
+
+      return "working";
+    }
+
+    if (!job.stackName) {
+      const { releaseInfoQuery } = await getReleaseInfo(
+        this.edgeDbClient,
+        releaseId
+      );
+
+      const { files, withheld } = await getSpecimenFileRecords(
+        this.edgeDbClient,
+        releaseInfoQuery.selectedSpecimens,
+        new Date()
+      );
+
+      for (const w of withheld)
+        await this.jobsService.appendJobMessage(
+          jobId,
+          "warning",
+          `Specimen ${w.specimenId} withheld from the access points: ${w.reason}`
+        );
+
+      const stackName = AwsAccessPointService.getReleaseStackName(releaseId);
+
+      await this.recordStackRequest(
+        jobId,
+        stackName,
+        `Requesting ${
+          operation === "install" ? "creation" : "update"
+        } of stack ${stackName} sharing ${files.length} file(s)`
+      );
+
+      if (operation === "install")
+        await this.awsAccessPointService.createAccessPointStack(
+          releaseId,
+          files,
+          job.accountIds,
+          job.vpcId ?? undefined
+        );
+      else
+        await this.awsAccessPointService.updateAccessPointStack(
+          releaseId,
+          files,
+          job.accountIds,
+          job.vpcId ?? undefined
+        );
+
+      return "working";
+    }
+
+    const status = await this.awsAccessPointService.getAccessPointStackStatus(
+      releaseId
+    );
+
+    const { working, done } = OPERATION_STACK_STATUSES[operation];
+
+    if (working.includes(status)) {
+      await e
+        .update(accessPointJobQuery, () => ({
+          set: { percentDone: e.int16(50) },
+        }))
+        .run(this.edgeDbClient);
+      return "working";
+    }
+
+    if (done.includes(status)) return "succeeded";
+
+    await this.jobsService.appendJobMessage(
+      jobId,
+      "error",
+      `Stack ${job.stackName} did not ${operation} (${
+        status ?? "stack does not exist"
+      })`
+    );
+    return "failed";
+  }
+
+  /**
+   * Record against the job the name of the stack we are about to ask CloudFormation to change.
+   * We record the stack name *before* asking for the change - from then on we only ever
+   * check on the stack, so a failure part way through changing it is picked up as a
+   * wrong stack status on the next round of work (rather than us trying to change it twice).
+   */
+  private async recordStackRequest(
+    jobId: string,
+    stackName: string,
+    message: string
+  ) {
+    await e
+      .update(e.job.AccessPointInstallJob, (j) => ({
+        filter: e.op(j.id, "=", e.uuid(jobId)),
+        set: {
+          stackName: stackName,
+          percentDone: e.int16(10),
+          messages: e.op(
+            j.messages,
+            "++",
+            jobMessagesLiteral([jobMessage("info", message)])
+          ),
+        },
+      }))
+      .run(this.edgeDbClient);
+  }
+
+  public async complete(
+    jobId: string,
+    wasSuccessful: boolean,
+    isCancellation: boolean
+  ): Promise<void> {
+    const job = await e
+      .select(e.job.AccessPointInstallJob, (j) => ({
+        operation: true,
+        filter: e.op(j.id, "=", e.uuid(jobId)),
+      }))
+      .assert_single()
+      .run(this.edgeDbClient);
+
+    // note that cancelling the job does not stop CloudFormation - any change to the stack
+    // that was requested will continue on
+    await this.jobsService.endGenericJob(
+      jobId,
+      `Access point ${job?.operation ?? "install"} job`,
+      wasSuccessful,
+      isCancellation
+    );
+  }
+}
@@ -0,0 +1,304 @@
+import * as edgedb from "edgedb";
+import e from "../../../../dbschema/edgeql-js";
+import { inject, injectable, singleton } from "tsyringe";
+import { differenceInSeconds } from "date-fns";
+import { HeadObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { ReleaseDetailType, ReleaseJobMessageType } from "@umccr/elsa-types";
+import { AuthenticatedUser } from "../../authenticated-user";
+import { Base7807Error } from "../../../api/errors/_error.types";
+import { JobsService } from "../jobs-service";
+import { getReleaseInfo } from "../helpers";
+import { JobKind, JobWorkOutcome, JobWorkSettings } from "./job-kind";
+import { jobMessage, jobMessagesLiteral } from "./job-messages";
+
+class NoFilesToCheck extends Base7807Error {
+  constructor(releaseId: string) {
+    super(
+      "No files to check",
+      400,
+      `The selected specimens of release ${releaseId} have no files`
+    );
+  }
+}
+
+type ChecksummedFile = {
+  url: string;
+  size: number;
+  checksums: { type: string; value: string }[];
+};
+
+/**
+ * The job that works through all the files of the selected specimens of a release - checking
+ * that each file exists in storage with the size and checksum we have recorded.
+ *
+ * We check the metadata S3 holds for the object (rather than reading the content) - so each
+ * check is quick irrespective of the size of the file. The S3 ETag of an object is only
+ * an MD5 of its content if it was not uploaded in parts - so we compare against our
+ * recorded AWS_ETAG if present, and otherwise our recorded MD5 where possible.
+ */
+@injectable()
+@singleton()
+export class ChecksumJobKind implements JobKind {
+  public readonly typeName = "job::ChecksumJob";
+
+  constructor(
+    @inject("Database") private readonly edgeDbClient: edgedb.Client,
+    @inject("S3Client") private readonly s3Client: S3Client,
+    private readonly jobsService: JobsService
+  ) {}
+
+  /**
+   * Start a checksum job for the given release.
+   *
+   * @param user
+   * @param releaseId
+   */
+  public async startJob(
+    user: AuthenticatedUser,
+    releaseId: string
+  ): Promise<ReleaseDetailType> {
+    // checked before we look at the files - so that non data owners learn nothing about the release
+    await this.jobsService.checkCanControlJobs(user, releaseId);
+
+    const { releaseQuery, releaseInfoQuery } = await getReleaseInfo(
+      this.edgeDbClient,
+      releaseId
+    );
+
+    const fileShape = { id: true };
+
+    const specimens = await e
+      .select(releaseInfoQuery.selectedSpecimens, () => ({
+        artifacts: {
+          ...e.is(e.lab.ArtifactBcl, { bclFile: fileShape }),
+          ...e.is(e.lab.ArtifactFastqPair, {
+            forwardFile: fileShape,
+            reverseFile: fileShape,
+          }),
+          ...e.is(e.lab.ArtifactBam, {
+            bamFile: fileShape,
+            baiFile: fileShape,
+          }),
+          ...e.is(e.lab.ArtifactCram, {
+            cramFile: fileShape,
+            craiFile: fileShape,
+          }),
+          ...e.is(e.lab.ArtifactVcf, {
+            vcfFile: fileShape,
+            tbiFile: fileShape,
+          }),
+        },
+      }))
+      .run(this.edgeDbClient);
+
+    const fileIds: string[] = [];
+
+    for (const s of specimens) {
+      for (const a of s.artifacts as any[]) {
+        for (const f of [
+          a.bclFile,
+          a.forwardFile,
+          a.reverseFile,
+          a.bamFile,
+          a.baiFile,
+          a.cramFile,
+          a.craiFile,
+          a.vcfFile,
+          a.tbiFile,
+        ]) {
+          if (f) fileIds.push(f.id);
+        }
+      }
+    }
+
+    if (fileIds.length === 0) throw new NoFilesToCheck(releaseId);
+
+    return await this.jobsService.startReleaseJob(
+      user,
+      releaseId,
+      async (tx) => {
+        await e
+          .insert(e.job.ChecksumJob, {
+            forRelease: releaseQuery,
+            status: e.job.JobStatus.running,
+            started: e.datetime_current(),
+            percentDone: e.int16(0),
+            messages: jobMessagesLiteral([
+              jobMessage("info", "Checksum job created"),
+            ]),
+            initialTodoCount: fileIds.length,
+            todoQueue: e.select(e.storage.File, (f) => ({
+              filter: e.op(
+                f.id,
+                "in",
+                e.set(...fileIds.map((id) => e.uuid(id)))
+              ),
+            })),
+          })
+          .run(tx);
+      }
+    );
+  }
+
+  /**
+   * Check a single file against what S3 holds for it - returning the reason for
+   * any mismatch (or null if the file matches).
+   *
+   * @param file
+   */
+  private async checkFile(file: ChecksummedFile): Promise<string | null> {
+    const match = file.url.match(/^s3:\/\/([^\/]+)\/(.+)$/);
+
+    if (!match) return "not an S3 url";
+
+    let head;
+
+    try {
+      head = await this.s3Client.send(
+        new HeadObjectCommand({ Bucket: match[1], Key: match[2] })
+      );
+    } catch (err: any) {
+      if (err?.name === "NotFound") return "object not found";
+      throw err;
+    }
+
+    if (head.ContentLength !== file.size)
+      return `size ${head.ContentLength} does not match recorded size ${file.size}`;
+
+    const etag = (head.ETag ?? "").replace(/"/g, "");
+
+    const recordedEtag = file.checksums.find((c) => c.type === "AWS_ETAG");
+
+    if (recordedEtag) {
+      if (recordedEtag.value.replace(/"/g, "") !== etag)
+        return `ETag ${etag} does not match recorded ETag ${recordedEtag.value}`;
+    } else {
+      const recordedMd5 = file.checksums.find((c) => c.type === "MD5");
+
+      // multipart ETags (with a part count suffix) are not an MD5 of the content so cannot be compared
+      if (recordedMd5 && !etag.includes("-") && recordedMd5.value !== etag)
+        return `ETag ${etag} does not match recorded MD5 ${recordedMd5.value}`;
+    }
+
+    return null;
+  }
+
+  public async doWork(
+    jobId: string,
+    settings: JobWorkSettings
+  ): Promise<JobWorkOutcome> {
+    const checksumJobQuery = e
+      .select(e.job.ChecksumJob, (j) => ({
+        filter: e.op(j.id, "=", e.uuid(jobId)),
+      }))
+      .assert_single();
+
+    const startTime = new Date();
+
+    while (
+      differenceInSeconds(new Date(), startTime) < settings.roughlyMaxSeconds
+    ) {
+      // each batch of files is taken off the queue in the same transaction that
+      // records any mismatches
+      const c = await this.edgeDbClient.transaction(async (tx) => {
+        const job = await e
+          .select(checksumJobQuery, (j) => ({
+            initialTodoCount: true,
+            todoCount: e.count(j.todoQueue),
+            todoQueue: () => ({
+              id: true,
+              url: true,
+              size: true,
+              checksums: true,
+              limit: settings.batchSize,
+            }),
+          }))
+          .run(tx);
+
+        if (!job) throw new Error("Job id passed in was not a Checksum Job");
+
+        if (job.todoQueue.length === 0) return 0;
+
+        const mismatchedUrls: string[] = [];
+        const resultMessages: ReleaseJobMessageType[] = [];
+
+        for (const f of job.todoQueue) {
+          const mismatch = await this.checkFile(f as ChecksummedFile);
+
+          if (mismatch) {
+            mismatchedUrls.push(f.url);
+            resultMessages.push(jobMessage("warning", `${f.url}: ${mismatch}`));
+          }
+        }
+
+        resultMessages.push(
+          jobMessage(
+            "info",
+            `Checked ${job.todoQueue.length} file(s) - ${mismatchedUrls.length} did not match`
+          )
+        );
+
+        const remaining = job.todoCount - job.todoQueue.length;
+
+        await e
+          .update(checksumJobQuery, (j) => ({
+            set: {
+              todoQueue: {
+                "-=": e.select(e.storage.File, (sf) => ({
+                  filter: e.op(
+                    sf.id,
+                    "in",
+                    e.set(...job.todoQueue.map((t) => e.uuid(t.id)))
+                  ),
+                })),
+              },
+              mismatchedUrls: e.op(
+                j.mismatchedUrls,
+                "++",
+                e.literal(e.array(e.str), mismatchedUrls)
+              ),
+              messages: e.op(
+                j.messages,
+                "++",
+                jobMessagesLiteral(resultMessages)
+              ),
+              // we never get to 100% here - that is reserved for the completion of the job
+              percentDone: e.int16(
+                Math.floor(
+                  ((job.initialTodoCount - remaining) * 99.99) /
+                    job.initialTodoCount
+                )
+              ),
+            },
+          }))
+          .run(tx);
+
+        return job.todoQueue.length;
+      });
+
+      if (c === 0) {
+        // once everything is checked - any mismatch means the job has failed
+        const job = await e
+          .select(checksumJobQuery, () => ({ mismatchedUrls: true }))
+          .run(this.edgeDbClient);
+
+        return job && job.mismatchedUrls.length > 0 ? "failed" : "succeeded";
+      }
+    }
+
+    return "working";
+  }
+
+  public async complete(
+    jobId: string,
+    wasSuccessful: boolean,
+    isCancellation: boolean
+  ): Promise<void> {
+    await this.jobsService.endGenericJob(
+      jobId,
+      "Checksum job",
+      wasSuccessful,
+      isCancellation
+    );
+  }
+}
@@ -0,0 +1,395 @@
+import * as edgedb from "edgedb";
+import e, { storage } from "../../../../dbschema/edgeql-js";
+import { inject, injectable, singleton } from "tsyringe";
+import { differenceInSeconds } from "date-fns";
+import {
+  DatasetImportArtifactType,
+  DatasetImportCaseType,
+  DatasetImportFileType,
+  DatasetImportJobType,
+} from "@umccr/elsa-types";
+import { AuthenticatedUser } from "../../authenticated-user";
+import { Base7807Error } from "../../../api/errors/_error.types";
+import { JobsService } from "../jobs-service";
+import { UsersService } from "../users-service";
+import { JobKind, JobWorkOutcome, JobWorkSettings } from "./job-kind";
+import { jobMessage, jobMessagesLiteral } from "./job-messages";
+
+class NotAuthorisedToImportDataset extends Base7807Error {
+  constructor(datasetId: string) {
+    super(
+      "Not authorised to import into dataset",
+      403,
+      `Only owners of dataset ${datasetId} can import into it`
+    );
+  }
+}
+
+class DatasetImportJobNotFound extends Base7807Error {
+  constructor(jobId: string, datasetId: string) {
+    super(
+      "Dataset import job not found",
+      404,
+      `Import job ${jobId} does not exist in the dataset ${datasetId}`
+    );
+  }
+}
+
+class DatasetImportJobNotRunning extends Base7807Error {
+  constructor(jobId: string) {
+    super(
+      "Dataset import job is not running",
+      400,
+      `Import job ${jobId} has already finished so cannot be cancelled`
+    );
+  }
+}
+
+// the number of the most recent job messages returned with the progress of an import
+const IMPORT_JOB_MESSAGE_COUNT = 5;
+
+/**
+ * The job that imports a batch of cases (with their patients, specimens and artifacts)
+ * into a dataset. The queue is the JSON description of every case to be imported - worked
+ * through in order.
+ */
+@injectable()
+@singleton()
+export class DatasetImportJobKind implements JobKind {
+  public readonly typeName = "job::DatasetImportJob";
+
+  constructor(
+    @inject("Database") private readonly edgeDbClient: edgedb.Client,
+    private readonly jobsService: JobsService,
+    private readonly usersService: UsersService
+  ) {}
+
+  /**
+   * Start an import of the given cases into a dataset - returning the id of the new job.
+   *
+   * @param user
+   * @param datasetId
+   * @param cases
+   */
+  public async startJob(
+    user: AuthenticatedUser,
+    datasetId: string,
+    cases: DatasetImportCaseType[]
+  ): Promise<string> {
+    await this.checkIsDataOwner(user, datasetId);
+
+    return await this.edgeDbClient.transaction(async (tx) => {
+      // like the jobs of a release - there can only be one running import for a dataset
+      // (otherwise two imports of the same cases could interleave)
+      const oldJob = await e
+        .select(e.job.DatasetImportJob, (j) => ({
+          id: true,
+          filter: e.op(
+            e.op(j.status, "=", e.job.JobStatus.running),
+            "and",
+            e.op(j.forDataset.id, "=", e.uuid(datasetId))
+          ),
+        }))
+        .run(tx);
+
+      if (oldJob && oldJob.length > 0)
+        throw new Base7807Error(
+          "Only one running import is allowed per dataset",
+          400,
+          `Job with id(s) ${oldJob
+            .map((oj) => oj.id)
+            .join(" ")} have been found in the running state`
+        );
+
+      const newJob = await e
+        .insert(e.job.DatasetImportJob, {
+          forDataset: e
+            .select(e.dataset.Dataset, (d) => ({
+              filter: e.op(d.id, "=", e.uuid(datasetId)),
+            }))
+            .assert_single(),
+          status: e.job.JobStatus.running,
+          started: e.datetime_current(),
+          percentDone: e.int16(0),
+          messages: jobMessagesLiteral([
+            jobMessage(
+              "info",
+              `Dataset import of ${cases.length} case(s) created`
+            ),
+          ]),
+          initialTodoCount: cases.length,
+          todoQueue: e.literal(e.array(e.json), cases),
+        })
+        .run(tx);
+
+      return newJob.id;
+    });
+  }
+
+  /**
+   * Return the progress of an import job (running or not) of the given dataset.
+   *
+   * @param user
+   * @param datasetId
+   * @param jobId
+   */
+  public async getJob(
+    user: AuthenticatedUser,
+    datasetId: string,
+    jobId: string
+  ): Promise<DatasetImportJobType> {
+    await this.checkIsDataOwner(user, datasetId);
+
+    const job = await e
+      .select(this.datasetImportJobQuery(datasetId, jobId), () => ({
+        id: true,
+        status: true,
+        percentDone: true,
+        initialTodoCount: true,
+        importedCount: true,
+        requestedCancellation: true,
+        created: true,
+        started: true,
+        ended: true,
+        messages: true,
+      }))
+      .run(this.edgeDbClient);
+
+    if (!job) throw new DatasetImportJobNotFound(jobId, datasetId);
+
+    return {
+      id: job.id,
+      status: job.status,
+      percentDone: job.percentDone,
+      initialTodoCount: job.initialTodoCount,
+      importedCount: job.importedCount,
+      requestedCancellation: job.requestedCancellation,
+      created: job.created,
+      started: job.started,
+      ended: job.ended ?? undefined,
+      messages: job.messages.slice(-IMPORT_JOB_MESSAGE_COUNT),
+    };
+  }
+
+  /**
+   * Request the cancellation of a running import job of the given dataset. The job
+   * is cancelled asynchronously the next time the job dispatcher runs (the cases
+   * already imported are left in the dataset).
+   *
+   * @param user
+   * @param datasetId
+   * @param jobId
+   */
+  public async cancelJob(
+    user: AuthenticatedUser,
+    datasetId: string,
+    jobId: string
+  ): Promise<DatasetImportJobType> {
+    await this.checkIsDataOwner(user, datasetId);
+
+    await this.edgeDbClient.transaction(async (tx) => {
+      const job = await e
+        .select(this.datasetImportJobQuery(datasetId, jobId), () => ({
+          status: true,
+        }))
+        .run(tx);
+
+      if (!job) throw new DatasetImportJobNotFound(jobId, datasetId);
+
+      if (job.status !== "running") throw new DatasetImportJobNotRunning(jobId);
+
+      await e
+        .update(e.job.Job, (j) => ({
+          filter: e.op(j.id, "=", e.uuid(jobId)),
+          set: {
+            requestedCancellation: true,
+            messages: e.op(
+              j.messages,
+              "++",
+              jobMessagesLiteral([jobMessage("info", "Cancellation requested")])
+            ),
+          },
+        }))
+        .run(tx);
+    });
+
+    return await this.getJob(user, datasetId, jobId);
+  }
+
+  private async checkIsDataOwner(user: AuthenticatedUser, datasetId: string) {
+    const datasetRole = await this.usersService.roleInDataset(user, datasetId);
+
+    if (datasetRole !== "DataOwner")
+      throw new NotAuthorisedToImportDataset(datasetId);
+  }
+
+  /**
+   * An edgeql expression of the import job with the given id - but only if it is
+   * an import into the given dataset.
+   *
+   * @param datasetId
+   * @param jobId
+   */
+  private datasetImportJobQuery(datasetId: string, jobId: string) {
+    return e
+      .select(e.job.DatasetImportJob, (j) => ({
+        filter: e.op(
+          e.op(j.id, "=", e.uuid(jobId)),
+          "and",
+          e.op(j.forDataset.id, "=", e.uuid(datasetId))
+        ),
+      }))
+      .assert_single();
+  }
+
+  public async doWork(
+    jobId: string,
+    settings: JobWorkSettings
+  ): Promise<JobWorkOutcome> {
+    const importJobQuery = e
+      .select(e.job.DatasetImportJob, (j) => ({
+        filter: e.op(j.id, "=", e.uuid(jobId)),
+      }))
+      .assert_single();
+
+    const startTime = new Date();
+
+    while (
+      differenceInSeconds(new Date(), startTime) < settings.roughlyMaxSeconds
+    ) {
+      // each batch of cases is taken from the queue (by moving on the count of imported cases)
+      // in the same transaction that inserts them
+      const c = await this.edgeDbClient.transaction(async (tx) => {
+        const job = await e
+          .select(importJobQuery, (j) => ({
+            initialTodoCount: true,
+            importedCount: true,
+            // only the batch is fetched - not the whole queue
+            todoBatch: j.todoQueue.slice(
+              j.importedCount,
+              e.op(j.importedCount, "+", settings.batchSize)
+            ),
+            forDataset: { id: true },
+          }))
+          .run(tx);
+
+        if (!job)
+          throw new Error("Job id passed in was not a Dataset Import Job");
+
+        const batch = job.todoBatch as DatasetImportCaseType[];
+
+        if (batch.length === 0) return 0;
+
+        for (const importCase of batch) {
+          await e
+            .update(e.dataset.Dataset, (d) => ({
+              filter: e.op(d.id, "=", e.uuid(job.forDataset.id)),
+              set: {
+                cases: { "+=": insertCase(importCase) },
+              },
+            }))
+            .run(tx);
+        }
+
+        const importedCount = job.importedCount + batch.length;
+
+        await e
+          .update(importJobQuery, (j) => ({
+            set: {
+              importedCount: importedCount,
+              messages: e.op(
+                j.messages,
+                "++",
+                jobMessagesLiteral([
+                  jobMessage("info", `Imported ${batch.length} case(s)`),
+                ])
+              ),
+              // we never get to 100% here - that is reserved for the completion of the job
+              percentDone: e.int16(
+                Math.floor((importedCount * 99.99) / job.initialTodoCount)
+              ),
+            },
+          }))
+          .run(tx);
+
+        return batch.length;
+      });
+
+      if (c === 0) return "succeeded";
+    }
+
+    return "working";
+  }
+
+  public async complete(
+    jobId: string,
+    wasSuccessful: boolean,
+    isCancellation: boolean
+  ): Promise<void> {
+    // the cases are inserted as we go - so there is nothing to move into place
+    await this.jobsService.endGenericJob(
+      jobId,
+      "Dataset import job",
+      wasSuccessful,
+      isCancellation
+    );
+  }
+}
+
+function insertFile(file: DatasetImportFileType) {
+  return e.insert(e.storage.File, {
+    url: file.url,
+    size: file.size,
+    checksums: file.checksums.map((c) => ({
+      type: storage.ChecksumType[c.type],
+      value: c.value,
+    })),
+  });
+}
+
+function insertArtifact(artifact: DatasetImportArtifactType) {
+  switch (artifact.type) {
+    case "FASTQ":
+      return e.insert(e.lab.ArtifactFastqPair, {
+        forwardFile: insertFile(artifact.forwardFile),
+        reverseFile: insertFile(artifact.reverseFile),
+      });
+    case "BAM":
+      return e.insert(e.lab.ArtifactBam, {
+        bamFile: insertFile(artifact.file),
+        baiFile: insertFile(artifact.indexFile),
+      });
+    case "CRAM":
+      return e.insert(e.lab.ArtifactCram, {
+        cramFile: insertFile(artifact.file),
+        craiFile: insertFile(artifact.indexFile),
+      });
+    case "VCF":
+      return e.insert(e.lab.ArtifactVcf, {
+        vcfFile: insertFile(artifact.file),
+        tbiFile: insertFile(artifact.indexFile),
+      });
+  }
+}
+
+function insertCase(importCase: DatasetImportCaseType) {
+  return e.insert(e.dataset.DatasetCase, {
+    externalIdentifiers: importCase.externalIdentifiers,
+    patients: e.set(
+      ...importCase.patients.map((p) =>
+        e.insert(e.dataset.DatasetPatient, {
+          externalIdentifiers: p.externalIdentifiers,
+          sexAtBirth: p.sexAtBirth,
+          specimens: e.set(
+            ...p.specimens.map((s) =>
+              e.insert(e.dataset.DatasetSpecimen, {
+                externalIdentifiers: s.externalIdentifiers,
+                artifacts: e.set(...s.artifacts.map(insertArtifact)),
+              })
+            )
+          ),
+        })
+      )
+    ),
+  });
+}
@@ -0,0 +1,118 @@
+import { injectable, injectAll, singleton } from "tsyringe";
+import { JobsService } from "../jobs-service";
+import {
+  JOB_KIND_TOKEN,
+  JobKind,
+  JobWorkOutcome,
+  JobWorkSettings,
+} from "./job-kind";
+
+// the number of rounds of work in a row that can end in an error before a job is failed
+export const MAX_CONSECUTIVE_WORK_ERRORS = 5;
+
+type InProgressJob = Awaited<
+  ReturnType<JobsService["getInProgressJobs"]>
+>[number];
+
+/**
+ * The single scheduler of all background jobs. Each time it is run it finds every
+ * running job and asks the registered kind of the job to either cancel it, do a
+ * round of work, or complete it.
+ */
+@injectable()
+@singleton()
+export class JobDispatcher {
+  constructor(
+    private readonly jobsService: JobsService,
+    @injectAll(JOB_KIND_TOKEN) private readonly jobKinds: JobKind[]
+  ) {}
+
+  /**
+   * Do a round of work for every running job.
+   *
+   * @param settings
+   * @returns the number of running jobs found
+   */
+  public async dispatch(settings: JobWorkSettings): Promise<number> {
+    const jobs = await this.jobsService.getInProgressJobs();
+
+    // an error in dispatching one job (i.e. the database failing as we record the outcome of
+    // its work) is logged and the job is left as is for the next dispatch - so that it
+    // cannot stop the dispatching of all the other jobs
+    await Promise.all(
+      jobs.map(async (job) => {
+        try {
+          await this.dispatchJob(job, settings);
+        } catch (err) {
+          console.log(`Error dispatching job ${job.jobId}`);
+          console.log(err);
+        }
+      })
+    );
+
+    return jobs.length;
+  }
+
+  /**
+   * Cancel, do a round of work for, or complete a single running job.
+   *
+   * @param job
+   * @param settings
+   */
+  private async dispatchJob(job: InProgressJob, settings: JobWorkSettings) {
+    const kind = this.jobKinds.find((k) => k.typeName === job.jobTypeName);
+
+    if (!kind) {
+      console.log(
+        `Running job ${job.jobId} is of type ${job.jobTypeName} which has no registered job kind`
+      );
+      return;
+    }
+
+    // first we cancel any that have indicated they want to be cancelled
+    if (job.requestedCancellation) {
+      await kind.complete(job.jobId, false, true);
+      return;
+    }
+
+    // otherwise we progress some work - an error in doing work is recorded in the job log but
+    // otherwise the job is left running, so that (possibly transient) problems like an
+    // unreachable external service can be retried by the next round of work - unless
+    // the errors keep happening (at which point we give up and fail the job)
+    let outcome: JobWorkOutcome;
+
+    try {
+      outcome = await kind.doWork(job.jobId, settings);
+    } catch (err) {
+      console.log(err);
+
+      const errorCount = job.consecutiveErrorCount + 1;
+      const isGivingUp = errorCount >= MAX_CONSECUTIVE_WORK_ERRORS;
+
+      await this.jobsService.appendJobMessage(
+        job.jobId,
+        "error",
+        `Error doing work (${
+          isGivingUp
+            ? `giving up after ${errorCount} errors in a row`
+            : "will retry"
+        }): ${err instanceof Error ? err.message : String(err)}`
+      );
+
+      if (isGivingUp) await kind.complete(job.jobId, false, false);
+      else
+        await this.jobsService.setJobConsecutiveErrorCount(
+          job.jobId,
+          errorCount
+        );
+
+      return;
+    }
+
+    if (job.consecutiveErrorCount > 0)
+      await this.jobsService.setJobConsecutiveErrorCount(job.jobId, 0);
+
+    if (outcome !== "working")
+      await kind.complete(job.jobId, outcome === "succeeded", false);
+  }
+}
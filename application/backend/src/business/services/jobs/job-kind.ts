@@ -0,0 +1,71 @@
+/**
+ * The token under which every kind of job is registered in the DI container - so
+ * that the dispatcher can be injected with all of them.
+ */
+export const JOB_KIND_TOKEN = "JobKind";
+
+/**
+ * The settings passed down from the scheduler for each round of work.
+ */
+export type JobWorkSettings = {
+  // roughly the number of seconds a job should do work for (may exceed)
+  roughlyMaxSeconds: number;
+
+  // for jobs that work through a queue - the number of items to take off the queue in each transaction
+  batchSize: number;
+};
+
+/**
+ * The outcome of a round of work on a job - either there is more work to do (and the job
+ * should stay running), or the job has finished and should be completed.
+ */
+export type JobWorkOutcome = "working" | "succeeded" | "failed";
+
+/**
+ * A kind of long-running background job.
+ *
+ * Each kind has its own job type in the database (extending job::Job) - which holds
+ * the queue of work that it processes. A single dispatcher finds all the running jobs,
+ * and repeatedly asks the matching kind to do a round of work until it says the job
+ * is finished - at which point the kind is asked to complete the job.
+ *
+ * Each kind is responsible for starting its own jobs (through JobsService.startGenericJob
+ * so that there is only ever one running job per release).
+ */
+export interface JobKind {
+  // the full database type name of the jobs of this kind (i.e. job::SelectJob)
+  readonly typeName: string;
+
+  /**
+   * Safely do a round of work for the given job. The work must be done in such a way
+   * that a worker dying at any point does not leave the job in an inconsistent state
+   * (i.e. work is taken off the queue in the same transaction that records its results).
+   *
+   * @param jobId
+   * @param settings
+   */
+  doWork(jobId: string, settings: JobWorkSettings): Promise<JobWorkOutcome>;
+
+  /**
+   * Finish off the job - moving any results into their final place and setting the
+   * final status of the job.
+   *
+   * @param jobId
+   * @param wasSuccessful
+   * @param isCancellation
+   */
+  complete(
+    jobId: string,
+    wasSuccessful: boolean,
+    isCancellation: boolean
+  ): Promise<void>;
+}
+
+/**
+ * The short type of a job from its full database type name (i.e. job::SelectJob => SelectJob).
+ *
+ * @param typeName
+ */
+export function jobTypeFromTypeName(typeName: string): string {
+  return typeName.substring(typeName.lastIndexOf(":") + 1);
+}
@@ -0,0 +1,20 @@
+import { DependencyContainer } from "tsyringe";
+import { JOB_KIND_TOKEN } from "./job-kind";
+import { SelectJobKind } from "./select-job-kind";
+import { ManifestJobKind } from "./manifest-job-kind";
+import { ChecksumJobKind } from "./checksum-job-kind";
+import { DatasetImportJobKind } from "./dataset-import-job-kind";
+import { AccessPointInstallJobKind } from "./access-point-install-job-kind";
+
+/**
+ * Register every kind of background job - these are all handed to the job dispatcher.
+ *
+ * @param container
+ */
+export function registerJobKinds(container: DependencyContainer) {
+  container.register(JOB_KIND_TOKEN, { useToken: SelectJobKind });
+  container.register(JOB_KIND_TOKEN, { useToken: ManifestJobKind });
+  container.register(JOB_KIND_TOKEN, { useToken: ChecksumJobKind });
+  container.register(JOB_KIND_TOKEN, { useToken: DatasetImportJobKind });
+  container.register(JOB_KIND_TOKEN, { useToken: AccessPointInstallJobKind });
+}
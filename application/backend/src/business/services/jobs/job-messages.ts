@@ -0,0 +1,37 @@
+import e from "../../../../dbschema/edgeql-js";
+import {
+  ReleaseJobMessageLevelType,
+  ReleaseJobMessageType,
+} from "@umccr/elsa-types";
+
+/**
+ * Create a job log message stamped with the current time.
+ *
+ * @param level
+ * @param text
+ */
+export function jobMessage(
+  level: ReleaseJobMessageLevelType,
+  text: string
+): ReleaseJobMessageType {
+  return { created: new Date(), level: level, text: text };
+}
+
+/**
+ * Create an edgedb literal of job log messages - suitable for setting or
+ * appending (++) to the messages of a job.
+ *
+ * @param messages
+ */
+export function jobMessagesLiteral(messages: ReleaseJobMessageType[]) {
+  return e.literal(
+    e.array(
+      e.tuple({
+        created: e.datetime,
+        level: e.job.JobMessageLevel,
+        text: e.str,
+      })
+    ),
+    messages
+  );
+}
@@ -0,0 +1,224 @@
+import * as edgedb from "edgedb";
+import e from "../../../../dbschema/edgeql-js";
+import { inject, injectable, singleton } from "tsyringe";
+import { differenceInSeconds } from "date-fns";
+import { ReleaseDetailType } from "@umccr/elsa-types";
+import { AuthenticatedUser } from "../../authenticated-user";
+import { JobsService } from "../jobs-service";
+import {
+  doAccessEnabledCheck,
+  doRoleInReleaseCheck,
+  getReleaseInfo,
+} from "../helpers";
+import {
+  getSpecimenFileRecords,
+  ReleaseAwsFileRecord,
+} from "../aws-base-service";
+import { UsersService } from "../users-service";
+import { JobKind, JobWorkOutcome, JobWorkSettings } from "./job-kind";
+import { jobMessage, jobMessagesLiteral } from "./job-messages";
+
+/**
+ * The job that works through the selected specimens of a release - building up
+ * the manifest of every file shared by the release. The time based consent of each
+ * specimen is checked as it is processed - so specimens whose consent does not allow
+ * access at that time are left out of the manifest (and logged).
+ */
+@injectable()
+@singleton()
+export class ManifestJobKind implements JobKind {
+  public readonly typeName = "job::ManifestJob";
+
+  constructor(
+    @inject("Database") private readonly edgeDbClient: edgedb.Client,
+    private readonly jobsService: JobsService,
+    private readonly usersService: UsersService
+  ) {}
+
+  /**
+   * Start a manifest job for the given release.
+   *
+   * @param user
+   * @param releaseId
+   */
+  public async startJob(
+    user: AuthenticatedUser,
+    releaseId: string
+  ): Promise<ReleaseDetailType> {
+    const { releaseQuery, releaseInfoQuery } = await getReleaseInfo(
+      this.edgeDbClient,
+      releaseId
+    );
+
+    return await this.jobsService.startReleaseJob(
+      user,
+      releaseId,
+      async (tx) => {
+        await e
+          .insert(e.job.ManifestJob, {
+            forRelease: releaseQuery,
+            status: e.job.JobStatus.running,
+            started: e.datetime_current(),
+            percentDone: e.int16(0),
+            messages: jobMessagesLiteral([
+              jobMessage("info", "Manifest job created"),
+            ]),
+            initialTodoCount: e.count(releaseInfoQuery.selectedSpecimens),
+            todoQueue: releaseInfoQuery.selectedSpecimens,
+          })
+          .run(tx);
+      }
+    );
+  }
+
+  /**
+   * Get the manifest built by the most recent successful manifest job of the release
+   * (or null if no manifest has been built).
+   *
+   * @param user
+   * @param releaseId
+   */
+  public async getLatestManifest(
+    user: AuthenticatedUser,
+    releaseId: string
+  ): Promise<ReleaseAwsFileRecord[] | null> {
+    await doRoleInReleaseCheck(this.usersService, user, releaseId);
+
+    await doAccessEnabledCheck(this.edgeDbClient, releaseId);
+
+    const latest = await e
+      .select(e.job.ManifestJob, (j) => ({
+        manifest: true,
+        filter: e.op(
+          e.op(
+            e.op(j.status, "=", e.job.JobStatus.succeeded),
+            "and",
+            e.op(j.forRelease.id, "=", e.uuid(releaseId))
+          ),
+          "and",
+          e.op("not", e.op("exists", j.invalidated))
+        ),
+        order_by: {
+          expression: j.ended,
+          direction: e.DESC,
+        },
+        limit: 1,
+      }))
+      .run(this.edgeDbClient);
+
+    if (latest.length < 1) return null;
+
+    return latest[0].manifest as ReleaseAwsFileRecord[];
+  }
+
+  public async doWork(
+    jobId: string,
+    settings: JobWorkSettings
+  ): Promise<JobWorkOutcome> {
+    const manifestJobQuery = e
+      .select(e.job.ManifestJob, (j) => ({
+        filter: e.op(j.id, "=", e.uuid(jobId)),
+      }))
+      .assert_single();
+
+    const startTime = new Date();
+
+    while (
+      differenceInSeconds(new Date(), startTime) < settings.roughlyMaxSeconds
+    ) {
+      // each batch of specimens is taken off the queue in the same transaction that
+      // adds their files to the manifest
+      const c = await this.edgeDbClient.transaction(async (tx) => {
+        const job = await e
+          .select(manifestJobQuery, (j) => ({
+            initialTodoCount: true,
+            todoCount: e.count(j.todoQueue),
+            todoQueue: () => ({
+              id: true,
+              limit: settings.batchSize,
+            }),
+          }))
+          .run(tx);
+
+        if (!job) throw new Error("Job id passed in was not a Manifest Job");
+
+        if (job.todoQueue.length === 0) return 0;
+
+        const batchQuery = e.select(e.dataset.DatasetSpecimen, (s) => ({
+          filter: e.op(
+            s.id,
+            "in",
+            e.set(...job.todoQueue.map((t) => e.uuid(t.id)))
+          ),
+        }));
+
+        const { files, withheld } = await getSpecimenFileRecords(
+          tx,
+          batchQuery,
+          new Date()
+        );
+
+        const resultMessages = withheld.map((w) =>
+          jobMessage(
+            "warning",
+            `Specimen ${w.specimenId} withheld from the manifest: ${w.reason}`
+          )
+        );
+
+        resultMessages.push(
+          jobMessage(
+            "info",
+            `Added ${files.length} file(s) from ${job.todoQueue.length} specimen(s) to the manifest`
+          )
+        );
+
+        const remaining = job.todoCount - job.todoQueue.length;
+
+        await e
+          .update(manifestJobQuery, (j) => ({
+            set: {
+              todoQueue: { "-=": batchQuery },
+              manifest:
+                files.length > 0
+                  ? e.op(j.manifest, "++", e.array(files.map((f) => e.json(f))))
+                  : j.manifest,
+              messages: e.op(
+                j.messages,
+                "++",
+                jobMessagesLiteral(resultMessages)
+              ),
+              // we never get to 100% here - that is reserved for the completion of the job
+              percentDone: e.int16(
+                Math.floor(
+                  ((job.initialTodoCount - remaining) * 99.99) /
+                    job.initialTodoCount
+                )
+              ),
+            },
+          }))
+          .run(tx);
+
+        return job.todoQueue.length;
+      });
+
+      if (c === 0) return "succeeded";
+    }
+
+    return "working";
+  }
+
+  public async complete(
+    jobId: string,
+    wasSuccessful: boolean,
+    isCancellation: boolean
+  ): Promise<void> {
+    // the manifest stays with the job - the most recent successful manifest job of a release
+    // holds the current manifest
+    await this.jobsService.endGenericJob(
+      jobId,
+      "Manifest job",
+      wasSuccessful,
+      isCancellation
+    );
+  }
+}
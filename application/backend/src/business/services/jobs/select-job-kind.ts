@@ -0,0 +1,38 @@
+import { injectable, singleton } from "tsyringe";
+import { JobsService } from "../jobs-service";
+import { JobKind, JobWorkOutcome, JobWorkSettings } from "./job-kind";
+
+/**
+ * The job that works through all the cases of a release - deciding which specimens
+ * should be selected for release. The queue, work and completion of the job
+ * live in the JobsService.
+ */
+@injectable()
+@singleton()
+export class SelectJobKind implements JobKind {
+  public readonly typeName = "job::SelectJob";
+
+  constructor(private readonly jobsService: JobsService) {}
+
+  public async doWork(
+    jobId: string,
+    settings: JobWorkSettings
+  ): Promise<JobWorkOutcome> {
+    const processed = await this.jobsService.doSelectJobWork(
+      jobId,
+      settings.roughlyMaxSeconds,
+      settings.batchSize
+    );
+
+    // we finish whenever we process 0 (i.e. the queue is empty)
+    return processed > 0 ? "working" : "succeeded";
+  }
+
+  public async complete(
+    jobId: string,
+    wasSuccessful: boolean,
+    isCancellation: boolean
+  ): Promise<void> {
+    await this.jobsService.endSelectJob(jobId, wasSuccessful, isCancellation);
+  }
+}
@@ -0,0 +1,313 @@
+import { Readable } from "stream";
+import { stringify } from "csv-stringify";
+import { ReleaseManifestFormatType } from "@umccr/elsa-types";
+import { ReleaseAwsFileRecord } from "./aws-base-service";
+import { Base7807Error } from "../../api/errors/_error.types";
+
+/**
+ * A formatter that can write out the list of files of a release in a format
+ * that is directly usable by a downstream tool.
+ */
+export interface ManifestFormatter {
+  readonly format: ReleaseManifestFormatType;
+
+  // a short human readable description of the format
+  readonly description: string;
+
+  // the name the formatted file list should be given when downloaded
+  readonly filename: string;
+
+  readonly contentType: string;
+
+  /**
+   * Write out the given files. The output is generated only as it is read - so
+   * it can be streamed straight into an archive or response.
+   *
+   * @param files the files of the release (in the order they should appear)
+   * @throws if the format needs presigned URLs and the files do not have them
+   */
+  write(files: ReleaseAwsFileRecord[]): Readable;
+}
+
+const TABULAR_COLUMNS = [
+  { key: "s3Url", header: "S3" },
+  { key: "fileType", header: "FILETYPE" },
+  { key: "md5", header: "MD5" },
+  { key: "size", header: "SIZE" },
+  { key: "caseId", header: "CASEID" },
+  { key: "patientId", header: "PATIENTID" },
+  { key: "specimenId", header: "SPECIMENID" },
+  { key: "s3Signed", header: "S3SIGNED" },
+];
+
+const SAMPLESHEET_COLUMNS = [
+  "patient",
+  "sample",
+  "fastq_1",
+  "fastq_2",
+  "bam",
+  "bai",
+  "cram",
+  "crai",
+  "vcf",
+  "tbi",
+];
+
+/**
+ * Quote a string so that it is passed through a POSIX shell untouched.
+ */
+function shellQuote(s: string): string {
+  return `'${s.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * The file record as a plain object with a fixed order of fields (the records that come
+ * back out of the manifest job JSON have no guaranteed order).
+ */
+function fileObject(f: ReleaseAwsFileRecord) {
+  return {
+    caseId: f.caseId,
+    patientId: f.patientId,
+    specimenId: f.specimenId,
+    fileType: f.fileType,
+    size: Number(f.size),
+    url: f.s3Url,
+    md5: f.md5,
+    signedUrl: f.s3Signed,
+  };
+}
+
+/**
+ * The column of a samplesheet that a file belongs in - or undefined if the
+ * file is of a type that samplesheets do not take.
+ */
+function samplesheetColumn(f: ReleaseAwsFileRecord): string | undefined {
+  const key = f.s3Key.toLowerCase();
+
+  switch (f.fileType) {
+    case "FASTQ":
+      return "fastq";
+    case "BAM":
+      return key.endsWith(".bai") ? "bai" : "bam";
+    case "CRAM":
+      return key.endsWith(".crai") ? "crai" : "cram";
+    case "VCF":
+      return key.endsWith(".tbi") || key.endsWith(".csi") ? "tbi" : "vcf";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Group the files into samplesheet rows - one row per specimen unless a specimen has
+ * more files of a type than fit in a row (i.e. multiple lanes of FASTQ pairs) - in which
+ * case the specimen spills over into more rows.
+ */
+function samplesheetRows(files: ReleaseAwsFileRecord[]) {
+  const rowsBySpecimen = new Map<string, Record<string, string>[]>();
+
+  // sorting by key means forward reads (R1) come before their reverse reads (R2)
+  const sorted = [...files].sort((a, b) => a.s3Key.localeCompare(b.s3Key));
+
+  for (const f of sorted) {
+    const column = samplesheetColumn(f);
+
+    if (!column) continue;
+
+    const specimenKey = `${f.patientId}\t${f.specimenId}`;
+
+    if (!rowsBySpecimen.has(specimenKey)) rowsBySpecimen.set(specimenKey, []);
+
+    const rows = rowsBySpecimen.get(specimenKey)!;
+
+    const candidates = column === "fastq" ? ["fastq_1", "fastq_2"] : [column];
+
+    let placed = false;
+
+    for (const row of rows) {
+      const free = candidates.find((c) => !row[c]);
+      if (free) {
+        row[free] = f.s3Url;
+        placed = true;
+        break;
+      }
+    }
+
+    if (!placed)
+      rows.push({
+        patient: f.patientId,
+        sample: f.specimenId,
+        [candidates[0]]: f.s3Url,
+      });
+  }
+
+  return Array.from(rowsBySpecimen.values())
+    .flat()
+    .sort(
+      (a, b) =>
+        a.patient.localeCompare(b.patient) || a.sample.localeCompare(b.sample)
+    );
+}
+
+function presignedGuard(
+  format: ReleaseManifestFormatType,
+  files: ReleaseAwsFileRecord[]
+) {
+  if (files.some((f) => !f.s3Signed))
+    throw new Base7807Error(
+      "Manifest format needs presigned URLs",
+      400,
+      `The manifest format ${format} can only be used for a manifest of presigned URLs`
+    );
+}
+
+const tsvFormatter: ManifestFormatter = {
+  format: "tsv",
+  description: "Tab separated values",
+  filename: "files.tsv",
+  contentType: "text/tab-separated-values",
+  write: (files) =>
+    Readable.from(files).pipe(
+      stringify({ header: true, columns: TABULAR_COLUMNS, delimiter: "\t" })
+    ),
+};
+
+const csvFormatter: ManifestFormatter = {
+  format: "csv",
+  description: "Comma separated values",
+  filename: "files.csv",
+  contentType: "text/csv",
+  write: (files) =>
+    Readable.from(files).pipe(
+      stringify({ header: true, columns: TABULAR_COLUMNS })
+    ),
+};
+
+const jsonlFormatter: ManifestFormatter = {
+  format: "jsonl",
+  description: "JSON Lines (one JSON object per file)",
+  filename: "files.jsonl",
+  contentType: "application/jsonl",
+  write: (files) =>
+    Readable.from(files.map((f) => JSON.stringify(fileObject(f)) + "\n")),
+};
+
+const nextflowFormatter: ManifestFormatter = {
+  format: "nextflow",
+  description:
+    "Nextflow samplesheet (one row per specimen with the S3 URLs of its sequencing files)",
+  filename: "samplesheet.csv",
+  contentType: "text/csv",
+  write: (files) =>
+    Readable.from(samplesheetRows(files)).pipe(
+      stringify({ header: true, columns: SAMPLESHEET_COLUMNS })
+    ),
+};
+
+const cromwellFormatter: ManifestFormatter = {
+  format: "cromwell",
+  description:
+    "Cromwell inputs JSON (the files as the input release.files of a workflow)",
+  filename: "inputs.json",
+  contentType: "application/json",
+  write: (files) =>
+    Readable.from([
+      JSON.stringify(
+        {
+          "release.files": files.map((f) => {
+            const { signedUrl, ...rest } = fileObject(f);
+            return rest;
+          }),
+        },
+        null,
+        2
+      ) + "\n",
+    ]),
+};
+
+const awsS3CpFormatter: ManifestFormatter = {
+  format: "aws-s3-cp",
+  description:
+    "Shell script that downloads the files using the AWS CLI (needs AWS credentials)",
+  filename: "download-aws.sh",
+  contentType: "text/x-shellscript",
+  write: (files) =>
+    Readable.from([
+      "#!/bin/sh\n",
+      "# Downloads the files of the release using the AWS CLI.\n",
+      "# Usage: sh download-aws.sh [destination directory]\n",
+      "set -e\n",
+      'DEST="${1:-.}"\n',
+      ...files.map(
+        (f) =>
+          `aws s3 cp ${shellQuote(f.s3Url)} "$DEST"/${shellQuote(f.s3Key)}\n`
+      ),
+    ]),
+};
+
+const downloadScriptFormatter: ManifestFormatter = {
+  format: "download-script",
+  description:
+    "Shell script that downloads the files from their presigned URLs using curl or wget",
+  filename: "download.sh",
+  contentType: "text/x-shellscript",
+  write: (files) => {
+    presignedGuard("download-script", files);
+
+    return Readable.from([
+      "#!/bin/sh\n",
+      "# Downloads the files of the release from their presigned URLs.\n",
+      "# Usage: sh download.sh [destination directory]\n",
+      "set -e\n",
+      'DEST="${1:-.}"\n',
+      "fetch() {\n",
+      '  mkdir -p "$(dirname "$2")"\n',
+      "  if command -v curl >/dev/null 2>&1; then\n",
+      '    curl --fail --silent --show-error --output "$2" "$1"\n',
+      "  else\n",
+      '    wget --quiet --output-document="$2" "$1"\n',
+      "  fi\n",
+      "}\n",
+      ...files.map(
+        (f) =>
+          `fetch ${shellQuote(f.s3Signed!)} "$DEST"/${shellQuote(f.s3Key)}\n`
+      ),
+    ]);
+  },
+};
+
+/**
+ * The registry of every manifest format we can produce.
+ */
+export const MANIFEST_FORMATTERS: Record<
+  ReleaseManifestFormatType,
+  ManifestFormatter
+> = {
+  tsv: tsvFormatter,
+  csv: csvFormatter,
+  jsonl: jsonlFormatter,
+  nextflow: nextflowFormatter,
+  cromwell: cromwellFormatter,
+  "aws-s3-cp": awsS3CpFormatter,
+  "download-script": downloadScriptFormatter,
+};
+
+/**
+ * Get the formatter for a manifest format as asked for in an API request.
+ *
+ * @param format the format name (or undefined/empty for the default of tsv)
+ */
+export function getManifestFormatter(format?: string): ManifestFormatter {
+  if (!format) return tsvFormatter;
+
+  if (!Object.prototype.hasOwnProperty.call(MANIFEST_FORMATTERS, format))
+    throw new Base7807Error(
+      "Unknown manifest format",
+      400,
+      `The manifest format ${format} is not one of ${Object.keys(
+        MANIFEST_FORMATTERS
+      ).join(", ")}`
+    );
+
+  return MANIFEST_FORMATTERS[format as ReleaseManifestFormatType];
+}
@@ -1,14 +1,25 @@
 import * as edgedb from "edgedb";
 import e from "../../../dbschema/edgeql-js";
-import { ReleaseDetailType } from "@umccr/elsa-types";
+import { ReleaseDetailType, ReleaseFileTypeType } from "@umccr/elsa-types";
 import { AuthenticatedUser } from "../authenticated-user";
-import { doRoleInReleaseCheck, getReleaseInfo } from "./helpers";
-import { UsersService } from "./users-service";
+import {
+  ALL_RELEASE_FILE_TYPES,
+  doRoleInReleaseCheck,
+  getReleaseInfo,
+} from "./helpers";
+import { ReleaseRoleStrings, UsersService } from "./users-service";
+import { jobTypeFromTypeName } from "./jobs/job-kind";
+import { Base7807Error } from "../../api/errors/_error.types";
+import { ApiRequestValidationError } from "../../api/errors/api-request-validation-error";
+import { releaseNodeIdsRequestValidate } from "../../validators/validate-json";
 
 // an internal string set that tells the service which generic field to alter
 // (this allows us to make a mega function that sets all array fields in the same way)
 type CodeArrayFields = "diseases" | "countries" | "type";
 
+// the number of the most recent job messages returned along with a running job
+const RUNNING_JOB_MESSAGE_COUNT = 10;
+
 /**
  * The base level functionality for releases.
  *
@@ -147,41 +158,66 @@ export abstract class ReleaseBaseService {
       },
       runningJob: hasRunningJob
         ? {
+            jobId: releaseInfo.runningJob[0].id,
+            jobType: jobTypeFromTypeName(
+              releaseInfo.runningJob[0].__type__.name
+            ),
             percentDone: releaseInfo.runningJob[0].percentDone,
-            messages: releaseInfo.runningJob[0].messages,
+            // the full log can be paged through from the job messages endpoint
+            messages: releaseInfo.runningJob[0].messages.slice(
+              -RUNNING_JOB_MESSAGE_COUNT
+            ),
             requestedCancellation:
               releaseInfo.runningJob[0].requestedCancellation,
+            casesProcessed:
+              releaseInfo.runningJob[0].processedCaseCount ?? undefined,
+            casesPerSecond: releaseInfo.runningJob[0].processingSeconds
+              ? releaseInfo.runningJob[0].processedCaseCount /
+                releaseInfo.runningJob[0].processingSeconds
+              : undefined,
           }
         : undefined,
       visibleCasesCount: visibleCasesCount,
       accessStartDate: releaseInfo.releaseStarted ?? undefined,
       accessEndDate: releaseInfo.releaseEnded ?? undefined,
       accessEnabled: releaseInfo.accessEnabled ?? false,
+      consentSourceUrl: releaseInfo.consentSourceUrl ?? undefined,
+      accessPointConfig: releaseInfo.accessPointAccountIds
+        ? {
+            accountIds: releaseInfo.accessPointAccountIds,
+            vpcId: releaseInfo.accessPointVpcId ?? undefined,
+          }
+        : undefined,
+      allowedFileTypes: (releaseInfo.allowedFileTypes ??
+        ALL_RELEASE_FILE_TYPES) as ReleaseFileTypeType[],
       // data owners can code/edit the release information
       permissionEditSelections: userRole === "DataOwner",
       permissionEditApplicationCoded: userRole === "DataOwner",
       // data owners cannot however access the raw data (if they want access to their data - they need to go other ways)
       permissionAccessData: userRole !== "DataOwner",
+      roleInRelease: userRole as ReleaseRoleStrings,
     };
   }
 
   /**
-   * A mega function that handles altering the sharing status of a dataset node associated with our 'release'.
+   * A mega function that handles altering the sharing status of dataset nodes associated with our 'release'.
    *
    * @param user the user attempting the changes
    * @param releaseId the release id of the release to alter
-   * @param specimenIds the edgedb ids of specimens from datasets of our release
+   * @param nodeIds the edgedb ids of cases, patients or specimens from datasets of our release
    * @param statusToSet the status to set i.e. selected = true means shared, selected = false means not shared
    *
-   * TODO: make this work with any node - not just specimen nodes (i.e. setStatus of patient)
+   * Setting the status of a case or patient sets the status of every specimen below it (specimens
+   * are the only nodes that are actually shared - the status of cases and patients is always computed
+   * from their specimens).
    *
    * This function is responsible for ensuring the passed in identifiers are valid - so it makes sure
-   * that all specimen ids are from datasets that are in this release.
+   * that all node ids are from datasets that are in this release.
    */
   protected async setSelectedStatus(
     user: AuthenticatedUser,
     releaseId: string,
-    specimenIds: string[],
+    nodeIds: string[],
     statusToSet: boolean
   ): Promise<void> {
     const { userRole } = await doRoleInReleaseCheck(
@@ -190,7 +226,20 @@ export abstract class ReleaseBaseService {
       releaseId
     );
 
-    if (specimenIds.length === 0)
+    // as per permissionEditSelections
+    if (userRole !== "DataOwner")
+      throw new Base7807Error(
+        "Not authorised to edit selections",
+        403,
+        `Only data owners of release ${releaseId} can change which specimens are selected`
+      );
+
+    if (!releaseNodeIdsRequestValidate(nodeIds))
+      throw new ApiRequestValidationError(
+        releaseNodeIdsRequestValidate.errors ?? []
+      );
+
+    if (nodeIds.length === 0)
       throw new Error("You must supply some ids to change the status of");
 
     // note this db set we get is likely to be small (bounded by the number of datasets in a release)
@@ -201,11 +250,58 @@ export abstract class ReleaseBaseService {
       releaseId
     );
 
-    // we make a query that returns specimens of only where the input specimen ids belong
-    // to the datasets in our release
-    // we need to do this to prevent our list of valid shared specimens from being
-    // infected with edgedb nodes from different datasets
+    const uniqueNodeIds = Array.from(new Set(nodeIds));
+
+    const nodeIdDbSet = e.set(...uniqueNodeIds.map((a) => e.uuid(a)));
+
+    // we count the nodes of each type where the input node ids belong to the datasets in
+    // our release - we need to do this to prevent our list of valid shared specimens from
+    // being infected with edgedb nodes from different datasets
+    const validNodeCounts = await e
+      .select({
+        cases: e.count(
+          e.select(e.dataset.DatasetCase, (c) => ({
+            filter: e.op(
+              e.op(c.dataset.id, "in", releaseAllDatasetIdDbSet),
+              "and",
+              e.op(c.id, "in", nodeIdDbSet)
+            ),
+          }))
+        ),
+        patients: e.count(
+          e.select(e.dataset.DatasetPatient, (p) => ({
+            filter: e.op(
+              e.op(p.dataset.id, "in", releaseAllDatasetIdDbSet),
+              "and",
+              e.op(p.id, "in", nodeIdDbSet)
+            ),
+          }))
+        ),
+        specimens: e.count(
+          e.select(e.dataset.DatasetSpecimen, (s) => ({
+            filter: e.op(
+              e.op(s.dataset.id, "in", releaseAllDatasetIdDbSet),
+              "and",
+              e.op(s.id, "in", nodeIdDbSet)
+            ),
+          }))
+        ),
+      })
+      .run(this.edgeDbClient);
+
+    if (
+      validNodeCounts.cases +
+        validNodeCounts.patients +
+        validNodeCounts.specimens !=
+      uniqueNodeIds.length
+    )
+      throw new Base7807Error(
+        "Nodes not in release",
+        400,
+        "Mismatch between the nodes that we passed in and those that are allowed cases, patients or specimens in this release"
+      );
 
+    // every specimen that is (or is below) one of the nodes
     const specimensFromValidDatasetsQuery = e.select(
       e.dataset.DatasetSpecimen,
       (s) => ({
@@ -213,20 +309,19 @@ export abstract class ReleaseBaseService {
         filter: e.op(
           e.op(s.dataset.id, "in", releaseAllDatasetIdDbSet),
           "and",
-          e.op(s.id, "in", e.set(...specimenIds.map((a) => e.uuid(a))))
+          e.op(
+            e.op(s.id, "in", nodeIdDbSet),
+            "or",
+            e.op(
+              e.op(s.patient.id, "in", nodeIdDbSet),
+              "or",
+              e.op(s.case_.id, "in", nodeIdDbSet)
+            )
+          )
         ),
       })
     );
 
-    const actualSpecimens = await specimensFromValidDatasetsQuery.run(
-      this.edgeDbClient
-    );
-
-    if (actualSpecimens.length != specimenIds.length)
-      throw Error(
-        "Mismatch between the specimens that we passed in and those that are allowed specimens in this release"
-      );
-
     if (statusToSet) {
       // add specimens to the selected set
       await e
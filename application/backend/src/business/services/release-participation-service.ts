@@ -0,0 +1,339 @@
+import * as edgedb from "edgedb";
+import e from "../../../dbschema/edgeql-js";
+import { inject, injectable, singleton } from "tsyringe";
+import {
+  ReleaseParticipantAddRequestType,
+  ReleaseParticipantRoleType,
+  ReleaseParticipantType,
+} from "@umccr/elsa-types";
+import { AuthenticatedUser } from "../authenticated-user";
+import { Base7807Error } from "../../api/errors/_error.types";
+import { ApiRequestValidationError } from "../../api/errors/api-request-validation-error";
+import { UsersService } from "./users-service";
+import { ReleaseBaseService } from "./release-base-service";
+import { AuditLogService } from "./audit-log-service";
+import { doRoleInReleaseCheck } from "./helpers";
+import {
+  releaseParticipantAddRequestValidate,
+  releaseParticipantRoleRequestValidate,
+} from "../../validators/validate-json";
+
+class ParticipationChangeNotAllowed extends Base7807Error {
+  constructor(releaseId: string) {
+    super(
+      "Not authorised to change participants",
+      403,
+      `Only data owners of release ${releaseId} can change who participates in it`
+    );
+  }
+}
+
+class ParticipantNotFound extends Base7807Error {
+  constructor(releaseId: string, participantId: string) {
+    super(
+      "Participant not found",
+      404,
+      `User ${participantId} is not a participant in release ${releaseId}`
+    );
+  }
+}
+
+/**
+ * The service that manages the users participating in a release - and the role
+ * they each have in it.
+ */
+@injectable()
+@singleton()
+export class ReleaseParticipationService extends ReleaseBaseService {
+  constructor(
+    @inject("Database") edgeDbClient: edgedb.Client,
+    usersService: UsersService,
+    private readonly auditLogService: AuditLogService
+  ) {
+    super(edgeDbClient, usersService);
+  }
+
+  /**
+   * Get the participants of a release. Any participant of a release can see
+   * who else is participating.
+   *
+   * @param user
+   * @param releaseId
+   */
+  public async getParticipants(
+    user: AuthenticatedUser,
+    releaseId: string
+  ): Promise<ReleaseParticipantType[]> {
+    await doRoleInReleaseCheck(this.usersService, user, releaseId);
+
+    return await this.getParticipantsBase(releaseId);
+  }
+
+  /**
+   * Add an existing user into a release with the given role.
+   *
+   * @param user
+   * @param releaseId
+   * @param addRequest the subject id or email of the user to add along with their role
+   */
+  public async addParticipant(
+    user: AuthenticatedUser,
+    releaseId: string,
+    addRequest: ReleaseParticipantAddRequestType
+  ): Promise<ReleaseParticipantType[]> {
+    const now = new Date();
+
+    await this.participationGuard(user, releaseId);
+
+    if (!releaseParticipantAddRequestValidate(addRequest))
+      throw new ApiRequestValidationError(
+        releaseParticipantAddRequestValidate.errors ?? []
+      );
+
+    const who = addRequest.subjectIdOrEmail.trim();
+
+    const matchingUsers = await e
+      .select(e.permission.User, (u) => ({
+        id: true,
+        subjectId: true,
+        filter: e.op(
+          e.op(u.subjectId, "=", who),
+          "or",
+          e.op(u.email, "=", who)
+        ),
+      }))
+      .run(this.edgeDbClient);
+
+    if (matchingUsers.length !== 1)
+      throw new Base7807Error(
+        "Unknown user",
+        400,
+        matchingUsers.length === 0
+          ? `No user is known with subject id or email ${who}`
+          : `More than one user is known with subject id or email ${who}`
+      );
+
+    const participant = matchingUsers[0];
+
+    const existing = await this.getParticipantsBase(releaseId);
+
+    if (existing.some((p) => p.id === participant.id))
+      throw new Base7807Error(
+        "Already a participant",
+        400,
+        `User ${participant.subjectId} is already a participant in release ${releaseId}`
+      );
+
+    await this.setRole(releaseId, participant.id, addRequest.role);
+
+    await this.auditLogService.auditEvent(
+      releaseId,
+      user,
+      `Added participant ${participant.subjectId} as ${addRequest.role}`,
+      "C",
+      0,
+      now,
+      new Date()
+    );
+
+    return await this.getParticipantsBase(releaseId);
+  }
+
+  /**
+   * Change the role of a participant of a release.
+   *
+   * @param user
+   * @param releaseId
+   * @param participantId the edgedb id of the participating user
+   * @param role the new role of the participant
+   */
+  public async changeParticipantRole(
+    user: AuthenticatedUser,
+    releaseId: string,
+    participantId: string,
+    role: ReleaseParticipantRoleType
+  ): Promise<ReleaseParticipantType[]> {
+    const now = new Date();
+
+    await this.participationGuard(user, releaseId);
+
+    if (!releaseParticipantRoleRequestValidate({ role: role }))
+      throw new ApiRequestValidationError(
+        releaseParticipantRoleRequestValidate.errors ?? []
+      );
+
+    const participant = await this.existingParticipantGuard(
+      releaseId,
+      participantId,
+      role !== "DataOwner"
+    );
+
+    await this.edgeDbClient.transaction(async (tx) => {
+      // a link property can only be set by re-linking - so we remove and re-add
+      await this.removeRole(releaseId, participantId, tx);
+      await this.setRole(releaseId, participantId, role, tx);
+    });
+
+    await this.auditLogService.auditEvent(
+      releaseId,
+      user,
+      `Changed role of participant ${participant.subjectId} from ${participant.role} to ${role}`,
+      "U",
+      0,
+      now,
+      new Date()
+    );
+
+    return await this.getParticipantsBase(releaseId);
+  }
+
+  /**
+   * Remove a participant from a release.
+   *
+   * @param user
+   * @param releaseId
+   * @param participantId the edgedb id of the participating user
+   */
+  public async removeParticipant(
+    user: AuthenticatedUser,
+    releaseId: string,
+    participantId: string
+  ): Promise<ReleaseParticipantType[]> {
+    const now = new Date();
+
+    await this.participationGuard(user, releaseId);
+
+    const participant = await this.existingParticipantGuard(
+      releaseId,
+      participantId,
+      true
+    );
+
+    await this.removeRole(releaseId, participantId, this.edgeDbClient);
+
+    await this.auditLogService.auditEvent(
+      releaseId,
+      user,
+      `Removed participant ${participant.subjectId} (who was ${participant.role})`,
+      "D",
+      0,
+      now,
+      new Date()
+    );
+
+    return await this.getParticipantsBase(releaseId);
+  }
+
+  private async participationGuard(user: AuthenticatedUser, releaseId: string) {
+    const { userRole } = await doRoleInReleaseCheck(
+      this.usersService,
+      user,
+      releaseId
+    );
+
+    if (userRole !== "DataOwner")
+      throw new ParticipationChangeNotAllowed(releaseId);
+  }
+
+  /**
+   * Check that the user is a participant of the release - and (if the participant
+   * is losing their data owner role) that they are not the last data owner.
+   *
+   * @param releaseId
+   * @param participantId
+   * @param losingOwnership if the change will mean the participant is no longer a data owner
+   */
+  private async existingParticipantGuard(
+    releaseId: string,
+    participantId: string,
+    losingOwnership: boolean
+  ): Promise<ReleaseParticipantType> {
+    const existing = await this.getParticipantsBase(releaseId);
+
+    const participant = existing.find((p) => p.id === participantId);
+
+    if (!participant) throw new ParticipantNotFound(releaseId, participantId);
+
+    if (
+      losingOwnership &&
+      participant.role === "DataOwner" &&
+      existing.filter((p) => p.role === "DataOwner").length === 1
+    )
+      throw new Base7807Error(
+        "Last data owner",
+        400,
+        `Release ${releaseId} must always have at least one data owner`
+      );
+
+    return participant;
+  }
+
+  private async getParticipantsBase(
+    releaseId: string
+  ): Promise<ReleaseParticipantType[]> {
+    // the roles are link properties - so we need to come at the participants from
+    // the users side
+    const participants = await e
+      .select(e.permission.User, (u) => ({
+        id: true,
+        subjectId: true,
+        displayName: true,
+        email: true,
+        releaseParticipant: (r) => ({
+          "@role": true,
+          filter: e.op(r.id, "=", e.uuid(releaseId)),
+        }),
+        filter: e.op(e.uuid(releaseId), "in", u.releaseParticipant.id),
+        order_by: u.subjectId,
+      }))
+      .run(this.edgeDbClient);
+
+    return participants.map((p) => ({
+      id: p.id,
+      subjectId: p.subjectId,
+      displayName: p.displayName ?? undefined,
+      email: p.email ?? undefined,
+      role: p.releaseParticipant[0]["@role"] as ReleaseParticipantRoleType,
+    }));
+  }
+
+  private async setRole(
+    releaseId: string,
+    participantId: string,
+    role: ReleaseParticipantRoleType,
+    executor: edgedb.Executor = this.edgeDbClient
+  ) {
+    await e
+      .update(e.permission.User, (u) => ({
+        filter: e.op(u.id, "=", e.uuid(participantId)),
+        set: {
+          releaseParticipant: {
+            "+=": e.select(e.release.Release, (r) => ({
+              filter: e.op(r.id, "=", e.uuid(releaseId)),
+              "@role": e.str(role),
+            })),
+          },
+        },
+      }))
+      .run(executor);
+  }
+
+  private async removeRole(
+    releaseId: string,
+    participantId: string,
+    executor: edgedb.Executor
+  ) {
+    await e
+      .update(e.permission.User, (u) => ({
+        filter: e.op(u.id, "=", e.uuid(participantId)),
+        set: {
+          releaseParticipant: {
+            "-=": e.select(e.release.Release, (r) => ({
+              filter: e.op(r.id, "=", e.uuid(releaseId)),
+            })),
+          },
+        },
+      }))
+      .run(executor);
+  }
+}
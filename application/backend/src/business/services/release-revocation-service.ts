@@ -0,0 +1,158 @@
+import * as edgedb from "edgedb";
+import e from "../../../dbschema/edgeql-js";
+import { inject, injectable, singleton } from "tsyringe";
+import { ReleaseDetailType } from "@umccr/elsa-types";
+import { AuthenticatedUser } from "../authenticated-user";
+import { Base7807Error } from "../../api/errors/_error.types";
+import { UsersService } from "./users-service";
+import { ReleaseBaseService } from "./release-base-service";
+import { AwsAccessPointService } from "./aws-access-point-service";
+import { AuditLogService } from "./audit-log-service";
+import { doRoleInReleaseCheck, generateReleasePassword } from "./helpers";
+import { jobMessage, jobMessagesLiteral } from "./jobs/job-messages";
+
+class RevocationNotAllowed extends Base7807Error {
+  constructor(releaseId: string) {
+    super(
+      "Not authorised to revoke access",
+      403,
+      `Only data owners of release ${releaseId} can revoke access to its data`
+    );
+  }
+}
+
+class AccessPointJobInProgress extends Base7807Error {
+  constructor(releaseId: string) {
+    super(
+      "Access point job in progress",
+      400,
+      `Cancellation of the running access point job of release ${releaseId} has been requested - access can be revoked once the job has ended`
+    );
+  }
+}
+
+/**
+ * The service that tears down all the access that has been issued for a release.
+ *
+ * Note that presigned URLs that have already been handed out cannot be
+ * revoked (S3 honours them until they expire) - but rotating the release password means
+ * no newly encrypted artifacts can be opened with any previously shared password.
+ */
+@injectable()
+@singleton()
+export class ReleaseRevocationService extends ReleaseBaseService {
+  constructor(
+    @inject("Database") edgeDbClient: edgedb.Client,
+    usersService: UsersService,
+    private readonly awsAccessPointService: AwsAccessPointService,
+    private readonly auditLogService: AuditLogService
+  ) {
+    super(edgeDbClient, usersService);
+  }
+
+  /**
+   * Revoke all the access issued for a release. This deletes the access point stack
+   * of the release, rotates the release password and invalidates every manifest built
+   * for the release. The access window of the release is left untouched - so access can
+   * be re-issued if the window is still open. Access cannot be revoked while an access
+   * point job of the release is running - instead the cancellation of the job is requested.
+   *
+   * @param user
+   * @param releaseId
+   */
+  public async revokeAccess(
+    user: AuthenticatedUser,
+    releaseId: string
+  ): Promise<ReleaseDetailType> {
+    const now = new Date();
+
+    const { userRole } = await doRoleInReleaseCheck(
+      this.usersService,
+      user,
+      releaseId
+    );
+
+    if (userRole !== "DataOwner") throw new RevocationNotAllowed(releaseId);
+
+    // a running access point job could (re)create the stack after we have deleted it - and a
+    // round of work already under way cannot be stopped - so we request that the job is
+    // cancelled and refuse to revoke until it has ended
+    const runningAccessPointJobs = await e
+      .update(e.job.AccessPointInstallJob, (j) => ({
+        filter: e.op(
+          e.op(j.forRelease.id, "=", e.uuid(releaseId)),
+          "and",
+          e.op(j.status, "=", e.job.JobStatus.running)
+        ),
+        set: {
+          requestedCancellation: true,
+          messages: e.op(
+            j.messages,
+            "++",
+            jobMessagesLiteral([
+              jobMessage(
+                "info",
+                "Cancellation requested by revocation of access"
+              ),
+            ])
+          ),
+        },
+      }))
+      .run(this.edgeDbClient);
+
+    if (runningAccessPointJobs.length > 0)
+      throw new AccessPointJobInProgress(releaseId);
+
+    // an instance with no AWS credentials can never have installed any access points
+    const stackDeleted = this.awsAccessPointService.isEnabled
+      ? await this.awsAccessPointService.deleteCloudFormationAccessPointForRelease(
+          user,
+          releaseId
+        )
+      : false;
+
+    const invalidatedManifests = await this.edgeDbClient.transaction(
+      async (tx) => {
+        await e
+          .update(e.release.Release, (r) => ({
+            filter: e.op(r.id, "=", e.uuid(releaseId)),
+            set: {
+              releasePassword: generateReleasePassword(),
+            },
+          }))
+          .run(tx);
+
+        return await e
+          .update(e.job.ManifestJob, (j) => ({
+            filter: e.op(
+              e.op(j.forRelease.id, "=", e.uuid(releaseId)),
+              "and",
+              e.op("not", e.op("exists", j.invalidated))
+            ),
+            set: {
+              invalidated: e.datetime_current(),
+            },
+          }))
+          .run(tx);
+      }
+    );
+
+    await this.auditLogService.auditEvent(
+      releaseId,
+      user,
+      `Revoked all access - ${
+        stackDeleted
+          ? "deleted the access point stack"
+          : "there was no access point stack"
+      }, rotated the release password and invalidated ${
+        invalidatedManifests.length
+      } manifest(s)`,
+      "D",
+      0,
+      now,
+      new Date()
+    );
+
+    return await this.getBase(releaseId, userRole);
+  }
+}
@@ -1,24 +1,53 @@
 import * as edgedb from "edgedb";
 import e, { dataset } from "../../../dbschema/edgeql-js";
 import {
+  ReleaseAccessStateType,
+  ReleaseAllowedFileTypesRequestType,
+  ReleaseAwsAccessPointConfigRequestType,
   ReleaseCaseType,
+  ReleaseConsentStatementType,
+  ReleaseCreateRequestType,
   ReleaseDetailType,
+  ReleaseManualPinRequestType,
+  ReleaseMasterAccessRequestType,
+  ReleaseManualPinType,
+  ReleaseNodePinType,
   ReleaseNodeStatusType,
   ReleasePatientType,
+  ReleaseSpecimenDecisionType,
   ReleaseSpecimenType,
   ReleaseSummaryType,
 } from "@umccr/elsa-types";
 import { AuthenticatedUser } from "../authenticated-user";
-import { isObjectLike, isSafeInteger } from "lodash";
+import { isObjectLike, isSafeInteger, isString, uniq } from "lodash";
 import { createPagedResult, PagedResult } from "../../api/api-pagination";
 import {
+  ALL_RELEASE_FILE_TYPES,
   collapseExternalIds,
   doRoleInReleaseCheck,
+  generateReleasePassword,
   getReleaseInfo,
+  getReleaseManualPins,
 } from "./helpers";
 import { inject, injectable, singleton } from "tsyringe";
-import { UsersService } from "./users-service";
+import { ReleaseRoleStrings, UsersService } from "./users-service";
 import { ReleaseBaseService } from "./release-base-service";
+import { ConsentLevel, parseDuoLimitation } from "./duo-helpers";
+import {
+  duoLimitationValidate,
+  releaseAllowedFileTypesRequestValidate,
+  releaseAwsAccessPointConfigRequestValidate,
+  releaseCreateRequestValidate,
+  releaseManualPinRequestValidate,
+  releaseMasterAccessRequestValidate,
+} from "../../validators/validate-json";
+import { Base7807Error } from "../../api/errors/_error.types";
+import { UnexpectedStateInternalServerError } from "../../api/errors/unexpected-state-internal-server-error";
+import { createConsentProvider } from "./consent-provider";
+import { ApiRequestValidationError } from "../../api/errors/api-request-validation-error";
+import { AuditLogService } from "./audit-log-service";
+import { BadLimitOffset } from "../exceptions/BadLimitOffset";
+import { makeEmptyCodeArray } from "../db/coded-helpers";
 
 // an internal string set that tells the service which generic field to alter
 // (this allows us to make a mega function that sets all array fields in the same way)
@@ -28,43 +57,175 @@ type CodeArrayFields = "diseases" | "countries" | "type";
 export class ReleasesService extends ReleaseBaseService {
   constructor(
     @inject("Database") edgeDbClient: edgedb.Client,
-    usersService: UsersService
+    usersService: UsersService,
+    private readonly auditLogService: AuditLogService,
+    @inject("ConsentSourceHosts")
+    private readonly consentSourceHosts: string[]
   ) {
     super(edgeDbClient, usersService);
   }
 
+  /**
+   * Get a page of the releases that the user participates in - along with
+   * their role in each.
+   *
+   * @param user
+   * @param limit
+   * @param offset
+   * @param search if present, a string to search for within the DAC identifier or title of the release
+   * @param accessState if present, the state of the access window that the releases must be in
+   */
   public async getAll(
     user: AuthenticatedUser,
     limit: number,
-    offset: number
-  ): Promise<ReleaseSummaryType[]> {
-    const allForUser = await e
-      .select(e.release.Release, (r) => ({
-        ...e.release.Release["*"],
+    offset: number,
+    search?: string,
+    accessState?: ReleaseAccessStateType
+  ): Promise<PagedResult<ReleaseSummaryType>> {
+    if (limit <= 0 || offset < 0) throw new BadLimitOffset(limit, offset);
+
+    // escape any characters that are special in a like pattern
+    const searchPattern = search?.trim()
+      ? `%${search.trim().replace(/[\\%_]/g, "\\$&")}%`
+      : undefined;
+
+    const releasesForUser = e.select(e.release.Release, (r) => {
+      const isActive = e.op(
+        e.op(
+          e.op(e.datetime_current(), ">=", r.releaseStarted),
+          "and",
+          e.op(e.datetime_current(), "<=", r.releaseEnded)
+        ),
+        "??",
+        e.bool(false)
+      );
+      const isEnded = e.op(
+        e.op(e.datetime_current(), ">", r.releaseEnded),
+        "??",
+        e.bool(false)
+      );
+
+      const stateFilter =
+        accessState === "active"
+          ? isActive
+          : accessState === "ended"
+          ? isEnded
+          : accessState === "pending"
+          ? e.op(e.op("not", isActive), "and", e.op("not", isEnded))
+          : e.bool(true);
+
+      // (the identifier and title are optional - so each must default to not matching)
+      const searchFilter = searchPattern
+        ? e.op(
+            e.op(
+              e.op(r.applicationDacIdentifier, "ilike", searchPattern),
+              "??",
+              e.bool(false)
+            ),
+            "or",
+            e.op(
+              e.op(r.applicationDacTitle, "ilike", searchPattern),
+              "??",
+              e.bool(false)
+            )
+          )
+        : e.bool(true);
+
+      return {
+        filter: e.op(
+          e.op(
+            e.uuid(user.dbId),
+            "in",
+            r["<releaseParticipant[is permission::User]"].id
+          ),
+          "and",
+          e.op(stateFilter, "and", searchFilter)
+        ),
+      };
+    });
+
+    const total = await e.count(releasesForUser).run(this.edgeDbClient);
+
+    const pageOfReleases = await e
+      .select(releasesForUser, (r) => ({
+        id: true,
+        datasetUris: true,
+        applicationDacIdentifier: true,
+        applicationDacTitle: true,
         runningJob: {
           percentDone: true,
         },
-        userRoles: e.select(
-          r["<releaseParticipant[is permission::User]"],
-          (u) => ({
-            id: true,
-            filter: e.op(u.id, "=", e.uuid(user.dbId)),
-            // "@role": true
-          })
-        ),
+        releaseStarted: true,
+        releaseEnded: true,
+        order_by: [
+          {
+            expression: r.created,
+            direction: e.DESC,
+          },
+          {
+            expression: r.id,
+          },
+        ],
+        limit: e.int64(limit),
+        offset: e.int64(offset),
       }))
       .run(this.edgeDbClient);
 
-    return allForUser
-      .filter((a) => a.userRoles != null)
-      .map((a) => ({
+    // the roles are link properties - so they need to be fetched from the users side
+    const userWithRoles = await e
+      .select(e.permission.User, (u) => ({
+        releaseParticipant: (rp) => ({
+          id: true,
+          "@role": true,
+          filter: e.op(
+            rp.id,
+            "in",
+            e.array_unpack(
+              e.literal(
+                e.array(e.uuid),
+                pageOfReleases.map((r) => r.id)
+              )
+            )
+          ),
+        }),
+        filter: e.op(u.id, "=", e.uuid(user.dbId)),
+      }))
+      .assert_single()
+      .run(this.edgeDbClient);
+
+    const roleMap = new Map(
+      (userWithRoles?.releaseParticipant ?? []).map((rp) => [
+        rp.id,
+        rp["@role"] as ReleaseRoleStrings,
+      ])
+    );
+
+    const now = new Date();
+
+    // the same logic as the database filter - but for the individual releases
+    const accessStateOf = (
+      started: Date | null,
+      ended: Date | null
+    ): ReleaseAccessStateType => {
+      if (started && ended && started <= now && now <= ended) return "active";
+      if (ended && now > ended) return "ended";
+      return "pending";
+    };
+
+    return createPagedResult(
+      pageOfReleases.map((a) => ({
         id: a.id,
         datasetUris: a.datasetUris,
         applicationDacIdentifier:
           a?.applicationDacIdentifier ?? "<unidentified>",
         applicationDacTitle: a?.applicationDacTitle ?? "<untitled>",
-        isRunningJobPercentDone: undefined,
-      }));
+        isRunningJobPercentDone: a.runningJob?.percentDone ?? undefined,
+        accessState: accessStateOf(a.releaseStarted, a.releaseEnded),
+        roleInRelease: roleMap.get(a.id)!,
+      })),
+      total,
+      limit
+    );
   }
 
   /**
@@ -98,6 +259,8 @@ export class ReleasesService extends ReleaseBaseService {
     user: AuthenticatedUser,
     releaseId: string
   ): Promise<string | null> {
+    const now = new Date();
+
     const { userRole } = await doRoleInReleaseCheck(
       this.usersService,
       user,
@@ -106,9 +269,169 @@ export class ReleasesService extends ReleaseBaseService {
 
     const { releaseInfo } = await getReleaseInfo(this.edgeDbClient, releaseId);
 
+    // the password opens the manifests - so we need a record of everyone who has seen it
+    await this.auditLogService.auditEvent(
+      releaseId,
+      user,
+      "Retrieved the release password",
+      "R",
+      0,
+      now,
+      new Date()
+    );
+
     return releaseInfo.releasePassword;
   }
 
+  /**
+   * Create a new release of datasets owned by the user. The user becomes a data
+   * owner of the new release - alongside any other participants requested.
+   *
+   * @param user
+   * @param createRequest the details of the release to create
+   * @returns the newly created release
+   */
+  public async create(
+    user: AuthenticatedUser,
+    createRequest: ReleaseCreateRequestType
+  ): Promise<ReleaseDetailType> {
+    const now = new Date();
+
+    if (!releaseCreateRequestValidate(createRequest))
+      throw new ApiRequestValidationError(
+        releaseCreateRequestValidate.errors ?? []
+      );
+
+    const identifier = createRequest.applicationDacIdentifier.trim();
+    const title = createRequest.applicationDacTitle.trim();
+
+    if (!identifier || !title)
+      throw new Base7807Error(
+        "Invalid release",
+        400,
+        "A release must have a DAC identifier and a title"
+      );
+
+    const datasetUris = uniq(createRequest.datasetUris);
+
+    // releases can only be made of datasets that the user owns
+    const owner = await e
+      .select(e.permission.User, (u) => ({
+        datasetOwner: {
+          uri: true,
+        },
+        filter: e.op(u.id, "=", e.uuid(user.dbId)),
+      }))
+      .assert_single()
+      .run(this.edgeDbClient);
+
+    const ownedUris = new Set(owner?.datasetOwner.map((d) => d.uri) ?? []);
+    const notOwnedUris = datasetUris.filter((uri) => !ownedUris.has(uri));
+
+    if (notOwnedUris.length > 0)
+      throw new Base7807Error(
+        "Not authorised to release datasets",
+        403,
+        `Releases can only be created of datasets you own - which does not include ${notOwnedUris.join(
+          ", "
+        )}`
+      );
+
+    // the creator is always a data owner of the release - so they are excluded from the
+    // other participants
+    const participants = createRequest.participants.filter(
+      (p) => p.subjectId !== user.subjectId
+    );
+
+    const participantSubjectIds = participants.map((p) => p.subjectId);
+
+    if (uniq(participantSubjectIds).length !== participantSubjectIds.length)
+      throw new Base7807Error(
+        "Invalid participants",
+        400,
+        "A user can only be given a single role in a release"
+      );
+
+    const knownUsers = await e
+      .select(e.permission.User, (u) => ({
+        subjectId: true,
+        filter: e.op(
+          u.subjectId,
+          "in",
+          e.array_unpack(e.literal(e.array(e.str), participantSubjectIds))
+        ),
+      }))
+      .run(this.edgeDbClient);
+
+    const knownSubjectIds = new Set(knownUsers.map((u) => u.subjectId));
+    const unknownSubjectIds = participantSubjectIds.filter(
+      (s) => !knownSubjectIds.has(s)
+    );
+
+    if (unknownSubjectIds.length > 0)
+      throw new Base7807Error(
+        "Invalid participants",
+        400,
+        `No users are known with subject id(s) ${unknownSubjectIds.join(", ")}`
+      );
+
+    const releaseId = await this.edgeDbClient.transaction(async (tx) => {
+      const inserted = await e
+        .insert(e.release.Release, {
+          applicationDacIdentifier: identifier,
+          applicationDacTitle: title,
+          applicationDacDetails: createRequest.applicationDacDetails,
+          applicationCoded: e.insert(e.release.ApplicationCoded, {
+            studyType: createRequest.applicationCodedStudyType,
+            countriesInvolved: makeEmptyCodeArray(),
+            diseasesOfStudy: makeEmptyCodeArray(),
+            studyAgreesToPublish:
+              createRequest.applicationCodedStudyAgreesToPublish,
+            studyIsNotCommercial:
+              createRequest.applicationCodedStudyIsNotCommercial,
+          }),
+          datasetUris: e.literal(e.array(e.str), datasetUris),
+          releasePassword: generateReleasePassword(),
+        })
+        .run(tx);
+
+      for (const p of [
+        { subjectId: user.subjectId, role: "DataOwner" },
+        ...participants,
+      ]) {
+        await e
+          .update(e.permission.User, (u) => ({
+            filter: e.op(u.subjectId, "=", p.subjectId),
+            set: {
+              releaseParticipant: {
+                "+=": e.select(e.release.Release, (r) => ({
+                  filter: e.op(r.id, "=", e.uuid(inserted.id)),
+                  "@role": e.str(p.role),
+                })),
+              },
+            },
+          }))
+          .run(tx);
+      }
+
+      return inserted.id;
+    });
+
+    await this.auditLogService.auditEvent(
+      releaseId,
+      user,
+      `Created release ${identifier} of ${datasetUris.join(", ")} with ${
+        participants.length
+      } other participant(s)`,
+      "C",
+      0,
+      now,
+      new Date()
+    );
+
+    return await this.getBase(releaseId, "DataOwner");
+  }
+
   /**
    * Get all the cases for a release including checkbox status down to specimen level.
    *
@@ -200,6 +523,20 @@ export class ReleasesService extends ReleaseBaseService {
 
     const pageCases = await caseSearchQuery.run(this.edgeDbClient);
 
+    // the reasons behind manual pins are only of interest to (and only shown to) data owners
+    const manualPins =
+      userRole === "DataOwner"
+        ? await getReleaseManualPins(this.edgeDbClient, releaseId)
+        : new Map();
+
+    const nodePin = (nodeId: string): ReleaseNodePinType | undefined => {
+      const p = manualPins.get(nodeId);
+
+      return p
+        ? { pin: p.pin, who: p.who, recorded: p.recorded, reason: p.reason }
+        : undefined;
+    };
+
     // we need to construct the result hierarchies, including computing the checkbox at intermediate nodes
 
     if (!pageCases) return null;
@@ -235,6 +572,7 @@ export class ReleasesService extends ReleaseBaseService {
           ? "selected"
           : "unselected") as ReleaseNodeStatusType,
         customConsent: isObjectLike(spec.consent),
+        manualPin: nodePin(spec.id),
       };
     };
 
@@ -251,6 +589,7 @@ export class ReleasesService extends ReleaseBaseService {
         externalId: collapseExternalIds(pat.externalIdentifiers),
         nodeStatus: calcNodeStatus(specimensMapped),
         customConsent: isObjectLike(pat.consent),
+        manualPin: nodePin(pat.id),
         specimens: specimensMapped,
       };
     };
@@ -267,6 +606,7 @@ export class ReleasesService extends ReleaseBaseService {
         fromDatasetUri: cas.dataset?.uri!,
         nodeStatus: calcNodeStatus(patientsMapped),
         customConsent: isObjectLike(cas.consent),
+        manualPin: nodePin(cas.id),
         patients: patientsMapped,
       };
     };
@@ -281,27 +621,591 @@ export class ReleasesService extends ReleaseBaseService {
     );
   }
 
+  /**
+   * Get the reasons for the most recent automated selection decision about a
+   * single specimen of the release.
+   *
+   * @param user
+   * @param releaseId
+   * @param specimenId
+   * @returns the decision or null if no select job has made a decision about this specimen
+   */
+  public async getSpecimenDecision(
+    user: AuthenticatedUser,
+    releaseId: string,
+    specimenId: string
+  ): Promise<ReleaseSpecimenDecisionType | null> {
+    const { userRole } = await doRoleInReleaseCheck(
+      this.usersService,
+      user,
+      releaseId
+    );
+
+    const { releaseQuery } = await getReleaseInfo(this.edgeDbClient, releaseId);
+
+    const decision = await e
+      .select(releaseQuery.selectionDecisions, (sd) => ({
+        selected: true,
+        evaluations: true,
+        decided: true,
+        manualPinReason: true,
+        filter: e.op(sd.specimen.id, "=", e.uuid(specimenId)),
+      }))
+      .assert_single()
+      .run(this.edgeDbClient);
+
+    if (!decision) return null;
+
+    // like consent statements, the json may be returned to us as a string
+    const evaluations = isString(decision.evaluations)
+      ? JSON.parse(decision.evaluations)
+      : decision.evaluations;
+
+    return {
+      specimenId: specimenId,
+      selected: decision.selected,
+      decided: decision.decided,
+      evaluations: evaluations ?? [],
+      manualPinReason: decision.manualPinReason ?? undefined,
+    };
+  }
+
+  /**
+   * Get all the consent statements that apply to a single node (case, patient or specimen)
+   * of the release. This includes the statements attached directly to the node and
+   * every statement inherited from its ancestors in the dataset tree.
+   *
+   * @param user
+   * @param releaseId
+   * @param nodeId the edgedb id of a case, patient or specimen
+   */
+  public async getNodeConsent(
+    user: AuthenticatedUser,
+    releaseId: string,
+    nodeId: string
+  ): Promise<ReleaseConsentStatementType[]> {
+    const { userRole } = await doRoleInReleaseCheck(
+      this.usersService,
+      user,
+      releaseId
+    );
+
+    const { releaseInfo } = await getReleaseInfo(this.edgeDbClient, releaseId);
+
+    const consentShape = {
+      id: true,
+      consent: {
+        statements: {
+          ...e.is(e.consent.ConsentStatementDuo, {
+            dataUseLimitation: true,
+          }),
+        },
+      },
+    };
+
+    // the chain of nodes from the dataset down to the requested node
+    let chain: { level: ConsentLevel; node: any }[] | null = null;
+
+    const specimen = await e
+      .select(e.dataset.DatasetSpecimen, (s) => ({
+        ...consentShape,
+        dataset: consentShape,
+        case_: consentShape,
+        patient: consentShape,
+        filter: e.op(s.id, "=", e.uuid(nodeId)),
+      }))
+      .assert_single()
+      .run(this.edgeDbClient);
+
+    if (specimen) {
+      chain = [
+        { level: "dataset", node: specimen.dataset },
+        { level: "case", node: specimen.case_ },
+        { level: "patient", node: specimen.patient },
+        { level: "specimen", node: specimen },
+      ];
+    } else {
+      const patient = await e
+        .select(e.dataset.DatasetPatient, (p) => ({
+          ...consentShape,
+          dataset: consentShape,
+          case_: e.select(
+            p["<patients[is dataset::DatasetCase]"],
+            () => consentShape
+          ),
+          filter: e.op(p.id, "=", e.uuid(nodeId)),
+        }))
+        .assert_single()
+        .run(this.edgeDbClient);
+
+      if (patient) {
+        chain = [
+          { level: "dataset", node: patient.dataset },
+          { level: "case", node: patient.case_[0] },
+          { level: "patient", node: patient },
+        ];
+      } else {
+        const cas = await e
+          .select(e.dataset.DatasetCase, (c) => ({
+            ...consentShape,
+            dataset: consentShape,
+            filter: e.op(c.id, "=", e.uuid(nodeId)),
+          }))
+          .assert_single()
+          .run(this.edgeDbClient);
+
+        if (cas) {
+          chain = [
+            { level: "dataset", node: cas.dataset },
+            { level: "case", node: cas },
+          ];
+        }
+      }
+    }
+
+    if (!chain)
+      throw new Base7807Error(
+        "Node not found",
+        404,
+        `No case, patient or specimen with id ${nodeId} exists`
+      );
+
+    // nodes can only be asked about in the context of releases that include their dataset
+    const datasetNode = chain[0].node;
+
+    if (
+      !datasetNode ||
+      !releaseInfo.datasetIds.some((d) => d.id === datasetNode.id)
+    )
+      throw new Base7807Error(
+        "Node not in release",
+        400,
+        `Node ${nodeId} is not from a dataset of release ${releaseId}`
+      );
+
+    const results: ReleaseConsentStatementType[] = [];
+
+    for (const { level, node } of chain) {
+      for (const s of node?.consent?.statements ?? []) {
+        const statement = parseDuoLimitation(s.dataUseLimitation);
+
+        if (!statement || !duoLimitationValidate(statement))
+          throw new UnexpectedStateInternalServerError(
+            `Consent statement attached to ${level} ${node.id} was not valid DUO`
+          );
+
+        results.push({
+          level: level,
+          nodeId: node.id,
+          statement: statement,
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Get all the manual pins (inclusions and exclusions) of the release.
+   *
+   * @param user
+   * @param releaseId
+   */
+  public async getManualPins(
+    user: AuthenticatedUser,
+    releaseId: string
+  ): Promise<ReleaseManualPinType[]> {
+    const { userRole } = await doRoleInReleaseCheck(
+      this.usersService,
+      user,
+      releaseId
+    );
+
+    this.manualPinGuard(userRole, releaseId);
+
+    const pinnedShape = {
+      id: true,
+      __type__: { name: true },
+      ...e.is(e.dataset.DatasetIdentifiable, { externalIdentifiers: true }),
+      "@who": true,
+      "@recorded": true,
+      "@reason": true,
+    };
+
+    const release = await e
+      .select(e.release.Release, (r) => ({
+        manualInclusions: pinnedShape,
+        manualExclusions: pinnedShape,
+        filter: e.op(r.id, "=", e.uuid(releaseId)),
+      }))
+      .assert_single()
+      .run(this.edgeDbClient);
+
+    const asPin =
+      (pin: ReleaseManualPinType["pin"]) =>
+      (n: any): ReleaseManualPinType => ({
+        nodeId: n.id,
+        nodeLevel: ReleasesService.nodeLevelFromTypeName(n.__type__.name),
+        externalId: collapseExternalIds(n.externalIdentifiers),
+        pin: pin,
+        who: n["@who"] ?? "",
+        recorded: n["@recorded"],
+        reason: n["@reason"] ?? "",
+      });
+
+    return [
+      ...(release?.manualExclusions ?? []).map(asPin("exclude")),
+      ...(release?.manualInclusions ?? []).map(asPin("include")),
+    ];
+  }
+
+  /**
+   * Pin a case, patient or specimen (and everything below it) as always included or
+   * always excluded from the release - irrespective of what the automated selection
+   * decides. Any existing pin on the node is replaced. The pin takes effect the next
+   * time a select job is run.
+   *
+   * @param user
+   * @param releaseId
+   * @param nodeId the edgedb id of a case, patient or specimen
+   * @param pinRequest
+   */
+  public async setManualPin(
+    user: AuthenticatedUser,
+    releaseId: string,
+    nodeId: string,
+    pinRequest: ReleaseManualPinRequestType
+  ): Promise<ReleaseManualPinType[]> {
+    const { userRole } = await doRoleInReleaseCheck(
+      this.usersService,
+      user,
+      releaseId
+    );
+
+    this.manualPinGuard(userRole, releaseId);
+
+    if (!releaseManualPinRequestValidate(pinRequest))
+      throw new ApiRequestValidationError(
+        releaseManualPinRequestValidate.errors ?? []
+      );
+
+    // a reason made only of whitespace is no reason at all
+    if (!pinRequest.reason.trim())
+      throw new Base7807Error(
+        "Pin reason required",
+        400,
+        "Every manual pin must have a reason"
+      );
+
+    await this.checkNodeInRelease(releaseId, nodeId);
+
+    const nodeQuery = e.select(e.dataset.DatasetShareable, (n) => ({
+      filter: e.op(n.id, "=", e.uuid(nodeId)),
+    }));
+
+    const pinnedNodeQuery = e.select(e.dataset.DatasetShareable, (n) => ({
+      filter: e.op(n.id, "=", e.uuid(nodeId)),
+      "@who": e.str(user.subjectId),
+      "@recorded": e.datetime_current(),
+      "@reason": e.str(pinRequest.reason.trim()),
+    }));
+
+    await this.edgeDbClient.transaction(async (tx) => {
+      const releaseQuery = e
+        .select(e.release.Release, (r) => ({
+          filter: e.op(r.id, "=", e.uuid(releaseId)),
+        }))
+        .assert_single();
+
+      // a node can only ever be pinned one way
+      await e
+        .update(releaseQuery, () => ({
+          set: {
+            manualInclusions: { "-=": nodeQuery },
+            manualExclusions: { "-=": nodeQuery },
+          },
+        }))
+        .run(tx);
+
+      await e
+        .update(releaseQuery, () => ({
+          set:
+            pinRequest.pin === "include"
+              ? { manualInclusions: { "+=": pinnedNodeQuery } }
+              : { manualExclusions: { "+=": pinnedNodeQuery } },
+        }))
+        .run(tx);
+    });
+
+    return await this.getManualPins(user, releaseId);
+  }
+
+  /**
+   * Remove any manual pin from a case, patient or specimen of the release.
+   *
+   * @param user
+   * @param releaseId
+   * @param nodeId
+   */
+  public async removeManualPin(
+    user: AuthenticatedUser,
+    releaseId: string,
+    nodeId: string
+  ): Promise<ReleaseManualPinType[]> {
+    const { userRole } = await doRoleInReleaseCheck(
+      this.usersService,
+      user,
+      releaseId
+    );
+
+    this.manualPinGuard(userRole, releaseId);
+
+    const nodeQuery = e.select(e.dataset.DatasetShareable, (n) => ({
+      filter: e.op(n.id, "=", e.uuid(nodeId)),
+    }));
+
+    await e
+      .update(e.release.Release, (r) => ({
+        filter: e.op(r.id, "=", e.uuid(releaseId)),
+        set: {
+          manualInclusions: { "-=": nodeQuery },
+          manualExclusions: { "-=": nodeQuery },
+        },
+      }))
+      .run(this.edgeDbClient);
+
+    return await this.getManualPins(user, releaseId);
+  }
+
+  private manualPinGuard(userRole: string, releaseId: string) {
+    if (userRole !== "DataOwner")
+      throw new Base7807Error(
+        "Not authorised to manage manual pins",
+        403,
+        `Only data owners of release ${releaseId} can manage its manual pins`
+      );
+  }
+
+  private static nodeLevelFromTypeName(
+    typeName: string
+  ): ReleaseManualPinType["nodeLevel"] {
+    switch (typeName) {
+      case "dataset::DatasetCase":
+        return "case";
+      case "dataset::DatasetPatient":
+        return "patient";
+      case "dataset::DatasetSpecimen":
+        return "specimen";
+      default:
+        throw new UnexpectedStateInternalServerError(
+          `Manual pin was attached to a ${typeName} rather than a case, patient or specimen`
+        );
+    }
+  }
+
+  /**
+   * Check that the node is a case, patient or specimen from one of the datasets of the
+   * release.
+   *
+   * @param releaseId
+   * @param nodeId
+   */
+  private async checkNodeInRelease(
+    releaseId: string,
+    nodeId: string
+  ): Promise<void> {
+    const { releaseInfo } = await getReleaseInfo(this.edgeDbClient, releaseId);
+
+    // we ask about each type individually as they each have their own computed dataset link
+    const found = await e
+      .select({
+        case_: e
+          .select(e.dataset.DatasetCase, (c) => ({
+            dataset: { id: true },
+            filter: e.op(c.id, "=", e.uuid(nodeId)),
+          }))
+          .assert_single(),
+        patient: e
+          .select(e.dataset.DatasetPatient, (p) => ({
+            dataset: { id: true },
+            filter: e.op(p.id, "=", e.uuid(nodeId)),
+          }))
+          .assert_single(),
+        specimen: e
+          .select(e.dataset.DatasetSpecimen, (s) => ({
+            dataset: { id: true },
+            filter: e.op(s.id, "=", e.uuid(nodeId)),
+          }))
+          .assert_single(),
+      })
+      .run(this.edgeDbClient);
+
+    const node = found.case_ ?? found.patient ?? found.specimen;
+
+    if (!node)
+      throw new Base7807Error(
+        "Node not found",
+        404,
+        `No case, patient or specimen with id ${nodeId} exists`
+      );
+
+    if (!releaseInfo.datasetIds.some((d) => d.id === node.dataset?.id))
+      throw new Base7807Error(
+        "Node not in release",
+        400,
+        `Node ${nodeId} is not from a dataset of release ${releaseId}`
+      );
+  }
+
+  /**
+   * Set the window of time in which the data of the release can be accessed. This is the
+   * master control for access - outside the window no data access of any kind is allowed
+   * (whatever other sharing settings there are). Access is only enabled once both
+   * a start and end are set - and leaving either out clears it.
+   *
+   * @param user
+   * @param releaseId
+   * @param accessRequest the start and end of the access window
+   */
   public async setMasterAccess(
     user: AuthenticatedUser,
     releaseId: string,
-    start?: Date,
-    end?: Date
-  ): Promise<void> {}
+    accessRequest: ReleaseMasterAccessRequestType
+  ): Promise<ReleaseDetailType> {
+    const now = new Date();
+
+    const { userRole } = await doRoleInReleaseCheck(
+      this.usersService,
+      user,
+      releaseId
+    );
+
+    this.masterAccessGuard(userRole, releaseId);
+
+    if (!releaseMasterAccessRequestValidate(accessRequest))
+      throw new ApiRequestValidationError(
+        releaseMasterAccessRequestValidate.errors ?? []
+      );
+
+    const start = accessRequest.start
+      ? new Date(accessRequest.start)
+      : undefined;
+    const end = accessRequest.end ? new Date(accessRequest.end) : undefined;
+
+    if (start && end && end.getTime() <= start.getTime())
+      throw new Base7807Error(
+        "Invalid access window",
+        400,
+        "The end of the access window must be after the start"
+      );
+
+    await e
+      .update(e.release.Release, (r) => ({
+        filter: e.op(r.id, "=", e.uuid(releaseId)),
+        set: {
+          releaseStarted: start ?? null,
+          releaseEnded: end ?? null,
+        },
+      }))
+      .run(this.edgeDbClient);
+
+    await this.auditLogService.auditEvent(
+      releaseId,
+      user,
+      `Set access window to start ${start?.toISOString() ?? "<none>"} and end ${
+        end?.toISOString() ?? "<none>"
+      }`,
+      "U",
+      0,
+      now,
+      new Date()
+    );
+
+    return await this.getBase(releaseId, userRole);
+  }
+
+  /**
+   * Immediately stop all access to the data of the release - by ending the access
+   * window right now.
+   *
+   * @param user
+   * @param releaseId
+   */
+  public async stopMasterAccess(
+    user: AuthenticatedUser,
+    releaseId: string
+  ): Promise<ReleaseDetailType> {
+    const now = new Date();
+
+    const { userRole } = await doRoleInReleaseCheck(
+      this.usersService,
+      user,
+      releaseId
+    );
+
+    this.masterAccessGuard(userRole, releaseId);
+
+    await e
+      .update(e.release.Release, (r) => ({
+        filter: e.op(r.id, "=", e.uuid(releaseId)),
+        set: {
+          releaseEnded: e.datetime_current(),
+        },
+      }))
+      .run(this.edgeDbClient);
+
+    await this.auditLogService.auditEvent(
+      releaseId,
+      user,
+      "Stopped all access",
+      "U",
+      0,
+      now,
+      new Date()
+    );
+
+    return await this.getBase(releaseId, userRole);
+  }
+
+  private masterAccessGuard(userRole: string, releaseId: string) {
+    if (userRole !== "DataOwner")
+      throw new Base7807Error(
+        "Not authorised to control access",
+        403,
+        `Only data owners of release ${releaseId} can control access to its data`
+      );
+  }
 
+  /**
+   * Select the given nodes for release.
+   *
+   * @param user
+   * @param releaseId
+   * @param nodeIds the edgedb ids of cases, patients or specimens - where cases and patients
+   *                select every specimen below them
+   */
   public async setSelected(
     user: AuthenticatedUser,
     releaseId: string,
-    specimenIds: string[]
+    nodeIds: string[]
   ): Promise<any | null> {
-    return await this.setSelectedStatus(user, releaseId, specimenIds, true);
+    return await this.setSelectedStatus(user, releaseId, nodeIds, true);
   }
 
+  /**
+   * Unselect the given nodes from release.
+   *
+   * @param user
+   * @param releaseId
+   * @param nodeIds the edgedb ids of cases, patients or specimens - where cases and patients
+   *                unselect every specimen below them
+   */
   public async setUnselected(
     user: AuthenticatedUser,
     releaseId: string,
-    specimenIds: string[]
+    nodeIds: string[]
   ): Promise<any | null> {
-    return await this.setSelectedStatus(user, releaseId, specimenIds, false);
+    return await this.setSelectedStatus(user, releaseId, nodeIds, false);
   }
 
   public async addDiseaseToApplicationCoded(
@@ -447,4 +1351,171 @@ export class ReleasesService extends ReleaseBaseService {
 
     return await this.getBase(releaseId, userRole);
   }
+
+  /**
+   * Set (or clear) the external source of consent that is consulted when
+   * selecting specimens for this release.
+   *
+   * @param user
+   * @param releaseId
+   * @param consentSourceUrl an http(s) URL of a consent provider (on one of the allowed hosts), or null to remove
+   */
+  public async setConsentSourceUrl(
+    user: AuthenticatedUser,
+    releaseId: string,
+    consentSourceUrl: string | null
+  ): Promise<ReleaseDetailType> {
+    const { userRole } = await doRoleInReleaseCheck(
+      this.usersService,
+      user,
+      releaseId
+    );
+
+    if (userRole !== "DataOwner")
+      throw new Base7807Error(
+        "Not authorised to set consent source",
+        403,
+        `Only data owners of release ${releaseId} can set its consent source`
+      );
+
+    // make sure we will actually be able to make a provider out of the URL when the select job runs
+    try {
+      createConsentProvider(consentSourceUrl, this.consentSourceHosts);
+    } catch (err: any) {
+      throw new Base7807Error("Invalid consent source", 400, err?.message);
+    }
+
+    await e
+      .update(e.release.Release, (r) => ({
+        filter: e.op(r.id, "=", e.uuid(releaseId)),
+        set: {
+          consentSourceUrl: consentSourceUrl,
+        },
+      }))
+      .run(this.edgeDbClient);
+
+    return await this.getBase(releaseId, userRole);
+  }
+
+  /**
+   * Set the AWS accounts of the researchers (and optionally the VPC) that the S3 access
+   * points of the release are to be installed for. This does not change any access points
+   * that are already installed.
+   *
+   * @param user
+   * @param releaseId
+   * @param config the account ids and VPC
+   */
+  public async setAccessPointConfig(
+    user: AuthenticatedUser,
+    releaseId: string,
+    config: ReleaseAwsAccessPointConfigRequestType
+  ): Promise<ReleaseDetailType> {
+    const now = new Date();
+
+    const { userRole } = await doRoleInReleaseCheck(
+      this.usersService,
+      user,
+      releaseId
+    );
+
+    if (userRole !== "DataOwner")
+      throw new Base7807Error(
+        "Not authorised to set access point accounts",
+        403,
+        `Only data owners of release ${releaseId} can set the accounts its access points are for`
+      );
+
+    if (!releaseAwsAccessPointConfigRequestValidate(config))
+      throw new ApiRequestValidationError(
+        releaseAwsAccessPointConfigRequestValidate.errors ?? []
+      );
+
+    const accountIds = uniq(config.accountIds);
+
+    await e
+      .update(e.release.Release, (r) => ({
+        filter: e.op(r.id, "=", e.uuid(releaseId)),
+        set: {
+          accessPointAccountIds: e.literal(e.array(e.str), accountIds),
+          accessPointVpcId: config.vpcId || null,
+        },
+      }))
+      .run(this.edgeDbClient);
+
+    await this.auditLogService.auditEvent(
+      releaseId,
+      user,
+      `Set access point accounts to ${
+        accountIds.join(", ") || "<none>"
+      } and VPC to ${config.vpcId || "<none>"}`,
+      "U",
+      0,
+      now,
+      new Date()
+    );
+
+    return await this.getBase(releaseId, userRole);
+  }
+
+  /**
+   * Set the types of data file that can be accessed via the release. This applies to
+   * access from this moment on - it does not change any access artifacts (i.e. manifests)
+   * that have already been created.
+   *
+   * @param user
+   * @param releaseId
+   * @param allowed the file types that are allowed
+   */
+  public async setAllowedFileTypes(
+    user: AuthenticatedUser,
+    releaseId: string,
+    allowed: ReleaseAllowedFileTypesRequestType
+  ): Promise<ReleaseDetailType> {
+    const now = new Date();
+
+    const { userRole } = await doRoleInReleaseCheck(
+      this.usersService,
+      user,
+      releaseId
+    );
+
+    if (userRole !== "DataOwner")
+      throw new Base7807Error(
+        "Not authorised to set allowed file types",
+        403,
+        `Only data owners of release ${releaseId} can set the types of file that can be accessed`
+      );
+
+    if (!releaseAllowedFileTypesRequestValidate(allowed))
+      throw new ApiRequestValidationError(
+        releaseAllowedFileTypesRequestValidate.errors ?? []
+      );
+
+    // keep the types in a consistent order (and without duplicates)
+    const fileTypes = ALL_RELEASE_FILE_TYPES.filter((ft) =>
+      allowed.fileTypes.includes(ft)
+    );
+
+    await e
+      .update(e.release.Release, (r) => ({
+        filter: e.op(r.id, "=", e.uuid(releaseId)),
+        set: {
+          allowedFileTypes: e.literal(e.array(e.str), fileTypes),
+        },
+      }))
+      .run(this.edgeDbClient);
+
+    await this.auditLogService.auditEvent(
+      releaseId,
+      user,
+      `Set allowed file types to ${fileTypes.join(", ") || "<none>"}`,
+      "U",
+      0,
+      now,
+      new Date()
+    );
+
+    return await this.getBase(releaseId, userRole);
+  }
 }
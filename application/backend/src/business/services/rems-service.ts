@@ -1,8 +1,9 @@
 import * as edgedb from "edgedb";
 import e from "../../../dbschema/edgeql-js";
-import { makeEmptyCodeArray } from "../../test-data/test-data-helpers";
+import { makeEmptyCodeArray } from "../db/coded-helpers";
 import { inject, injectable, singleton } from "tsyringe";
 import { Client } from "edgedb";
+import { generateReleasePassword } from "./helpers";
 
 @injectable()
 @singleton()
@@ -74,7 +75,7 @@ Applicant: ${JSON.stringify(
             countriesInvolved: makeEmptyCodeArray(),
             studyType: "HMB",
           }),
-          releasePassword: "AAAAA", // pragma: allowlist secret
+          releasePassword: generateReleasePassword(),
           datasetUris: e.literal(e.array(e.str), Object.keys({})),
         })
         .run(this.edgeDbClient);
@@ -1,40 +1,176 @@
 import * as edgedb from "edgedb";
-import { dataset, release } from "../../../dbschema/edgeql-js";
 import { inject, injectable } from "tsyringe";
-import { sleep } from "edgedb/dist/utils";
+import {
+  DuoApplicationContext,
+  DuoConsentEvaluation,
+  evaluateDuoConsent,
+  ConsentLevel,
+  LevelledDuoStatement,
+} from "./duo-helpers";
+import { ConsentProvider } from "./consent-provider";
+
+/**
+ * The shape of any dataset node (dataset, case, patient or specimen) as
+ * fetched for the purposes of consent evaluation.
+ */
+export type ConsentContext =
+  | {
+      id?: string;
+      externalIdentifiers?: { system: string; value: string }[] | null;
+      consent?: {
+        statements?: { dataUseLimitation?: unknown }[] | null;
+      } | null;
+    }
+  | null
+  | undefined;
+
+/**
+ * A manual override of the automated selection - pinning a case, patient or specimen
+ * (and everything below it) as always included in, or always excluded from, a release.
+ */
+export type ManualPin = {
+  nodeId: string;
+  pin: "include" | "exclude";
+  who: string;
+  recorded: Date;
+  reason: string;
+};
 
 @injectable()
 export class SelectService {
   constructor(@inject("Database") private edgeDbClient: edgedb.Client) {}
 
   /**
-   * For a given chain of specimen->patient->case - use the given consent information
-   * to decide if the specimen should be selected for release.
+   * For a given chain of specimen->patient->case->dataset - use the consent information
+   * from every level to decide if the specimen should be selected for release.
+   *
+   * Consent statements at a higher level are inherited by every node below
+   * them - and *all* statements must allow the use described in the application.
+   *
+   * If a consent provider is given, it is asked for any extra statements
+   * it holds for each node (as identified by the node's external identifiers).
    */
   public async isSelectable(
-    applicationContext: release.ApplicationCoded,
-    caseContext: dataset.DatasetCase,
-    patientContext: dataset.DatasetPatient,
-    specimenContext: dataset.DatasetSpecimen
+    applicationContext: DuoApplicationContext,
+    datasetContext: ConsentContext,
+    caseContext: ConsentContext,
+    patientContext: ConsentContext,
+    specimenContext: ConsentContext,
+    consentProvider?: ConsentProvider | null
   ): Promise<boolean> {
-    // this is some fake logic only include specimens where the specimen has two 00 in the sample id
-    if (specimenContext) {
-      if (
-        specimenContext.externalIdentifiers &&
-        specimenContext.externalIdentifiers.length > 0
-      ) {
-        if (specimenContext.externalIdentifiers[0].value) {
-          if (specimenContext.externalIdentifiers[0].value.includes("3"))
-            await sleep(3000);
-          else if (specimenContext.externalIdentifiers[0].value.includes("5"))
-            await sleep(5000);
-
-          if (specimenContext.externalIdentifiers[0].value.includes("00"))
-            return true;
-        }
-      }
+    const evaluation = await this.evaluateConsent(
+      applicationContext,
+      datasetContext,
+      caseContext,
+      patientContext,
+      specimenContext,
+      consentProvider
+    );
+
+    return evaluation.allowed;
+  }
+
+  /**
+   * Evaluate all the consent statements for the chain of
+   * specimen->patient->case->dataset against the application.
+   */
+  public async evaluateConsent(
+    applicationContext: DuoApplicationContext,
+    datasetContext: ConsentContext,
+    caseContext: ConsentContext,
+    patientContext: ConsentContext,
+    specimenContext: ConsentContext,
+    consentProvider?: ConsentProvider | null
+  ): Promise<DuoConsentEvaluation> {
+    const statements: LevelledDuoStatement[] = [
+      ...this.collectStatements("dataset", datasetContext),
+      ...this.collectStatements("case", caseContext),
+      ...this.collectStatements("patient", patientContext),
+      ...this.collectStatements("specimen", specimenContext),
+    ];
+
+    if (consentProvider) {
+      // datasets are not identified externally - so only the nodes within are asked about
+      statements.push(
+        ...(await this.collectProviderStatements(
+          consentProvider,
+          "case",
+          caseContext
+        )),
+        ...(await this.collectProviderStatements(
+          consentProvider,
+          "patient",
+          patientContext
+        )),
+        ...(await this.collectProviderStatements(
+          consentProvider,
+          "specimen",
+          specimenContext
+        ))
+      );
     }
 
-    return false;
+    return evaluateDuoConsent(applicationContext, statements);
+  }
+
+  private async collectProviderStatements(
+    consentProvider: ConsentProvider,
+    level: ConsentLevel,
+    node: ConsentContext
+  ): Promise<LevelledDuoStatement[]> {
+    if (!node || !node.externalIdentifiers || !node.externalIdentifiers.length)
+      return [];
+
+    const provided = await consentProvider.getStatements(
+      level,
+      node.externalIdentifiers
+    );
+
+    return provided.map((dataUseLimitation) => ({
+      level: level,
+      nodeId: node.id,
+      dataUseLimitation: dataUseLimitation,
+    }));
+  }
+
+  private collectStatements(
+    level: ConsentLevel,
+    node: ConsentContext
+  ): LevelledDuoStatement[] {
+    if (!node || !node.consent || !node.consent.statements) return [];
+
+    return node.consent.statements.map((s) => ({
+      level: level,
+      nodeId: node.id,
+      dataUseLimitation: s.dataUseLimitation,
+    }));
+  }
+
+  /**
+   * For a given chain of case->patient->specimen - find the manual pin (if any) that
+   * overrides the automated selection of the specimen. A pin applies to the node
+   * it is placed on and every node below it. An exclusion at any level always wins over
+   * an inclusion at any level (we never want to accidentally share something
+   * someone has said should not be shared).
+   *
+   * @param pins the manual pins of the release keyed by node id
+   * @param caseContext
+   * @param patientContext
+   * @param specimenContext
+   */
+  public findManualPin(
+    pins: Map<string, ManualPin>,
+    caseContext: ConsentContext,
+    patientContext: ConsentContext,
+    specimenContext: ConsentContext
+  ): ManualPin | undefined {
+    const chainPins = [specimenContext, patientContext, caseContext]
+      .map((node) => (node?.id ? pins.get(node.id) : undefined))
+      .filter((p): p is ManualPin => !!p);
+
+    return (
+      chainPins.find((p) => p.pin === "exclude") ??
+      chainPins.find((p) => p.pin === "include")
+    );
   }
 }
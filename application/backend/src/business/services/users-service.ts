@@ -38,6 +38,23 @@ export class UsersService {
     return null;
   }
 
+  /**
+   * Record the email of a user as asserted by the identity provider.
+   *
+   * @param subjectId
+   * @param email
+   */
+  public async updateEmail(subjectId: string, email: string): Promise<void> {
+    await e
+      .update(e.permission.User, (u) => ({
+        filter: e.op(u.subjectId, "=", subjectId),
+        set: {
+          email: email,
+        },
+      }))
+      .run(this.edgeDbClient);
+  }
+
   /**
    * Return the role a user has in a particular release, or null if they are not involved
    * in the release. As a by-product, checks that the releaseId is a valid release identifier.
@@ -0,0 +1,48 @@
+import "reflect-metadata";
+
+import { parentPort, workerData } from "worker_threads";
+import { container } from "tsyringe";
+import { DEFAULT_SELECT_JOB_BATCH_SIZE } from "../business/services/jobs-service";
+import { JobDispatcher } from "../business/services/jobs/job-dispatcher";
+import { registerSettings, registerTypes } from "../bootstrap-container";
+
+// global settings for DI
+registerTypes();
+registerSettings(workerData?.awsAccessPoint, workerData?.consentSourceHosts);
+
+// the settings for each run can be passed in by the scheduler
+const roughlyMaxSeconds: number = workerData?.roughlyMaxSeconds ?? 10;
+const batchSize: number =
+  workerData?.batchSize ?? DEFAULT_SELECT_JOB_BATCH_SIZE;
+
+// store boolean if the job is cancelled
+let isCancelled = false;
+
+// handle cancellation (this is a very simple example)
+if (parentPort)
+  parentPort.once("message", (message) => {
+    if (message === "cancel") isCancelled = true;
+  });
+
+(async () => {
+  const jobDispatcher = container.resolve(JobDispatcher);
+
+  const jobCount = await jobDispatcher.dispatch({
+    roughlyMaxSeconds: roughlyMaxSeconds,
+    batchSize: batchSize,
+  });
+
+  if (jobCount > 0) console.log(`Processed ${jobCount} running job(s)`);
+  else console.log("No running jobs to process");
+
+  // signal to parent that the job is done
+  if (parentPort) parentPort.postMessage("done");
+  else process.exit(0);
+})().catch((err) => {
+  // errors in any one job are handled by the dispatcher - so this is an error in even finding the
+  // jobs (i.e. the database being unavailable) which the next scheduled run will try again
+  console.log(err);
+
+  if (parentPort) parentPort.postMessage("done");
+  else process.exit(1);
+});
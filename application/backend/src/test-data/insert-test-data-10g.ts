@@ -120,7 +120,10 @@ export async function insert10G() {
           [
             {
               code: "DUO:0000007",
-              disease: "Diabetes",
+              disease: {
+                system: "http://purl.obolibrary.org/obo/mondo.owl",
+                code: "MONDO:0005015",
+              },
               modifiers: [{ code: "DUO:0000045" }],
             },
           ]
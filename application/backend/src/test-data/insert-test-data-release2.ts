@@ -1,7 +1,8 @@
 import * as edgedb from "edgedb";
 import e, { release } from "../../dbschema/edgeql-js";
 import { ElsaSettings } from "../bootstrap-settings";
-import { findSpecimenQuery, makeEmptyCodeArray } from "./test-data-helpers";
+import { findSpecimenQuery } from "./test-data-helpers";
+import { makeEmptyCodeArray } from "../business/db/coded-helpers";
 import ApplicationCodedStudyType = release.ApplicationCodedStudyType;
 
 const edgeDbClient = edgedb.createClient();
@@ -8,10 +8,10 @@ import {
   findSpecimenQuery,
   insertBlankDataset,
   makeDoubleCodeArray,
-  makeEmptyCodeArray,
   makeSingleCodeArray,
   makeTripleCodeArray,
 } from "./test-data-helpers";
+import { makeEmptyCodeArray } from "../business/db/coded-helpers";
 import { insert10F } from "./insert-test-data-10f";
 import { insert10C } from "./insert-test-data-10c";
 import ApplicationCodedStudyType = release.ApplicationCodedStudyType;
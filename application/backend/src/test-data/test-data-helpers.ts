@@ -36,15 +36,6 @@ export function makeEmptyIdentifierArray() {
   return e.cast(tupleArrayType, e.literal(tupleArrayType, []));
 }
 
-/**
- * Make a code array (array of tuples) that is empty.
- */
-export function makeEmptyCodeArray() {
-  const tupleArrayType = e.array(e.tuple({ system: e.str, code: e.str }));
-
-  return e.cast(tupleArrayType, e.literal(tupleArrayType, []));
-}
-
 /**
  * Make a code array - rewrite for typescript varargs at some point
  */
@@ -3,6 +3,26 @@ import Ajv from "ajv/dist/2019";
 import {
   DatasetGen3SyncRequestSchema,
   DatasetGen3SyncRequestType,
+  DatasetImportRequestSchema,
+  DatasetImportRequestType,
+  DuoLimitationSchema,
+  DuoLimitationType,
+  ReleaseAllowedFileTypesRequestSchema,
+  ReleaseAllowedFileTypesRequestType,
+  ReleaseAwsAccessPointConfigRequestSchema,
+  ReleaseAwsAccessPointConfigRequestType,
+  ReleaseCreateRequestSchema,
+  ReleaseCreateRequestType,
+  ReleaseManualPinRequestSchema,
+  ReleaseManualPinRequestType,
+  ReleaseMasterAccessRequestSchema,
+  ReleaseMasterAccessRequestType,
+  ReleaseNodeIdsRequestSchema,
+  ReleaseNodeIdsRequestType,
+  ReleaseParticipantAddRequestSchema,
+  ReleaseParticipantAddRequestType,
+  ReleaseParticipantRoleRequestSchema,
+  ReleaseParticipantRoleRequestType,
   TestingRequestSchema,
   TestingRequestType,
 } from "@umccr/elsa-types";
@@ -31,3 +51,41 @@ export const datasetGen3SyncRequestValidate =
 
 export const testingRequestValidate =
   ajv.compile<TestingRequestType>(TestingRequestSchema);
+
+export const duoLimitationValidate =
+  ajv.compile<DuoLimitationType>(DuoLimitationSchema);
+
+export const datasetImportRequestValidate =
+  ajv.compile<DatasetImportRequestType>(DatasetImportRequestSchema);
+
+export const releaseManualPinRequestValidate =
+  ajv.compile<ReleaseManualPinRequestType>(ReleaseManualPinRequestSchema);
+
+export const releaseMasterAccessRequestValidate =
+  ajv.compile<ReleaseMasterAccessRequestType>(ReleaseMasterAccessRequestSchema);
+
+export const releaseCreateRequestValidate =
+  ajv.compile<ReleaseCreateRequestType>(ReleaseCreateRequestSchema);
+
+export const releaseParticipantAddRequestValidate =
+  ajv.compile<ReleaseParticipantAddRequestType>(
+    ReleaseParticipantAddRequestSchema
+  );
+
+export const releaseParticipantRoleRequestValidate =
+  ajv.compile<ReleaseParticipantRoleRequestType>(
+    ReleaseParticipantRoleRequestSchema
+  );
+
+export const releaseNodeIdsRequestValidate =
+  ajv.compile<ReleaseNodeIdsRequestType>(ReleaseNodeIdsRequestSchema);
+
+export const releaseAllowedFileTypesRequestValidate =
+  ajv.compile<ReleaseAllowedFileTypesRequestType>(
+    ReleaseAllowedFileTypesRequestSchema
+  );
+
+export const releaseAwsAccessPointConfigRequestValidate =
+  ajv.compile<ReleaseAwsAccessPointConfigRequestType>(
+    ReleaseAwsAccessPointConfigRequestSchema
+  );
@@ -0,0 +1,176 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { DuoApplicationContext } from "../../src/business/services/duo-helpers";
+import { HttpConsentProvider } from "../../src/business/services/http-consent-provider";
+import { createConsentProvider } from "../../src/business/services/consent-provider";
+import { SelectService } from "../../src/business/services/select-service";
+import {
+  MockConsentServer,
+  startMockConsentServer,
+} from "./mock-consent-server";
+
+describe("external consent providers", () => {
+  let server: MockConsentServer;
+
+  // the select service does not use the database for evaluating consent
+  const selectService = new SelectService(null as any);
+
+  const application: DuoApplicationContext = {
+    studyType: "HMB",
+    diseasesOfStudy: [],
+    countriesInvolved: [{ system: "urn:iso:std:iso:3166", code: "AUS" }],
+    studyIsNotCommercial: true,
+    studyAgreesToPublish: true,
+  };
+
+  const dataset = {
+    id: "dataset",
+    consent: {
+      statements: [
+        { dataUseLimitation: { code: "DUO:0000042", modifiers: [] } },
+      ],
+    },
+  };
+
+  beforeEach(async () => {
+    server = await startMockConsentServer({
+      CASE1: [{ code: "DUO:0000006", modifiers: [] }],
+      SPECIMEN1: [{ code: "DUO:0000011", modifiers: [] }],
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("http provider returns statements keyed by external identifier", async () => {
+    const provider = new HttpConsentProvider(server.url);
+
+    expect(
+      await provider.getStatements("case", [{ system: "", value: "CASE1" }])
+    ).toEqual([{ code: "DUO:0000006", modifiers: [] }]);
+
+    expect(
+      await provider.getStatements("patient", [
+        { system: "", value: "UNKNOWN" },
+      ])
+    ).toEqual([]);
+  });
+
+  it("http provider only asks once about each identifier", async () => {
+    const provider = new HttpConsentProvider(server.url);
+
+    await provider.getStatements("case", [{ system: "", value: "CASE1" }]);
+    await provider.getStatements("case", [{ system: "", value: "CASE1" }]);
+
+    expect(server.requests).toEqual([["CASE1"]]);
+  });
+
+  it("http provider keeps identifiers of different systems apart", async () => {
+    const provider = new HttpConsentProvider(server.url);
+
+    await provider.getStatements("case", [{ system: "a", value: "CASE1" }]);
+    await provider.getStatements("case", [{ system: "b", value: "CASE1" }]);
+
+    expect(server.requests).toEqual([["CASE1"], ["CASE1"]]);
+  });
+
+  it("http provider gives up on a slow consent source", async () => {
+    const slowServer = await startMockConsentServer({}, 500);
+
+    try {
+      const provider = new HttpConsentProvider(slowServer.url, 100);
+
+      await expect(
+        provider.getStatements("case", [{ system: "", value: "CASE1" }])
+      ).rejects.toThrow("timeout");
+    } finally {
+      await slowServer.close();
+    }
+  });
+
+  it("http provider does not follow redirects", async () => {
+    // a consent source on an allowed host that tries to send us somewhere else
+    const redirectServer = http.createServer((req, res) => {
+      res.writeHead(307, { Location: server.url });
+      res.end();
+    });
+
+    await new Promise<void>((resolve) =>
+      redirectServer.listen(0, "127.0.0.1", resolve)
+    );
+
+    try {
+      const port = (redirectServer.address() as AddressInfo).port;
+
+      const provider = new HttpConsentProvider(
+        `http://127.0.0.1:${port}/consent`
+      );
+
+      await expect(
+        provider.getStatements("case", [{ system: "", value: "CASE1" }])
+      ).rejects.toThrow("status code 307");
+
+      expect(server.requests).toEqual([]);
+    } finally {
+      await new Promise((resolve) => redirectServer.close(resolve));
+    }
+  });
+
+  it("provider statements are evaluated alongside dataset statements", async () => {
+    const provider = createConsentProvider(server.url, ["127.0.0.1"]);
+
+    const allowed = await selectService.evaluateConsent(
+      application,
+      dataset,
+      { id: "case", externalIdentifiers: [{ system: "", value: "CASE1" }] },
+      { id: "patient", externalIdentifiers: [] },
+      { id: "specimen", externalIdentifiers: [] },
+      provider
+    );
+
+    expect(allowed.allowed).toBe(true);
+    expect(allowed.evaluations).toHaveLength(2);
+
+    // POA consent held externally for the specimen does not allow a HMB study
+    const excluded = await selectService.evaluateConsent(
+      application,
+      dataset,
+      { id: "case", externalIdentifiers: [{ system: "", value: "CASE1" }] },
+      { id: "patient", externalIdentifiers: [] },
+      {
+        id: "specimen",
+        externalIdentifiers: [{ system: "", value: "SPECIMEN1" }],
+      },
+      provider
+    );
+
+    expect(excluded.allowed).toBe(false);
+    expect(
+      excluded.evaluations.find((ev) => ev.level === "specimen")?.allowed
+    ).toBe(false);
+  });
+
+  it("releases without a consent source have no provider", async () => {
+    expect(createConsentProvider(undefined, [])).toBeNull();
+    expect(() => createConsentProvider("ftp://nowhere", ["nowhere"])).toThrow();
+  });
+
+  it("consent sources can only be on allowed hosts", async () => {
+    expect(
+      createConsentProvider("https://consent.example.org/api", [
+        "consent.example.org",
+      ])
+    ).not.toBeNull();
+
+    expect(() =>
+      createConsentProvider("http://169.254.169.254/latest/meta-data", [
+        "consent.example.org",
+      ])
+    ).toThrow("not one of the hosts allowed");
+
+    expect(() =>
+      createConsentProvider("https://consent.example.org/api", [])
+    ).toThrow("not one of the hosts allowed");
+  });
+});
@@ -0,0 +1,379 @@
+import {
+  DuoApplicationContext,
+  compareDuoLimitations,
+  evaluateDuoAccessWindow,
+  evaluateDuoConsent,
+  evaluateDuoLimitation,
+} from "../../src/business/services/duo-helpers";
+
+describe("evaluation of duo consent against coded applications", () => {
+  let application: DuoApplicationContext;
+
+  beforeEach(() => {
+    application = {
+      studyType: "HMB",
+      diseasesOfStudy: [],
+      countriesInvolved: [{ system: "urn:iso:std:iso:3166", code: "AUS" }],
+      studyIsNotCommercial: true,
+      studyAgreesToPublish: true,
+    };
+  });
+
+  it("GRU consent permits GRU, HMB, DS and POA studies", async () => {
+    for (const st of ["GRU", "HMB", "DS", "POA"]) {
+      application.studyType = st;
+      application.diseasesOfStudy = [{ system: "mondo", code: "0005148" }];
+
+      expect(
+        evaluateDuoLimitation(application, {
+          code: "DUO:0000042",
+          modifiers: [],
+        }).allowed
+      ).toBe(true);
+    }
+
+    application.studyType = "CC";
+
+    expect(
+      evaluateDuoLimitation(application, { code: "DUO:0000042", modifiers: [] })
+        .allowed
+    ).toBe(false);
+  });
+
+  it("HMB consent does not permit GRU studies", async () => {
+    application.studyType = "GRU";
+
+    const result = evaluateDuoLimitation(application, {
+      code: "DUO:0000006",
+      modifiers: [],
+    });
+
+    expect(result.allowed).toBe(false);
+    expect(result.field).toBe("studyType");
+  });
+
+  it("DS consent requires every disease of study to match", async () => {
+    application.studyType = "DS";
+    application.diseasesOfStudy = [{ system: "mondo", code: "0005148" }];
+
+    expect(
+      evaluateDuoLimitation(application, {
+        code: "DUO:0000007",
+        disease: { system: "mondo", code: "0005148" },
+        modifiers: [],
+      }).allowed
+    ).toBe(true);
+
+    application.diseasesOfStudy.push({ system: "mondo", code: "0004975" });
+
+    const result = evaluateDuoLimitation(application, {
+      code: "DUO:0000007",
+      disease: { system: "mondo", code: "0005148" },
+      modifiers: [],
+    });
+
+    expect(result.allowed).toBe(false);
+    expect(result.field).toBe("diseasesOfStudy");
+  });
+
+  it("NCU and NPU modifiers require a non-commercial study", async () => {
+    application.studyIsNotCommercial = false;
+
+    for (const mod of ["DUO:0000046", "DUO:0000045"]) {
+      const result = evaluateDuoLimitation(application, {
+        code: "DUO:0000006",
+        modifiers: [{ code: mod as any }],
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.modifier).toBe(mod);
+      expect(result.field).toBe("studyIsNotCommercial");
+    }
+  });
+
+  it("PUB modifier requires agreement to publish", async () => {
+    application.studyAgreesToPublish = false;
+
+    const result = evaluateDuoLimitation(application, {
+      code: "DUO:0000042",
+      modifiers: [{ code: "DUO:0000019" }],
+    });
+
+    expect(result.allowed).toBe(false);
+    expect(result.field).toBe("studyAgreesToPublish");
+  });
+
+  it("GS modifier requires every country to be within the regions", async () => {
+    const limitation: any = {
+      code: "DUO:0000042",
+      modifiers: [{ code: "DUO:0000022", regions: ["AUS", "NZL"] }],
+    };
+
+    expect(evaluateDuoLimitation(application, limitation).allowed).toBe(true);
+
+    application.countriesInvolved.push({
+      system: "urn:iso:std:iso:3166",
+      code: "USA",
+    });
+
+    const result = evaluateDuoLimitation(application, limitation);
+
+    expect(result.allowed).toBe(false);
+    expect(result.field).toBe("countriesInvolved");
+  });
+
+  it("MOR modifier is an obligation that does not prevent selection", async () => {
+    expect(
+      evaluateDuoLimitation(application, {
+        code: "DUO:0000042",
+        modifiers: [{ code: "DUO:0000024", date: "2023-01-01" } as any],
+      }).allowed
+    ).toBe(true);
+  });
+
+  it("consent at a parent level is inherited by children", async () => {
+    // patient is HMB but the specimen has a more restrictive DS consent (as per our 10G MARY)
+    const result = evaluateDuoConsent(application, [
+      {
+        level: "patient",
+        dataUseLimitation: JSON.stringify({
+          code: "DUO:0000006",
+          modifiers: [],
+        }),
+      },
+      {
+        level: "specimen",
+        dataUseLimitation: {
+          code: "DUO:0000007",
+          disease: { system: "mondo", code: "0005015" },
+          modifiers: [{ code: "DUO:0000045" }],
+        },
+      },
+    ]);
+
+    expect(result.allowed).toBe(false);
+    expect(result.evaluations).toHaveLength(2);
+    expect(result.evaluations[0].allowed).toBe(true);
+    expect(result.evaluations[1].allowed).toBe(false);
+    expect(result.evaluations[1].level).toBe("specimen");
+  });
+
+  it("nodes without any consent are not selectable", async () => {
+    expect(evaluateDuoConsent(application, []).allowed).toBe(false);
+  });
+
+  it("free text consent is not selectable", async () => {
+    expect(
+      evaluateDuoConsent(application, [
+        {
+          level: "dataset",
+          dataUseLimitation: { description: "Ask the PI" },
+        },
+      ]).allowed
+    ).toBe(false);
+  });
+
+  it("NPUNCU modifier requires a non-commercial study", async () => {
+    application.studyIsNotCommercial = false;
+
+    const result = evaluateDuoLimitation(application, {
+      code: "DUO:0000042",
+      modifiers: [{ code: "DUO:0000018" }],
+    });
+
+    expect(result.allowed).toBe(false);
+    expect(result.field).toBe("studyIsNotCommercial");
+  });
+
+  it("NPOA modifier prohibits population and ancestry studies", async () => {
+    application.studyType = "POA";
+
+    const result = evaluateDuoLimitation(application, {
+      code: "DUO:0000042",
+      modifiers: [{ code: "DUO:0000044" }],
+    });
+
+    expect(result.allowed).toBe(false);
+    expect(result.modifier).toBe("DUO:0000044");
+  });
+
+  it("DS consent requires the disease of study to be from the same system", async () => {
+    application.studyType = "DS";
+    application.diseasesOfStudy = [{ system: "snomed", code: "0005148" }];
+
+    const result = evaluateDuoLimitation(application, {
+      code: "DUO:0000007",
+      disease: { system: "mondo", code: "0005148" },
+      modifiers: [],
+    });
+
+    expect(result.allowed).toBe(false);
+    expect(result.field).toBe("diseasesOfStudy");
+  });
+
+  it("DS consent stored with a bare string disease is evaluated as a disease of no system", async () => {
+    application.studyType = "DS";
+    application.diseasesOfStudy = [{ system: "mondo", code: "0005148" }];
+
+    const limitation = {
+      code: "DUO:0000007",
+      disease: "0005148",
+      modifiers: [],
+    } as any;
+
+    expect(evaluateDuoLimitation(application, limitation).allowed).toBe(false);
+
+    application.diseasesOfStudy = [{ system: "", code: "0005148" }];
+
+    expect(evaluateDuoLimitation(application, limitation).allowed).toBe(true);
+  });
+});
+
+describe("evaluation of duo time restrictions at access time", () => {
+  const now = new Date("2022-06-15T10:00:00Z");
+
+  it("TS allows access only within its window", async () => {
+    const withinWindow = evaluateDuoAccessWindow(
+      [
+        {
+          level: "dataset",
+          dataUseLimitation: {
+            code: "DUO:0000042",
+            modifiers: [
+              { code: "DUO:0000025", start: "2022-01-01", end: "2022-06-15" },
+            ],
+          },
+        },
+      ],
+      now
+    );
+
+    expect(withinWindow.withheld).toBe(false);
+
+    const expired = evaluateDuoAccessWindow(
+      [
+        {
+          level: "patient",
+          dataUseLimitation: JSON.stringify({
+            code: "DUO:0000042",
+            modifiers: [{ code: "DUO:0000025", end: "2022-06-14" }],
+          }),
+        },
+      ],
+      now
+    );
+
+    expect(expired.withheld).toBe(true);
+    expect(expired.reasons).toHaveLength(1);
+
+    const notYetStarted = evaluateDuoAccessWindow(
+      [
+        {
+          level: "specimen",
+          dataUseLimitation: {
+            code: "DUO:0000042",
+            modifiers: [{ code: "DUO:0000025", start: "2022-06-16" }],
+          },
+        },
+      ],
+      now
+    );
+
+    expect(notYetStarted.withheld).toBe(true);
+  });
+
+  it("MOR withholds access until the moratorium has passed", async () => {
+    const statements = [
+      {
+        level: "case" as const,
+        dataUseLimitation: {
+          code: "DUO:0000042",
+          modifiers: [{ code: "DUO:0000024", date: "2022-07-01" }],
+        },
+      },
+    ];
+
+    expect(evaluateDuoAccessWindow(statements, now).withheld).toBe(true);
+    expect(
+      evaluateDuoAccessWindow(statements, new Date("2022-07-01T00:00:00Z"))
+        .withheld
+    ).toBe(false);
+  });
+
+  it("statements without time restrictions never withhold access", async () => {
+    expect(
+      evaluateDuoAccessWindow(
+        [
+          {
+            level: "dataset",
+            dataUseLimitation: { code: "DUO:0000042", modifiers: [] },
+          },
+          { level: "case", dataUseLimitation: { description: "Free text" } },
+        ],
+        now
+      ).withheld
+    ).toBe(false);
+  });
+});
+
+describe("comparison of consent between nodes and their ancestors", () => {
+  it("more specific consent narrows its parent", async () => {
+    expect(
+      compareDuoLimitations(
+        { code: "DUO:0000042", modifiers: [] },
+        {
+          code: "DUO:0000007",
+          disease: { system: "mondo", code: "0005015" },
+          modifiers: [],
+        }
+      )?.kind
+    ).toBe("narrows");
+
+    expect(
+      compareDuoLimitations(
+        { code: "DUO:0000006", modifiers: [] },
+        { code: "DUO:0000006", modifiers: [{ code: "DUO:0000046" }] }
+      )?.kind
+    ).toBe("narrows");
+  });
+
+  it("broader or incompatible consent conflicts with its parent", async () => {
+    expect(
+      compareDuoLimitations(
+        { code: "DUO:0000006", modifiers: [] },
+        { code: "DUO:0000042", modifiers: [] }
+      )?.kind
+    ).toBe("conflicts");
+
+    expect(
+      compareDuoLimitations(
+        { code: "DUO:0000006", modifiers: [] },
+        { code: "DUO:0000011", modifiers: [] }
+      )?.kind
+    ).toBe("conflicts");
+  });
+
+  it("disjoint geographical restrictions conflict", async () => {
+    expect(
+      compareDuoLimitations(
+        {
+          code: "DUO:0000042",
+          modifiers: [{ code: "DUO:0000022", regions: ["AUS"] }],
+        },
+        {
+          code: "DUO:0000042",
+          modifiers: [{ code: "DUO:0000022", regions: ["USA"] }],
+        }
+      )?.kind
+    ).toBe("conflicts");
+  });
+
+  it("identical consent is not reported", async () => {
+    expect(
+      compareDuoLimitations(
+        { code: "DUO:0000042", modifiers: [{ code: "DUO:0000019" }] },
+        { code: "DUO:0000042", modifiers: [{ code: "DUO:0000019" }] }
+      )
+    ).toBeNull();
+  });
+});
@@ -1,4 +1,11 @@
-import { DuoLimitationCodedType, DuoLimitationSchema } from "@umccr/elsa-types";
+import {
+  DUO_CATALOGUE,
+  DuoLimitationCodedType,
+  DuoLimitationSchema,
+  DuoModifierSchema,
+  getStringFromDuoCode,
+  isDuoCodeSubsumedBy,
+} from "@umccr/elsa-types";
 import addFormats from "ajv-formats";
 import Ajv from "ajv/dist/2019";
 import { registerTypes } from "../service-tests/setup";
@@ -44,7 +51,10 @@ describe("test basic duo stuff", () => {
     };
     dsExample = {
       code: "DUO:0000007",
-      disease: "Placeholder for the moment",
+      disease: {
+        system: "http://purl.obolibrary.org/obo/mondo.owl",
+        code: "MONDO:0005015",
+      },
       modifiers: [
         {
           code: "DUO:0000046",
@@ -110,4 +120,26 @@ describe("test basic duo stuff", () => {
 
     expect(validated).toBe(false);
   });
+
+  it("DUO catalogue covers every modifier of our schemas", async () => {
+    for (const m of DuoModifierSchema.anyOf) {
+      const code = m.properties.code.const;
+
+      expect(DUO_CATALOGUE.find((entry) => entry.code === code)?.kind).toBe(
+        "modifier"
+      );
+    }
+
+    expect(getStringFromDuoCode("DUO:0000044")).toBe("NPOA");
+    expect(getStringFromDuoCode("DUO:9999999")).toBeUndefined();
+  });
+
+  it("DUO catalogue encodes the limitation hierarchy", async () => {
+    expect(isDuoCodeSubsumedBy("DUO:0000007", "DUO:0000042")).toBe(true);
+    expect(isDuoCodeSubsumedBy("DUO:0000006", "DUO:0000007")).toBe(false);
+    expect(isDuoCodeSubsumedBy("DUO:0000011", "DUO:0000006")).toBe(false);
+    // NPUNCU is more restrictive than both NPU and NCU
+    expect(isDuoCodeSubsumedBy("DUO:0000018", "DUO:0000045")).toBe(true);
+    expect(isDuoCodeSubsumedBy("DUO:0000018", "DUO:0000046")).toBe(true);
+  });
 });
@@ -0,0 +1,274 @@
+import { deflateRawSync, gzipSync } from "zlib";
+import { BGZF_EOF, CRAM_EOF } from "../../src/business/services/htsget-indexes";
+
+/**
+ * Builders of small (but structurally valid) genomic files and their indexes - for
+ * testing htsget. The records in the files are just marker text (we never need to
+ * parse records - only find them).
+ */
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let c = 0xffffffff;
+  for (const b of data) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function int32(n: number): Buffer {
+  const b = Buffer.alloc(4);
+  b.writeInt32LE(n);
+  return b;
+}
+
+function uint64(n: bigint): Buffer {
+  const b = Buffer.alloc(8);
+  b.writeBigUInt64LE(n);
+  return b;
+}
+
+/**
+ * Compress data into a single BGZF block.
+ */
+export function bgzfBlock(data: Buffer): Buffer {
+  const compressed = deflateRawSync(data);
+
+  const header = Buffer.from([
+    0x1f, 0x8b, 0x08, 0x04, 0, 0, 0, 0, 0, 0xff, 0x06, 0x00, 0x42, 0x43, 0x02,
+    0x00, 0, 0,
+  ]);
+  header.writeUInt16LE(header.length + compressed.length + 8 - 1, 16);
+
+  const trailer = Buffer.alloc(8);
+  trailer.writeUInt32LE(crc32(data), 0);
+  trailer.writeUInt32LE(data.length, 4);
+
+  return Buffer.concat([header, compressed, trailer]);
+}
+
+export const FIXTURE_REFERENCES = ["chr1", "chr2"];
+
+// the marker text of the records in each block of the body of a fixture file - with
+// each reference having records in two 16kb windows (and then a block of unmapped reads)
+export const FIXTURE_BLOCK_RECORDS = [
+  "chr1 records from 0",
+  "chr1 records from 16384",
+  "chr2 records from 0",
+  "chr2 records from 16384",
+  "unmapped records",
+];
+
+export type BinningFixture = {
+  file: Buffer;
+  index: Buffer;
+  // the offset in the file of each block of records (see FIXTURE_BLOCK_RECORDS)
+  blockOffsets: number[];
+};
+
+/**
+ * Build the body of a fixture file (after the given header) and its BAI/TBI style
+ * bins - where the records of each window of a reference are in their own block.
+ */
+function buildBinningFixture(
+  headerBlocks: Buffer,
+  writeIndexPrefix: () => Buffer,
+  compressIndex: boolean
+): BinningFixture {
+  const blocks = FIXTURE_BLOCK_RECORDS.map((r) => bgzfBlock(Buffer.from(r)));
+
+  const blockOffsets: number[] = [];
+
+  let offset = headerBlocks.length;
+  for (const b of blocks) {
+    blockOffsets.push(offset);
+    offset += b.length;
+  }
+
+  const v = (block: number, within = 0) =>
+    (BigInt(blockOffsets[block]) << 16n) | BigInt(within);
+
+  const indexParts: Buffer[] = [writeIndexPrefix()];
+
+  for (let r = 0; r < FIXTURE_REFERENCES.length; r++) {
+    const first = r * 2;
+
+    // the bins of the two 16kb windows - where the second chunk ends part way
+    // through the block that follows it
+    indexParts.push(int32(2));
+    indexParts.push(
+      int32(4681),
+      int32(1),
+      uint64(v(first)),
+      uint64(v(first + 1))
+    );
+    indexParts.push(
+      int32(4682),
+      int32(1),
+      uint64(v(first + 1)),
+      uint64(v(first + 2, r === 0 ? 0 : 10))
+    );
+
+    // the linear index
+    indexParts.push(int32(2), uint64(v(first)), uint64(v(first + 1)));
+  }
+
+  const index = Buffer.concat(indexParts);
+
+  return {
+    file: Buffer.concat([headerBlocks, ...blocks, BGZF_EOF]),
+    index: compressIndex ? Buffer.concat([bgzfBlock(index), BGZF_EOF]) : index,
+    blockOffsets,
+  };
+}
+
+/**
+ * A BAM file (and BAI index) of reads on the fixture references.
+ */
+export function buildBamFixture(): BinningFixture {
+  const text = Buffer.from(
+    "@HD\tVN:1.6\tSO:coordinate\n" +
+      FIXTURE_REFERENCES.map((r) => `@SQ\tSN:${r}\tLN:100000\n`).join("")
+  );
+
+  const header = Buffer.concat([
+    Buffer.from("BAM\x01", "latin1"),
+    int32(text.length),
+    text,
+    int32(FIXTURE_REFERENCES.length),
+    ...FIXTURE_REFERENCES.flatMap((r) => [
+      int32(r.length + 1),
+      Buffer.from(r + "\0", "latin1"),
+      int32(100000),
+    ]),
+  ]);
+
+  return buildBinningFixture(
+    bgzfBlock(header),
+    () =>
+      Buffer.concat([
+        Buffer.from("BAI\x01", "latin1"),
+        int32(FIXTURE_REFERENCES.length),
+      ]),
+    false
+  );
+}
+
+/**
+ * A bgzipped VCF file (and TBI index) of variants on the fixture references.
+ */
+export function buildVcfFixture(): BinningFixture {
+  const header = Buffer.from(
+    "##fileformat=VCFv4.2\n" +
+      FIXTURE_REFERENCES.map((r) => `##contig=<ID=${r}>\n`).join("") +
+      "#CHROM\tPOS\tID\tREF\tALT\tQUAL\tFILTER\tINFO\n"
+  );
+
+  const names = Buffer.from(FIXTURE_REFERENCES.join("\0") + "\0", "latin1");
+
+  return buildBinningFixture(
+    bgzfBlock(header),
+    () =>
+      Buffer.concat([
+        Buffer.from("TBI\x01", "latin1"),
+        int32(FIXTURE_REFERENCES.length),
+        // format (VCF), sequence/begin/end columns, meta character and lines to skip
+        int32(2),
+        int32(1),
+        int32(2),
+        int32(0),
+        int32(35),
+        int32(0),
+        int32(names.length),
+        names,
+      ]),
+    true
+  );
+}
+
+function itf8(n: number): Buffer {
+  if (n < 0x80) return Buffer.from([n]);
+  if (n < 0x4000) return Buffer.from([0x80 | (n >> 8), n & 0xff]);
+  throw new Error("Fixture ITF8 values must be less than 16384");
+}
+
+export type CramFixture = {
+  file: Buffer;
+  index: Buffer;
+  // the offset in the file of each container of records (see FIXTURE_BLOCK_RECORDS)
+  containerOffsets: number[];
+};
+
+/**
+ * A CRAM file (and CRAI index) of reads on the fixture references. Only the header
+ * container is real CRAM - the containers of records are just marker text.
+ */
+export function buildCramFixture(): CramFixture {
+  const text = Buffer.from(
+    "@HD\tVN:1.6\tSO:coordinate\n" +
+      FIXTURE_REFERENCES.map((r) => `@SQ\tSN:${r}\tLN:100000\n`).join("")
+  );
+
+  const blockData = Buffer.concat([int32(text.length), text]);
+
+  const block = Buffer.concat([
+    // raw method, file header content type, content id
+    Buffer.from([0, 0]),
+    itf8(0),
+    itf8(blockData.length),
+    itf8(blockData.length),
+    blockData,
+    int32(0),
+  ]);
+
+  const containerHeader = Buffer.concat([
+    int32(block.length),
+    // reference id (none), start, span, record count
+    Buffer.from([0xff, 0xff, 0xff, 0xff, 0x0f]),
+    itf8(0),
+    itf8(0),
+    itf8(0),
+    // record counter and base count (LTF8)
+    Buffer.from([0, 0]),
+    // block count and no landmarks
+    itf8(1),
+    itf8(0),
+    int32(0),
+  ]);
+
+  const fileDefinition = Buffer.concat([
+    Buffer.from("CRAM", "latin1"),
+    Buffer.from([3, 0]),
+    Buffer.alloc(20),
+  ]);
+
+  const header = Buffer.concat([fileDefinition, containerHeader, block]);
+
+  const containers = FIXTURE_BLOCK_RECORDS.map((r) => Buffer.from(r));
+
+  const containerOffsets: number[] = [];
+
+  let offset = header.length;
+  for (const c of containers) {
+    containerOffsets.push(offset);
+    offset += c.length;
+  }
+
+  // reference index, 1-based start, span, container offset, slice offset, slice size
+  const rows = [
+    [0, 1, 16384, containerOffsets[0]],
+    [0, 16385, 16384, containerOffsets[1]],
+    [1, 1, 16384, containerOffsets[2]],
+    [1, 16385, 16384, containerOffsets[3]],
+    [-1, 0, 0, containerOffsets[4]],
+  ];
+
+  return {
+    file: Buffer.concat([header, ...containers, CRAM_EOF]),
+    index: gzipSync(rows.map((r) => [...r, 0, 0].join("\t")).join("\n") + "\n"),
+    containerOffsets,
+  };
+}
@@ -0,0 +1,171 @@
+import {
+  bgzfDecompress,
+  ByteRange,
+  CRAM_EOF,
+  mergeRanges,
+  parseBamReferenceNames,
+  parseCramReferenceNames,
+  readBinningIndex,
+  readCramIndex,
+} from "../../src/business/services/htsget-indexes";
+import {
+  buildBamFixture,
+  buildCramFixture,
+  buildVcfFixture,
+  FIXTURE_BLOCK_RECORDS,
+  FIXTURE_REFERENCES,
+} from "./htsget-fixtures";
+
+/**
+ * Fetch the ranges of the file (as a client of an htsget ticket would) and
+ * append the EOF marker.
+ */
+function assemble(file: Buffer, ranges: ByteRange[], eof: Buffer): Buffer {
+  return Buffer.concat([
+    ...ranges.map((r) => file.subarray(r.start, r.end)),
+    eof,
+  ]);
+}
+
+describe("htsget indexes", () => {
+  it("merges overlapping and touching ranges", () => {
+    expect(
+      mergeRanges([
+        { start: 50, end: 60 },
+        { start: 0, end: 10 },
+        { start: 10, end: 20 },
+        { start: 15, end: 30 },
+        { start: 40, end: 40 },
+      ])
+    ).toStrictEqual([
+      { start: 0, end: 30 },
+      { start: 50, end: 60 },
+    ]);
+  });
+
+  describe("BAM", () => {
+    const bam = buildBamFixture();
+    const index = readBinningIndex(bam.index, bam.file.length);
+    const b = bam.blockOffsets;
+
+    it("finds the header before the first record", () => {
+      expect(index.headerRange()).toStrictEqual({ start: 0, end: b[0] });
+      expect(parseBamReferenceNames(bam.file.subarray(0, b[0]))).toStrictEqual(
+        FIXTURE_REFERENCES
+      );
+      // the reference names of BAMs only live in the header
+      expect(index.referenceNames).toBeUndefined();
+    });
+
+    it("finds the blocks overlapping a region", () => {
+      expect(index.regionRanges(0, 0, 100)).toStrictEqual([
+        { start: b[0], end: b[1] },
+      ]);
+      expect(index.regionRanges(0, 16384, 16500)).toStrictEqual([
+        { start: b[1], end: b[2] },
+      ]);
+      expect(index.regionRanges(1, 0, 100)).toStrictEqual([
+        { start: b[2], end: b[3] },
+      ]);
+    });
+
+    it("merges adjacent blocks of a whole reference", () => {
+      expect(index.regionRanges(0, 0, Number.MAX_SAFE_INTEGER)).toStrictEqual([
+        { start: b[0], end: b[2] },
+      ]);
+    });
+
+    it("includes the whole block a chunk ends part way through", () => {
+      expect(index.regionRanges(1, 16384, 20000)).toStrictEqual([
+        { start: b[3], end: bam.file.length - index.eof.length },
+      ]);
+    });
+
+    it("finds nothing for a reference not in the index", () => {
+      expect(index.regionRanges(5, 0, 100)).toStrictEqual([]);
+    });
+
+    it("finds the unplaced unmapped reads after all placed reads", () => {
+      expect(index.unmappedRanges()).toStrictEqual([
+        { start: b[4], end: bam.file.length - index.eof.length },
+      ]);
+    });
+
+    it("assembles a valid BGZF file from the ranges", () => {
+      const assembled = bgzfDecompress(
+        assemble(
+          bam.file,
+          [index.headerRange(), ...index.regionRanges(0, 16384, 16500)],
+          index.eof
+        )
+      );
+
+      const text = assembled.toString("latin1");
+
+      expect(text.startsWith("BAM\x01")).toBe(true);
+      expect(text.endsWith(FIXTURE_BLOCK_RECORDS[1])).toBe(true);
+      expect(text).not.toContain(FIXTURE_BLOCK_RECORDS[0]);
+    });
+  });
+
+  describe("VCF", () => {
+    const vcf = buildVcfFixture();
+    const index = readBinningIndex(vcf.index, vcf.file.length);
+    const b = vcf.blockOffsets;
+
+    it("reads the reference names from the TBI", () => {
+      expect(index.referenceNames).toStrictEqual(FIXTURE_REFERENCES);
+    });
+
+    it("finds the header and the blocks overlapping a region", () => {
+      expect(index.headerRange()).toStrictEqual({ start: 0, end: b[0] });
+      expect(index.regionRanges(1, 0, 100)).toStrictEqual([
+        { start: b[2], end: b[3] },
+      ]);
+
+      const text = bgzfDecompress(
+        assemble(
+          vcf.file,
+          [index.headerRange(), ...index.regionRanges(1, 0, 100)],
+          index.eof
+        )
+      ).toString("utf8");
+
+      expect(text.startsWith("##fileformat=VCFv4.2")).toBe(true);
+      expect(text.endsWith(FIXTURE_BLOCK_RECORDS[2])).toBe(true);
+    });
+  });
+
+  describe("CRAM", () => {
+    const cram = buildCramFixture();
+    const index = readCramIndex(cram.index, cram.file.length);
+    const c = cram.containerOffsets;
+
+    it("finds the header container before the first container of records", () => {
+      expect(index.headerRange()).toStrictEqual({ start: 0, end: c[0] });
+      expect(
+        parseCramReferenceNames(cram.file.subarray(0, c[0]))
+      ).toStrictEqual(FIXTURE_REFERENCES);
+      expect(index.eof).toStrictEqual(CRAM_EOF);
+    });
+
+    it("finds the containers overlapping a region", () => {
+      expect(index.regionRanges(0, 0, 100)).toStrictEqual([
+        { start: c[0], end: c[1] },
+      ]);
+      // the CRAI holds 1-based positions so the first container ends just before 16384
+      expect(index.regionRanges(0, 16384, 16385)).toStrictEqual([
+        { start: c[1], end: c[2] },
+      ]);
+      expect(index.regionRanges(1, 0, 40000)).toStrictEqual([
+        { start: c[2], end: c[4] },
+      ]);
+    });
+
+    it("finds the containers of unplaced unmapped reads", () => {
+      expect(index.unmappedRanges()).toStrictEqual([
+        { start: c[4], end: cram.file.length - CRAM_EOF.length },
+      ]);
+    });
+  });
+});
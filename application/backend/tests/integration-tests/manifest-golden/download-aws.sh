@@ -0,0 +1,13 @@
+#!/bin/sh
+# Downloads the files of the release using the AWS CLI.
+# Usage: sh download-aws.sh [destination directory]
+set -e
+DEST="${1:-.}"
+aws s3 cp 's3://bucket-a/S1/S1_L001_R2.fastq.gz' "$DEST"/'S1/S1_L001_R2.fastq.gz'
+aws s3 cp 's3://bucket-a/S1/S1_L001_R1.fastq.gz' "$DEST"/'S1/S1_L001_R1.fastq.gz'
+aws s3 cp 's3://bucket-a/S1/S1_L002_R1.fastq.gz' "$DEST"/'S1/S1_L002_R1.fastq.gz'
+aws s3 cp 's3://bucket-a/S1/S1_L002_R2.fastq.gz' "$DEST"/'S1/S1_L002_R2.fastq.gz'
+aws s3 cp 's3://bucket-a/S1/S1.bam' "$DEST"/'S1/S1.bam'
+aws s3 cp 's3://bucket-a/S1/S1.bam.bai' "$DEST"/'S1/S1.bam.bai'
+aws s3 cp 's3://bucket-a/S2/it'\''s a S2.vcf.gz' "$DEST"/'S2/it'\''s a S2.vcf.gz'
+aws s3 cp 's3://bucket-a/S2/it'\''s a S2.vcf.gz.tbi' "$DEST"/'S2/it'\''s a S2.vcf.gz.tbi'
@@ -0,0 +1,21 @@
+#!/bin/sh
+# Downloads the files of the release from their presigned URLs.
+# Usage: sh download.sh [destination directory]
+set -e
+DEST="${1:-.}"
+fetch() {
+  mkdir -p "$(dirname "$2")"
+  if command -v curl >/dev/null 2>&1; then
+    curl --fail --silent --show-error --output "$2" "$1"
+  else
+    wget --quiet --output-document="$2" "$1"
+  fi
+}
+fetch 'https://bucket-a.s3.amazonaws.com/S1/S1_L001_R2.fastq.gz?X-Amz-Signature=abc&X-Amz-Expires=3600' "$DEST"/'S1/S1_L001_R2.fastq.gz'
+fetch 'https://bucket-a.s3.amazonaws.com/S1/S1_L001_R1.fastq.gz?X-Amz-Signature=abc&X-Amz-Expires=3600' "$DEST"/'S1/S1_L001_R1.fastq.gz'
+fetch 'https://bucket-a.s3.amazonaws.com/S1/S1_L002_R1.fastq.gz?X-Amz-Signature=abc&X-Amz-Expires=3600' "$DEST"/'S1/S1_L002_R1.fastq.gz'
+fetch 'https://bucket-a.s3.amazonaws.com/S1/S1_L002_R2.fastq.gz?X-Amz-Signature=abc&X-Amz-Expires=3600' "$DEST"/'S1/S1_L002_R2.fastq.gz'
+fetch 'https://bucket-a.s3.amazonaws.com/S1/S1.bam?X-Amz-Signature=abc&X-Amz-Expires=3600' "$DEST"/'S1/S1.bam'
+fetch 'https://bucket-a.s3.amazonaws.com/S1/S1.bam.bai?X-Amz-Signature=abc&X-Amz-Expires=3600' "$DEST"/'S1/S1.bam.bai'
+fetch 'https://bucket-a.s3.amazonaws.com/S2/it'\''s a S2.vcf.gz?X-Amz-Signature=abc&X-Amz-Expires=3600' "$DEST"/'S2/it'\''s a S2.vcf.gz'
+fetch 'https://bucket-a.s3.amazonaws.com/S2/it'\''s a S2.vcf.gz.tbi?X-Amz-Signature=abc&X-Amz-Expires=3600' "$DEST"/'S2/it'\''s a S2.vcf.gz.tbi'
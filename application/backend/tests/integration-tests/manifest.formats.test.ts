@@ -0,0 +1,73 @@
+import * as fs from "fs";
+import * as path from "path";
+import { text } from "stream/consumers";
+import { ReleaseAwsFileRecord } from "../../src/business/services/aws-base-service";
+import {
+  getManifestFormatter,
+  MANIFEST_FORMATTERS,
+} from "../../src/business/services/manifest-formats";
+
+// the expected output of each format is kept as a file - set UPDATE_GOLDEN=1 when running
+// the tests to rewrite them after an intentional change to a format
+const GOLDEN_DIR = path.join(__dirname, "manifest-golden");
+
+function fileRecord(
+  specimenId: string,
+  fileType: string,
+  key: string,
+  md5?: string
+): ReleaseAwsFileRecord {
+  return {
+    caseId: "CASE1",
+    patientId: specimenId.startsWith("S1") ? "PAT1" : "PAT2",
+    specimenId: specimenId,
+    fileType: fileType,
+    size: "1024",
+    s3Url: `s3://bucket-a/${key}`,
+    s3Bucket: "bucket-a",
+    s3Key: key,
+    s3Signed: `https://bucket-a.s3.amazonaws.com/${key}?X-Amz-Signature=abc&X-Amz-Expires=3600`,
+    md5: md5,
+  };
+}
+
+const FILES: ReleaseAwsFileRecord[] = [
+  fileRecord("S1", "FASTQ", "S1/S1_L001_R2.fastq.gz", "22222222"),
+  fileRecord("S1", "FASTQ", "S1/S1_L001_R1.fastq.gz", "11111111"),
+  fileRecord("S1", "FASTQ", "S1/S1_L002_R1.fastq.gz"),
+  fileRecord("S1", "FASTQ", "S1/S1_L002_R2.fastq.gz"),
+  fileRecord("S1", "BAM", "S1/S1.bam", "33333333"),
+  fileRecord("S1", "BAM", "S1/S1.bam.bai"),
+  fileRecord("S2", "VCF", "S2/it's a S2.vcf.gz", "44444444"),
+  fileRecord("S2", "VCF", "S2/it's a S2.vcf.gz.tbi"),
+];
+
+describe("manifest formats", () => {
+  for (const formatter of Object.values(MANIFEST_FORMATTERS)) {
+    it(`${formatter.format} matches its golden file`, async () => {
+      const goldenPath = path.join(GOLDEN_DIR, formatter.filename);
+
+      const output = await text(formatter.write(FILES));
+
+      if (process.env.UPDATE_GOLDEN) fs.writeFileSync(goldenPath, output);
+
+      expect(output).toBe(fs.readFileSync(goldenPath, "utf8"));
+    });
+  }
+
+  it("formats needing presigned URLs reject files without them", () => {
+    const unsigned = FILES.map((f) => ({ ...f, s3Signed: undefined }));
+
+    expect(() =>
+      getManifestFormatter("download-script").write(unsigned)
+    ).toThrow("Manifest format needs presigned URLs");
+  });
+
+  it("the default format is tsv and unknown formats are rejected", () => {
+    expect(getManifestFormatter(undefined).format).toBe("tsv");
+    expect(getManifestFormatter("").format).toBe("tsv");
+    expect(() => getManifestFormatter("xlsx")).toThrow(
+      "Unknown manifest format"
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import http from "http";
+import { AddressInfo } from "net";
+
+export type MockConsentServer = {
+  url: string;
+  // every set of identifiers (values) that the server was asked about
+  requests: string[][];
+  close: () => Promise<void>;
+};
+
+/**
+ * Start a local HTTP server that acts as an external consent source - answering
+ * POSTs of identifiers with the DUO statements held in the given map.
+ *
+ * @param consentByIdentifier the DUO statements to return for each external identifier
+ * @param responseDelayMs how long to wait before answering (i.e. to act as a slow source)
+ */
+export async function startMockConsentServer(
+  consentByIdentifier: {
+    [identifier: string]: any[];
+  },
+  responseDelayMs: number = 0
+): Promise<MockConsentServer> {
+  const requests: string[][] = [];
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const identifiers: { system: string; value: string }[] =
+        JSON.parse(body).identifiers ?? [];
+
+      requests.push(identifiers.map((i) => i.value));
+
+      // the mock holds consent by value only (so answers the same for any system)
+      const result = identifiers
+        .filter((i) => i.value in consentByIdentifier)
+        .map((i) => ({ ...i, statements: consentByIdentifier[i.value] }));
+
+      setTimeout(() => {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(result));
+      }, responseDelayMs);
+    });
+  });
+
+  // port 0 asks the OS for any free port
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  const port = (server.address() as AddressInfo).port;
+
+  return {
+    url: `http://127.0.0.1:${port}/consent`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve()))
+      ),
+  };
+}
@@ -0,0 +1,175 @@
+import { DependencyContainer } from "tsyringe";
+import { HeadObjectCommand, PutObjectCommand } from "@aws-sdk/client-s3";
+import {
+  CreateStackCommand,
+  DeleteStackCommand,
+  DescribeStacksCommand,
+  UpdateStackCommand,
+} from "@aws-sdk/client-cloudformation";
+import { GetCallerIdentityCommand } from "@aws-sdk/client-sts";
+import { ElsaAwsAccessPointSettings } from "../../src/bootstrap-settings";
+
+export const TEST_ACCESS_POINT_SETTINGS: ElsaAwsAccessPointSettings = {
+  dataAccountId: "111111111111",
+  dataRegion: "ap-southeast-2",
+  templateBucket: "elsa-test-templates",
+  templateRegion: "ap-southeast-2",
+};
+
+/**
+ * A local stand-in for STS - that says we always have credentials (so that our AWS
+ * services consider themselves enabled).
+ */
+export class StsStandIn {
+  public async send(command: any): Promise<any> {
+    if (command instanceof GetCallerIdentityCommand)
+      return { Account: "000000000000" };
+
+    throw new Error(
+      `${command.constructor.name} is not handled by the STS stand-in`
+    );
+  }
+}
+
+/**
+ * A local stand-in for S3 - that just remembers the objects put to it, and answers
+ * HEADs of objects from the metadata set up by the test.
+ */
+export class S3StandIn {
+  public readonly objects = new Map<string, any>();
+
+  // the metadata of objects that exist (for HEAD) keyed by S3 url
+  public readonly heads = new Map<
+    string,
+    { ContentLength: number; ETag: string }
+  >();
+
+  public async send(command: any): Promise<any> {
+    const url = `s3://${command.input.Bucket}/${command.input.Key}`;
+
+    if (command instanceof PutObjectCommand) {
+      this.objects.set(url, command.input.Body);
+      return {};
+    }
+
+    if (command instanceof HeadObjectCommand) {
+      const head = this.heads.get(url);
+
+      // as per S3 - a HEAD of an object that does not exist is an error
+      if (!head) {
+        const err = new Error(`Object ${url} does not exist`);
+        err.name = "NotFound";
+        throw err;
+      }
+
+      return head;
+    }
+
+    throw new Error(
+      `${command.constructor.name} is not handled by the S3 stand-in`
+    );
+  }
+}
+
+/**
+ * A local stand-in for CloudFormation - where stacks are created (and updated and deleted)
+ * instantly. The templates of stacks are read from the S3 stand-in - with each
+ * output of a template being given the value "<output name>-alias".
+ */
+export class CloudFormationStandIn {
+  // the status of every stack that exists keyed by stack name
+  public readonly stacks = new Map<string, string>();
+
+  // the outputs of every stack that exists keyed by stack name
+  public readonly outputs = new Map<string, any[]>();
+
+  constructor(private readonly s3: S3StandIn) {}
+
+  public async send(command: any): Promise<any> {
+    const stackName: string = command.input.StackName;
+
+    if (command instanceof CreateStackCommand) {
+      this.stacks.set(stackName, "CREATE_COMPLETE");
+      this.outputs.set(
+        stackName,
+        this.templateOutputs(command.input.TemplateURL)
+      );
+      return { StackId: stackName };
+    }
+
+    if (command instanceof UpdateStackCommand) {
+      if (!this.stacks.has(stackName))
+        throw new Error(`Stack with id ${stackName} does not exist`);
+
+      this.stacks.set(stackName, "UPDATE_COMPLETE");
+      this.outputs.set(
+        stackName,
+        this.templateOutputs(command.input.TemplateURL)
+      );
+      return { StackId: stackName };
+    }
+
+    if (command instanceof DescribeStacksCommand) {
+      const status = this.stacks.get(stackName);
+
+      // as per CloudFormation - asking about a stack that does not exist is an error
+      if (!status) {
+        const err = new Error(`Stack with id ${stackName} does not exist`);
+        err.name = "ValidationError";
+        throw err;
+      }
+
+      return {
+        Stacks: [
+          {
+            StackName: stackName,
+            StackStatus: status,
+            Outputs: this.outputs.get(stackName),
+          },
+        ],
+      };
+    }
+
+    if (command instanceof DeleteStackCommand) {
+      this.stacks.delete(stackName);
+      this.outputs.delete(stackName);
+      return {};
+    }
+
+    throw new Error(
+      `${command.constructor.name} is not handled by the CloudFormation stand-in`
+    );
+  }
+
+  private templateOutputs(templateUrl?: string): any[] {
+    const _match = templateUrl?.match(/^https:\/\/([^.]+)\.s3\.[^/]+\/(.*)$/);
+    const template = _match
+      ? this.s3.objects.get(`s3://${_match[1]}/${_match[2]}`)
+      : undefined;
+
+    return Object.keys(
+      template ? JSON.parse(template.toString()).Outputs ?? {} : {}
+    ).map((k) => ({ OutputKey: k, OutputValue: `${k}-alias` }));
+  }
+}
+
+/**
+ * Replace the AWS clients of the container with local stand-ins (and set up the
+ * settings for access points). This must be called before any service using AWS
+ * is resolved.
+ *
+ * @param testContainer
+ */
+export function registerAwsStandIns(testContainer: DependencyContainer) {
+  const s3 = new S3StandIn();
+  const cfn = new CloudFormationStandIn(s3);
+
+  testContainer.register<any>("STSClient", { useValue: new StsStandIn() });
+  testContainer.register<any>("S3Client", { useValue: s3 });
+  testContainer.register<any>("CloudFormationClient", { useValue: cfn });
+  testContainer.register<ElsaAwsAccessPointSettings>("AwsAccessPointSettings", {
+    useValue: TEST_ACCESS_POINT_SETTINGS,
+  });
+
+  return { s3, cfn };
+}
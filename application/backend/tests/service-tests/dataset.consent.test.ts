@@ -0,0 +1,124 @@
+import { AuthenticatedUser } from "../../src/business/authenticated-user";
+import { beforeEachCommon } from "./dataset.common";
+import { registerTypes } from "./setup";
+import { ConsentService } from "../../src/business/services/consent-service";
+import { Client } from "edgedb";
+import e from "../../dbschema/edgeql-js";
+import { findDatabaseSpecimenIds } from "./utils";
+
+const testContainer = registerTypes();
+
+const edgeDbClient = testContainer.resolve<Client>("Database");
+const consentService = testContainer.resolve(ConsentService);
+
+let adminUser: AuthenticatedUser;
+let ownerUser: AuthenticatedUser;
+let tengDatasetId2: string;
+
+beforeEach(async () => {
+  testContainer.clearInstances();
+
+  ({ tengDatasetId2, adminUser } = await beforeEachCommon());
+
+  const ownerSubject = "https://i-own-10g.org";
+
+  const ownerInsert = await e
+    .insert(e.permission.User, {
+      subjectId: ownerSubject,
+      displayName: "Test User Who Owns 10G",
+      datasetOwner: e.select(e.dataset.Dataset, (d) => ({
+        filter: e.op(d.id, "=", e.uuid(tengDatasetId2)),
+      })),
+    })
+    .run(edgeDbClient);
+
+  ownerUser = new AuthenticatedUser({
+    id: ownerInsert.id,
+    subjectId: ownerSubject,
+  });
+});
+
+it("dataset owner can add, replace and remove consent on a specimen", async () => {
+  // HG00099 (JANE) has no consent at all in our test data
+  const specimenIds = await findDatabaseSpecimenIds(edgeDbClient, ["HG00099"]);
+
+  expect(specimenIds).toHaveLength(1);
+
+  const added = await consentService.addStatement(ownerUser, specimenIds[0], {
+    code: "DUO:0000006",
+    modifiers: [],
+  });
+
+  expect(added).toHaveLength(1);
+  expect(added[0].statement).toEqual({ code: "DUO:0000006", modifiers: [] });
+
+  const replaced = await consentService.replaceStatement(
+    ownerUser,
+    specimenIds[0],
+    added[0].id,
+    {
+      code: "DUO:0000042",
+      modifiers: [{ code: "DUO:0000022", regions: ["AUS"] }],
+    }
+  );
+
+  expect(replaced).toHaveLength(1);
+  expect(replaced[0].statement).toHaveProperty("code", "DUO:0000042");
+
+  const removed = await consentService.removeStatement(
+    ownerUser,
+    specimenIds[0],
+    added[0].id
+  );
+
+  expect(removed).toHaveLength(0);
+});
+
+it("dataset owner can add consent at the dataset level", async () => {
+  const added = await consentService.addStatement(ownerUser, tengDatasetId2, {
+    code: "DUO:0000042",
+    modifiers: [],
+  });
+
+  expect(added).toHaveLength(1);
+});
+
+it("consent that is not valid DUO is rejected", async () => {
+  await expect(
+    consentService.addStatement(ownerUser, tengDatasetId2, {
+      code: "DUO:0000007",
+      modifiers: [],
+    })
+  ).rejects.toThrow();
+});
+
+it("users who do not own the dataset cannot edit consent", async () => {
+  await expect(
+    consentService.addStatement(adminUser, tengDatasetId2, {
+      code: "DUO:0000042",
+      modifiers: [],
+    })
+  ).rejects.toThrow();
+});
+
+it("dataset owner can see consent that narrows its parents", async () => {
+  const report = await consentService.getConflictReport(
+    ownerUser,
+    tengDatasetId2
+  );
+
+  // MARY has HMB consent but her specimen is more restrictively DS only
+  expect(
+    report.conflicts.some(
+      (c) => c.nodeExternalId === "HG00097" && c.kind === "narrows"
+    )
+  ).toBe(true);
+
+  expect(report.codeCounts.find((cc) => cc.shorthand === "HMB")).toBeDefined();
+});
+
+it("users who do not own the dataset cannot analyse consent", async () => {
+  await expect(
+    consentService.getConflictReport(adminUser, tengDatasetId2)
+  ).rejects.toThrow();
+});
@@ -0,0 +1,177 @@
+import { Client } from "edgedb";
+import e from "../../dbschema/edgeql-js";
+import { AuthenticatedUser } from "../../src/business/authenticated-user";
+import { beforeEachCommon } from "./releases.common";
+import { registerTypes } from "./setup";
+import { registerAwsStandIns } from "./aws.common";
+import { JobsService } from "../../src/business/services/jobs-service";
+import {
+  JobDispatcher,
+  MAX_CONSECUTIVE_WORK_ERRORS,
+} from "../../src/business/services/jobs/job-dispatcher";
+import { ChecksumJobKind } from "../../src/business/services/jobs/checksum-job-kind";
+import { registerJobKinds } from "../../src/business/services/jobs/job-kinds";
+
+const testContainer = registerTypes();
+
+const { s3 } = registerAwsStandIns(testContainer);
+
+registerJobKinds(testContainer);
+
+const edgeDbClient = testContainer.resolve<Client>("Database");
+const jobsService = testContainer.resolve(JobsService);
+const jobDispatcher = testContainer.resolve(JobDispatcher);
+const checksumJobKind = testContainer.resolve(ChecksumJobKind);
+
+let testReleaseId: string;
+
+let allowedDataOwnerUser: AuthenticatedUser;
+let allowedPiUser: AuthenticatedUser;
+let notAllowedUser: AuthenticatedUser;
+
+const DEFAULT_SETTINGS = { roughlyMaxSeconds: 10, batchSize: 20 };
+
+const BAM_URL = "s3://umccr-10g-data-dev/HG00096/HG00096.bam";
+
+jest.setTimeout(60000);
+
+beforeEach(async () => {
+  ({ testReleaseId, allowedDataOwnerUser, allowedPiUser, notAllowedUser } =
+    await beforeEachCommon());
+
+  // every file we know about exists in S3 exactly as we have recorded it
+  s3.heads.clear();
+
+  const files = await e
+    .select(e.storage.File, () => ({
+      url: true,
+      size: true,
+      checksums: true,
+    }))
+    .run(edgeDbClient);
+
+  for (const f of files) {
+    const etag =
+      f.checksums.find((c) => c.type === "AWS_ETAG") ??
+      f.checksums.find((c) => c.type === "MD5");
+
+    s3.heads.set(f.url, {
+      ContentLength: f.size,
+      ETag: `"${etag?.value ?? "0000"}"`,
+    });
+  }
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+/**
+ * Run the dispatcher until there are no running jobs left.
+ */
+async function dispatchUntilFinished() {
+  while ((await jobDispatcher.dispatch(DEFAULT_SETTINGS)) > 0);
+}
+
+/**
+ * The checksum job of the test release.
+ */
+async function getChecksumJob() {
+  return await e
+    .select(e.job.ChecksumJob, (j) => ({
+      status: true,
+      mismatchedUrls: true,
+      messages: true,
+      filter: e.op(j.forRelease.id, "=", e.uuid(testReleaseId)),
+    }))
+    .assert_single()
+    .run(edgeDbClient);
+}
+
+it("dispatcher runs a checksum job of matching files to completion", async () => {
+  await checksumJobKind.startJob(allowedDataOwnerUser, testReleaseId);
+
+  await dispatchUntilFinished();
+
+  const job = await getChecksumJob();
+
+  expect(job?.status).toBe("succeeded");
+  expect(job?.mismatchedUrls).toStrictEqual([]);
+});
+
+it("checksum job fails when files do not match", async () => {
+  s3.heads.set(BAM_URL, { ContentLength: 1, ETag: '"0000"' });
+
+  await checksumJobKind.startJob(allowedDataOwnerUser, testReleaseId);
+
+  await dispatchUntilFinished();
+
+  const job = await getChecksumJob();
+
+  expect(job?.status).toBe("failed");
+  expect(job?.mismatchedUrls).toStrictEqual([BAM_URL]);
+});
+
+it("checksum jobs can only be started by the data owner", async () => {
+  await expect(
+    checksumJobKind.startJob(allowedPiUser, testReleaseId)
+  ).rejects.toThrow("Not authorised to control jobs for this release");
+
+  // a user outside the release is told that - rather than anything about the files of the release
+  await expect(
+    checksumJobKind.startJob(notAllowedUser, testReleaseId)
+  ).rejects.toMatchObject({
+    status: 403,
+    detail: expect.stringContaining("User is not a participant"),
+  });
+});
+
+it("dispatcher completes checksum jobs that have requested cancellation", async () => {
+  await checksumJobKind.startJob(allowedDataOwnerUser, testReleaseId);
+
+  await jobsService.cancelInProgressSelectJob(
+    allowedDataOwnerUser,
+    testReleaseId
+  );
+
+  await jobDispatcher.dispatch(DEFAULT_SETTINGS);
+
+  const job = await getChecksumJob();
+
+  expect(job?.status).toBe("cancelled");
+});
+
+it("dispatcher fails checksum jobs when S3 keeps erroring", async () => {
+  jest.spyOn(s3, "send").mockRejectedValue(new Error("Access denied"));
+
+  await checksumJobKind.startJob(allowedDataOwnerUser, testReleaseId);
+
+  for (let i = 1; i < MAX_CONSECUTIVE_WORK_ERRORS; i++)
+    await jobDispatcher.dispatch(DEFAULT_SETTINGS);
+
+  // the errors are retried for a while
+  expect((await getChecksumJob())?.status).toBe("running");
+
+  await jobDispatcher.dispatch(DEFAULT_SETTINGS);
+
+  const job = await getChecksumJob();
+
+  expect(job?.status).toBe("failed");
+  expect(job?.messages.map((m) => m.text)).toContain(
+    `Error doing work (giving up after ${MAX_CONSECUTIVE_WORK_ERRORS} errors in a row): Access denied`
+  );
+});
+
+it("dispatcher carries on when recording the outcome of a job fails", async () => {
+  jest.spyOn(s3, "send").mockRejectedValue(new Error("Access denied"));
+  jest
+    .spyOn(jobsService, "appendJobMessage")
+    .mockRejectedValue(new Error("Database went away"));
+
+  await checksumJobKind.startJob(allowedDataOwnerUser, testReleaseId);
+
+  await expect(jobDispatcher.dispatch(DEFAULT_SETTINGS)).resolves.toBe(1);
+
+  // the job is left as it was - for the next dispatch to try again
+  expect((await getChecksumJob())?.status).toBe("running");
+});
@@ -0,0 +1,263 @@
+import { Client } from "edgedb";
+import e from "../../dbschema/edgeql-js";
+import { DatasetImportCaseType } from "@umccr/elsa-types";
+import { AuthenticatedUser } from "../../src/business/authenticated-user";
+import { beforeEachCommon } from "./dataset.common";
+import { registerTypes } from "./setup";
+import {
+  JobDispatcher,
+  MAX_CONSECUTIVE_WORK_ERRORS,
+} from "../../src/business/services/jobs/job-dispatcher";
+import { DatasetImportJobKind } from "../../src/business/services/jobs/dataset-import-job-kind";
+import { registerJobKinds } from "../../src/business/services/jobs/job-kinds";
+
+const testContainer = registerTypes();
+
+registerJobKinds(testContainer);
+
+const edgeDbClient = testContainer.resolve<Client>("Database");
+const jobDispatcher = testContainer.resolve(JobDispatcher);
+const datasetImportJobKind = testContainer.resolve(DatasetImportJobKind);
+
+let adminUser: AuthenticatedUser;
+let ownerUser: AuthenticatedUser;
+let tengDatasetId2: string;
+
+// a small batch size so that an import of a few cases takes a few batches
+const DEFAULT_SETTINGS = { roughlyMaxSeconds: 10, batchSize: 1 };
+
+jest.setTimeout(60000);
+
+beforeEach(async () => {
+  ({ tengDatasetId2, adminUser } = await beforeEachCommon());
+
+  const ownerSubject = "https://i-own-10g.org";
+
+  const ownerInsert = await e
+    .insert(e.permission.User, {
+      subjectId: ownerSubject,
+      displayName: "Test User Who Owns 10G",
+      datasetOwner: e.select(e.dataset.Dataset, (d) => ({
+        filter: e.op(d.id, "=", e.uuid(tengDatasetId2)),
+      })),
+    })
+    .run(edgeDbClient);
+
+  ownerUser = new AuthenticatedUser({
+    id: ownerInsert.id,
+    subjectId: ownerSubject,
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+/**
+ * Run the dispatcher until there are no running jobs left.
+ */
+async function dispatchUntilFinished() {
+  while ((await jobDispatcher.dispatch(DEFAULT_SETTINGS)) > 0);
+}
+
+/**
+ * A case (with one patient and specimen) that has a BAM of the given name.
+ *
+ * @param name
+ */
+function importCase(name: string): DatasetImportCaseType {
+  const file = (suffix: string) => ({
+    url: `s3://umccr-10g-data-dev/${name}/${name}.${suffix}`,
+    size: 1000,
+    checksums: [{ type: "MD5" as const, value: "abcd" }],
+  });
+
+  return {
+    externalIdentifiers: [{ system: "", value: `${name}CASE` }],
+    patients: [
+      {
+        externalIdentifiers: [{ system: "", value: `${name}PATIENT` }],
+        sexAtBirth: "female",
+        specimens: [
+          {
+            externalIdentifiers: [{ system: "", value: name }],
+            artifacts: [
+              { type: "BAM", file: file("bam"), indexFile: file("bam.bai") },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * The count of cases in the 10G dataset.
+ */
+async function countDatasetCases() {
+  const dataset = await e
+    .select(e.dataset.Dataset, (d) => ({
+      caseCount: e.count(d.cases),
+      filter: e.op(d.id, "=", e.uuid(tengDatasetId2)),
+    }))
+    .assert_single()
+    .run(edgeDbClient);
+
+  return dataset?.caseCount ?? 0;
+}
+
+it("dispatcher runs a dataset import job to completion", async () => {
+  const casesBefore = await countDatasetCases();
+
+  const jobId = await datasetImportJobKind.startJob(ownerUser, tengDatasetId2, [
+    importCase("IMPORTA"),
+    importCase("IMPORTB"),
+    importCase("IMPORTC"),
+  ]);
+
+  await dispatchUntilFinished();
+
+  const job = await datasetImportJobKind.getJob(
+    ownerUser,
+    tengDatasetId2,
+    jobId
+  );
+
+  expect(job.status).toBe("succeeded");
+  expect(job.percentDone).toBe(100);
+  expect(job.initialTodoCount).toBe(3);
+  expect(job.importedCount).toBe(3);
+
+  expect(await countDatasetCases()).toBe(casesBefore + 3);
+
+  // the checksums of the files are imported as recorded
+  const file = await e
+    .select(e.storage.File, (f) => ({
+      checksums: true,
+      filter: e.op(f.url, "=", "s3://umccr-10g-data-dev/IMPORTB/IMPORTB.bam"),
+    }))
+    .assert_single()
+    .run(edgeDbClient);
+
+  expect(file?.checksums).toStrictEqual([{ type: "MD5", value: "abcd" }]);
+});
+
+it("dataset import jobs can only be seen and started by the dataset owner", async () => {
+  await expect(
+    datasetImportJobKind.startJob(adminUser, tengDatasetId2, [
+      importCase("IMPORTA"),
+    ])
+  ).rejects.toThrow("Not authorised to import into dataset");
+
+  const jobId = await datasetImportJobKind.startJob(ownerUser, tengDatasetId2, [
+    importCase("IMPORTA"),
+  ]);
+
+  await expect(
+    datasetImportJobKind.getJob(adminUser, tengDatasetId2, jobId)
+  ).rejects.toThrow("Not authorised to import into dataset");
+
+  await expect(
+    datasetImportJobKind.cancelJob(adminUser, tengDatasetId2, jobId)
+  ).rejects.toThrow("Not authorised to import into dataset");
+});
+
+it("dispatcher completes dataset import jobs that have requested cancellation", async () => {
+  const casesBefore = await countDatasetCases();
+
+  const jobId = await datasetImportJobKind.startJob(ownerUser, tengDatasetId2, [
+    importCase("IMPORTA"),
+    importCase("IMPORTB"),
+  ]);
+
+  const cancelling = await datasetImportJobKind.cancelJob(
+    ownerUser,
+    tengDatasetId2,
+    jobId
+  );
+
+  expect(cancelling.status).toBe("running");
+  expect(cancelling.requestedCancellation).toBe(true);
+
+  await jobDispatcher.dispatch(DEFAULT_SETTINGS);
+
+  const job = await datasetImportJobKind.getJob(
+    ownerUser,
+    tengDatasetId2,
+    jobId
+  );
+
+  expect(job.status).toBe("cancelled");
+  expect(job.importedCount).toBe(0);
+  expect(await countDatasetCases()).toBe(casesBefore);
+
+  // a finished job cannot be cancelled again
+  await expect(
+    datasetImportJobKind.cancelJob(ownerUser, tengDatasetId2, jobId)
+  ).rejects.toThrow("Dataset import job is not running");
+});
+
+it("dispatcher fails dataset import jobs that keep erroring", async () => {
+  jest
+    .spyOn(datasetImportJobKind, "doWork")
+    .mockRejectedValue(new Error("Database went away"));
+
+  const jobId = await datasetImportJobKind.startJob(ownerUser, tengDatasetId2, [
+    importCase("IMPORTA"),
+  ]);
+
+  // an error leaves the job running so that it can be retried
+  for (let i = 1; i < MAX_CONSECUTIVE_WORK_ERRORS; i++)
+    await jobDispatcher.dispatch(DEFAULT_SETTINGS);
+
+  {
+    const job = await datasetImportJobKind.getJob(
+      ownerUser,
+      tengDatasetId2,
+      jobId
+    );
+
+    expect(job.status).toBe("running");
+    expect(job.messages[job.messages.length - 1].text).toBe(
+      "Error doing work (will retry): Database went away"
+    );
+  }
+
+  // until there have been too many errors in a row
+  await jobDispatcher.dispatch(DEFAULT_SETTINGS);
+
+  {
+    const job = await datasetImportJobKind.getJob(
+      ownerUser,
+      tengDatasetId2,
+      jobId
+    );
+
+    expect(job.status).toBe("failed");
+    expect(job.messages.map((m) => m.text)).toContain(
+      `Error doing work (giving up after ${MAX_CONSECUTIVE_WORK_ERRORS} errors in a row): Database went away`
+    );
+  }
+});
+
+it("a dataset import job that stops erroring carries on", async () => {
+  jest
+    .spyOn(datasetImportJobKind, "doWork")
+    .mockRejectedValueOnce(new Error("Database went away"));
+
+  const jobId = await datasetImportJobKind.startJob(ownerUser, tengDatasetId2, [
+    importCase("IMPORTA"),
+    importCase("IMPORTB"),
+  ]);
+
+  await dispatchUntilFinished();
+
+  const job = await datasetImportJobKind.getJob(
+    ownerUser,
+    tengDatasetId2,
+    jobId
+  );
+
+  expect(job.status).toBe("succeeded");
+  expect(job.importedCount).toBe(2);
+});
@@ -0,0 +1,119 @@
+import { AuthenticatedUser } from "../../src/business/authenticated-user";
+import { beforeEachCommon } from "./releases.common";
+import { registerTypes } from "./setup";
+import { JobsService } from "../../src/business/services/jobs-service";
+import { JobDispatcher } from "../../src/business/services/jobs/job-dispatcher";
+import { ManifestJobKind } from "../../src/business/services/jobs/manifest-job-kind";
+import { registerJobKinds } from "../../src/business/services/jobs/job-kinds";
+import { ReleasesService } from "../../src/business/services/releases-service";
+
+const testContainer = registerTypes();
+
+registerJobKinds(testContainer);
+
+const jobsService = testContainer.resolve(JobsService);
+const jobDispatcher = testContainer.resolve(JobDispatcher);
+const manifestJobKind = testContainer.resolve(ManifestJobKind);
+const releasesService = testContainer.resolve(ReleasesService);
+
+let testReleaseId: string;
+
+let allowedDataOwnerUser: AuthenticatedUser;
+let allowedPiUser: AuthenticatedUser;
+
+const DEFAULT_SETTINGS = { roughlyMaxSeconds: 10, batchSize: 20 };
+
+jest.setTimeout(60000);
+
+beforeEach(async () => {
+  ({ testReleaseId, allowedDataOwnerUser, allowedPiUser } =
+    await beforeEachCommon());
+
+  // the manifest is only available to the PI whilst access is enabled
+  await releasesService.setMasterAccess(allowedDataOwnerUser, testReleaseId, {
+    start: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+    end: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  });
+});
+
+/**
+ * Run the dispatcher until there are no running jobs left.
+ */
+async function dispatchUntilFinished() {
+  while ((await jobDispatcher.dispatch(DEFAULT_SETTINGS)) > 0);
+}
+
+it("dispatcher runs a select job to completion", async () => {
+  await jobsService.startSelectJob(allowedDataOwnerUser, testReleaseId);
+
+  await dispatchUntilFinished();
+
+  const previous = await jobsService.getPreviousJobs(
+    allowedDataOwnerUser,
+    testReleaseId
+  );
+
+  expect(previous).toHaveLength(1);
+  expect(previous[0].jobType).toBe("SelectJob");
+  expect(previous[0].status).toBe("succeeded");
+});
+
+it("dispatcher runs a manifest job to completion", async () => {
+  // there is no manifest until a manifest job has succeeded
+  expect(
+    await manifestJobKind.getLatestManifest(allowedPiUser, testReleaseId)
+  ).toBeNull();
+
+  await manifestJobKind.startJob(allowedDataOwnerUser, testReleaseId);
+
+  await dispatchUntilFinished();
+
+  const previous = await jobsService.getPreviousJobs(
+    allowedDataOwnerUser,
+    testReleaseId
+  );
+
+  expect(previous[0].jobType).toBe("ManifestJob");
+  expect(previous[0].status).toBe("succeeded");
+
+  expect(
+    await manifestJobKind.getLatestManifest(allowedPiUser, testReleaseId)
+  ).not.toBeNull();
+});
+
+it("only one job of any kind can run in a release", async () => {
+  await manifestJobKind.startJob(allowedDataOwnerUser, testReleaseId);
+
+  await expect(
+    jobsService.startSelectJob(allowedDataOwnerUser, testReleaseId)
+  ).rejects.toThrow();
+
+  await dispatchUntilFinished();
+
+  // once the first job has finished we are free to start another
+  await jobsService.startSelectJob(allowedDataOwnerUser, testReleaseId);
+
+  await dispatchUntilFinished();
+});
+
+it("dispatcher completes jobs that have requested cancellation", async () => {
+  await manifestJobKind.startJob(allowedDataOwnerUser, testReleaseId);
+
+  await jobsService.cancelInProgressSelectJob(
+    allowedDataOwnerUser,
+    testReleaseId
+  );
+
+  await jobDispatcher.dispatch(DEFAULT_SETTINGS);
+
+  const previous = await jobsService.getPreviousJobs(
+    allowedDataOwnerUser,
+    testReleaseId
+  );
+
+  expect(previous[0].status).toBe("cancelled");
+
+  expect(
+    await manifestJobKind.getLatestManifest(allowedPiUser, testReleaseId)
+  ).toBeNull();
+});
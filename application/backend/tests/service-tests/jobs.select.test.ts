@@ -72,3 +72,333 @@ it("jobs", async () => {
 
   console.log(JSON.stringify(result)); */
 });
+
+it("select job work is checkpointed in batches", async () => {
+  await jobsService.startSelectJob(allowedDataOwnerUser, testReleaseId);
+
+  const jobs = await jobsService.getInProgressSelectJobs();
+
+  expect(jobs.length).toBe(1);
+
+  // process the queue in tiny batches - as if a series of workers were each doing a little bit
+  let total = 0;
+  let processed = 0;
+
+  do {
+    processed = await jobsService.doSelectJobWork(
+      jobs[0].jobId,
+      DEFAULT_ROUGH_SECONDS,
+      2
+    );
+    total += processed;
+  } while (processed > 0);
+
+  expect(total).toBeGreaterThan(0);
+
+  const release = await releasesService.get(
+    allowedDataOwnerUser,
+    testReleaseId
+  );
+
+  expect(release).not.toBeNull();
+  expect(release!.runningJob).toBeDefined();
+  // only the final end job step is allowed to take us to 100%
+  expect(release!.runningJob!.percentDone).toBe(99);
+  // each case is only ever counted once - no matter how many runs it took
+  expect(release!.runningJob!.casesProcessed).toBe(total);
+  expect(release!.runningJob!.casesPerSecond).toBeGreaterThan(0);
+
+  // further work on an empty queue does nothing
+  expect(
+    await jobsService.doSelectJobWork(jobs[0].jobId, DEFAULT_ROUGH_SECONDS)
+  ).toBe(0);
+
+  await jobsService.endSelectJob(jobs[0].jobId, true, false);
+});
+
+it("select job logs messages that can be paged", async () => {
+  await jobsService.startSelectJob(allowedDataOwnerUser, testReleaseId);
+
+  const jobs = await jobsService.getInProgressSelectJobs();
+
+  // a batch size of 1 gives us a message for each case processed
+  while (
+    (await jobsService.doSelectJobWork(
+      jobs[0].jobId,
+      DEFAULT_ROUGH_SECONDS,
+      1
+    )) > 0
+  );
+
+  const release = await releasesService.get(allowedPiUser, testReleaseId);
+
+  expect(release!.runningJob!.jobId).toBe(jobs[0].jobId);
+  expect(release!.runningJob!.messages.length).toBeGreaterThan(0);
+
+  const firstPage = await jobsService.getJobMessages(
+    allowedPiUser,
+    testReleaseId,
+    jobs[0].jobId,
+    2,
+    0
+  );
+
+  expect(firstPage.data.length).toBe(2);
+  expect(firstPage.data[0].level).toBe("info");
+  expect(firstPage.data[0].text).toBe("Select job created");
+  expect(firstPage.total).toBeGreaterThan(2);
+
+  const secondPage = await jobsService.getJobMessages(
+    allowedPiUser,
+    testReleaseId,
+    jobs[0].jobId,
+    2,
+    2
+  );
+
+  expect(secondPage.total).toBe(firstPage.total);
+  expect(secondPage.data[0].text).not.toBe(firstPage.data[0].text);
+
+  await jobsService.endSelectJob(jobs[0].jobId, true, false);
+
+  // the log is still available once the job has finished
+  const finalPage = await jobsService.getJobMessages(
+    allowedPiUser,
+    testReleaseId,
+    jobs[0].jobId,
+    1000,
+    0
+  );
+
+  expect(finalPage.total).toBe(firstPage.total + 1);
+  expect(finalPage.data[finalPage.total - 1].text).toBe("Select job succeeded");
+});
+
+it("previous jobs can be listed and compared to the current selection", async () => {
+  await jobsService.startSelectJob(allowedDataOwnerUser, testReleaseId);
+
+  const jobs = await jobsService.getInProgressSelectJobs();
+
+  while (
+    (await jobsService.doSelectJobWork(jobs[0].jobId, DEFAULT_ROUGH_SECONDS)) >
+    0
+  );
+
+  // the running job is not part of the history
+  expect(
+    await jobsService.getPreviousJobs(allowedDataOwnerUser, testReleaseId)
+  ).toHaveLength(0);
+
+  await jobsService.endSelectJob(jobs[0].jobId, true, false);
+
+  const previous = await jobsService.getPreviousJobs(
+    allowedDataOwnerUser,
+    testReleaseId
+  );
+
+  expect(previous).toHaveLength(1);
+  expect(previous[0].id).toBe(jobs[0].jobId);
+  expect(previous[0].status).toBe("succeeded");
+  expect(previous[0].ended).toBeDefined();
+  expect(previous[0].initialTodoCount).toBeGreaterThan(0);
+  expect(previous[0].messages.length).toBeGreaterThan(0);
+
+  // the release selection has just been set from the job - so they should be identical
+  const comparison = await jobsService.getJobSelectionComparison(
+    allowedDataOwnerUser,
+    testReleaseId,
+    jobs[0].jobId
+  );
+
+  expect(comparison.jobSelectedCount).toBe(previous[0].selectedCount);
+  expect(comparison.currentSelectedCount).toBe(comparison.jobSelectedCount);
+  expect(comparison.bothSelectedCount).toBe(comparison.jobSelectedCount);
+  expect(comparison.onlyInJob).toHaveLength(0);
+  expect(comparison.onlyInCurrent).toHaveLength(0);
+});
+
+it("previous jobs are only available to data owners", async () => {
+  await expect(
+    jobsService.getPreviousJobs(allowedPiUser, testReleaseId)
+  ).rejects.toThrow();
+
+  await expect(
+    jobsService.getPreviousJobs(notAllowedUser, testReleaseId)
+  ).rejects.toThrow();
+});
+
+/**
+ * Run a dry run select job to completion - returning its job id.
+ */
+async function runDryRunSelectJob(): Promise<string> {
+  await jobsService.startSelectJob(allowedDataOwnerUser, testReleaseId, true);
+
+  const jobs = await jobsService.getInProgressSelectJobs();
+
+  while (
+    (await jobsService.doSelectJobWork(jobs[0].jobId, DEFAULT_ROUGH_SECONDS)) >
+    0
+  );
+
+  await jobsService.endSelectJob(jobs[0].jobId, true, false);
+
+  return jobs[0].jobId;
+}
+
+it("dry run select job previews changes without touching the release", async () => {
+  const jobId = await runDryRunSelectJob();
+
+  const preview = await jobsService.getSelectJobPreview(
+    allowedDataOwnerUser,
+    testReleaseId,
+    jobId
+  );
+
+  const comparison = await jobsService.getJobSelectionComparison(
+    allowedDataOwnerUser,
+    testReleaseId,
+    jobId
+  );
+
+  // the release selection is untouched - so the preview changes are the differences between the two
+  expect(preview.previewOutcome).toBeUndefined();
+  expect(preview.added).toHaveLength(comparison.onlyInJob.length);
+  expect(preview.removed).toHaveLength(comparison.onlyInCurrent.length);
+  expect(preview.unchangedCount).toBe(comparison.bothSelectedCount);
+
+  // the per dataset counts add up to the totals
+  expect(preview.datasets.reduce((t, d) => t + d.addedCount, 0)).toBe(
+    preview.added.length
+  );
+  expect(preview.datasets.reduce((t, d) => t + d.removedCount, 0)).toBe(
+    preview.removed.length
+  );
+
+  await jobsService.acceptSelectJobPreview(
+    allowedDataOwnerUser,
+    testReleaseId,
+    jobId,
+    {}
+  );
+
+  const afterComparison = await jobsService.getJobSelectionComparison(
+    allowedDataOwnerUser,
+    testReleaseId,
+    jobId
+  );
+
+  expect(afterComparison.onlyInJob).toHaveLength(0);
+  expect(afterComparison.onlyInCurrent).toHaveLength(0);
+
+  // a preview can only be decided once
+  await expect(
+    jobsService.rejectSelectJobPreview(
+      allowedDataOwnerUser,
+      testReleaseId,
+      jobId
+    )
+  ).rejects.toThrow();
+});
+
+it("dry run select job preview can be partially accepted", async () => {
+  const jobId = await runDryRunSelectJob();
+
+  const preview = await jobsService.getSelectJobPreview(
+    allowedDataOwnerUser,
+    testReleaseId,
+    jobId
+  );
+
+  const changes = [...preview.added, ...preview.removed];
+
+  expect(changes.length).toBeGreaterThan(0);
+
+  // accept only the very first change
+  const isFirstAdded = preview.added.length > 0;
+
+  await jobsService.acceptSelectJobPreview(
+    allowedDataOwnerUser,
+    testReleaseId,
+    jobId,
+    isFirstAdded
+      ? { addedSpecimenIds: [changes[0].id] }
+      : { removedSpecimenIds: [changes[0].id] }
+  );
+
+  const afterPreview = await jobsService.getSelectJobPreview(
+    allowedDataOwnerUser,
+    testReleaseId,
+    jobId
+  );
+
+  expect(afterPreview.previewOutcome).toBe(
+    changes.length > 1 ? "partiallyAccepted" : "accepted"
+  );
+  expect(afterPreview.added.length + afterPreview.removed.length).toBe(
+    changes.length - 1
+  );
+});
+
+it("dry run select job preview can only accept changes it contains", async () => {
+  const jobId = await runDryRunSelectJob();
+
+  await expect(
+    jobsService.acceptSelectJobPreview(
+      allowedDataOwnerUser,
+      testReleaseId,
+      jobId,
+      { addedSpecimenIds: ["00000000-0000-0000-0000-000000000000"] }
+    )
+  ).rejects.toThrow();
+});
+
+it("dry run select job preview can be rejected", async () => {
+  const jobId = await runDryRunSelectJob();
+
+  const before = await jobsService.getSelectJobPreview(
+    allowedDataOwnerUser,
+    testReleaseId,
+    jobId
+  );
+
+  await jobsService.rejectSelectJobPreview(
+    allowedDataOwnerUser,
+    testReleaseId,
+    jobId
+  );
+
+  const after = await jobsService.getSelectJobPreview(
+    allowedDataOwnerUser,
+    testReleaseId,
+    jobId
+  );
+
+  expect(after.previewOutcome).toBe("rejected");
+  expect(after.added).toHaveLength(before.added.length);
+  expect(after.removed).toHaveLength(before.removed.length);
+
+  await expect(
+    jobsService.acceptSelectJobPreview(
+      allowedDataOwnerUser,
+      testReleaseId,
+      jobId,
+      {}
+    )
+  ).rejects.toThrow();
+});
+
+it("only non dry run select jobs can be previewed", async () => {
+  await jobsService.startSelectJob(allowedDataOwnerUser, testReleaseId);
+
+  const jobs = await jobsService.getInProgressSelectJobs();
+
+  await expect(
+    jobsService.getSelectJobPreview(
+      allowedDataOwnerUser,
+      testReleaseId,
+      jobs[0].jobId
+    )
+  ).rejects.toThrow();
+
+  await jobsService.endSelectJob(jobs[0].jobId, false, true);
+});
@@ -0,0 +1,242 @@
+import { AuthenticatedUser } from "../../src/business/authenticated-user";
+import { beforeEachCommon } from "./releases.common";
+import { registerTypes } from "./setup";
+import { registerAwsStandIns, TEST_ACCESS_POINT_SETTINGS } from "./aws.common";
+import { ReleasesService } from "../../src/business/services/releases-service";
+import { AwsAccessPointService } from "../../src/business/services/aws-access-point-service";
+import { AccessPointInstallJobKind } from "../../src/business/services/jobs/access-point-install-job-kind";
+import { JobDispatcher } from "../../src/business/services/jobs/job-dispatcher";
+import { registerJobKinds } from "../../src/business/services/jobs/job-kinds";
+
+const testContainer = registerTypes();
+
+const { s3, cfn } = registerAwsStandIns(testContainer);
+
+registerJobKinds(testContainer);
+
+const releasesService = testContainer.resolve(ReleasesService);
+const awsAccessPointService = testContainer.resolve(AwsAccessPointService);
+const accessPointInstallJobKind = testContainer.resolve(
+  AccessPointInstallJobKind
+);
+const jobDispatcher = testContainer.resolve(JobDispatcher);
+
+let testReleaseId: string;
+
+let allowedDataOwnerUser: AuthenticatedUser;
+let allowedPiUser: AuthenticatedUser;
+
+const ONE_HOUR = 60 * 60 * 1000;
+
+const RESEARCHER_ACCOUNT = "222222222222";
+
+jest.setTimeout(60000);
+
+beforeEach(async () => {
+  s3.objects.clear();
+  cfn.stacks.clear();
+  cfn.outputs.clear();
+
+  ({ testReleaseId, allowedDataOwnerUser, allowedPiUser } =
+    await beforeEachCommon());
+
+  await releasesService.setMasterAccess(allowedDataOwnerUser, testReleaseId, {
+    start: new Date(Date.now() - ONE_HOUR).toISOString(),
+    end: new Date(Date.now() + ONE_HOUR).toISOString(),
+  });
+});
+
+async function installAccessPoints() {
+  await releasesService.setAccessPointConfig(
+    allowedDataOwnerUser,
+    testReleaseId,
+    { accountIds: [RESEARCHER_ACCOUNT], vpcId: "vpc-0123abcd" }
+  );
+
+  await accessPointInstallJobKind.startJob(allowedDataOwnerUser, testReleaseId);
+
+  await runJobs();
+}
+
+async function runJobs() {
+  while (
+    (await jobDispatcher.dispatch({ roughlyMaxSeconds: 10, batchSize: 20 })) > 0
+  );
+}
+
+it("access point accounts can be set by data owners", async () => {
+  const result = await releasesService.setAccessPointConfig(
+    allowedDataOwnerUser,
+    testReleaseId,
+    { accountIds: [RESEARCHER_ACCOUNT, RESEARCHER_ACCOUNT] }
+  );
+
+  expect(result.accessPointConfig).toEqual({
+    accountIds: [RESEARCHER_ACCOUNT],
+  });
+
+  await expect(
+    releasesService.setAccessPointConfig(allowedPiUser, testReleaseId, {
+      accountIds: [RESEARCHER_ACCOUNT],
+    })
+  ).rejects.toThrow("Not authorised to set access point accounts");
+
+  // account ids are always 12 digits
+  await expect(
+    releasesService.setAccessPointConfig(allowedDataOwnerUser, testReleaseId, {
+      accountIds: ["1234"],
+    })
+  ).rejects.toThrow("Validation Error");
+});
+
+it("access points cannot be installed until accounts are set", async () => {
+  await expect(
+    accessPointInstallJobKind.startJob(allowedDataOwnerUser, testReleaseId)
+  ).rejects.toThrow("Access point accounts not set");
+});
+
+it("access point jobs can only be started by the data owner", async () => {
+  await expect(
+    accessPointInstallJobKind.startJob(allowedPiUser, testReleaseId)
+  ).rejects.toThrow("Not authorised to control jobs for this release");
+});
+
+it("access points are installed for the accounts of the release", async () => {
+  await installAccessPoints();
+
+  const accessPointTemplates = Array.from(s3.objects.entries())
+    .filter(([k]) => !k.endsWith("/install.template"))
+    .map(([k, body]) => {
+      expect(
+        k.startsWith(`s3://${TEST_ACCESS_POINT_SETTINGS.templateBucket}/`)
+      ).toBe(true);
+      return JSON.parse(body.toString());
+    });
+
+  expect(accessPointTemplates.length).toBeGreaterThan(0);
+
+  for (const t of accessPointTemplates) {
+    const properties = t.Resources.S3AccessPoint.Properties;
+    const statement = properties.Policy.Statement[0];
+
+    expect(statement.Principal.AWS).toEqual([
+      `arn:aws:iam::${RESEARCHER_ACCOUNT}:root`,
+    ]);
+    expect(properties.VpcConfiguration).toEqual({ VpcId: "vpc-0123abcd" });
+
+    for (const r of statement.Resource)
+      expect(
+        r.startsWith(
+          `arn:aws:s3:${TEST_ACCESS_POINT_SETTINGS.dataRegion}:${TEST_ACCESS_POINT_SETTINGS.dataAccountId}:accesspoint/`
+        )
+      ).toBe(true);
+  }
+});
+
+it("the access point manifest addresses files via their access points", async () => {
+  await expect(
+    awsAccessPointService.getAccessPointManifest(allowedPiUser, testReleaseId)
+  ).rejects.toThrow("Access points not installed");
+
+  await installAccessPoints();
+
+  const files = await awsAccessPointService.getAccessPointManifest(
+    allowedPiUser,
+    testReleaseId
+  );
+
+  expect(files.length).toBeGreaterThan(0);
+
+  for (const f of files) {
+    expect(f.s3Bucket).toMatch(/^[0-9a-f]+-alias$/);
+    expect(f.s3Url).toBe(`s3://${f.s3Bucket}/${f.s3Key}`);
+  }
+});
+
+it("access point status follows the stack of the release", async () => {
+  const before = await awsAccessPointService.getAccessPointStatus(
+    allowedPiUser,
+    testReleaseId
+  );
+
+  expect(before.state).toBe("not-installed");
+  expect(before.buckets).toHaveLength(0);
+
+  await installAccessPoints();
+
+  const after = await awsAccessPointService.getAccessPointStatus(
+    allowedPiUser,
+    testReleaseId
+  );
+
+  expect(after.state).toBe("complete");
+  expect(after.stackStatus).toBe("CREATE_COMPLETE");
+  expect(after.buckets.length).toBeGreaterThan(0);
+  expect(after.buckets).toHaveLength(after.outputs.length);
+
+  for (const b of after.buckets) {
+    expect(b.alias).toBe(
+      `${Buffer.from(b.bucket, "ascii").toString("hex")}-alias`
+    );
+  }
+});
+
+it("access points can be updated and deleted by jobs", async () => {
+  // there is nothing to update or delete until the access points are installed
+  await expect(
+    accessPointInstallJobKind.startJob(
+      allowedDataOwnerUser,
+      testReleaseId,
+      "update"
+    )
+  ).rejects.toThrow("Access points in wrong state");
+  await expect(
+    accessPointInstallJobKind.startJob(
+      allowedDataOwnerUser,
+      testReleaseId,
+      "delete"
+    )
+  ).rejects.toThrow("Access points in wrong state");
+
+  await installAccessPoints();
+
+  // and once installed they cannot be installed again
+  await expect(
+    accessPointInstallJobKind.startJob(allowedDataOwnerUser, testReleaseId)
+  ).rejects.toThrow("Access points in wrong state");
+
+  await accessPointInstallJobKind.startJob(
+    allowedDataOwnerUser,
+    testReleaseId,
+    "update"
+  );
+  await runJobs();
+
+  const updated = await awsAccessPointService.getAccessPointStatus(
+    allowedPiUser,
+    testReleaseId
+  );
+
+  expect(updated.state).toBe("complete");
+  expect(updated.stackStatus).toBe("UPDATE_COMPLETE");
+
+  await accessPointInstallJobKind.startJob(
+    allowedDataOwnerUser,
+    testReleaseId,
+    "delete"
+  );
+  await runJobs();
+
+  expect(
+    (
+      await awsAccessPointService.getAccessPointStatus(
+        allowedPiUser,
+        testReleaseId
+      )
+    ).state
+  ).toBe("not-installed");
+
+  await expect(
+    awsAccessPointService.getAccessPointManifest(allowedPiUser, testReleaseId)
+  ).rejects.toThrow("Access points not installed");
+});
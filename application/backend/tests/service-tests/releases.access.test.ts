@@ -0,0 +1,136 @@
+import { Client } from "edgedb";
+import e from "../../dbschema/edgeql-js";
+import { AuthenticatedUser } from "../../src/business/authenticated-user";
+import { beforeEachCommon } from "./releases.common";
+import { registerTypes } from "./setup";
+import { ReleasesService } from "../../src/business/services/releases-service";
+import { ManifestJobKind } from "../../src/business/services/jobs/manifest-job-kind";
+
+const testContainer = registerTypes();
+
+const edgeDbClient = testContainer.resolve<Client>("Database");
+const releasesService = testContainer.resolve(ReleasesService);
+const manifestJobKind = testContainer.resolve(ManifestJobKind);
+
+let testReleaseId: string;
+
+let allowedDataOwnerUser: AuthenticatedUser;
+let allowedPiUser: AuthenticatedUser;
+
+const ONE_HOUR = 60 * 60 * 1000;
+
+beforeEach(async () => {
+  testContainer.clearInstances();
+
+  ({ testReleaseId, allowedDataOwnerUser, allowedPiUser } =
+    await beforeEachCommon());
+});
+
+/**
+ * Count the audit events recorded against the test release.
+ */
+async function countReleaseAuditEvents(): Promise<number> {
+  return await e
+    .count(
+      e.select(e.audit.AuditEvent, (ae) => ({
+        filter: e.op(ae.forRelease.id, "=", e.uuid(testReleaseId)),
+      }))
+    )
+    .run(edgeDbClient);
+}
+
+it("access is not enabled until a window is set", async () => {
+  const release = await releasesService.get(allowedPiUser, testReleaseId);
+
+  expect(release!.accessEnabled).toBe(false);
+
+  await expect(
+    manifestJobKind.getLatestManifest(allowedPiUser, testReleaseId)
+  ).rejects.toThrow("Release access not enabled");
+});
+
+it("access window enables access and is audited", async () => {
+  const start = new Date(Date.now() - ONE_HOUR);
+  const end = new Date(Date.now() + ONE_HOUR);
+
+  const release = await releasesService.setMasterAccess(
+    allowedDataOwnerUser,
+    testReleaseId,
+    { start: start.toISOString(), end: end.toISOString() }
+  );
+
+  expect(release.accessEnabled).toBe(true);
+  expect(new Date(release.accessStartDate!).getTime()).toBe(start.getTime());
+  expect(new Date(release.accessEndDate!).getTime()).toBe(end.getTime());
+
+  expect(await countReleaseAuditEvents()).toBe(1);
+
+  // data access is now allowed (even if there is nothing built to access yet)
+  expect(
+    await manifestJobKind.getLatestManifest(allowedPiUser, testReleaseId)
+  ).toBeNull();
+});
+
+it("access window in the future does not enable access", async () => {
+  const release = await releasesService.setMasterAccess(
+    allowedDataOwnerUser,
+    testReleaseId,
+    {
+      start: new Date(Date.now() + ONE_HOUR).toISOString(),
+      end: new Date(Date.now() + 2 * ONE_HOUR).toISOString(),
+    }
+  );
+
+  expect(release.accessEnabled).toBe(false);
+});
+
+it("stop all access immediately disables access", async () => {
+  await releasesService.setMasterAccess(allowedDataOwnerUser, testReleaseId, {
+    start: new Date(Date.now() - ONE_HOUR).toISOString(),
+    end: new Date(Date.now() + ONE_HOUR).toISOString(),
+  });
+
+  const release = await releasesService.stopMasterAccess(
+    allowedDataOwnerUser,
+    testReleaseId
+  );
+
+  expect(release.accessEnabled).toBe(false);
+  expect(await countReleaseAuditEvents()).toBe(2);
+
+  await expect(
+    manifestJobKind.getLatestManifest(allowedPiUser, testReleaseId)
+  ).rejects.toThrow("Release access not enabled");
+});
+
+it("access window must end after it starts", async () => {
+  await expect(
+    releasesService.setMasterAccess(allowedDataOwnerUser, testReleaseId, {
+      start: new Date(Date.now() + ONE_HOUR).toISOString(),
+      end: new Date(Date.now() - ONE_HOUR).toISOString(),
+    })
+  ).rejects.toThrow("Invalid access window");
+});
+
+it("access can only be controlled by data owners", async () => {
+  await expect(
+    releasesService.setMasterAccess(allowedPiUser, testReleaseId, {
+      start: new Date(Date.now() - ONE_HOUR).toISOString(),
+      end: new Date(Date.now() + ONE_HOUR).toISOString(),
+    })
+  ).rejects.toThrow();
+
+  await expect(
+    releasesService.stopMasterAccess(allowedPiUser, testReleaseId)
+  ).rejects.toThrow();
+});
+
+it("retrieving the release password is audited", async () => {
+  const password = await releasesService.getPassword(
+    allowedPiUser,
+    testReleaseId
+  );
+
+  expect(password).toBe("A");
+  expect(await countReleaseAuditEvents()).toBe(1);
+});
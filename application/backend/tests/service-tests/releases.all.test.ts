@@ -0,0 +1,159 @@
+import { Client } from "edgedb";
+import e from "../../dbschema/edgeql-js";
+import { AuthenticatedUser } from "../../src/business/authenticated-user";
+import { beforeEachCommon } from "./releases.common";
+import { registerTypes } from "./setup";
+import { ReleasesService } from "../../src/business/services/releases-service";
+import { TENG_URI } from "../../src/test-data/insert-test-data-10g";
+
+const testContainer = registerTypes();
+
+const edgeDbClient = testContainer.resolve<Client>("Database");
+const releasesService = testContainer.resolve(ReleasesService);
+
+let testReleaseId: string;
+
+let allowedDataOwnerUser: AuthenticatedUser;
+let allowedPiUser: AuthenticatedUser;
+let notAllowedUser: AuthenticatedUser;
+
+const ONE_HOUR = 60 * 60 * 1000;
+
+jest.setTimeout(60000);
+
+beforeEach(async () => {
+  testContainer.clearInstances();
+
+  ({ testReleaseId, allowedDataOwnerUser, allowedPiUser, notAllowedUser } =
+    await beforeEachCommon());
+
+  // allow the data owner to create more releases
+  await e
+    .update(e.permission.User, (u) => ({
+      filter: e.op(u.id, "=", e.uuid(allowedDataOwnerUser.dbId)),
+      set: {
+        datasetOwner: e.select(e.dataset.Dataset, (ds) => ({
+          filter: e.op(ds.uri, "=", TENG_URI),
+        })),
+      },
+    }))
+    .run(edgeDbClient);
+});
+
+async function createRelease(identifier: string, title: string) {
+  return await releasesService.create(allowedDataOwnerUser, {
+    applicationDacIdentifier: identifier,
+    applicationDacTitle: title,
+    datasetUris: [TENG_URI],
+    applicationCodedStudyType: "HMB",
+    applicationCodedStudyAgreesToPublish: false,
+    applicationCodedStudyIsNotCommercial: false,
+    participants: [],
+  });
+}
+
+it("all releases show the role of the user", async () => {
+  const ownerReleases = await releasesService.getAll(
+    allowedDataOwnerUser,
+    1000,
+    0
+  );
+
+  expect(ownerReleases.total).toBe(1);
+  expect(ownerReleases.data[0].roleInRelease).toBe("DataOwner");
+
+  const piReleases = await releasesService.getAll(allowedPiUser, 1000, 0);
+
+  expect(piReleases.data[0].roleInRelease).toBe("PI");
+
+  const notAllowedReleases = await releasesService.getAll(
+    notAllowedUser,
+    1000,
+    0
+  );
+
+  expect(notAllowedReleases.total).toBe(0);
+  expect(notAllowedReleases.data).toHaveLength(0);
+});
+
+it("all releases are paged", async () => {
+  for (let i = 0; i < 4; i++) await createRelease(`P${i}`, `Paged ${i}`);
+
+  const page1 = await releasesService.getAll(allowedDataOwnerUser, 2, 0);
+  const page3 = await releasesService.getAll(allowedDataOwnerUser, 2, 4);
+
+  expect(page1.total).toBe(5);
+  expect(page1.data).toHaveLength(2);
+  expect(page3.data).toHaveLength(1);
+
+  // the PI was not added to any of the new releases
+  expect((await releasesService.getAll(allowedPiUser, 2, 0)).total).toBe(1);
+});
+
+it("all releases can be searched by identifier or title", async () => {
+  await createRelease("ABC/1", "A Study of Hearts");
+  await createRelease("DEF/2", "A Study of Lungs");
+
+  const byIdentifier = await releasesService.getAll(
+    allowedDataOwnerUser,
+    1000,
+    0,
+    "abc"
+  );
+
+  expect(byIdentifier.data).toHaveLength(1);
+  expect(byIdentifier.data[0].applicationDacIdentifier).toBe("ABC/1");
+
+  const byTitle = await releasesService.getAll(
+    allowedDataOwnerUser,
+    1000,
+    0,
+    "study of"
+  );
+
+  expect(byTitle.data).toHaveLength(2);
+
+  // like patterns are not interpreted
+  const byPattern = await releasesService.getAll(
+    allowedDataOwnerUser,
+    1000,
+    0,
+    "%"
+  );
+
+  expect(byPattern.data).toHaveLength(0);
+});
+
+it("all releases can be filtered by access state", async () => {
+  const ended = await createRelease("ENDED", "An Ended Release");
+
+  await releasesService.setMasterAccess(allowedDataOwnerUser, testReleaseId, {
+    start: new Date(Date.now() - ONE_HOUR).toISOString(),
+    end: new Date(Date.now() + ONE_HOUR).toISOString(),
+  });
+
+  await releasesService.setMasterAccess(allowedDataOwnerUser, ended.id, {
+    start: new Date(Date.now() - 2 * ONE_HOUR).toISOString(),
+    end: new Date(Date.now() - ONE_HOUR).toISOString(),
+  });
+
+  await createRelease("PENDING", "A Pending Release");
+
+  for (const [state, identifier] of [
+    ["active", "XYZ"],
+    ["ended", "ENDED"],
+    ["pending", "PENDING"],
+  ] as const) {
+    const result = await releasesService.getAll(
+      allowedDataOwnerUser,
+      1000,
+      0,
+      undefined,
+      state
+    );
+
+    expect(result.data).toHaveLength(1);
+    expect(result.data[0].applicationDacIdentifier).toBe(identifier);
+    expect(result.data[0].accessState).toBe(state);
+  }
+});
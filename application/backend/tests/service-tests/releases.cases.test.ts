@@ -2,6 +2,7 @@ import { AuthenticatedUser } from "../../src/business/authenticated-user";
 import assert from "assert";
 import {
   findCase,
+  findDatabaseCaseIds,
   findDatabaseSpecimenIds,
   findPatient,
   findPatientExpected,
@@ -26,6 +27,8 @@ import {
   MARGE_SPECIMEN,
   SIMPSONS_CASE,
 } from "../../src/test-data/insert-test-data-10f";
+import { insert10C } from "../../src/test-data/insert-test-data-10c";
+import { ApiRequestValidationError } from "../../src/api/errors/api-request-validation-error";
 
 const testContainer = registerTypes();
 
@@ -276,22 +279,145 @@ it("node status changes as leaves are selected and unselected", async () => {
 it("pass in specimen ids that are not valid", async () => {
   await expect(async () => {
     await releasesService.setSelected(
-      allowedPiUser,
+      allowedDataOwnerUser,
       testReleaseId,
       // whilst this looks vaguely like a edgedb id it will never match
       ["aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa"]
     );
   }).rejects.toThrow(Error);
 
-  // TODO: a slightly more difficult one where we pass in a valid specimen id - but the
+  // a slightly more difficult one where we pass in a valid specimen id - but the
   // specimen id belongs to a dataset not in our release
-  //await expect(async () => {
-  //  await releasesService.setSelected(
-  //      allowedPiUser,
-  //      testReleaseId,
-  //       []
-  //  );
-  // }).rejects.toThrow(Error);
+  await insert10C();
+
+  const otherDatasetSpecimenIds = await findDatabaseSpecimenIds(edgeDbClient, [
+    "N123115",
+  ]);
+
+  expect(otherDatasetSpecimenIds).toHaveLength(1);
+
+  await expect(async () => {
+    await releasesService.setSelected(
+      allowedDataOwnerUser,
+      testReleaseId,
+      otherDatasetSpecimenIds
+    );
+  }).rejects.toThrow(Error);
+});
+
+it("select and unselect cases and patients", async () => {
+  const initialResult = await releasesService.getCases(
+    allowedDataOwnerUser,
+    testReleaseId,
+    DEFAULT_LIMIT,
+    DEFAULT_OFFSET
+  );
+
+  assert(initialResult != null);
+
+  const simpsonsCase = findCase(initialResult.data, SIMPSONS_CASE);
+
+  assert(simpsonsCase != null);
+
+  // selecting a case selects every specimen in the case
+  await releasesService.setSelected(allowedDataOwnerUser, testReleaseId, [
+    simpsonsCase.id,
+  ]);
+
+  {
+    const afterSetResult = await releasesService.getCases(
+      allowedDataOwnerUser,
+      testReleaseId,
+      DEFAULT_LIMIT,
+      DEFAULT_OFFSET
+    );
+
+    assert(afterSetResult != null);
+
+    expect(findCase(afterSetResult.data, SIMPSONS_CASE)?.nodeStatus).toBe(
+      "selected"
+    );
+    expect(findSpecimen(afterSetResult.data, MARGE_SPECIMEN)?.nodeStatus).toBe(
+      "selected"
+    );
+  }
+
+  // unselecting a patient unselects only the specimens of that patient
+  await releasesService.setUnselected(allowedDataOwnerUser, testReleaseId, [
+    findPatientExpected(initialResult.data, HOMER_PATIENT_PGP).id,
+  ]);
+
+  {
+    const afterUnsetResult = await releasesService.getCases(
+      allowedDataOwnerUser,
+      testReleaseId,
+      DEFAULT_LIMIT,
+      DEFAULT_OFFSET
+    );
+
+    assert(afterUnsetResult != null);
+
+    expect(findCase(afterUnsetResult.data, SIMPSONS_CASE)?.nodeStatus).toBe(
+      "indeterminate"
+    );
+    expect(
+      findSpecimen(afterUnsetResult.data, HOMER_SPECIMEN)?.nodeStatus
+    ).toBe("unselected");
+    expect(
+      findSpecimen(afterUnsetResult.data, MARGE_SPECIMEN)?.nodeStatus
+    ).toBe("selected");
+  }
+});
+
+it("only data owners can change the selection", async () => {
+  const initialResult = await releasesService.getCases(
+    allowedDataOwnerUser,
+    testReleaseId,
+    DEFAULT_LIMIT,
+    DEFAULT_OFFSET
+  );
+
+  assert(initialResult != null);
+
+  const simpsonsCase = findCase(initialResult.data, SIMPSONS_CASE);
+
+  assert(simpsonsCase != null);
+
+  await expect(
+    releasesService.setSelected(allowedPiUser, testReleaseId, [simpsonsCase.id])
+  ).rejects.toThrow("Not authorised to edit selections");
+
+  await expect(
+    releasesService.setUnselected(allowedPiUser, testReleaseId, [
+      simpsonsCase.id,
+    ])
+  ).rejects.toThrow("Not authorised to edit selections");
+});
+
+it("pass in node ids that are not strings", async () => {
+  await expect(
+    releasesService.setSelected(allowedDataOwnerUser, testReleaseId, [
+      1234,
+    ] as any)
+  ).rejects.toThrow(ApiRequestValidationError);
+});
+
+it("pass in case ids that are not from the release", async () => {
+  await insert10C();
+
+  const otherDatasetCaseIds = await findDatabaseCaseIds(edgeDbClient, [
+    "AG6583",
+  ]);
+
+  expect(otherDatasetCaseIds).toHaveLength(1);
+
+  await expect(
+    releasesService.setUnselected(
+      allowedDataOwnerUser,
+      testReleaseId,
+      otherDatasetCaseIds
+    )
+  ).rejects.toThrow("Nodes not in release");
 });
 
 it("test paging", async () => {
@@ -51,17 +51,16 @@ export async function beforeEachCommon() {
       datasetUris: e.array([TENG_URI, TENF_URI]),
       // we set up the test data so that in no circumstances should SINGLETONMARIA->MARIA->HG00174 specimens ever
       // be allowed to be selected
-      //TO BE IMPLEMENTED
-      // manualExclusions: e.select(e.dataset.DatasetCase, (dss) => ({
-      //  filter: e.op(
-      //   e.set(makeSystemlessIdentifier("SINGLETONMARIA")),
-      //    "in",
-      //    e.array_unpack(dss.externalIdentifiers)
-      //  ),
-      //  "@who": e.str("PA"),
-      //  "@recorded": e.str("June"),
-      //  "@reason": e.str("Because"),
-      //})),
+      manualExclusions: e.select(e.dataset.DatasetCase, (dss) => ({
+        filter: e.op(
+          e.set(makeSystemlessIdentifier("SINGLETONMARIA")),
+          "in",
+          e.array_unpack(dss.externalIdentifiers)
+        ),
+        "@who": e.str("PA"),
+        "@recorded": e.datetime(new Date()),
+        "@reason": e.str("Because"),
+      })),
       releasePassword: "A", // pragma: allowlist secret
       // we pre-select a bunch of specimens across 10g and 10f
       selectedSpecimens: e.set(
@@ -0,0 +1,84 @@
+import { AuthenticatedUser } from "../../src/business/authenticated-user";
+import { findDatabasePatientIds, findDatabaseSpecimenIds } from "./utils";
+import { beforeEachCommon } from "./releases.common";
+import { registerTypes } from "./setup";
+import { ReleasesService } from "../../src/business/services/releases-service";
+import { Client } from "edgedb";
+
+const testContainer = registerTypes();
+
+const edgeDbClient = testContainer.resolve<Client>("Database");
+const releasesService = testContainer.resolve(ReleasesService);
+
+let testReleaseId: string;
+
+let allowedDataOwnerUser: AuthenticatedUser;
+
+beforeEach(async () => {
+  testContainer.clearInstances();
+
+  ({ testReleaseId, allowedDataOwnerUser } = await beforeEachCommon());
+});
+
+it("get consent for a specimen including inherited patient consent", async () => {
+  const specimenIds = await findDatabaseSpecimenIds(edgeDbClient, ["HG00097"]);
+
+  expect(specimenIds).toHaveLength(1);
+
+  const consent = await releasesService.getNodeConsent(
+    allowedDataOwnerUser,
+    testReleaseId,
+    specimenIds[0]
+  );
+
+  // MARY is HMB at the patient level and DS at the specimen level
+  expect(consent).toHaveLength(2);
+
+  expect(consent[0].level).toBe("patient");
+  expect(consent[0].statement).toHaveProperty("code", "DUO:0000006");
+
+  expect(consent[1].level).toBe("specimen");
+  expect(consent[1].nodeId).toBe(specimenIds[0]);
+  expect(consent[1].statement).toHaveProperty("code", "DUO:0000007");
+});
+
+it("get consent for a patient", async () => {
+  const patientIds = await findDatabasePatientIds(edgeDbClient, ["CHARLES"]);
+
+  expect(patientIds).toHaveLength(1);
+
+  const consent = await releasesService.getNodeConsent(
+    allowedDataOwnerUser,
+    testReleaseId,
+    patientIds[0]
+  );
+
+  expect(consent).toHaveLength(1);
+  expect(consent[0].level).toBe("patient");
+  expect(consent[0].statement).toEqual({
+    code: "DUO:0000006",
+    modifiers: [{ code: "DUO:0000045" }],
+  });
+});
+
+it("get consent for a node with no consent", async () => {
+  const specimenIds = await findDatabaseSpecimenIds(edgeDbClient, ["HG00099"]);
+
+  const consent = await releasesService.getNodeConsent(
+    allowedDataOwnerUser,
+    testReleaseId,
+    specimenIds[0]
+  );
+
+  expect(consent).toHaveLength(0);
+});
+
+it("get consent for a node that does not exist", async () => {
+  await expect(
+    releasesService.getNodeConsent(
+      allowedDataOwnerUser,
+      testReleaseId,
+      "8f7a1b6e-0000-11ed-8b0e-3f8e2b5a7b00"
+    )
+  ).rejects.toThrow();
+});
@@ -0,0 +1,161 @@
+import { Client } from "edgedb";
+import e from "../../dbschema/edgeql-js";
+import { AuthenticatedUser } from "../../src/business/authenticated-user";
+import { beforeEachCommon } from "./releases.common";
+import { registerTypes } from "./setup";
+import { ReleasesService } from "../../src/business/services/releases-service";
+import { UsersService } from "../../src/business/services/users-service";
+import { DatasetService } from "../../src/business/services/dataset-service";
+import { TENG_URI } from "../../src/test-data/insert-test-data-10g";
+import { TENF_URI } from "../../src/test-data/insert-test-data-10f";
+
+const testContainer = registerTypes();
+
+const edgeDbClient = testContainer.resolve<Client>("Database");
+const releasesService = testContainer.resolve(ReleasesService);
+const usersService = testContainer.resolve(UsersService);
+const datasetService = testContainer.resolve(DatasetService);
+
+let allowedDataOwnerUser: AuthenticatedUser;
+let allowedPiUser: AuthenticatedUser;
+
+// the coding of the study that every release must be created with
+const STUDY_CODING = {
+  applicationCodedStudyType: "HMB" as const,
+  applicationCodedStudyAgreesToPublish: false,
+  applicationCodedStudyIsNotCommercial: false,
+};
+
+jest.setTimeout(60000);
+
+beforeEach(async () => {
+  testContainer.clearInstances();
+
+  ({ allowedDataOwnerUser, allowedPiUser } = await beforeEachCommon());
+
+  // the data owner of the test release owns only one of its datasets
+  await e
+    .update(e.permission.User, (u) => ({
+      filter: e.op(u.id, "=", e.uuid(allowedDataOwnerUser.dbId)),
+      set: {
+        datasetOwner: e.select(e.dataset.Dataset, (ds) => ({
+          filter: e.op(ds.uri, "=", TENG_URI),
+        })),
+      },
+    }))
+    .run(edgeDbClient);
+});
+
+it("owned datasets can be listed", async () => {
+  const owned = await datasetService.getOwned(allowedDataOwnerUser);
+
+  expect(owned).toHaveLength(1);
+  expect(owned[0].uri).toBe(TENG_URI);
+
+  expect(await datasetService.getOwned(allowedPiUser)).toHaveLength(0);
+});
+
+it("data owners can create a release of their datasets", async () => {
+  const created = await releasesService.create(allowedDataOwnerUser, {
+    applicationDacIdentifier: "ABC",
+    applicationDacTitle: "A New Study",
+    applicationDacDetails: "Some details",
+    datasetUris: [TENG_URI],
+    applicationCodedStudyType: "DS",
+    applicationCodedStudyAgreesToPublish: true,
+    applicationCodedStudyIsNotCommercial: false,
+    participants: [{ subjectId: allowedPiUser.subjectId, role: "PI" }],
+  });
+
+  expect(created.applicationDacIdentifier).toBe("ABC");
+  expect(created.applicationDacTitle).toBe("A New Study");
+  expect(created.datasetUris).toStrictEqual([TENG_URI]);
+  expect(created.applicationCoded.type).toBe("DS");
+
+  const coded = await e
+    .select(e.release.Release, (r) => ({
+      applicationCoded: {
+        studyAgreesToPublish: true,
+        studyIsNotCommercial: true,
+      },
+      filter: e.op(r.id, "=", e.uuid(created.id)),
+    }))
+    .assert_single()
+    .run(edgeDbClient);
+
+  expect(coded?.applicationCoded).toEqual({
+    studyAgreesToPublish: true,
+    studyIsNotCommercial: false,
+  });
+  expect(created.accessEnabled).toBe(false);
+
+  expect(
+    await usersService.roleInRelease(allowedDataOwnerUser, created.id)
+  ).toBe("DataOwner");
+  expect(await usersService.roleInRelease(allowedPiUser, created.id)).toBe(
+    "PI"
+  );
+
+  const password = await releasesService.getPassword(
+    allowedDataOwnerUser,
+    created.id
+  );
+
+  expect(password!.length).toBeGreaterThanOrEqual(16);
+});
+
+it("releases cannot be created of datasets not owned", async () => {
+  await expect(
+    releasesService.create(allowedDataOwnerUser, {
+      applicationDacIdentifier: "ABC",
+      applicationDacTitle: "A New Study",
+      datasetUris: [TENG_URI, TENF_URI],
+      ...STUDY_CODING,
+      participants: [],
+    })
+  ).rejects.toThrow("Not authorised to release datasets");
+
+  await expect(
+    releasesService.create(allowedPiUser, {
+      applicationDacIdentifier: "ABC",
+      applicationDacTitle: "A New Study",
+      datasetUris: [TENG_URI],
+      ...STUDY_CODING,
+      participants: [],
+    })
+  ).rejects.toThrow("Not authorised to release datasets");
+});
+
+it("releases cannot be created with unknown participants", async () => {
+  await expect(
+    releasesService.create(allowedDataOwnerUser, {
+      applicationDacIdentifier: "ABC",
+      applicationDacTitle: "A New Study",
+      datasetUris: [TENG_URI],
+      ...STUDY_CODING,
+      participants: [{ subjectId: "http://nobody.org", role: "Member" }],
+    })
+  ).rejects.toThrow("Invalid participants");
+});
+
+it("releases must have an identifier, title and datasets", async () => {
+  await expect(
+    releasesService.create(allowedDataOwnerUser, {
+      applicationDacIdentifier: "  ",
+      applicationDacTitle: "A New Study",
+      datasetUris: [TENG_URI],
+      ...STUDY_CODING,
+      participants: [],
+    })
+  ).rejects.toThrow();
+
+  await expect(
+    releasesService.create(allowedDataOwnerUser, {
+      applicationDacIdentifier: "ABC",
+      applicationDacTitle: "A New Study",
+      datasetUris: [],
+      ...STUDY_CODING,
+      participants: [],
+    })
+  ).rejects.toThrow();
+});
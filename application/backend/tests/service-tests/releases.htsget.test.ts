@@ -0,0 +1,266 @@
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { pathToFileURL } from "url";
+import { Client } from "edgedb";
+import e from "../../dbschema/edgeql-js";
+import { AuthenticatedUser } from "../../src/business/authenticated-user";
+import { beforeEachCommon } from "./releases.common";
+import { registerTypes } from "./setup";
+import { ReleasesService } from "../../src/business/services/releases-service";
+import { HtsgetService } from "../../src/business/services/htsget-service";
+import {
+  HtsgetFileStore,
+  LocalHtsgetFileStore,
+} from "../../src/business/services/htsget-file-store";
+import {
+  BinningFixture,
+  buildBamFixture,
+} from "../integration-tests/htsget-fixtures";
+import {
+  findSpecimenQuery,
+  makeDictionaryIdentifierArray,
+} from "../../src/test-data/test-data-helpers";
+
+const testContainer = registerTypes();
+
+let fileStoreRoot: string;
+
+testContainer.register<HtsgetFileStore>("HtsgetFileStore", {
+  useFactory: () => new LocalHtsgetFileStore(fileStoreRoot),
+});
+
+const edgeDbClient = testContainer.resolve<Client>("Database");
+const releasesService = testContainer.resolve(ReleasesService);
+
+let htsgetService: HtsgetService;
+
+let testReleaseId: string;
+
+let allowedDataOwnerUser: AuthenticatedUser;
+let allowedPiUser: AuthenticatedUser;
+let notAllowedUser: AuthenticatedUser;
+
+let bam: BinningFixture;
+let bamPath: string;
+
+const ONE_HOUR = 60 * 60 * 1000;
+
+beforeAll(async () => {
+  fileStoreRoot = await mkdtemp(join(tmpdir(), "htsget-"));
+
+  // the fixture BAM stands in for the BAM of HG00096 (a selected specimen of the release)
+  bam = buildBamFixture();
+  bamPath = join(fileStoreRoot, "umccr-10g-data-dev", "HG00096", "HG00096.bam");
+
+  await mkdir(join(fileStoreRoot, "umccr-10g-data-dev", "HG00096"), {
+    recursive: true,
+  });
+  await writeFile(bamPath, bam.file);
+  await writeFile(`${bamPath}.bai`, bam.index);
+
+  htsgetService = testContainer.resolve(HtsgetService);
+});
+
+afterAll(async () => {
+  await rm(fileStoreRoot, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  testContainer.clearInstances();
+
+  ({ testReleaseId, allowedDataOwnerUser, allowedPiUser, notAllowedUser } =
+    await beforeEachCommon());
+
+  await releasesService.setMasterAccess(allowedDataOwnerUser, testReleaseId, {
+    start: new Date(Date.now() - ONE_HOUR).toISOString(),
+    end: new Date(Date.now() + ONE_HOUR).toISOString(),
+  });
+});
+
+it("htsget ticket for a whole file", async () => {
+  const ticket = await htsgetService.getTicket(
+    allowedPiUser,
+    testReleaseId,
+    "reads",
+    "HG00096",
+    {}
+  );
+
+  expect(ticket.htsget.format).toBe("BAM");
+  expect(ticket.htsget.urls).toStrictEqual([
+    { url: pathToFileURL(bamPath).href },
+  ]);
+  expect(ticket.htsget.md5).toBe("63f2b3c6b87c66d114f1e9bae8c35091");
+});
+
+it("htsget ticket for a region", async () => {
+  const ticket = await htsgetService.getTicket(
+    allowedPiUser,
+    testReleaseId,
+    "reads",
+    "HG00096",
+    { referenceName: "chr1", start: "0", end: "100" }
+  );
+
+  const b = bam.blockOffsets;
+  const url = pathToFileURL(bamPath).href;
+
+  expect(ticket.htsget.urls).toStrictEqual([
+    { url, headers: { Range: `bytes=0-${b[0] - 1}` }, class: "header" },
+    { url, headers: { Range: `bytes=${b[0]}-${b[1] - 1}` }, class: "body" },
+    {
+      url: expect.stringMatching(/^data:;base64,/),
+      class: "body",
+    },
+  ]);
+});
+
+it("htsget ticket for just the header", async () => {
+  const ticket = await htsgetService.getTicket(
+    allowedPiUser,
+    testReleaseId,
+    "reads",
+    "HG00096",
+    { class: "header" }
+  );
+
+  expect(ticket.htsget.urls).toHaveLength(1);
+  expect(ticket.htsget.urls[0].class).toBe("header");
+});
+
+it("htsget is denied outside the access window", async () => {
+  await releasesService.setMasterAccess(allowedDataOwnerUser, testReleaseId, {
+    start: new Date(Date.now() + ONE_HOUR).toISOString(),
+    end: new Date(Date.now() + 2 * ONE_HOUR).toISOString(),
+  });
+
+  await expect(
+    htsgetService.getTicket(
+      allowedPiUser,
+      testReleaseId,
+      "reads",
+      "HG00096",
+      {}
+    )
+  ).rejects.toMatchObject({
+    code: "PermissionDenied",
+    detail: expect.stringContaining("is not currently enabled"),
+  });
+});
+
+it("htsget is denied to users not in the release", async () => {
+  await expect(
+    htsgetService.getTicket(
+      notAllowedUser,
+      testReleaseId,
+      "reads",
+      "HG00096",
+      {}
+    )
+  ).rejects.toMatchObject({
+    code: "PermissionDenied",
+    detail: expect.stringContaining("Not a participant"),
+  });
+});
+
+it("htsget is denied for file types the release does not allow", async () => {
+  const release = await releasesService.setAllowedFileTypes(
+    allowedDataOwnerUser,
+    testReleaseId,
+    { fileTypes: ["VCF"] }
+  );
+
+  expect(release.allowedFileTypes).toStrictEqual(["VCF"]);
+
+  await expect(
+    htsgetService.getTicket(
+      allowedPiUser,
+      testReleaseId,
+      "reads",
+      "HG00096",
+      {}
+    )
+  ).rejects.toMatchObject({
+    code: "PermissionDenied",
+    detail: expect.stringContaining("Files of type BAM cannot be accessed"),
+  });
+});
+
+it("allowed file types can only be set by the data owner", async () => {
+  await expect(
+    releasesService.setAllowedFileTypes(allowedPiUser, testReleaseId, {
+      fileTypes: ["VCF"],
+    })
+  ).rejects.toThrow("Not authorised to set allowed file types");
+});
+
+it("htsget ticket for a specimen requested by its second identifier", async () => {
+  await e
+    .update(findSpecimenQuery("HG00096"), () => ({
+      set: {
+        externalIdentifiers: makeDictionaryIdentifierArray({
+          "": "HG00096",
+          "https://example.org/biobank": "BIOBANK96",
+        }),
+      },
+    }))
+    .run(edgeDbClient);
+
+  const ticket = await htsgetService.getTicket(
+    allowedPiUser,
+    testReleaseId,
+    "reads",
+    "BIOBANK96",
+    {}
+  );
+
+  expect(ticket.htsget.urls).toStrictEqual([
+    { url: pathToFileURL(bamPath).href },
+  ]);
+});
+
+it("htsget does not find specimens that are not selected", async () => {
+  await expect(
+    htsgetService.getTicket(
+      allowedPiUser,
+      testReleaseId,
+      "reads",
+      "HG00097",
+      {}
+    )
+  ).rejects.toMatchObject({
+    code: "NotFound",
+    detail: expect.stringContaining("There is no BAM file of specimen HG00097"),
+  });
+});
+
+it("htsget rejects formats of the wrong datatype", async () => {
+  await expect(
+    htsgetService.getTicket(
+      allowedPiUser,
+      testReleaseId,
+      "variants",
+      "HG00096",
+      { format: "CRAM" }
+    )
+  ).rejects.toMatchObject({
+    code: "UnsupportedFormat",
+    detail: expect.stringContaining(
+      "The format CRAM is not available for variants"
+    ),
+  });
+});
+
+it("htsget rejects a start after the end", async () => {
+  await expect(
+    htsgetService.getTicket(allowedPiUser, testReleaseId, "reads", "HG00096", {
+      referenceName: "chr1",
+      start: "200",
+      end: "100",
+    })
+  ).rejects.toMatchObject({
+    code: "InvalidRange",
+    detail: expect.stringContaining("The start 200 is after the end 100"),
+  });
+});
@@ -0,0 +1,139 @@
+import { AuthenticatedUser } from "../../src/business/authenticated-user";
+import { beforeEachCommon } from "./releases.common";
+import { registerTypes } from "./setup";
+import { ReleaseParticipationService } from "../../src/business/services/release-participation-service";
+import { UsersService } from "../../src/business/services/users-service";
+
+const testContainer = registerTypes();
+
+const releaseParticipationService = testContainer.resolve(
+  ReleaseParticipationService
+);
+const usersService = testContainer.resolve(UsersService);
+
+let testReleaseId: string;
+
+let allowedDataOwnerUser: AuthenticatedUser;
+let allowedPiUser: AuthenticatedUser;
+let notAllowedUser: AuthenticatedUser;
+
+jest.setTimeout(60000);
+
+beforeEach(async () => {
+  testContainer.clearInstances();
+
+  ({ testReleaseId, allowedDataOwnerUser, allowedPiUser, notAllowedUser } =
+    await beforeEachCommon());
+});
+
+it("participants of a release can be listed", async () => {
+  const participants = await releaseParticipationService.getParticipants(
+    allowedPiUser,
+    testReleaseId
+  );
+
+  expect(participants).toHaveLength(2);
+  expect(
+    participants.find((p) => p.subjectId === allowedDataOwnerUser.subjectId)!
+      .role
+  ).toBe("DataOwner");
+  expect(
+    participants.find((p) => p.subjectId === allowedPiUser.subjectId)!.role
+  ).toBe("PI");
+
+  await expect(
+    releaseParticipationService.getParticipants(notAllowedUser, testReleaseId)
+  ).rejects.toThrow();
+});
+
+it("participants can be added by subject id or email", async () => {
+  await usersService.updateEmail(notAllowedUser.subjectId, "bob@example.com");
+
+  const participants = await releaseParticipationService.addParticipant(
+    allowedDataOwnerUser,
+    testReleaseId,
+    { subjectIdOrEmail: "bob@example.com", role: "Member" }
+  );
+
+  expect(participants).toHaveLength(3);
+  expect(await usersService.roleInRelease(notAllowedUser, testReleaseId)).toBe(
+    "Member"
+  );
+
+  // adding the same user again is an error
+  await expect(
+    releaseParticipationService.addParticipant(
+      allowedDataOwnerUser,
+      testReleaseId,
+      { subjectIdOrEmail: notAllowedUser.subjectId, role: "PI" }
+    )
+  ).rejects.toThrow("Already a participant");
+
+  await expect(
+    releaseParticipationService.addParticipant(
+      allowedDataOwnerUser,
+      testReleaseId,
+      { subjectIdOrEmail: "nobody@example.com", role: "PI" }
+    )
+  ).rejects.toThrow("Unknown user");
+});
+
+it("participants can have their role changed and be removed", async () => {
+  await releaseParticipationService.changeParticipantRole(
+    allowedDataOwnerUser,
+    testReleaseId,
+    allowedPiUser.dbId,
+    "Member"
+  );
+
+  expect(await usersService.roleInRelease(allowedPiUser, testReleaseId)).toBe(
+    "Member"
+  );
+
+  const participants = await releaseParticipationService.removeParticipant(
+    allowedDataOwnerUser,
+    testReleaseId,
+    allowedPiUser.dbId
+  );
+
+  expect(participants).toHaveLength(1);
+  expect(
+    await usersService.roleInRelease(allowedPiUser, testReleaseId)
+  ).toBeNull();
+});
+
+it("the last data owner cannot be removed or demoted", async () => {
+  await expect(
+    releaseParticipationService.removeParticipant(
+      allowedDataOwnerUser,
+      testReleaseId,
+      allowedDataOwnerUser.dbId
+    )
+  ).rejects.toThrow("Last data owner");
+
+  await expect(
+    releaseParticipationService.changeParticipantRole(
+      allowedDataOwnerUser,
+      testReleaseId,
+      allowedDataOwnerUser.dbId,
+      "PI"
+    )
+  ).rejects.toThrow("Last data owner");
+});
+
+it("participants can only be changed by data owners", async () => {
+  await expect(
+    releaseParticipationService.addParticipant(allowedPiUser, testReleaseId, {
+      subjectIdOrEmail: notAllowedUser.subjectId,
+      role: "Member",
+    })
+  ).rejects.toThrow();
+
+  await expect(
+    releaseParticipationService.removeParticipant(
+      allowedPiUser,
+      testReleaseId,
+      allowedDataOwnerUser.dbId
+    )
+  ).rejects.toThrow();
+});
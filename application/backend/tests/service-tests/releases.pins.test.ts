@@ -0,0 +1,306 @@
+import { Client } from "edgedb";
+import { AuthenticatedUser } from "../../src/business/authenticated-user";
+import {
+  findCase,
+  findDatabaseCaseIds,
+  findDatabasePatientIds,
+  findSpecimen,
+} from "./utils";
+import { beforeEachCommon } from "./releases.common";
+import { registerTypes } from "./setup";
+import { ReleasesService } from "../../src/business/services/releases-service";
+import { JobsService } from "../../src/business/services/jobs-service";
+import { insert10C } from "../../src/test-data/insert-test-data-10c";
+
+const testContainer = registerTypes();
+
+const edgeDbClient = testContainer.resolve<Client>("Database");
+const releasesService = testContainer.resolve(ReleasesService);
+const jobsService = testContainer.resolve(JobsService);
+
+let testReleaseId: string;
+
+let allowedDataOwnerUser: AuthenticatedUser;
+let allowedPiUser: AuthenticatedUser;
+
+const DEFAULT_ROUGH_SECONDS = 10;
+
+jest.setTimeout(60000);
+
+beforeEach(async () => {
+  testContainer.clearInstances();
+
+  ({ testReleaseId, allowedDataOwnerUser, allowedPiUser } =
+    await beforeEachCommon());
+});
+
+/**
+ * Run a select job to completion and return the cases of the release (as the data owner
+ * sees them).
+ */
+async function runSelectJob() {
+  await jobsService.startSelectJob(allowedDataOwnerUser, testReleaseId);
+
+  const jobs = await jobsService.getInProgressSelectJobs();
+
+  while (
+    (await jobsService.doSelectJobWork(jobs[0].jobId, DEFAULT_ROUGH_SECONDS)) >
+    0
+  );
+
+  await jobsService.endSelectJob(jobs[0].jobId, true, false);
+
+  const result = await releasesService.getCases(
+    allowedDataOwnerUser,
+    testReleaseId,
+    1000,
+    0
+  );
+
+  return result!.data;
+}
+
+it("manual pins of the release can be listed", async () => {
+  const pins = await releasesService.getManualPins(
+    allowedDataOwnerUser,
+    testReleaseId
+  );
+
+  // the common setup excludes SINGLETONMARIA
+  expect(pins).toHaveLength(1);
+  expect(pins[0].nodeLevel).toBe("case");
+  expect(pins[0].externalId).toBe("SINGLETONMARIA");
+  expect(pins[0].pin).toBe("exclude");
+  expect(pins[0].reason).toBe("Because");
+});
+
+it("manual pins are shown to data owners in the cases", async () => {
+  const ownerCases = await releasesService.getCases(
+    allowedDataOwnerUser,
+    testReleaseId,
+    1000,
+    0
+  );
+
+  const maria = findCase(ownerCases!.data, "SINGLETONMARIA");
+
+  expect(maria).not.toBeNull();
+  expect(maria!.manualPin).toBeDefined();
+  expect(maria!.manualPin!.pin).toBe("exclude");
+  expect(maria!.manualPin!.reason).toBe("Because");
+
+  // the PI never sees the pins
+  await expect(
+    releasesService.getManualPins(allowedPiUser, testReleaseId)
+  ).rejects.toThrow();
+});
+
+it("select job never selects a manually excluded case", async () => {
+  const cases = await runSelectJob();
+
+  const hg00174 = findSpecimen(cases, "HG00174");
+
+  expect(hg00174).not.toBeNull();
+  expect(hg00174!.nodeStatus).toBe("unselected");
+});
+
+it("manual inclusion overrides consent in the select job", async () => {
+  // MARY has disease specific consent that does not match the application
+  const beforeCases = await runSelectJob();
+
+  expect(findSpecimen(beforeCases, "HG00097")!.nodeStatus).toBe("unselected");
+
+  const caseIds = await findDatabaseCaseIds(edgeDbClient, ["SINGLETONMARY"]);
+
+  await releasesService.setManualPin(
+    allowedDataOwnerUser,
+    testReleaseId,
+    caseIds[0],
+    { pin: "include", reason: "Agreed with the DAC" }
+  );
+
+  const afterCases = await runSelectJob();
+
+  const hg00097 = findSpecimen(afterCases, "HG00097");
+
+  expect(hg00097!.nodeStatus).toBe("selected");
+
+  const decision = await releasesService.getSpecimenDecision(
+    allowedDataOwnerUser,
+    testReleaseId,
+    hg00097!.id
+  );
+
+  expect(decision!.selected).toBe(true);
+  expect(decision!.manualPinReason).toBe("Agreed with the DAC");
+});
+
+it("manual exclusion wins over manual inclusion", async () => {
+  const caseIds = await findDatabaseCaseIds(edgeDbClient, ["SINGLETONCHARLES"]);
+  const patientIds = await findDatabasePatientIds(edgeDbClient, ["CHARLES"]);
+
+  await releasesService.setManualPin(
+    allowedDataOwnerUser,
+    testReleaseId,
+    caseIds[0],
+    { pin: "include", reason: "Include the family" }
+  );
+
+  await releasesService.setManualPin(
+    allowedDataOwnerUser,
+    testReleaseId,
+    patientIds[0],
+    { pin: "exclude", reason: "Withdrew" }
+  );
+
+  const cases = await runSelectJob();
+
+  expect(findSpecimen(cases, "HG00096")!.nodeStatus).toBe("unselected");
+});
+
+it("manual pins can be replaced and removed", async () => {
+  const caseIds = await findDatabaseCaseIds(edgeDbClient, ["SINGLETONMARIA"]);
+
+  const replaced = await releasesService.setManualPin(
+    allowedDataOwnerUser,
+    testReleaseId,
+    caseIds[0],
+    { pin: "include", reason: "Changed our mind" }
+  );
+
+  // a node is only ever pinned one way
+  expect(replaced).toHaveLength(1);
+  expect(replaced[0].pin).toBe("include");
+  expect(replaced[0].who).toBe(allowedDataOwnerUser.subjectId);
+
+  const removed = await releasesService.removeManualPin(
+    allowedDataOwnerUser,
+    testReleaseId,
+    caseIds[0]
+  );
+
+  expect(removed).toHaveLength(0);
+});
+
+it("manual pins must have a reason", async () => {
+  const caseIds = await findDatabaseCaseIds(edgeDbClient, ["SINGLETONMARY"]);
+
+  await expect(
+    releasesService.setManualPin(
+      allowedDataOwnerUser,
+      testReleaseId,
+      caseIds[0],
+      { pin: "include", reason: "" }
+    )
+  ).rejects.toThrow();
+
+  await expect(
+    releasesService.setManualPin(
+      allowedDataOwnerUser,
+      testReleaseId,
+      caseIds[0],
+      { pin: "include", reason: "   " }
+    )
+  ).rejects.toThrow();
+});
+
+it("manual pins can only be placed by data owners", async () => {
+  const caseIds = await findDatabaseCaseIds(edgeDbClient, ["SINGLETONMARY"]);
+
+  await expect(
+    releasesService.setManualPin(allowedPiUser, testReleaseId, caseIds[0], {
+      pin: "include",
+      reason: "Because",
+    })
+  ).rejects.toThrow();
+});
+
+it("manual pins can only be placed on nodes of the release", async () => {
+  // 10C is not one of the datasets of the release
+  await insert10C();
+
+  const caseIds = await findDatabaseCaseIds(edgeDbClient, ["AG6583"]);
+
+  expect(caseIds).toHaveLength(1);
+
+  await expect(
+    releasesService.setManualPin(
+      allowedDataOwnerUser,
+      testReleaseId,
+      caseIds[0],
+      { pin: "exclude", reason: "Because" }
+    )
+  ).rejects.toThrow("Node not in release");
+
+  await expect(
+    releasesService.setManualPin(
+      allowedDataOwnerUser,
+      testReleaseId,
+      "8f7a1b6e-0000-11ed-8b0e-3f8e2b5a7b00",
+      { pin: "exclude", reason: "Because" }
+    )
+  ).rejects.toThrow("Node not found");
+});
+
+it("pins made after a dry run are applied when its preview is accepted", async () => {
+  await jobsService.startSelectJob(allowedDataOwnerUser, testReleaseId, true);
+
+  const jobs = await jobsService.getInProgressSelectJobs();
+
+  while (
+    (await jobsService.doSelectJobWork(jobs[0].jobId, DEFAULT_ROUGH_SECONDS)) >
+    0
+  );
+
+  await jobsService.endSelectJob(jobs[0].jobId, true, false);
+
+  // CHARLES is selected by consent and MARY is not - the pins reverse both
+  const charlesCaseIds = await findDatabaseCaseIds(edgeDbClient, [
+    "SINGLETONCHARLES",
+  ]);
+  const maryCaseIds = await findDatabaseCaseIds(edgeDbClient, [
+    "SINGLETONMARY",
+  ]);
+
+  await releasesService.setManualPin(
+    allowedDataOwnerUser,
+    testReleaseId,
+    charlesCaseIds[0],
+    { pin: "exclude", reason: "Withdrew" }
+  );
+
+  await releasesService.setManualPin(
+    allowedDataOwnerUser,
+    testReleaseId,
+    maryCaseIds[0],
+    { pin: "include", reason: "Agreed with the DAC" }
+  );
+
+  const preview = await jobsService.getSelectJobPreview(
+    allowedDataOwnerUser,
+    testReleaseId,
+    jobs[0].jobId
+  );
+
+  for (const sp of [...preview.added, ...preview.removed]) {
+    if (sp.externalId === "HG00096") expect(sp.pinned).toBe("exclude");
+    if (sp.externalId === "HG00097") expect(sp.pinned).toBe("include");
+  }
+
+  await jobsService.acceptSelectJobPreview(
+    allowedDataOwnerUser,
+    testReleaseId,
+    jobs[0].jobId,
+    {}
+  );
+
+  const result = await releasesService.getCases(
+    allowedDataOwnerUser,
+    testReleaseId,
+    1000,
+    0
+  );
+
+  expect(findSpecimen(result!.data, "HG00096")!.nodeStatus).toBe("unselected");
+  expect(findSpecimen(result!.data, "HG00097")!.nodeStatus).toBe("selected");
+});
@@ -0,0 +1,168 @@
+import { Client } from "edgedb";
+import e from "../../dbschema/edgeql-js";
+import { AuthenticatedUser } from "../../src/business/authenticated-user";
+import { beforeEachCommon } from "./releases.common";
+import { registerTypes } from "./setup";
+import { registerAwsStandIns } from "./aws.common";
+import { ReleasesService } from "../../src/business/services/releases-service";
+import { ReleaseRevocationService } from "../../src/business/services/release-revocation-service";
+import { AwsAccessPointService } from "../../src/business/services/aws-access-point-service";
+import { ManifestJobKind } from "../../src/business/services/jobs/manifest-job-kind";
+import { AccessPointInstallJobKind } from "../../src/business/services/jobs/access-point-install-job-kind";
+import { JobDispatcher } from "../../src/business/services/jobs/job-dispatcher";
+import { registerJobKinds } from "../../src/business/services/jobs/job-kinds";
+
+const testContainer = registerTypes();
+
+const { cfn } = registerAwsStandIns(testContainer);
+
+registerJobKinds(testContainer);
+
+const edgeDbClient = testContainer.resolve<Client>("Database");
+const releasesService = testContainer.resolve(ReleasesService);
+const releaseRevocationService = testContainer.resolve(
+  ReleaseRevocationService
+);
+const awsAccessPointService = testContainer.resolve(AwsAccessPointService);
+const manifestJobKind = testContainer.resolve(ManifestJobKind);
+const accessPointInstallJobKind = testContainer.resolve(
+  AccessPointInstallJobKind
+);
+const jobDispatcher = testContainer.resolve(JobDispatcher);
+
+let testReleaseId: string;
+
+let allowedDataOwnerUser: AuthenticatedUser;
+let allowedPiUser: AuthenticatedUser;
+
+const ONE_HOUR = 60 * 60 * 1000;
+
+jest.setTimeout(60000);
+
+beforeEach(async () => {
+  ({ testReleaseId, allowedDataOwnerUser, allowedPiUser } =
+    await beforeEachCommon());
+
+  await releasesService.setMasterAccess(allowedDataOwnerUser, testReleaseId, {
+    start: new Date(Date.now() - ONE_HOUR).toISOString(),
+    end: new Date(Date.now() + ONE_HOUR).toISOString(),
+  });
+});
+
+it("revocation deletes the access point stack", async () => {
+  await awsAccessPointService.createAccessPointStack(
+    testReleaseId,
+    [],
+    ["000000000000"]
+  );
+
+  const stackName = AwsAccessPointService.getReleaseStackName(testReleaseId);
+
+  expect(cfn.stacks.has(stackName)).toBe(true);
+
+  await releaseRevocationService.revokeAccess(
+    allowedDataOwnerUser,
+    testReleaseId
+  );
+
+  expect(cfn.stacks.has(stackName)).toBe(false);
+});
+
+it("revocation waits for a pending access point install job to be cancelled", async () => {
+  await releasesService.setAccessPointConfig(
+    allowedDataOwnerUser,
+    testReleaseId,
+    { accountIds: ["222222222222"] }
+  );
+
+  await accessPointInstallJobKind.startJob(allowedDataOwnerUser, testReleaseId);
+
+  await expect(
+    releaseRevocationService.revokeAccess(allowedDataOwnerUser, testReleaseId)
+  ).rejects.toThrow("Access point job in progress");
+
+  // the install job is cancelled rather than going on to create the stack
+  while (
+    (await jobDispatcher.dispatch({ roughlyMaxSeconds: 10, batchSize: 20 })) > 0
+  );
+
+  const stackName = AwsAccessPointService.getReleaseStackName(testReleaseId);
+
+  expect(cfn.stacks.has(stackName)).toBe(false);
+
+  // and with the job ended, access can be revoked
+  await releaseRevocationService.revokeAccess(
+    allowedDataOwnerUser,
+    testReleaseId
+  );
+
+  expect(cfn.stacks.has(stackName)).toBe(false);
+});
+
+it("revocation rotates the release password", async () => {
+  const before = await releasesService.getPassword(
+    allowedDataOwnerUser,
+    testReleaseId
+  );
+
+  await releaseRevocationService.revokeAccess(
+    allowedDataOwnerUser,
+    testReleaseId
+  );
+
+  const after = await releasesService.getPassword(
+    allowedDataOwnerUser,
+    testReleaseId
+  );
+
+  expect(after).not.toBe(before);
+  expect(after!.length).toBeGreaterThanOrEqual(16);
+});
+
+it("revocation invalidates issued manifests", async () => {
+  await manifestJobKind.startJob(allowedDataOwnerUser, testReleaseId);
+
+  while (
+    (await jobDispatcher.dispatch({ roughlyMaxSeconds: 10, batchSize: 20 })) > 0
+  );
+
+  expect(
+    await manifestJobKind.getLatestManifest(allowedPiUser, testReleaseId)
+  ).not.toBeNull();
+
+  await releaseRevocationService.revokeAccess(
+    allowedDataOwnerUser,
+    testReleaseId
+  );
+
+  expect(
+    await manifestJobKind.getLatestManifest(allowedPiUser, testReleaseId)
+  ).toBeNull();
+});
+
+it("revocation is audited", async () => {
+  await releaseRevocationService.revokeAccess(
+    allowedDataOwnerUser,
+    testReleaseId
+  );
+
+  const events = await e
+    .select(e.audit.AuditEvent, (ae) => ({
+      what: true,
+      action: true,
+      filter: e.op(ae.forRelease.id, "=", e.uuid(testReleaseId)),
+      order_by: ae.recordedDateTime,
+    }))
+    .run(edgeDbClient);
+
+  // the first event is the setting of the access window
+  expect(events).toHaveLength(2);
+  expect(events[1].action).toBe("D");
+  expect(events[1].what).toContain("Revoked all access");
+});
+
+it("revocation can only be done by data owners", async () => {
+  await expect(
+    releaseRevocationService.revokeAccess(allowedPiUser, testReleaseId)
+  ).rejects.toThrow();
+});
@@ -1,7 +1,13 @@
 import { container } from "tsyringe";
 import { S3Client } from "@aws-sdk/client-s3";
 import { CloudFormationClient } from "@aws-sdk/client-cloudformation";
+import { STSClient } from "@aws-sdk/client-sts";
 import * as edgedb from "edgedb";
+import { ElsaAwsAccessPointSettings } from "../../src/bootstrap-settings";
+import {
+  HtsgetFileStore,
+  S3HtsgetFileStore,
+} from "../../src/business/services/htsget-file-store";
 
 export function registerTypes() {
   // TO USE CHILD CONTAINERS WE'D NEED TO TEACH FASTIFY TO DO THE SAME..
@@ -19,6 +25,25 @@ export function registerTypes() {
     useFactory: () => new CloudFormationClient({}),
   });
 
+  testContainer.register<STSClient>("STSClient", {
+    useFactory: () => new STSClient({}),
+  });
+
+  testContainer.register<HtsgetFileStore>("HtsgetFileStore", {
+    useClass: S3HtsgetFileStore,
+  });
+
+  testContainer.register<ElsaAwsAccessPointSettings | null>(
+    "AwsAccessPointSettings",
+    {
+      useValue: null,
+    }
+  );
+
+  testContainer.register<string[]>("ConsentSourceHosts", {
+    useValue: [],
+  });
+
   /*testContainer.beforeResolution(
     "Database",
     // Callback signature is (token: InjectionToken<T>, resolutionType: ResolutionType) => void
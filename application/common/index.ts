@@ -7,19 +7,42 @@ import {
   ReleaseRemsSyncRequestSchema,
 } from "./schemas";
 import {
+  DuoCatalogueEntrySchema,
   DuoLimitationCodedSchema,
   DuoLimitationSchema,
   DuoModifierSchema,
 } from "./schemas-duo";
 import { TestingRequestSchema } from "./schemas-testing";
 import {
+  ReleaseAccessStateSchema,
   ReleaseApplicationCodedSchema,
+  ReleaseAwsAccessPointConfigSchema,
+  ReleaseAwsAccessPointStateSchema,
+  ReleaseAwsAccessPointStatusSchema,
   ReleaseCaseSchema,
+  ReleaseFileTypeSchema,
+  ReleaseConsentStatementSchema,
+  ReleaseJobMessageLevelSchema,
+  ReleaseJobMessageSchema,
+  ReleaseJobSelectionComparisonSchema,
+  ReleaseJobStatusSchema,
+  ReleaseJobSummarySchema,
+  ReleaseManifestFormatSchema,
   ReleaseNodeStatusSchema,
   ReleasePatientSchema,
   ReleaseDetailSchema,
   ReleaseSpecimenSchema,
+  ReleaseSpecimenDecisionSchema,
   ReleaseSummarySchema,
+  ReleaseSelectionPreviewSpecimenSchema,
+  ReleaseSelectionPreviewDatasetSchema,
+  ReleaseSelectionPreviewSchema,
+  ReleaseSelectionPreviewAcceptSchema,
+  ReleaseManualPinKindSchema,
+  ReleaseNodePinSchema,
+  ReleaseManualPinSchema,
+  ReleaseParticipantRoleSchema,
+  ReleaseParticipantSchema,
 } from "./schemas-releases";
 
 export * from "./schemas";
@@ -27,6 +50,7 @@ export * from "./schemas-dataset";
 export * from "./schemas-duo";
 export * from "./schemas-coding";
 export * from "./schemas-testing";
+export * from "./schemas-htsget";
 
 export type ReleaseSummaryType = Static<typeof ReleaseSummarySchema>;
 export type ReleaseDetailType = Static<typeof ReleaseDetailSchema>;
@@ -39,6 +63,8 @@ export type DuoLimitationType = Static<typeof DuoLimitationSchema>;
 
 export type DuoModifierType = Static<typeof DuoModifierSchema>;
 
+export type DuoCatalogueEntryType = Static<typeof DuoCatalogueEntrySchema>;
+
 export type ReleaseApplicationCodedType = Static<
   typeof ReleaseApplicationCodedSchema
 >;
@@ -61,3 +87,53 @@ export type ReleaseNodeStatusType = Static<typeof ReleaseNodeStatusSchema>;
 export type ReleaseSpecimenType = Static<typeof ReleaseSpecimenSchema>;
 export type ReleasePatientType = Static<typeof ReleasePatientSchema>;
 export type ReleaseCaseType = Static<typeof ReleaseCaseSchema>;
+export type ReleaseSpecimenDecisionType = Static<
+  typeof ReleaseSpecimenDecisionSchema
+>;
+export type ReleaseConsentStatementType = Static<
+  typeof ReleaseConsentStatementSchema
+>;
+export type ReleaseJobMessageLevelType = Static<
+  typeof ReleaseJobMessageLevelSchema
+>;
+export type ReleaseJobMessageType = Static<typeof ReleaseJobMessageSchema>;
+export type ReleaseJobStatusType = Static<typeof ReleaseJobStatusSchema>;
+export type ReleaseJobSummaryType = Static<typeof ReleaseJobSummarySchema>;
+export type ReleaseJobSelectionComparisonType = Static<
+  typeof ReleaseJobSelectionComparisonSchema
+>;
+export type ReleaseSelectionPreviewSpecimenType = Static<
+  typeof ReleaseSelectionPreviewSpecimenSchema
+>;
+export type ReleaseSelectionPreviewDatasetType = Static<
+  typeof ReleaseSelectionPreviewDatasetSchema
+>;
+export type ReleaseSelectionPreviewType = Static<
+  typeof ReleaseSelectionPreviewSchema
+>;
+export type ReleaseSelectionPreviewAcceptType = Static<
+  typeof ReleaseSelectionPreviewAcceptSchema
+>;
+export type ReleaseManualPinKindType = Static<
+  typeof ReleaseManualPinKindSchema
+>;
+export type ReleaseNodePinType = Static<typeof ReleaseNodePinSchema>;
+export type ReleaseManualPinType = Static<typeof ReleaseManualPinSchema>;
+export type ReleaseParticipantRoleType = Static<
+  typeof ReleaseParticipantRoleSchema
+>;
+export type ReleaseParticipantType = Static<typeof ReleaseParticipantSchema>;
+export type ReleaseAccessStateType = Static<typeof ReleaseAccessStateSchema>;
+export type ReleaseFileTypeType = Static<typeof ReleaseFileTypeSchema>;
+export type ReleaseAwsAccessPointConfigType = Static<
+  typeof ReleaseAwsAccessPointConfigSchema
+>;
+export type ReleaseAwsAccessPointStateType = Static<
+  typeof ReleaseAwsAccessPointStateSchema
+>;
+export type ReleaseAwsAccessPointStatusType = Static<
+  typeof ReleaseAwsAccessPointStatusSchema
+>;
+export type ReleaseManifestFormatType = Static<
+  typeof ReleaseManifestFormatSchema
+>;
@@ -1,6 +1,11 @@
 import { Static, TLiteral, TSchema, TUnion, Type } from "@sinclair/typebox";
 import { CodingSchema } from "./schemas-coding";
-import { TypeDate } from "./schemas-releases";
+import {
+  ReleaseJobMessageSchema,
+  ReleaseJobStatusSchema,
+  TypeDate,
+} from "./schemas-releases";
+import { DuoLimitationSchema } from "./schemas-duo";
 
 /**
  * We use typebox to provide us with JSON schema compatible definitions
@@ -41,6 +46,13 @@ export const DatasetSchemaLight = Type.Object({
   summaryArtifactSizeBytes: Type.Number(),
 });
 
+// the minimal details of a dataset owned by the user (i.e. one they can create releases of)
+export const DatasetOwnedSchema = Type.Object({
+  id: Type.String(),
+  uri: Type.String(),
+  description: Type.String(),
+});
+
 export const DatasetSchemaNesting = Type.Object({
   cases: Type.Array(DatasetCaseSchema),
 });
@@ -50,5 +62,141 @@ export const DatasetSchemaDeep = Type.Intersect([
   DatasetSchemaNesting,
 ]);
 
+// a consent statement directly attached to a node of a dataset - with the id allowing
+// the statement to be edited
+export const DatasetConsentStatementSchema = Type.Object({
+  id: Type.String(),
+  statement: DuoLimitationSchema,
+});
+
+// a node of a dataset whose consent narrows or conflicts with the consent of one of its ancestors
+export const DatasetConsentConflictSchema = Type.Object({
+  nodeId: Type.String(),
+  nodeLevel: Type.String(),
+  // the external identifiers of the node collapsed into a single string
+  nodeExternalId: Type.String(),
+  ancestorNodeId: Type.String(),
+  ancestorLevel: Type.String(),
+  kind: Type.Union([Type.Literal("narrows"), Type.Literal("conflicts")]),
+  statement: DuoLimitationSchema,
+  ancestorStatement: DuoLimitationSchema,
+  reason: Type.String(),
+});
+
+export const DatasetConsentReportSchema = Type.Object({
+  datasetId: Type.String(),
+  // the number of times each DUO code (limitation or modifier) is used anywhere in the dataset
+  codeCounts: Type.Array(
+    Type.Object({
+      code: Type.String(),
+      shorthand: Type.Optional(Type.String()),
+      count: Type.Integer(),
+    })
+  ),
+  conflicts: Type.Array(DatasetConsentConflictSchema),
+});
+
+// the description of cases to be imported into a dataset by a background import job
+
+export const DatasetImportIdentifierSchema = Type.Object({
+  // the system of the identifier or the empty string to indicate no system
+  system: Type.String(),
+  value: Type.String(),
+});
+
+export const DatasetImportFileSchema = Type.Object({
+  url: Type.String(),
+  size: Type.Integer(),
+  checksums: Type.Array(
+    Type.Object({
+      type: Type.Union([
+        Type.Literal("MD5"),
+        Type.Literal("AWS_ETAG"),
+        Type.Literal("SHA_1"),
+        Type.Literal("SHA_256"),
+      ]),
+      value: Type.String(),
+    })
+  ),
+});
+
+export const DatasetImportArtifactSchema = Type.Union([
+  Type.Object({
+    type: Type.Union([
+      Type.Literal("BAM"),
+      Type.Literal("CRAM"),
+      Type.Literal("VCF"),
+    ]),
+    file: DatasetImportFileSchema,
+    indexFile: DatasetImportFileSchema,
+  }),
+  Type.Object({
+    type: Type.Literal("FASTQ"),
+    forwardFile: DatasetImportFileSchema,
+    reverseFile: DatasetImportFileSchema,
+  }),
+]);
+
+export const DatasetImportCaseSchema = Type.Object({
+  externalIdentifiers: Type.Array(DatasetImportIdentifierSchema),
+  patients: Type.Array(
+    Type.Object({
+      externalIdentifiers: Type.Array(DatasetImportIdentifierSchema),
+      sexAtBirth: Type.Optional(
+        Type.Union([
+          Type.Literal("male"),
+          Type.Literal("female"),
+          Type.Literal("other"),
+        ])
+      ),
+      specimens: Type.Array(
+        Type.Object({
+          externalIdentifiers: Type.Array(DatasetImportIdentifierSchema),
+          artifacts: Type.Array(DatasetImportArtifactSchema),
+        })
+      ),
+    })
+  ),
+});
+
+export const DatasetImportRequestSchema = Type.Object({
+  cases: Type.Array(DatasetImportCaseSchema, { minItems: 1 }),
+});
+
+// the progress of a background import job of a dataset
+
+export const DatasetImportJobSchema = Type.Object({
+  id: Type.String(),
+  status: ReleaseJobStatusSchema,
+  percentDone: Type.Number(),
+  initialTodoCount: Type.Integer(),
+  importedCount: Type.Integer(),
+  requestedCancellation: Type.Boolean(),
+  created: TypeDate,
+  started: TypeDate,
+  ended: Type.Optional(TypeDate),
+  // the most recent messages logged by the job
+  messages: Type.Array(ReleaseJobMessageSchema),
+});
+
 export type DatasetLightType = Static<typeof DatasetSchemaLight>;
 export type DatasetDeepType = Static<typeof DatasetSchemaDeep>;
+export type DatasetOwnedType = Static<typeof DatasetOwnedSchema>;
+export type DatasetConsentStatementType = Static<
+  typeof DatasetConsentStatementSchema
+>;
+export type DatasetConsentConflictType = Static<
+  typeof DatasetConsentConflictSchema
+>;
+export type DatasetConsentReportType = Static<
+  typeof DatasetConsentReportSchema
+>;
+export type DatasetImportFileType = Static<typeof DatasetImportFileSchema>;
+export type DatasetImportArtifactType = Static<
+  typeof DatasetImportArtifactSchema
+>;
+export type DatasetImportCaseType = Static<typeof DatasetImportCaseSchema>;
+export type DatasetImportRequestType = Static<
+  typeof DatasetImportRequestSchema
+>;
+export type DatasetImportJobType = Static<typeof DatasetImportJobSchema>;
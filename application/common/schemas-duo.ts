@@ -1,4 +1,5 @@
-import { Type } from "@sinclair/typebox";
+import { Static, Type } from "@sinclair/typebox";
+import { CodingSchema } from "./schemas-coding";
 
 /**
  * We use typebox to provide us with JSON schema compatible definitions
@@ -14,22 +15,24 @@ import { Type } from "@sinclair/typebox";
  */
 
 type KnownModifierCodes =
+  | "DUO:0000012"
+  | "DUO:0000015"
+  | "DUO:0000016"
+  | "DUO:0000018"
   | "DUO:0000019"
   | "DUO:0000020"
-  | "DUO:0000046"
-  | "DUO:0000018"
-  | "DUO:0000045"
+  | "DUO:0000021"
+  | "DUO:0000022"
   | "DUO:0000024"
-  | "DUO:0000016"
   | "DUO:0000025"
-  | "DUO:0000029"
-  | "DUO:0000043"
-  | "DUO:0000015"
-  | "DUO:0000022"
   | "DUO:0000026"
-  | "DUO:0000006"
+  | "DUO:0000027"
   | "DUO:0000028"
-  | "DUO:0000027";
+  | "DUO:0000029"
+  | "DUO:0000043"
+  | "DUO:0000044"
+  | "DUO:0000045"
+  | "DUO:0000046";
 
 type KnownLimitationCodes =
   | "DUO:0000042"
@@ -40,80 +43,351 @@ type KnownLimitationCodes =
 
 type KnownCodes = KnownLimitationCodes | KnownModifierCodes;
 
+export const DuoCatalogueEntrySchema = Type.Object({
+  code: Type.String(),
+  // the short mnemonic used by GA4GH i.e. GRU
+  shorthand: Type.String(),
+  // the DUO term label
+  label: Type.String(),
+  // the DUO term definition
+  description: Type.String(),
+  // limitations (data use permissions) are the primary term of a consent statement,
+  // modifiers add extra conditions to a limitation
+  kind: Type.Union([Type.Literal("limitation"), Type.Literal("modifier")]),
+  // the codes of the terms this term is a more restrictive form of (i.e. DS is a parent of HMB)
+  parents: Type.Array(Type.String()),
+});
+
+/**
+ * The complete set of DUO limitations and modifiers that we understand - along with
+ * their relationships. This is the one place where knowledge about DUO terms is
+ * kept - both the evaluation of consent and the display of consent is driven from here.
+ *
+ * Descriptions are taken from the DUO ontology (http://purl.obolibrary.org/obo/duo.owl).
+ */
+export const DUO_CATALOGUE: (Static<typeof DuoCatalogueEntrySchema> & {
+  code: KnownCodes;
+})[] = [
+  {
+    code: "DUO:0000004",
+    shorthand: "NRES",
+    label: "no restriction",
+    description:
+      "This data use permission indicates there is no restriction on use.",
+    kind: "limitation",
+    parents: [],
+  },
+  {
+    code: "DUO:0000042",
+    shorthand: "GRU",
+    label: "general research use",
+    description:
+      "This data use permission indicates that use is allowed for general research use for any research purpose.",
+    kind: "limitation",
+    parents: [],
+  },
+  {
+    code: "DUO:0000006",
+    shorthand: "HMB",
+    label: "health or medical or biomedical research",
+    description:
+      "This data use permission indicates that use is allowed for health/medical/biomedical purposes; does not include the study of population origins or ancestry.",
+    kind: "limitation",
+    parents: ["DUO:0000042"],
+  },
+  {
+    code: "DUO:0000007",
+    shorthand: "DS",
+    label: "disease specific research",
+    description:
+      "This data use permission indicates that use is allowed provided it is related to the specified disease.",
+    kind: "limitation",
+    parents: ["DUO:0000006"],
+  },
+  {
+    code: "DUO:0000011",
+    shorthand: "POA",
+    label: "population origins or ancestry research only",
+    description:
+      "This data use permission indicates that use of the data is limited to the study of population origins or ancestry.",
+    kind: "limitation",
+    parents: ["DUO:0000042"],
+  },
+  {
+    code: "DUO:0000012",
+    shorthand: "RS",
+    label: "research specific restrictions",
+    description:
+      "This data use modifier indicates that use is limited to studies of a certain research type.",
+    kind: "modifier",
+    parents: [],
+  },
+  {
+    code: "DUO:0000015",
+    shorthand: "NMDS",
+    label: "no general methods research",
+    description:
+      "This data use modifier indicates that use does not allow methods development research (e.g., development of software or algorithms).",
+    kind: "modifier",
+    parents: [],
+  },
+  {
+    code: "DUO:0000016",
+    shorthand: "GSO",
+    label: "genetic studies only",
+    description:
+      "This data use modifier indicates that use is limited to genetic studies only (i.e., studies that include genotype research alone or both genotype and phenotype research, but not phenotype research exclusively).",
+    kind: "modifier",
+    parents: [],
+  },
+  {
+    code: "DUO:0000018",
+    shorthand: "NPUNCU",
+    label: "not for profit, non commercial use only",
+    description:
+      "This data use modifier indicates that use of the data is limited to not-for-profit organizations and not-for-profit use, non-commercial use.",
+    kind: "modifier",
+    parents: ["DUO:0000045", "DUO:0000046"],
+  },
+  {
+    code: "DUO:0000019",
+    shorthand: "PUB",
+    label: "publication required",
+    description:
+      "This data use modifier indicates that requestor agrees to make results of studies using the data available to the larger scientific community.",
+    kind: "modifier",
+    parents: [],
+  },
+  {
+    code: "DUO:0000020",
+    shorthand: "COL",
+    label: "collaboration required",
+    description:
+      "This data use modifier indicates that the requestor must agree to collaboration with the primary study investigator(s).",
+    kind: "modifier",
+    parents: [],
+  },
+  {
+    code: "DUO:0000021",
+    shorthand: "IRB",
+    label: "ethics approval required",
+    description:
+      "This data use modifier indicates that the requestor must provide documentation of local IRB/ERB approval.",
+    kind: "modifier",
+    parents: [],
+  },
+  {
+    code: "DUO:0000022",
+    shorthand: "GS",
+    label: "geographical restriction",
+    description:
+      "This data use modifier indicates that use is limited to within a specific geographic region.",
+    kind: "modifier",
+    parents: [],
+  },
+  {
+    code: "DUO:0000024",
+    shorthand: "MOR",
+    label: "publication moratorium",
+    description:
+      "This data use modifier indicates that requestor agrees not to publish results of studies until a specific date.",
+    kind: "modifier",
+    parents: [],
+  },
+  {
+    code: "DUO:0000025",
+    shorthand: "TS",
+    label: "time limit on use",
+    description:
+      "This data use modifier indicates that use is approved for a specific number of months.",
+    kind: "modifier",
+    parents: [],
+  },
+  {
+    code: "DUO:0000026",
+    shorthand: "US",
+    label: "user specific restriction",
+    description:
+      "This data use modifier indicates that use is limited to use by approved users.",
+    kind: "modifier",
+    parents: [],
+  },
+  {
+    code: "DUO:0000027",
+    shorthand: "PS",
+    label: "project specific restriction",
+    description:
+      "This data use modifier indicates that use is limited to use within an approved project.",
+    kind: "modifier",
+    parents: [],
+  },
+  {
+    code: "DUO:0000028",
+    shorthand: "IS",
+    label: "institution specific restriction",
+    description:
+      "This data use modifier indicates that use is limited to use within an approved institution.",
+    kind: "modifier",
+    parents: [],
+  },
+  {
+    code: "DUO:0000029",
+    shorthand: "RTN",
+    label: "return to database or resource",
+    description:
+      "This data use modifier indicates that the requestor must return derived/enriched data to the database/resource.",
+    kind: "modifier",
+    parents: [],
+  },
+  {
+    code: "DUO:0000043",
+    shorthand: "CC",
+    label: "clinical care use",
+    description:
+      "This data use modifier indicates that use is allowed for clinical use and care.",
+    kind: "modifier",
+    parents: [],
+  },
+  {
+    code: "DUO:0000044",
+    shorthand: "NPOA",
+    label: "population origins or ancestry research prohibited",
+    description:
+      "This data use modifier indicates use for purposes of population, origin, or ancestry research is prohibited.",
+    kind: "modifier",
+    parents: [],
+  },
+  {
+    code: "DUO:0000045",
+    shorthand: "NPU",
+    label: "not for profit organisation use only",
+    description:
+      "This data use modifier indicates that use of the data is limited to not-for-profit organizations.",
+    kind: "modifier",
+    parents: [],
+  },
+  {
+    code: "DUO:0000046",
+    shorthand: "NCU",
+    label: "non-commercial use only",
+    description:
+      "This data use modifier indicates that use of the data is limited to not-for-profit use.",
+    kind: "modifier",
+    parents: [],
+  },
+];
+
 /**
- * Return the short mnemonic string for any DUO code - or null if not a known DUO code.
+ * Return the catalogue entry for any DUO code - or undefined if not a known DUO code.
+ * @param code
+ */
+export function getDuoCatalogueEntry(
+  code: string
+): Static<typeof DuoCatalogueEntrySchema> | undefined {
+  return DUO_CATALOGUE.find((entry) => entry.code === code);
+}
+
+/**
+ * Return the short mnemonic string for any DUO code - or undefined if not a known DUO code.
  * @param code
  */
 export function getStringFromDuoCode(code: string): string | undefined {
-  switch (code as KnownCodes) {
-    case "DUO:0000019":
-      return "PUB";
-    case "DUO:0000020":
-      return "COL";
-    case "DUO:0000046":
-      return "NCU";
-    case "DUO:0000018":
-      return "NPUNCU";
-    case "DUO:0000045":
-      return "NPU";
-  }
+  return getDuoCatalogueEntry(code)?.shorthand;
+}
+
+/**
+ * Return true if the DUO code is the same as - or a more restrictive form of - the
+ * ancestor code (i.e. DS is subsumed by HMB which is subsumed by GRU).
+ *
+ * @param code
+ * @param ancestorCode
+ */
+export function isDuoCodeSubsumedBy(
+  code: string,
+  ancestorCode: string
+): boolean {
+  if (code === ancestorCode) return true;
+
+  return (getDuoCatalogueEntry(code)?.parents ?? []).some((p) =>
+    isDuoCodeSubsumedBy(p, ancestorCode)
+  );
+}
+
+/**
+ * Literal schemas of known DUO codes - whose static type is the exact code (rather than
+ * all the known codes) so that the union of DUO types can be narrowed on their code.
+ */
+function modifierCode<C extends KnownModifierCodes>(code: C) {
+  return Type.Literal(code);
+}
+
+function limitationCode<C extends KnownLimitationCodes>(code: C) {
+  return Type.Literal(code);
 }
 
 export const DuoModifierSchema = Type.Union(
   [
     Type.Object({
-      code: Type.Literal<KnownModifierCodes>("DUO:0000019"), // PUB
+      code: modifierCode("DUO:0000019"), // PUB
     }),
     Type.Object({
-      code: Type.Literal<KnownModifierCodes>("DUO:0000020"), // COL
+      code: modifierCode("DUO:0000020"), // COL
     }),
     Type.Object({
-      code: Type.Literal<KnownModifierCodes>("DUO:0000046"), // NCU
+      code: modifierCode("DUO:0000046"), // NCU
     }),
     Type.Object({
-      code: Type.Literal<KnownModifierCodes>("DUO:0000018"), // NPUNCU   NotForProfitNonCommercialUseOnlyCode
+      code: modifierCode("DUO:0000018"), // NPUNCU   NotForProfitNonCommercialUseOnlyCode
     }),
     Type.Object({
-      code: Type.Literal<KnownModifierCodes>("DUO:0000045"), // NPU  NotForProfitUseOnlyCode
+      code: modifierCode("DUO:0000045"), // NPU  NotForProfitUseOnlyCode
     }),
     Type.Object({
-      code: Type.Literal<KnownModifierCodes>("DUO:0000024"), // MOR  PublicationMoratoriumCode
+      code: modifierCode("DUO:0000024"), // MOR  PublicationMoratoriumCode
+      // the date until which the moratorium applies
+      date: Type.Optional(Type.RegEx(/^\d{4}-(0\d|1[0-2])-([0-2]\d|3[01])$/)),
     }),
     Type.Object({
-      code: Type.Literal<KnownModifierCodes>("DUO:0000016"), // GSO  GeneticStudiesOnlyCode
+      code: modifierCode("DUO:0000016"), // GSO  GeneticStudiesOnlyCode
     }),
     Type.Object({
-      code: Type.Literal<KnownModifierCodes>("DUO:0000025"), // TS
+      code: modifierCode("DUO:0000025"), // TS
       start: Type.Optional(Type.RegEx(/^\d{4}-(0\d|1[0-2])-([0-2]\d|3[01])$/)),
       end: Type.Optional(Type.RegEx(/^\d{4}-(0\d|1[0-2])-([0-2]\d|3[01])$/)),
     }),
     Type.Object({
-      code: Type.Literal<KnownModifierCodes>("DUO:0000029"), //  RTN  ReturnToDatabaseCode
+      code: modifierCode("DUO:0000029"), //  RTN  ReturnToDatabaseCode
     }),
     Type.Object({
-      code: Type.Literal<KnownModifierCodes>("DUO:0000043"), //  CC ClinicalCareUseCode
+      code: modifierCode("DUO:0000043"), //  CC ClinicalCareUseCode
     }),
     Type.Object({
-      code: Type.Literal<KnownModifierCodes>("DUO:0000015"), //  NMDS  NoGeneralMethodsCode
+      code: modifierCode("DUO:0000015"), //  NMDS  NoGeneralMethodsCode
     }),
     Type.Object({
-      code: Type.Literal<KnownModifierCodes>("DUO:0000022"), //  GS GeographicalRestrictionCode
+      code: modifierCode("DUO:0000022"), //  GS GeographicalRestrictionCode
       regions: Type.Array(Type.String()),
     }),
     Type.Object({
-      code: Type.Literal<KnownModifierCodes>("DUO:0000026"), //   US  SpecificUserCode
+      code: modifierCode("DUO:0000026"), //   US  SpecificUserCode
       users: Type.Array(Type.String()),
     }),
     Type.Object({
-      code: Type.Literal<KnownModifierCodes>("DUO:0000006"), //   RS  SpecificResearcherTypeCode
+      code: modifierCode("DUO:0000012"), //   RS  ResearchSpecificRestrictionsCode
       types: Type.Array(Type.String()),
     }),
     Type.Object({
-      code: Type.Literal<KnownModifierCodes>("DUO:0000028"), //  IS   SpecificInstitutionCode
+      code: modifierCode("DUO:0000021"), //  IRB  EthicsApprovalRequiredCode
+    }),
+    Type.Object({
+      code: modifierCode("DUO:0000044"), //  NPOA  PopulationOriginsAncestryProhibitedCode
+    }),
+    Type.Object({
+      code: modifierCode("DUO:0000028"), //  IS   SpecificInstitutionCode
       institutions: Type.Array(Type.String()),
     }),
     Type.Object({
-      code: Type.Literal<KnownModifierCodes>("DUO:0000027"), //  PS  SpecificProjectCode
+      code: modifierCode("DUO:0000027"), //  PS  SpecificProjectCode
       projects: Type.Array(Type.String()),
     }),
   ],
@@ -127,29 +401,29 @@ export const DuoModifierSchema = Type.Union(
 // export const ModifierArrayReference = Type.Array(Type.Ref(DuoModifierSchema));
 
 export const DuoGeneralResearchUseSchema = Type.Object({
-  code: Type.Literal<KnownLimitationCodes>("DUO:0000042"), // GRU
+  code: limitationCode("DUO:0000042"), // GRU
   modifiers: Type.Array(DuoModifierSchema),
 });
 
 export const DuoHealthMedicalBiomedicalResearchSchema = Type.Object({
-  code: Type.Literal<KnownLimitationCodes>("DUO:0000006"), // HMB
+  code: limitationCode("DUO:0000006"), // HMB
   modifiers: Type.Array(Type.Ref(DuoModifierSchema)),
 });
 
 export const DuoDiseaseSpecificResearchSchema = Type.Object({
-  code: Type.Literal<KnownLimitationCodes>("DUO:0000007"), // DS
-  //TODO: fix to a proper code system
-  disease: Type.String(),
+  code: limitationCode("DUO:0000007"), // DS
+  // the disease as coded in a disease ontology (MONDO, SNOMED etc)
+  disease: CodingSchema,
   modifiers: Type.Array(Type.Ref(DuoModifierSchema)),
 });
 
 export const DuoPopulationAncestryResearchOnlySchema = Type.Object({
-  code: Type.Literal<KnownLimitationCodes>("DUO:0000011"), // POA
+  code: limitationCode("DUO:0000011"), // POA
   modifiers: Type.Array(Type.Ref(DuoModifierSchema)),
 });
 
 export const DuoNoRestrictionSchema = Type.Object({
-  code: Type.Literal<KnownLimitationCodes>("DUO:0000004"), // NRES
+  code: limitationCode("DUO:0000004"), // NRES
   modifiers: Type.Array(Type.Ref(DuoModifierSchema)),
 });
 
@@ -170,4 +444,6 @@ export const DuoLimitationCodedSchema = Type.Union([
   DuoGeneralResearchUseSchema,
   DuoHealthMedicalBiomedicalResearchSchema,
   DuoDiseaseSpecificResearchSchema,
+  DuoPopulationAncestryResearchOnlySchema,
+  DuoNoRestrictionSchema,
 ]);
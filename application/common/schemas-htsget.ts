@@ -0,0 +1,65 @@
+import { Static, Type } from "@sinclair/typebox";
+
+/**
+ * The GA4GH htsget (v1.3) protocol - a ticket listing the URLs that when fetched
+ * (and concatenated in order) give the requested part of a genomic file.
+ *
+ * https://samtools.github.io/hts-specs/htsget.html
+ */
+
+export const HtsgetFormatSchema = Type.Union([
+  Type.Literal("BAM"),
+  Type.Literal("CRAM"),
+  Type.Literal("VCF"),
+]);
+
+export const HtsgetUrlSchema = Type.Object({
+  url: Type.String(),
+
+  // headers that must be sent along with the fetch (i.e. Range)
+  headers: Type.Optional(Type.Record(Type.String(), Type.String())),
+
+  // whether the data at this URL is part of the header or the body of the file
+  class: Type.Optional(
+    Type.Union([Type.Literal("header"), Type.Literal("body")])
+  ),
+});
+
+export const HtsgetTicketSchema = Type.Object({
+  htsget: Type.Object({
+    format: HtsgetFormatSchema,
+    urls: Type.Array(HtsgetUrlSchema),
+    md5: Type.Optional(Type.String()),
+  }),
+});
+
+export const HtsgetErrorSchema = Type.Object({
+  htsget: Type.Object({
+    error: Type.String(),
+    message: Type.String(),
+  }),
+});
+
+// the GA4GH service-info of an htsget endpoint
+export const HtsgetServiceInfoSchema = Type.Object({
+  id: Type.String(),
+  name: Type.String(),
+  type: Type.Object({
+    group: Type.String(),
+    artifact: Type.String(),
+    version: Type.String(),
+  }),
+  version: Type.String(),
+  htsget: Type.Object({
+    datatype: Type.Union([Type.Literal("reads"), Type.Literal("variants")]),
+    formats: Type.Array(HtsgetFormatSchema),
+    fieldsParametersEffective: Type.Boolean(),
+    tagsParametersEffective: Type.Boolean(),
+  }),
+});
+
+export type HtsgetFormatType = Static<typeof HtsgetFormatSchema>;
+export type HtsgetUrlType = Static<typeof HtsgetUrlSchema>;
+export type HtsgetTicketType = Static<typeof HtsgetTicketSchema>;
+export type HtsgetErrorType = Static<typeof HtsgetErrorSchema>;
+export type HtsgetServiceInfoType = Static<typeof HtsgetServiceInfoSchema>;
@@ -1,5 +1,6 @@
 import { TLiteral, TSchema, TString, TUnion, Type } from "@sinclair/typebox";
 import { CodingSchema } from "./schemas-coding";
+import { DuoLimitationSchema } from "./schemas-duo";
 
 /**
  * We use typebox to provide us with JSON schema compatible definitions
@@ -17,6 +18,81 @@ export const ReleaseApplicationCodedTypeSchema = StringUnion([
   "POA",
 ]);
 
+export const ReleaseParticipantRoleSchema = StringUnion([
+  "DataOwner",
+  "PI",
+  "Member",
+]);
+
+// the state of the access window of a release - pending (not yet opened), active (open right now)
+// or ended (closed)
+export const ReleaseAccessStateSchema = StringUnion([
+  "pending",
+  "active",
+  "ended",
+]);
+
+// the formats that a manifest of the files of a release can be downloaded in
+export const ReleaseManifestFormatSchema = StringUnion([
+  "tsv",
+  "csv",
+  "jsonl",
+  "nextflow",
+  "cromwell",
+  "aws-s3-cp",
+  "download-script",
+]);
+
+// the sharing of a release through S3 access points
+export const ReleaseAwsAccessPointConfigSchema = Type.Object({
+  // the AWS accounts of the researchers that can use the access points
+  accountIds: Type.Array(Type.String({ pattern: "^[0-9]{12}$" })),
+  // if present, the VPC that use of the access points is restricted to
+  vpcId: Type.Optional(Type.String({ pattern: "^vpc-[0-9a-f]+$" })),
+});
+
+// the types of data file that the files of a release are classified into (index files
+// are of the type of the file they index)
+export const ReleaseFileTypeSchema = StringUnion([
+  "FASTQ",
+  "BAM",
+  "CRAM",
+  "VCF",
+]);
+
+// the state of the access points of a release (as reported by the CloudFormation stack
+// installing them - with an update of the stack reported as creating)
+export const ReleaseAwsAccessPointStateSchema = StringUnion([
+  "not-installed",
+  "creating",
+  "complete",
+  "failed",
+  "deleting",
+]);
+
+export const ReleaseAwsAccessPointStatusSchema = Type.Object({
+  state: ReleaseAwsAccessPointStateSchema,
+
+  // the raw status of the CloudFormation stack (i.e. UPDATE_ROLLBACK_COMPLETE)
+  stackStatus: Type.Optional(Type.String()),
+  stackStatusReason: Type.Optional(Type.String()),
+
+  outputs: Type.Array(
+    Type.Object({
+      key: Type.String(),
+      value: Type.String(),
+    })
+  ),
+
+  // the buckets that are covered by an access point - along with the alias of the access point
+  buckets: Type.Array(
+    Type.Object({
+      bucket: Type.String(),
+      alias: Type.String(),
+    })
+  ),
+});
+
 export const ReleaseApplicationCodedSchema = Type.Object({
   type: ReleaseApplicationCodedTypeSchema,
 
@@ -25,26 +101,20 @@ export const ReleaseApplicationCodedSchema = Type.Object({
   countriesInvolved: Type.Array(CodingSchema),
 });
 
-export const ReleaseRunningJobSchema = Type.Object({
-  percentDone: Type.Number(),
-  messages: Type.Array(Type.String()),
-  requestedCancellation: Type.Boolean(),
-});
-
 export const ReleaseSummarySchema = Type.Object({
   id: Type.String(),
 
   applicationDacIdentifier: Type.String(),
   applicationDacTitle: Type.String(),
 
-  // if this release is in the time period of sharing
-  //isSharingEnabled: Type.Boolean(),
+  // where this release is in its time period of sharing
+  accessState: ReleaseAccessStateSchema,
 
   // if a job is running then this is the percent it is complete
   isRunningJobPercentDone: Type.Optional(Type.Number()),
 
-  // once we get @role link properties working we should enable this
-  // roleInRelease: Type.String(),
+  // the role of the user making the call
+  roleInRelease: ReleaseParticipantRoleSchema,
 });
 
 export const DateKind = Symbol("DateKind");
@@ -55,6 +125,103 @@ export interface TDate extends TSchema {
 }
 export const TypeDate = Type.String({ format: "date-time" }) as TString | TDate;
 
+export const ReleaseJobMessageLevelSchema = StringUnion([
+  "info",
+  "warning",
+  "error",
+]);
+
+export const ReleaseJobMessageSchema = Type.Object({
+  created: TypeDate,
+  level: ReleaseJobMessageLevelSchema,
+  text: Type.String(),
+});
+
+export const ReleaseRunningJobSchema = Type.Object({
+  jobId: Type.String(),
+  // the type of the job (i.e. SelectJob)
+  jobType: Type.String(),
+  percentDone: Type.Number(),
+  // the most recent messages logged by the job (the full log can be paged through separately)
+  messages: Type.Array(ReleaseJobMessageSchema),
+  requestedCancellation: Type.Boolean(),
+  // the progress and throughput of jobs that report it
+  casesProcessed: Type.Optional(Type.Integer()),
+  casesPerSecond: Type.Optional(Type.Number()),
+});
+
+export const ReleaseJobStatusSchema = StringUnion([
+  "running",
+  "succeeded",
+  "failed",
+  "cancelled",
+]);
+
+export const ReleaseJobSummarySchema = Type.Object({
+  id: Type.String(),
+  // the type of the job (i.e. SelectJob)
+  jobType: Type.String(),
+  status: ReleaseJobStatusSchema,
+  created: TypeDate,
+  started: TypeDate,
+  ended: Type.Optional(TypeDate),
+  // the details of jobs that work through a queue of cases selecting specimens
+  initialTodoCount: Type.Optional(Type.Integer()),
+  selectedCount: Type.Optional(Type.Integer()),
+  // select jobs that were dry runs - and what the data owner decided to do with their selection
+  isDryRun: Type.Optional(Type.Boolean()),
+  previewOutcome: Type.Optional(Type.String()),
+  // the final messages logged by the job
+  messages: Type.Array(ReleaseJobMessageSchema),
+});
+
+export const ReleaseJobSelectionComparisonSchema = Type.Object({
+  jobId: Type.String(),
+  jobSelectedCount: Type.Integer(),
+  currentSelectedCount: Type.Integer(),
+  bothSelectedCount: Type.Integer(),
+  // the (external) identifiers of the specimens that differ between the job and the current selection
+  onlyInJob: Type.Array(Type.String()),
+  onlyInCurrent: Type.Array(Type.String()),
+});
+
+export const ReleaseManualPinKindSchema = StringUnion(["include", "exclude"]);
+
+export const ReleaseSelectionPreviewSpecimenSchema = Type.Object({
+  id: Type.String(),
+  externalId: Type.String(),
+  caseExternalId: Type.String(),
+  datasetUri: Type.String(),
+  // a manual pin on the specimen (or its patient/case) - which overrides the change
+  // when the preview is accepted
+  pinned: Type.Optional(ReleaseManualPinKindSchema),
+});
+
+export const ReleaseSelectionPreviewDatasetSchema = Type.Object({
+  datasetUri: Type.String(),
+  addedCount: Type.Integer(),
+  removedCount: Type.Integer(),
+  unchangedCount: Type.Integer(),
+});
+
+export const ReleaseSelectionPreviewSchema = Type.Object({
+  jobId: Type.String(),
+  // set once the data owner has accepted (all or part of) or rejected the preview
+  previewOutcome: Type.Optional(Type.String()),
+  // the specimens the job would add to/remove from the current selection of the release
+  added: Type.Array(ReleaseSelectionPreviewSpecimenSchema),
+  removed: Type.Array(ReleaseSelectionPreviewSpecimenSchema),
+  unchangedCount: Type.Integer(),
+  datasets: Type.Array(ReleaseSelectionPreviewDatasetSchema),
+});
+
+// accepting a preview with no specimen ids accepts every change - otherwise only
+// the listed changes are applied to the release
+export const ReleaseSelectionPreviewAcceptSchema = Type.Object({
+  addedSpecimenIds: Type.Optional(Type.Array(Type.String())),
+  removedSpecimenIds: Type.Optional(Type.Array(Type.String())),
+});
+
 export const ReleaseDetailSchema = Type.Object({
   id: Type.String(),
 
@@ -81,12 +248,21 @@ export const ReleaseDetailSchema = Type.Object({
 
   runningJob: Type.Optional(ReleaseRunningJobSchema),
 
+  // an external source of consent (if any) consulted when selecting specimens
+  consentSourceUrl: Type.Optional(Type.String()),
+
+  // the researcher accounts (and VPC) that access points of the release are for
+  accessPointConfig: Type.Optional(ReleaseAwsAccessPointConfigSchema),
+
+  // the types of data file that can be accessed via the release
+  allowedFileTypes: Type.Array(ReleaseFileTypeSchema),
+
   permissionEditSelections: Type.Optional(Type.Boolean()),
   permissionEditApplicationCoded: Type.Optional(Type.Boolean()),
   permissionAccessData: Type.Optional(Type.Boolean()),
 
-  // once we get @role link properties working we should enable this
-  // roleInRelease: Type.String(),
+  // the role of the user making the call
+  roleInRelease: ReleaseParticipantRoleSchema,
 });
 
 type IntoStringUnion<T> = {
@@ -105,6 +281,14 @@ export const ReleaseNodeStatusSchema = StringUnion([
   "unselected",
 ]);
 
+// a manual override of the automated selection made by a data owner
+export const ReleaseNodePinSchema = Type.Object({
+  pin: ReleaseManualPinKindSchema,
+  who: Type.String(),
+  recorded: TypeDate,
+  reason: Type.String(),
+});
+
 export const ReleaseSpecimenSchema = Type.Object({
   id: Type.String(),
   externalId: Type.String(), // TODO: fix this
@@ -112,6 +296,8 @@ export const ReleaseSpecimenSchema = Type.Object({
   nodeStatus: ReleaseNodeStatusSchema,
   // whether there is specimen specific consent statements
   customConsent: Type.Boolean(),
+  // if present, the manual pin placed directly on this specimen
+  manualPin: Type.Optional(ReleaseNodePinSchema),
 });
 
 export const ReleasePatientBirthSexSchema = StringUnion([
@@ -129,6 +315,8 @@ export const ReleasePatientSchema = Type.Object({
   nodeStatus: ReleaseNodeStatusSchema,
   // whether there is patient specific consent statements
   customConsent: Type.Boolean(),
+  // if present, the manual pin placed directly on this patient
+  manualPin: Type.Optional(ReleaseNodePinSchema),
 });
 
 export const ReleaseCaseSchema = Type.Object({
@@ -142,4 +330,71 @@ export const ReleaseCaseSchema = Type.Object({
   nodeStatus: ReleaseNodeStatusSchema,
   // whether there is case specific consent statements
   customConsent: Type.Boolean(),
+  // if present, the manual pin placed directly on this case
+  manualPin: Type.Optional(ReleaseNodePinSchema),
+});
+
+export const ReleaseConsentLevelSchema = StringUnion([
+  "dataset",
+  "case",
+  "patient",
+  "specimen",
+]);
+
+export const ReleaseSpecimenDecisionEvaluationSchema = Type.Object({
+  // the level in the dataset tree at which the consent statement was attached
+  level: ReleaseConsentLevelSchema,
+  // the id of the node the consent statement was attached to
+  nodeId: Type.Optional(Type.String()),
+  // the DUO code of the consent statement (if coded)
+  code: Type.Optional(Type.String()),
+  // whether this statement allowed use for the application
+  allowed: Type.Boolean(),
+  // the DUO code of any modifier that blocked use
+  modifier: Type.Optional(Type.String()),
+  // the field of the application coded that mismatched the statement
+  field: Type.Optional(Type.String()),
+  // a human readable explanation of the evaluation
+  reason: Type.String(),
+});
+
+export const ReleaseSpecimenDecisionSchema = Type.Object({
+  specimenId: Type.String(),
+  // whether the automated selection chose this specimen
+  selected: Type.Boolean(),
+  // when the decision was made
+  decided: TypeDate,
+  // the evaluation of every consent statement that applied to the specimen
+  // (an empty array means no consent statements applied at all)
+  evaluations: Type.Array(ReleaseSpecimenDecisionEvaluationSchema),
+  // if present, the reason of the manual pin that overrode the consent evaluation
+  manualPinReason: Type.Optional(Type.String()),
+});
+
+export const ReleaseManualPinSchema = Type.Object({
+  // the case, patient or specimen that is pinned (along with everything below it)
+  nodeId: Type.String(),
+  nodeLevel: StringUnion(["case", "patient", "specimen"]),
+  externalId: Type.String(),
+  pin: ReleaseManualPinKindSchema,
+  who: Type.String(),
+  recorded: TypeDate,
+  reason: Type.String(),
+});
+
+export const ReleaseConsentStatementSchema = Type.Object({
+  // the level in the dataset tree at which the consent statement was attached
+  level: ReleaseConsentLevelSchema,
+  // the id of the node the consent statement was attached to
+  nodeId: Type.String(),
+  statement: DuoLimitationSchema,
+});
+
+// a user participating in a release
+export const ReleaseParticipantSchema = Type.Object({
+  id: Type.String(),
+  subjectId: Type.String(),
+  displayName: Type.Optional(Type.String()),
+  email: Type.Optional(Type.String()),
+  role: ReleaseParticipantRoleSchema,
 });
@@ -1,6 +1,14 @@
 import { Static, TLiteral, TSchema, TUnion, Type } from "@sinclair/typebox";
 import { CodingSchema } from "./schemas-coding";
-import { TypeDate } from "./schemas-releases";
+import {
+  ReleaseApplicationCodedTypeSchema,
+  ReleaseAwsAccessPointConfigSchema,
+  ReleaseFileTypeSchema,
+  ReleaseManifestFormatSchema,
+  ReleaseManualPinKindSchema,
+  ReleaseParticipantRoleSchema,
+  TypeDate,
+} from "./schemas-releases";
 
 /**
  * We use typebox to provide us with JSON schema compatible definitions
@@ -27,7 +35,10 @@ export const ReleaseRemsSyncRequestSchema = Type.Object({
 });
 
 export const ReleaseAwsS3PresignRequestSchema = Type.Object({
-  // id: Type.String(),
+  // the number of hours the presigned URLs remain valid for (defaulting to the maximum S3 allows)
+  expiryHours: Type.Optional(Type.Number()),
+  // the format of the file list in the manifest (defaulting to tsv)
+  format: Type.Optional(ReleaseManifestFormatSchema),
 });
 
 export const ReleaseAwsS3PresignResponseSchema = Type.Object({
@@ -42,6 +53,28 @@ export type ReleaseAwsS3PresignResponseType = Static<
   typeof ReleaseAwsS3PresignResponseSchema
 >;
 
+export const ReleaseAwsAccessPointConfigRequestSchema =
+  ReleaseAwsAccessPointConfigSchema;
+
+export type ReleaseAwsAccessPointConfigRequestType = Static<
+  typeof ReleaseAwsAccessPointConfigRequestSchema
+>;
+
+// the ids of the cases, patients or specimens whose selection is to be changed
+export const ReleaseNodeIdsRequestSchema = Type.Array(Type.String());
+
+export type ReleaseNodeIdsRequestType = Static<
+  typeof ReleaseNodeIdsRequestSchema
+>;
+
+export const ReleaseAllowedFileTypesRequestSchema = Type.Object({
+  fileTypes: Type.Array(ReleaseFileTypeSchema),
+});
+
+export type ReleaseAllowedFileTypesRequestType = Static<
+  typeof ReleaseAllowedFileTypesRequestSchema
+>;
+
 export const ReleaseMasterAccessRequestSchema = Type.Object({
   start: Type.Optional(TypeDate),
   end: Type.Optional(TypeDate),
@@ -50,3 +83,56 @@ export const ReleaseMasterAccessRequestSchema = Type.Object({
 export type ReleaseMasterAccessRequestType = Static<
   typeof ReleaseMasterAccessRequestSchema
 >;
+
+export const ReleaseManualPinRequestSchema = Type.Object({
+  pin: ReleaseManualPinKindSchema,
+  // pins must always be explained
+  reason: Type.String({ minLength: 1 }),
+});
+
+export type ReleaseManualPinRequestType = Static<
+  typeof ReleaseManualPinRequestSchema
+>;
+
+export const ReleaseCreateRequestSchema = Type.Object({
+  applicationDacIdentifier: Type.String({ minLength: 1 }),
+  applicationDacTitle: Type.String({ minLength: 1 }),
+  applicationDacDetails: Type.Optional(Type.String()),
+  // the uris of the datasets the release draws from (all must be owned by the creator)
+  datasetUris: Type.Array(Type.String(), { minItems: 1 }),
+  // the initial coding of the study - the rest of the coded application is edited after
+  // creation (these are asked for up front as they decide which specimens consent allows to
+  // be released - so we must never assume them)
+  applicationCodedStudyType: ReleaseApplicationCodedTypeSchema,
+  applicationCodedStudyAgreesToPublish: Type.Boolean(),
+  applicationCodedStudyIsNotCommercial: Type.Boolean(),
+  // the participants other than the creator (who is always a data owner of the release)
+  participants: Type.Array(
+    Type.Object({
+      subjectId: Type.String({ minLength: 1 }),
+      role: ReleaseParticipantRoleSchema,
+    })
+  ),
+});
+
+export type ReleaseCreateRequestType = Static<
+  typeof ReleaseCreateRequestSchema
+>;
+
+export const ReleaseParticipantAddRequestSchema = Type.Object({
+  // the subject id or email of an existing user
+  subjectIdOrEmail: Type.String({ minLength: 1 }),
+  role: ReleaseParticipantRoleSchema,
+});
+
+export type ReleaseParticipantAddRequestType = Static<
+  typeof ReleaseParticipantAddRequestSchema
+>;
+
+export const ReleaseParticipantRoleRequestSchema = Type.Object({
+  role: ReleaseParticipantRoleSchema,
+});
+
+export type ReleaseParticipantRoleRequestType = Static<
+  typeof ReleaseParticipantRoleRequestSchema
+>;
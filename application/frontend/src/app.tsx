@@ -5,6 +5,7 @@ import { ReleasesPage } from "./pages/releases/releases-dashboard-page";
 import { ReleasesDetailPage } from "./pages/releases/detail/releases-detail-page";
 import { DatasetsPage } from "./pages/datasets-page";
 import { DatasetsSpecificPage } from "./pages/datasets-specific-page";
+import { DatasetsConsentConflictsPage } from "./pages/datasets-consent-conflicts-page";
 import { LoginPage } from "./pages/login-page";
 import { useLoggedInUser } from "./providers/logged-in-user-provider";
 import { NotAuthorisedPage } from "./pages/not-authorised-page";
@@ -48,6 +49,10 @@ export const App: React.FC = () => {
           path={`/datasets/:datasetId`}
           element={<DatasetsSpecificPage />}
         />
+        <Route
+          path={`/datasets/:datasetId/consent-conflicts`}
+          element={<DatasetsConsentConflictsPage />}
+        />
         <Route path="*" element={<NoMatch />} />
       </Routes>
     );
@@ -0,0 +1,387 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "react-query";
+import axios from "axios";
+import Popup from "reactjs-popup";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faPenToSquare } from "@fortawesome/free-solid-svg-icons";
+import {
+  CodingType,
+  DatasetConsentStatementType,
+  DUO_CATALOGUE,
+  DuoLimitationType,
+  getStringFromDuoCode,
+} from "@umccr/elsa-types";
+import { MondoChooser } from "../concept-chooser/mondo-chooser";
+import { RhSelect } from "../rh/rh-select";
+import { RhCheckItem, RhChecks } from "../rh/rh-checks";
+import { RhInput } from "../rh/rh-input";
+import {
+  countriesEnglishNames,
+  ISO3166_SYTEM_URI,
+} from "../../ontology/countries";
+
+type Props = {
+  // the id of any dataset/case/patient/specimen
+  nodeId: string;
+};
+
+const LIMITATION_OPTIONS = DUO_CATALOGUE.filter(
+  (entry) => entry.kind === "limitation"
+).map((entry) => ({
+  label: `${entry.label} (${entry.shorthand})`,
+  value: entry.code,
+}));
+
+const GS_CODE = "DUO:0000022";
+const TS_CODE = "DUO:0000025";
+const DS_CODE = "DUO:0000007";
+const MOR_CODE = "DUO:0000024";
+
+// the modifiers that carry extra data - these are either edited with their own inputs
+// or not editable here
+const DATA_MODIFIERS = [
+  GS_CODE,
+  TS_CODE,
+  MOR_CODE,
+  "DUO:0000012",
+  "DUO:0000026",
+  "DUO:0000027",
+  "DUO:0000028",
+];
+
+// every other modifier carries no extra data and hence can be edited with a checkbox
+const SIMPLE_MODIFIERS = DUO_CATALOGUE.filter(
+  (entry) => entry.kind === "modifier" && !DATA_MODIFIERS.includes(entry.code)
+).map((entry) => ({
+  label: `${entry.label} (${entry.shorthand})`,
+  code: entry.code,
+}));
+
+const MONDO_SYSTEM = "http://purl.obolibrary.org/obo/mondo.owl";
+
+type EditState = {
+  // the id of the statement being replaced - or null if this is a new statement
+  statementId: string | null;
+  code: string;
+  disease: CodingType | null;
+  simpleModifiers: string[];
+  regions: string[];
+  timeStart: string;
+  timeEnd: string;
+  moratoriumDate: string;
+};
+
+const blankEditState: EditState = {
+  statementId: null,
+  code: "DUO:0000042",
+  disease: null,
+  simpleModifiers: [],
+  regions: [],
+  timeStart: "",
+  timeEnd: "",
+  moratoriumDate: "",
+};
+
+/**
+ * Convert an existing statement into the state of the editor.
+ */
+function statementToEditState(
+  cs: DatasetConsentStatementType
+): EditState | null {
+  if (!("code" in cs.statement)) return null;
+
+  const modifiers: any[] = cs.statement.modifiers;
+
+  return {
+    statementId: cs.id,
+    code: cs.statement.code,
+    disease: "disease" in cs.statement ? cs.statement.disease : null,
+    simpleModifiers: modifiers
+      .map((m) => m.code)
+      .filter((c) => SIMPLE_MODIFIERS.some((sm) => sm.code === c)),
+    regions: modifiers.find((m) => m.code === GS_CODE)?.regions ?? [],
+    timeStart: modifiers.find((m) => m.code === TS_CODE)?.start ?? "",
+    timeEnd: modifiers.find((m) => m.code === TS_CODE)?.end ?? "",
+    moratoriumDate: modifiers.find((m) => m.code === MOR_CODE)?.date ?? "",
+  };
+}
+
+/**
+ * Convert the state of the editor into a DUO limitation suitable for sending to the API.
+ */
+function editStateToLimitation(s: EditState): DuoLimitationType {
+  const modifiers: any[] = s.simpleModifiers.map((c) => ({ code: c }));
+
+  if (s.regions.length > 0)
+    modifiers.push({ code: GS_CODE, regions: s.regions });
+
+  if (s.timeStart || s.timeEnd)
+    modifiers.push({
+      code: TS_CODE,
+      start: s.timeStart || undefined,
+      end: s.timeEnd || undefined,
+    });
+
+  if (s.moratoriumDate)
+    modifiers.push({ code: MOR_CODE, date: s.moratoriumDate });
+
+  if (s.code === DS_CODE)
+    return {
+      code: s.code,
+      disease: s.disease ?? { system: MONDO_SYSTEM, code: "" },
+      modifiers,
+    } as any;
+
+  return { code: s.code, modifiers } as any;
+}
+
+/**
+ * An editor for the consent statements directly attached to a single dataset node. Only
+ * dataset owners are able to make changes (the backend enforces this).
+ *
+ * @param nodeId
+ * @constructor
+ */
+export const ConsentEditor: React.FC<Props> = ({ nodeId }) => {
+  const queryClient = useQueryClient();
+
+  const queryKey = ["dataset-node-consent", nodeId];
+
+  const [editState, setEditState] = useState<EditState>(blankEditState);
+
+  const [lastMutateError, setLastMutateError] = useState<string | null>(null);
+
+  const consentQuery = useQuery(queryKey, async () => {
+    return await axios
+      .get<DatasetConsentStatementType[]>(`/api/datasets/consent/${nodeId}`)
+      .then((response) => response.data);
+  });
+
+  // all our mutations return the new set of statements for the node
+  const afterMutate = {
+    onSuccess: (result: DatasetConsentStatementType[]) => {
+      queryClient.setQueryData(queryKey, result);
+      setEditState(blankEditState);
+      setLastMutateError(null);
+    },
+    onError: (err: any) => {
+      setLastMutateError(err?.response?.data?.detail ?? "Consent not saved");
+    },
+  };
+
+  const saveMutate = useMutation((s: EditState) =>
+    (s.statementId
+      ? axios.put<DatasetConsentStatementType[]>(
+          `/api/datasets/consent/${nodeId}/${s.statementId}`,
+          editStateToLimitation(s)
+        )
+      : axios.post<DatasetConsentStatementType[]>(
+          `/api/datasets/consent/${nodeId}`,
+          editStateToLimitation(s)
+        )
+    ).then((response) => response.data)
+  );
+
+  const removeMutate = useMutation((statementId: string) =>
+    axios
+      .delete<DatasetConsentStatementType[]>(
+        `/api/datasets/consent/${nodeId}/${statementId}`
+      )
+      .then((response) => response.data)
+  );
+
+  const toggleSimpleModifier = (code: string, checked: boolean) =>
+    setEditState({
+      ...editState,
+      simpleModifiers: checked
+        ? [...editState.simpleModifiers, code]
+        : editState.simpleModifiers.filter((c) => c !== code),
+    });
+
+  const diseaseSelected: CodingType[] = editState.disease
+    ? [editState.disease]
+    : [];
+
+  return (
+    <div className="flex flex-col space-y-4">
+      {lastMutateError && (
+        <p className="font-bold text-red-700 border-gray-800 border-2 p-2">
+          {lastMutateError}
+        </p>
+      )}
+      {consentQuery.isSuccess && (
+        <ul className="space-y-2">
+          {consentQuery.data.length === 0 && <li>No consent statements</li>}
+          {consentQuery.data.map((cs) => (
+            <li key={cs.id} className="flex flex-row justify-between">
+              <span className="font-mono">
+                {"code" in cs.statement
+                  ? [
+                      getStringFromDuoCode(cs.statement.code) ??
+                        cs.statement.code,
+                      "disease" in cs.statement
+                        ? `(${
+                            cs.statement.disease.display ??
+                            cs.statement.disease.code
+                          })`
+                        : "",
+                      ...cs.statement.modifiers.map(
+                        (m) => `+ ${getStringFromDuoCode(m.code) ?? m.code}`
+                      ),
+                    ].join(" ")
+                  : cs.statement.description}
+              </span>
+              <span className="space-x-2">
+                {"code" in cs.statement && (
+                  <button
+                    className="btn btn-blue"
+                    onClick={() => setEditState(statementToEditState(cs)!)}
+                  >
+                    Edit
+                  </button>
+                )}
+                <button
+                  className="btn btn-blue"
+                  onClick={() => removeMutate.mutate(cs.id, afterMutate)}
+                >
+                  Remove
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="grid grid-cols-3 gap-6 border-t pt-4">
+        <RhSelect
+          label={
+            editState.statementId
+              ? "Replace Data Use Limitation"
+              : "New Data Use Limitation"
+          }
+          options={LIMITATION_OPTIONS}
+          value={editState.code}
+          onChange={(e) => setEditState({ ...editState, code: e.target.value })}
+        />
+        {editState.code === DS_CODE && (
+          <MondoChooser
+            label="Disease/Condition"
+            selected={diseaseSelected}
+            addToSelected={(c) => setEditState({ ...editState, disease: c })}
+            removeFromSelected={() =>
+              setEditState({ ...editState, disease: null })
+            }
+            disabled={false}
+          />
+        )}
+        <RhChecks label="Modifiers">
+          {SIMPLE_MODIFIERS.map((sm) => (
+            <RhCheckItem
+              key={sm.code}
+              label={sm.label}
+              checked={editState.simpleModifiers.includes(sm.code)}
+              onChange={(e) => toggleSimpleModifier(sm.code, e.target.checked)}
+            />
+          ))}
+        </RhChecks>
+        <div className="flex flex-col space-y-2">
+          <RhSelect
+            label="Geographic restriction (GS)"
+            options={[
+              { label: "Add a country...", value: "" },
+              ...Object.entries(countriesEnglishNames).map(([code, name]) => ({
+                label: name,
+                value: code,
+              })),
+            ]}
+            value=""
+            onChange={(e) =>
+              e.target.value &&
+              !editState.regions.includes(e.target.value) &&
+              setEditState({
+                ...editState,
+                regions: [...editState.regions, e.target.value],
+              })
+            }
+          />
+          <ul className="flex flex-wrap gap-2" title={ISO3166_SYTEM_URI}>
+            {editState.regions.map((r) => (
+              <li
+                key={r}
+                className="px-4 py-2 rounded-full text-gray-500 bg-gray-200 text-sm cursor-pointer"
+                onClick={() =>
+                  setEditState({
+                    ...editState,
+                    regions: editState.regions.filter((x) => x !== r),
+                  })
+                }
+              >
+                {countriesEnglishNames[r] ?? r} &times;
+              </li>
+            ))}
+          </ul>
+          <RhInput
+            label="Time limit (TS) start (YYYY-MM-DD)"
+            value={editState.timeStart}
+            onChange={(e) =>
+              setEditState({ ...editState, timeStart: e.target.value })
+            }
+          />
+          <RhInput
+            label="Time limit (TS) end (YYYY-MM-DD)"
+            value={editState.timeEnd}
+            onChange={(e) =>
+              setEditState({ ...editState, timeEnd: e.target.value })
+            }
+          />
+          <RhInput
+            label="Publication moratorium (MOR) until (YYYY-MM-DD)"
+            value={editState.moratoriumDate}
+            onChange={(e) =>
+              setEditState({ ...editState, moratoriumDate: e.target.value })
+            }
+          />
+        </div>
+      </div>
+      <div className="flex flex-row space-x-2">
+        <button
+          className="btn btn-blue"
+          onClick={() => saveMutate.mutate(editState, afterMutate)}
+        >
+          {editState.statementId ? "Replace Statement" : "Add Statement"}
+        </button>
+        {editState.statementId && (
+          <button
+            className="btn btn-blue"
+            onClick={() => setEditState(blankEditState)}
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * A small edit icon that opens the consent editor for a node in a modal popup.
+ *
+ * @param nodeId
+ * @constructor
+ */
+export const ConsentEditorPopup: React.FC<Props> = ({ nodeId }) => {
+  return (
+    <Popup
+      trigger={
+        <span className="cursor-pointer" title="Edit consent">
+          <FontAwesomeIcon icon={faPenToSquare} />
+        </span>
+      }
+      modal
+      nested
+    >
+      <div className="p-4 bg-white max-h-screen overflow-y-auto">
+        <ConsentEditor nodeId={nodeId} />
+      </div>
+    </Popup>
+  );
+};
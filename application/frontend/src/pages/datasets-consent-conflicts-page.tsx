@@ -0,0 +1,122 @@
+import React from "react";
+import { useQuery } from "react-query";
+import axios from "axios";
+import { useParams } from "react-router-dom";
+import classNames from "classnames";
+import { Box } from "../components/boxes";
+import { DatasetConsentReportType } from "@umccr/elsa-types";
+import { LayoutBase } from "../layouts/layout-base";
+
+type DatasetsConsentConflictsPageParams = {
+  datasetId: string;
+};
+
+/**
+ * A page reporting all the nodes of a dataset whose consent narrows or conflicts with
+ * the consent of their ancestors.
+ */
+export const DatasetsConsentConflictsPage: React.FC = () => {
+  const { datasetId } = useParams<DatasetsConsentConflictsPageParams>();
+
+  const reportQuery = useQuery(
+    ["dataset-consent-conflicts", datasetId],
+    async () => {
+      return await axios
+        .get<DatasetConsentReportType>(
+          `/api/datasets/${datasetId}/consent-conflicts`
+        )
+        .then((response) => response.data);
+    },
+    { retry: false }
+  );
+
+  return (
+    <LayoutBase>
+      <div className="flex flex-row flex-wrap flex-grow mt-2">
+        {reportQuery.isLoading && <p>Analysing consent...</p>}
+        {reportQuery.isError && <p>Consent could not be analysed</p>}
+        {reportQuery.isSuccess && (
+          <>
+            <Box heading="DUO Code Usage">
+              <table className="w-full text-sm text-left text-gray-500">
+                <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3">
+                      Code
+                    </th>
+                    <th scope="col" className="px-6 py-3">
+                      Shorthand
+                    </th>
+                    <th scope="col" className="px-6 py-3">
+                      Count
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reportQuery.data.codeCounts.map((cc) => (
+                    <tr key={cc.code} className="bg-white border-b">
+                      <td className="px-6 py-4 font-mono">{cc.code}</td>
+                      <td className="px-6 py-4">{cc.shorthand}</td>
+                      <td className="px-6 py-4">{cc.count}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Box>
+
+            <Box
+              heading={`Narrowing and Conflicting Consent (${reportQuery.data.conflicts.length})`}
+            >
+              <div className="flex flex-col space-y-4">
+                <a
+                  href={`/api/datasets/${datasetId}/consent-conflicts/csv`}
+                  className="font-medium text-blue-600 light:text-blue-500 hover:underline"
+                  download
+                >
+                  Download as CSV
+                </a>
+                <table className="w-full text-sm text-left text-gray-500">
+                  <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-6 py-3">
+                        Kind
+                      </th>
+                      <th scope="col" className="px-6 py-3">
+                        Node
+                      </th>
+                      <th scope="col" className="px-6 py-3">
+                        Ancestor
+                      </th>
+                      <th scope="col" className="px-6 py-3">
+                        Reason
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reportQuery.data.conflicts.map((c, index) => (
+                      <tr key={index} className="bg-white border-b">
+                        <td
+                          className={classNames("px-6 py-4 font-bold", {
+                            "text-red-700": c.kind === "conflicts",
+                          })}
+                        >
+                          {c.kind}
+                        </td>
+                        <td className="px-6 py-4">
+                          {c.nodeLevel}{" "}
+                          <span className="font-mono">{c.nodeExternalId}</span>
+                        </td>
+                        <td className="px-6 py-4">{c.ancestorLevel}</td>
+                        <td className="px-6 py-4">{c.reason}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Box>
+          </>
+        )}
+      </div>
+    </LayoutBase>
+  );
+};
@@ -7,6 +7,7 @@ import { Box } from "../components/boxes";
 import { DatasetDeepType, ReleaseDetailType } from "@umccr/elsa-types";
 import { MyModal } from "../components/modals";
 import { LayoutBase } from "../layouts/layout-base";
+import { ConsentEditor } from "../components/consent-editor/consent-editor";
 
 type DatasetsSpecificPageParams = {
   datasetId: string;
@@ -46,6 +47,16 @@ export const DatasetsSpecificPage: React.FC = () => {
               <p>{datasetData.uri}</p>
             </Box>
 
+            <Box heading="Dataset Consent">
+              <ConsentEditor nodeId={datasetData.id} />
+              <a
+                href={`/datasets/${datasetData.id}/consent-conflicts`}
+                className="font-medium text-blue-600 light:text-blue-500 hover:underline"
+              >
+                Analyse consent across the dataset
+              </a>
+            </Box>
+
             <Box heading="Content">
               <p>
                 {datasetData && (
@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { useMutation, useQuery, useQueryClient } from "react-query";
+import {
+  ReleaseAwsAccessPointConfigRequestType,
+  ReleaseAwsAccessPointStatusType,
+} from "@umccr/elsa-types";
+import { ReleaseTypeLocal } from "./shared-types";
+import { RhInput } from "../../../components/rh/rh-input";
+import { RhSelect } from "../../../components/rh/rh-select";
+import { RhTextArea } from "../../../components/rh/rh-text-area";
+import {
+  axiosPostArgMutationFn,
+  axiosPostNullMutationFn,
+  REACT_QUERY_RELEASE_KEYS,
+} from "./queries";
+
+type Props = {
+  releaseId: string;
+  releaseData: ReleaseTypeLocal;
+};
+
+const FORMAT_OPTIONS = [
+  { label: "Tab separated values", value: "tsv" },
+  { label: "Comma separated values", value: "csv" },
+  { label: "JSON Lines", value: "jsonl" },
+  { label: "Nextflow samplesheet", value: "nextflow" },
+  { label: "Cromwell inputs JSON", value: "cromwell" },
+  { label: "AWS CLI (aws s3 cp) script", value: "aws-s3-cp" },
+];
+
+/**
+ * A form for setting the AWS accounts that S3 access points of the release
+ * are installed for, for installing (or updating or deleting) the access points,
+ * and for downloading the manifest of the files via the installed access points.
+ *
+ * @param releaseId
+ * @param releaseData
+ * @constructor
+ */
+export const AwsS3AccessPointForm: React.FC<Props> = ({
+  releaseId,
+  releaseData,
+}) => {
+  const queryClient = useQueryClient();
+
+  const isDataOwner = releaseData.roleInRelease === "DataOwner";
+
+  const [accountIds, setAccountIds] = useState<string>("");
+  const [vpcId, setVpcId] = useState<string>("");
+  const [lastMutateError, setLastMutateError] = useState<string | null>(null);
+
+  // whenever the release changes we reset the inputs to the current settings
+  useEffect(() => {
+    setAccountIds(releaseData.accessPointConfig?.accountIds.join("\n") ?? "");
+    setVpcId(releaseData.accessPointConfig?.vpcId ?? "");
+  }, [releaseData.accessPointConfig]);
+
+  const afterMutate = {
+    onSuccess: (result: ReleaseTypeLocal) => {
+      queryClient.setQueryData(
+        REACT_QUERY_RELEASE_KEYS.detail(releaseId),
+        result
+      );
+      setLastMutateError(null);
+    },
+    onError: (err: any) => {
+      setLastMutateError(
+        err?.response?.data?.detail ?? "Access points not changed"
+      );
+    },
+  };
+
+  const configMutate = useMutation(
+    axiosPostArgMutationFn<ReleaseAwsAccessPointConfigRequestType>(
+      `/api/releases/${releaseId}/access-point/config`
+    )
+  );
+
+  // the access points are changed by jobs that wait on CloudFormation - so we keep
+  // checking on their state
+  const statusQuery = useQuery(
+    ["release-access-point", releaseId],
+    async () => {
+      return await axios
+        .get<ReleaseAwsAccessPointStatusType>(
+          `/api/releases/${releaseId}/access-point`
+        )
+        .then((response) => response.data);
+    },
+    { refetchInterval: 5000 }
+  );
+
+  const installMutate = useMutation(
+    axiosPostNullMutationFn(`/api/releases/${releaseId}/jobs/access-point`)
+  );
+
+  const updateMutate = useMutation(
+    axiosPostNullMutationFn(
+      `/api/releases/${releaseId}/jobs/access-point/update`
+    )
+  );
+
+  const deleteMutate = useMutation(
+    axiosPostNullMutationFn(
+      `/api/releases/${releaseId}/jobs/access-point/delete`
+    )
+  );
+
+  const state = statusQuery.data?.state;
+  const isJobRunning = !!releaseData.runningJob;
+
+  return (
+    <div className="flex flex-col gap-6">
+      {lastMutateError && (
+        <p className="font-bold text-red-700 border-gray-800 border-2 p-2">
+          {lastMutateError}
+        </p>
+      )}
+      {isDataOwner && (
+        <>
+          <RhTextArea
+            label="Researcher AWS Account Ids"
+            extra="One 12 digit account id per line"
+            rows={3}
+            value={accountIds}
+            onChange={(e) => setAccountIds(e.target.value)}
+          />
+          <RhInput
+            label="VPC Id (optional)"
+            value={vpcId}
+            onChange={(e) => setVpcId(e.target.value)}
+          />
+          <div className="flex flex-row space-x-4">
+            <button
+              className="btn-blue w-60"
+              onClick={() =>
+                configMutate.mutate(
+                  {
+                    accountIds: accountIds
+                      .split(/[\s,]+/)
+                      .filter((a) => a.length > 0),
+                    vpcId: vpcId.trim() || undefined,
+                  },
+                  afterMutate
+                )
+              }
+            >
+              Save Accounts
+            </button>
+            {state === "not-installed" && (
+              <button
+                className="btn-blue w-60"
+                disabled={
+                  isJobRunning ||
+                  !releaseData.accessPointConfig?.accountIds.length
+                }
+                onClick={() => installMutate.mutate(null, afterMutate)}
+              >
+                Install Access Points
+              </button>
+            )}
+            {state === "complete" && (
+              <button
+                className="btn-blue w-60"
+                disabled={isJobRunning}
+                onClick={() => updateMutate.mutate(null, afterMutate)}
+              >
+                Update Access Points
+              </button>
+            )}
+            {(state === "complete" || state === "failed") && (
+              <button
+                className="btn-blue w-60"
+                disabled={isJobRunning}
+                onClick={() => deleteMutate.mutate(null, afterMutate)}
+              >
+                Delete Access Points
+              </button>
+            )}
+          </div>
+        </>
+      )}
+      {statusQuery.isError && <p>Access points are not available</p>}
+      {statusQuery.data && (
+        <div className="flex flex-col gap-2">
+          <p>
+            Access points are <b>{statusQuery.data.state}</b>
+            {statusQuery.data.stackStatus &&
+              ` (stack ${statusQuery.data.stackStatus})`}
+          </p>
+          {statusQuery.data.stackStatusReason && (
+            <p className="text-sm">{statusQuery.data.stackStatusReason}</p>
+          )}
+          {statusQuery.data.buckets.length > 0 && (
+            <table className="w-full text-sm text-left text-gray-500 table-fixed">
+              <thead>
+                <tr className="border-b">
+                  <th className="py-2">Bucket</th>
+                  <th className="py-2">Access Point Alias</th>
+                </tr>
+              </thead>
+              <tbody>
+                {statusQuery.data.buckets.map((b) => (
+                  <tr key={b.bucket} className="border-b">
+                    <td className="py-2 font-mono">{b.bucket}</td>
+                    <td className="py-2 font-mono">{b.alias}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+      {/* a GET form action so that the browser handles the Content-Disposition as a file save */}
+      <form
+        action={`/api/releases/${releaseId}/access-point/manifest`}
+        method="GET"
+      >
+        <div className="flex flex-col gap-6">
+          <RhSelect
+            label="File List Format"
+            name="format"
+            defaultValue="tsv"
+            options={FORMAT_OPTIONS}
+            extra="The files are addressed via the installed access points"
+          />
+          <input
+            type="submit"
+            className="btn-blue w-60"
+            value="Download Manifest"
+          />
+        </div>
+      </form>
+    </div>
+  );
+};
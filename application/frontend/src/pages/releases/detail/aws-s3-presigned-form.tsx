@@ -1,11 +1,28 @@
-import React from "react";
-import { useForm } from "react-hook-form";
-import { ReleaseRemsSyncRequestType } from "@umccr/elsa-types";
+import React, { useState } from "react";
+import axios from "axios";
+import { RhSelect } from "../../../components/rh/rh-select";
 
 type Props = {
   releaseId: string;
 };
 
+const EXPIRY_OPTIONS = [
+  { label: "1 hour", value: 1 },
+  { label: "1 day", value: 24 },
+  { label: "3 days", value: 72 },
+  { label: "7 days", value: 168 },
+];
+
+const FORMAT_OPTIONS = [
+  { label: "Tab separated values", value: "tsv" },
+  { label: "Comma separated values", value: "csv" },
+  { label: "JSON Lines", value: "jsonl" },
+  { label: "Nextflow samplesheet", value: "nextflow" },
+  { label: "Cromwell inputs JSON", value: "cromwell" },
+  { label: "AWS CLI (aws s3 cp) script", value: "aws-s3-cp" },
+  { label: "curl/wget download script", value: "download-script" },
+];
+
 /**
  * A form that is used to ask for AWS S3
  * presigned URLS.
@@ -14,12 +31,7 @@ type Props = {
  * @constructor
  */
 export const AwsS3PresignedForm: React.FC<Props> = ({ releaseId }) => {
-  const {
-    register,
-    handleSubmit,
-    watch,
-    formState: { errors },
-  } = useForm<ReleaseRemsSyncRequestType>();
+  const [password, setPassword] = useState<string | null>(null);
 
   return (
     <>
@@ -28,20 +40,46 @@ export const AwsS3PresignedForm: React.FC<Props> = ({ releaseId }) => {
              i.e. if the POST returned a Content-Disposition header */}
       <form action={`/api/releases/${releaseId}/pre-signed`} method="POST">
         <div className="flex flex-col gap-6">
-          <label className="block">
-            <span className="text-xs font-bold text-gray-700 uppercase">
-              Something
-            </span>
-            <input
-              type="text"
-              defaultValue="https://hgpp-rems.dev.umccr.org"
-              {...register("remsUrl", { required: false })}
-              className="mt-1 block w-full rounded-md bg-gray-50 border-transparent focus:border-gray-500 focus:bg-white focus:ring-0"
-            />
-          </label>
-          <input type="submit" className="btn-blue w-60" />
+          <RhSelect
+            label="Links Expire After"
+            name="expiryHours"
+            defaultValue={168}
+            options={EXPIRY_OPTIONS}
+            extra="The manifest is a zip file encrypted with the release password"
+          />
+          <RhSelect
+            label="File List Format"
+            name="format"
+            defaultValue="tsv"
+            options={FORMAT_OPTIONS}
+          />
+          <input
+            type="submit"
+            className="btn-blue w-60"
+            value="Download Manifest"
+          />
         </div>
       </form>
+      <div className="flex flex-col gap-6 mt-6">
+        {password && (
+          <p>
+            The release password is{" "}
+            <span className="font-mono font-bold">{password}</span>
+          </p>
+        )}
+        <button
+          className="btn-blue w-60"
+          onClick={async () =>
+            setPassword(
+              await axios
+                .get<string>(`/api/releases/${releaseId}/password`)
+                .then((response) => response.data)
+            )
+          }
+        >
+          Show Password
+        </button>
+      </div>
     </>
   );
 };
@@ -11,11 +11,13 @@ import { HrDiv, LeftDiv, RightDiv } from "../../../components/rh/rh-structural";
 import axios from "axios";
 import { CodingType, ReleaseDetailType } from "@umccr/elsa-types";
 import {
+  axiosPostArgMutationFn,
   axiosPostNullMutationFn,
   makeReleaseTypeLocal,
   REACT_QUERY_RELEASE_KEYS,
 } from "./queries";
 import { isUndefined } from "lodash";
+import classNames from "classnames";
 
 type Props = {
   releaseId: string;
@@ -53,10 +55,24 @@ export const BulkBox: React.FC<Props> = ({ releaseId, releaseData }) => {
     axiosPostNullMutationFn(`/api/releases/${releaseId}/jobs/select`)
   );
 
+  const previewMutate = useMutation(
+    axiosPostNullMutationFn(`/api/releases/${releaseId}/jobs/select-dry-run`)
+  );
+
   const cancelMutate = useMutation(
     axiosPostNullMutationFn(`/api/releases/${releaseId}/jobs/cancel`)
   );
 
+  const [consentSourceUrl, setConsentSourceUrl] = useState<string>(
+    releaseData.consentSourceUrl ?? ""
+  );
+
+  const consentSourceMutate = useMutation(
+    axiosPostArgMutationFn<{ url: string | null }>(
+      `/api/releases/${releaseId}/consent-source`
+    )
+  );
+
   return (
     <Box heading="Bulk">
       <ApplicationCodedBox
@@ -71,13 +87,43 @@ export const BulkBox: React.FC<Props> = ({ releaseId, releaseData }) => {
             "Datasets may include their own per case/patient/specimen consent preferences. Where overriding consent information is held externally, the URL for this service may be specified here"
           }
         />
+        <RightDiv>
+          <div className="shadow sm:rounded-md">
+            <div className="px-4 py-5 bg-white space-y-6 sm:p-6">
+              <div className="grid grid-cols-3 gap-6">
+                <div className="flex flex-col gap-6 col-span-3">
+                  <RhInput
+                    label="Consent Source URL"
+                    placeholder="https://consent.example.org/duo"
+                    value={consentSourceUrl}
+                    onChange={(e) => setConsentSourceUrl(e.target.value)}
+                  />
+                  <button
+                    className="btn-blue w-1/6 h-8 disabled:opacity-25"
+                    disabled={!releaseData.permissionEditSelections}
+                    onClick={async () => {
+                      consentSourceMutate.mutate(
+                        { url: consentSourceUrl || null },
+                        {
+                          onSuccess: afterMutateUpdateQueryData,
+                        }
+                      );
+                    }}
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </RightDiv>
       </div>
       <HrDiv />
       <div className="md:grid md:grid-cols-5 md:gap-6">
         <LeftDiv
           heading={"Apply"}
           extra={
-            "Executing this operation will start a background task that calculates the correct sharing status for every specimen in the release"
+            "Executing this operation will start a background task that calculates the correct sharing status for every specimen in the release. A preview calculates the same - but the changes it would make can be reviewed (and accepted) in the job history before the release is touched"
           }
         />
         <RightDiv>
@@ -97,6 +143,18 @@ export const BulkBox: React.FC<Props> = ({ releaseId, releaseData }) => {
                     Apply All
                   </button>
 
+                  <button
+                    className="btn-blue w-1/6 h-8 disabled:opacity-25"
+                    onClick={async () => {
+                      previewMutate.mutate(null, {
+                        onSuccess: afterMutateUpdateQueryData,
+                      });
+                    }}
+                    disabled={!isUndefined(releaseData.runningJob)}
+                  >
+                    Preview
+                  </button>
+
                   <button
                     className="btn-blue w-1/6 h-8 disabled:opacity-25"
                     onClick={async () => {
@@ -119,7 +177,7 @@ export const BulkBox: React.FC<Props> = ({ releaseId, releaseData }) => {
                     <>
                       <div className="flex justify-between mb-1">
                         <span className="text-base font-medium text-blue-700">
-                          Running
+                          Running {releaseData.runningJob.jobType}
                         </span>
                         <span className="text-sm font-medium text-blue-700">
                           {releaseData.runningJob.percentDone.toString()}%
@@ -135,7 +193,35 @@ export const BulkBox: React.FC<Props> = ({ releaseId, releaseData }) => {
                           }}
                         ></div>
                       </div>
-                      <p></p>
+                      {!isUndefined(releaseData.runningJob.casesProcessed) && (
+                        <p className="text-sm text-gray-500 mt-1">
+                          {releaseData.runningJob.casesProcessed} case(s)
+                          processed
+                          {!isUndefined(
+                            releaseData.runningJob.casesPerSecond
+                          ) &&
+                            ` (${releaseData.runningJob.casesPerSecond.toFixed(
+                              1
+                            )} cases/sec)`}
+                        </p>
+                      )}
+                      {releaseData.runningJob.messages.length > 0 && (
+                        <ul className="mt-2 text-xs font-mono">
+                          {releaseData.runningJob.messages.map((m, i) => (
+                            <li
+                              key={i}
+                              className={classNames({
+                                "text-gray-500": m.level === "info",
+                                "text-yellow-600": m.level === "warning",
+                                "text-red-600": m.level === "error",
+                              })}
+                            >
+                              {new Date(m.created).toLocaleTimeString()}{" "}
+                              {m.text}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                     </>
                   )}
                 </div>
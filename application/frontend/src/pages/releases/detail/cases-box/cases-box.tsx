@@ -4,6 +4,9 @@ import axios from "axios";
 import { useQuery, useQueryClient } from "react-query";
 import { IndeterminateCheckbox } from "../../../../components/indeterminate-checkbox";
 import { PatientsFlexRow } from "./patients-flex-row";
+import { ConsentPopup } from "./consent-popup";
+import { ConsentEditorPopup } from "../../../../components/consent-editor/consent-editor";
+import { ManualPinPopup } from "./manual-pin-popup";
 import classNames from "classnames";
 import usePagination from "headless-pagination-react";
 import { BoxNoPad } from "../../../../components/boxes";
@@ -53,6 +56,15 @@ export const CasesBox: React.FC<Props> = ({
     { keepPreviousData: true }
   );
 
+  // selecting (or unselecting) a case applies to every specimen in the case
+  const onCaseSelectChange = async (id: string, selected: boolean) => {
+    await axios.post<any>(
+      `/api/releases/${releaseId}/nodes/${selected ? "select" : "unselect"}`,
+      [id]
+    );
+    await queryClient.invalidateQueries();
+  };
+
   const rowSpans: number[] = [];
 
   // this horrible little piece of logic is used to make rowspans where we have a common
@@ -97,9 +109,15 @@ export const CasesBox: React.FC<Props> = ({
                       )}
                     >
                       <IndeterminateCheckbox
-                        disabled={true}
+                        disabled={!isEditable}
                         checked={row.nodeStatus === "selected"}
                         indeterminate={row.nodeStatus === "indeterminate"}
+                        onChange={async (ce) =>
+                          await onCaseSelectChange(
+                            row.id,
+                            ce.currentTarget.checked
+                          )
+                        }
                       />
                     </td>
                     <td
@@ -110,6 +128,29 @@ export const CasesBox: React.FC<Props> = ({
                       )}
                     >
                       {row.externalId}
+                      {row.customConsent && (
+                        <>
+                          {" "}
+                          <ConsentPopup releaseId={releaseId} nodeId={row.id} />
+                        </>
+                      )}
+                      {isEditable && (
+                        <>
+                          {" "}
+                          <ConsentEditorPopup nodeId={row.id} />
+                        </>
+                      )}
+                      {(isEditable || row.manualPin) && (
+                        <>
+                          {" "}
+                          <ManualPinPopup
+                            releaseId={releaseId}
+                            nodeId={row.id}
+                            manualPin={row.manualPin}
+                            isEditable={isEditable}
+                          />
+                        </>
+                      )}
                     </td>
                     <td
                       className={classNames(
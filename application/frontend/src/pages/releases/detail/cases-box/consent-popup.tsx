@@ -0,0 +1,94 @@
+import React from "react";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faUnlock } from "@fortawesome/free-solid-svg-icons";
+import {
+  getDuoCatalogueEntry,
+  getStringFromDuoCode,
+  ReleaseConsentStatementType,
+} from "@umccr/elsa-types";
+import axios from "axios";
+import { useQuery } from "react-query";
+import Popup from "reactjs-popup";
+
+type Props = {
+  releaseId: string;
+  nodeId: string;
+};
+
+/**
+ * The content of the consent popup - only rendered (and hence only fetched) when the popup
+ * is opened.
+ */
+const ConsentStatements: React.FC<Props> = ({ releaseId, nodeId }) => {
+  const consentQuery = useQuery(
+    ["release-node-consent", releaseId, nodeId],
+    async () => {
+      return await axios
+        .get<ReleaseConsentStatementType[]>(
+          `/api/releases/${releaseId}/consent/${nodeId}`
+        )
+        .then((response) => response.data);
+    },
+    { retry: false }
+  );
+
+  if (consentQuery.isLoading) return <div className="p-2">Loading...</div>;
+
+  if (!consentQuery.isSuccess)
+    return <div className="p-2">Consent could not be fetched</div>;
+
+  return (
+    <div className="p-2 max-w-md text-sm text-left">
+      {consentQuery.data.length === 0 && <p>No consent statements</p>}
+      <ul>
+        {consentQuery.data.map((cs, index) => (
+          <li key={index}>
+            <span className="font-mono">{cs.level}</span>{" "}
+            {"code" in cs.statement ? (
+              <>
+                <span title={getDuoCatalogueEntry(cs.statement.code)?.label}>
+                  {getStringFromDuoCode(cs.statement.code) ?? cs.statement.code}
+                </span>
+                {"disease" in cs.statement &&
+                  ` (${
+                    cs.statement.disease.display ?? cs.statement.disease.code
+                  })`}
+                {cs.statement.modifiers.map((m, mIndex) => (
+                  <span
+                    key={mIndex}
+                    title={getDuoCatalogueEntry(m.code)?.label}
+                  >
+                    {" "}
+                    + {getStringFromDuoCode(m.code) ?? m.code}
+                  </span>
+                ))}
+              </>
+            ) : (
+              <span className="italic">{cs.statement.description}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+/**
+ * An unlock icon that when hovered shows all the consent statements that
+ * apply to a node in the release (including those inherited from its parents).
+ *
+ * @param releaseId
+ * @param nodeId
+ * @constructor
+ */
+export const ConsentPopup: React.FC<Props> = ({ releaseId, nodeId }) => {
+  return (
+    <Popup
+      trigger={<FontAwesomeIcon icon={faUnlock} />}
+      position={["top center", "bottom right", "bottom left"]}
+      on={["hover", "focus"]}
+    >
+      <ConsentStatements releaseId={releaseId} nodeId={nodeId} />
+    </Popup>
+  );
+};
@@ -0,0 +1,175 @@
+import React, { useState } from "react";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faThumbtack } from "@fortawesome/free-solid-svg-icons";
+import {
+  ReleaseManualPinKindType,
+  ReleaseManualPinRequestType,
+  ReleaseManualPinType,
+  ReleaseNodePinType,
+} from "@umccr/elsa-types";
+import axios from "axios";
+import { useMutation, useQueryClient } from "react-query";
+import Popup from "reactjs-popup";
+import classNames from "classnames";
+import { RhInput } from "../../../../components/rh/rh-input";
+
+type Props = {
+  releaseId: string;
+  // the id of any case/patient/specimen
+  nodeId: string;
+  // the pin placed directly on the node (if any)
+  manualPin?: ReleaseNodePinType;
+  isEditable: boolean;
+};
+
+const pinColour = (pin?: ReleaseManualPinKindType) =>
+  classNames({
+    "text-green-600": pin === "include",
+    "text-red-600": pin === "exclude",
+    "text-gray-300": !pin,
+  });
+
+/**
+ * An editor allowing a data owner to pin a node as always included or excluded - or to
+ * remove an existing pin.
+ */
+const ManualPinEditor: React.FC<Props> = ({ releaseId, nodeId, manualPin }) => {
+  const queryClient = useQueryClient();
+
+  const [reason, setReason] = useState<string>(manualPin?.reason ?? "");
+  const [lastMutateError, setLastMutateError] = useState<string | null>(null);
+
+  // the pins change the display of the cases (and the decisions of the next select job)
+  const afterMutate = {
+    onSuccess: () => {
+      queryClient.invalidateQueries("releases-cases");
+      setLastMutateError(null);
+    },
+    onError: (err: any) => {
+      setLastMutateError(err?.response?.data?.detail ?? "Pin not saved");
+    },
+  };
+
+  const pinMutate = useMutation((r: ReleaseManualPinRequestType) =>
+    axios.post<ReleaseManualPinType[]>(
+      `/api/releases/${releaseId}/pins/${nodeId}`,
+      r
+    )
+  );
+
+  const unpinMutate = useMutation(() =>
+    axios.delete<ReleaseManualPinType[]>(
+      `/api/releases/${releaseId}/pins/${nodeId}`
+    )
+  );
+
+  return (
+    <div className="flex flex-col space-y-4 w-96 text-left">
+      {lastMutateError && (
+        <p className="font-bold text-red-700 border-gray-800 border-2 p-2">
+          {lastMutateError}
+        </p>
+      )}
+      <p className="text-sm">
+        A pinned node (and everything below it) is always included in or
+        excluded from the release - whatever the consent says. Pins take effect
+        the next time the selection is run.
+      </p>
+      <RhInput
+        label="Reason"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+      />
+      <div className="flex flex-row space-x-2">
+        <button
+          className="btn btn-blue"
+          disabled={!reason.trim()}
+          onClick={() =>
+            pinMutate.mutate({ pin: "include", reason: reason }, afterMutate)
+          }
+        >
+          Always Include
+        </button>
+        <button
+          className="btn btn-blue"
+          disabled={!reason.trim()}
+          onClick={() =>
+            pinMutate.mutate({ pin: "exclude", reason: reason }, afterMutate)
+          }
+        >
+          Always Exclude
+        </button>
+        {manualPin && (
+          <button
+            className="btn btn-blue"
+            onClick={() => unpinMutate.mutate(undefined, afterMutate)}
+          >
+            Remove Pin
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * A thumbtack icon showing whether a node has been manually pinned (green for
+ * always included, red for always excluded). Hovering over a pin shows why it
+ * was placed - and for those who can edit the release, clicking the icon opens
+ * an editor for the pin.
+ *
+ * @param releaseId
+ * @param nodeId
+ * @param manualPin
+ * @param isEditable
+ * @constructor
+ */
+export const ManualPinPopup: React.FC<Props> = (props) => {
+  const { manualPin, isEditable } = props;
+
+  if (!manualPin && !isEditable) return <></>;
+
+  const icon = (
+    <span
+      className={classNames(pinColour(manualPin?.pin), {
+        "cursor-pointer": isEditable,
+      })}
+      title={isEditable ? manualPin?.reason ?? "Pin" : undefined}
+    >
+      <FontAwesomeIcon icon={faThumbtack} />
+    </span>
+  );
+
+  const details = manualPin && (
+    <div className="p-2 max-w-md text-sm text-left">
+      <p>
+        Always {manualPin.pin === "include" ? "included" : "excluded"} -{" "}
+        {manualPin.reason}
+      </p>
+      <p className="text-xs text-gray-500">
+        Pinned by {manualPin.who} at{" "}
+        {new Date(manualPin.recorded).toLocaleString()}
+      </p>
+    </div>
+  );
+
+  if (!isEditable)
+    return (
+      <Popup
+        trigger={icon}
+        position={["top center", "bottom right", "bottom left"]}
+        on={["hover", "focus"]}
+      >
+        {details}
+      </Popup>
+    );
+
+  return (
+    <Popup trigger={icon} modal nested>
+      <div className="p-4 bg-white max-h-screen overflow-y-auto space-y-4">
+        {details}
+        <ManualPinEditor {...props} />
+      </div>
+    </Popup>
+  );
+};
@@ -35,6 +35,15 @@ export const CasesTable: React.FC<Props> = ({
 }) => {
   const queryClient = useQueryClient();
 
+  // selecting (or unselecting) a case applies to every specimen in the case
+  const onCaseSelectChange = async (id: string, selected: boolean) => {
+    await axios.post<any>(
+      `/api/releases/${releaseId}/nodes/${selected ? "select" : "unselect"}`,
+      [id]
+    );
+    await queryClient.invalidateQueries();
+  };
+
   /**
    * Dynamically create a column list - parametrised by some simple settings.
    *
@@ -58,12 +67,14 @@ export const CasesTable: React.FC<Props> = ({
           header: (h) => "",
           cell: (info) => (
             <IndeterminateCheckbox
-              disabled={true}
               checked={info.getValue() === "selected"}
               indeterminate={info.getValue() === "indeterminate"}
-              onChange={() => {
-                console.log("changed");
-              }}
+              onChange={async (ce) =>
+                await onCaseSelectChange(
+                  info.row.original!.id,
+                  ce.currentTarget.checked
+                )
+              }
             />
           ),
           footer: (props) => props.column.id,
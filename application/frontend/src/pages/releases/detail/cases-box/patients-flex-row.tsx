@@ -14,6 +14,11 @@ import axios from "axios";
 import { useQueryClient } from "react-query";
 import classNames from "classnames";
 import Popup from "reactjs-popup";
+import { SpecimenDecision } from "./specimen-decision";
+import { ConsentPopup } from "./consent-popup";
+import { ConsentEditorPopup } from "../../../../components/consent-editor/consent-editor";
+import { IndeterminateCheckbox } from "../../../../components/indeterminate-checkbox";
+import { ManualPinPopup } from "./manual-pin-popup";
 
 type Props = {
   releaseId: string;
@@ -38,15 +43,14 @@ export const PatientsFlexRow: React.FC<Props> = ({
 }) => {
   const queryClient = useQueryClient();
 
+  // the id can be of a patient or specimen - selecting a patient selects all their specimens
   const onSelectChange = async (id: string) => {
-    await axios.post<any>(`/api/releases/${releaseId}/specimens/select`, [id]);
+    await axios.post<any>(`/api/releases/${releaseId}/nodes/select`, [id]);
     await queryClient.invalidateQueries();
   };
 
   const onUnselectChange = async (id: string) => {
-    await axios.post<any>(`/api/releases/${releaseId}/specimens/unselect`, [
-      id,
-    ]);
+    await axios.post<any>(`/api/releases/${releaseId}/nodes/unselect`, [id]);
     await queryClient.invalidateQueries();
   };
 
@@ -75,30 +79,79 @@ export const PatientsFlexRow: React.FC<Props> = ({
     return (
       <div className={classNames(...patientClasses)}>
         <span>
+          {showCheckboxes && (
+            <>
+              <IndeterminateCheckbox
+                checked={patient.nodeStatus === "selected"}
+                indeterminate={patient.nodeStatus === "indeterminate"}
+                onChange={async (ce) =>
+                  ce.currentTarget.checked
+                    ? await onSelectChange(patient.id)
+                    : await onUnselectChange(patient.id)
+                }
+              />{" "}
+            </>
+          )}
           {patientIcon} {patient.externalId}{" "}
           {patient.customConsent && (
             <>
               {" "}
-              <FontAwesomeIcon icon={faUnlock} />
+              <ConsentPopup releaseId={releaseId} nodeId={patient.id} />
+            </>
+          )}
+          {showCheckboxes && (
+            <>
+              {" "}
+              <ConsentEditorPopup nodeId={patient.id} />
+            </>
+          )}
+          {(showCheckboxes || patient.manualPin) && (
+            <>
+              {" "}
+              <ManualPinPopup
+                releaseId={releaseId}
+                nodeId={patient.id}
+                manualPin={patient.manualPin}
+                isEditable={showCheckboxes}
+              />
             </>
           )}
         </span>
         <ul key={patient.id}>
           {patient.specimens.map((spec) => (
             <li key={spec.id} className="text-left lg:text-right">
-              <FontAwesomeIcon icon={faDna} />
-              {spec.customConsent && (
+              <Popup
+                trigger={
+                  <span>
+                    <FontAwesomeIcon icon={faDna} />
+                    {spec.customConsent && (
+                      <>
+                        {"-"}
+                        <FontAwesomeIcon icon={faUnlock} />
+                      </>
+                    )}
+                  </span>
+                }
+                position={["top center", "bottom right", "bottom left"]}
+                on={["hover", "focus"]}
+              >
+                <SpecimenDecision releaseId={releaseId} specimenId={spec.id} />
+              </Popup>{" "}
+              {showCheckboxes && (
                 <>
-                  {"-"}
-                  <Popup
-                    trigger={<FontAwesomeIcon icon={faUnlock} />}
-                    position={["top center", "bottom right", "bottom left"]}
-                    on={["hover", "focus"]}
-                  >
-                    Tooltip content
-                  </Popup>
+                  <ConsentEditorPopup nodeId={spec.id} />{" "}
                 </>
-              )}{" "}
+              )}
+              {(showCheckboxes || spec.manualPin) && (
+                <>
+                  <ManualPinPopup
+                    releaseId={releaseId}
+                    nodeId={spec.id}
+                    manualPin={spec.manualPin}
+                    isEditable={showCheckboxes}
+                  />{" "}
+                </>
+              )}
               {showCheckboxes && (
                 <label>
                   {spec.externalId}
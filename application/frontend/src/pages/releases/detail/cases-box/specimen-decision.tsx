@@ -0,0 +1,85 @@
+import React from "react";
+import { ReleaseSpecimenDecisionType } from "@umccr/elsa-types";
+import axios from "axios";
+import { useQuery } from "react-query";
+import classNames from "classnames";
+
+type Props = {
+  releaseId: string;
+  specimenId: string;
+};
+
+/**
+ * Displays the reasons that the most recent select job gave for selecting (or
+ * not selecting) a specimen. This is designed to be the content of a tooltip
+ * and so only fetches the decision when it is first displayed.
+ *
+ * @param releaseId
+ * @param specimenId
+ * @constructor
+ */
+export const SpecimenDecision: React.FC<Props> = ({
+  releaseId,
+  specimenId,
+}) => {
+  const decisionQuery = useQuery(
+    ["release-specimen-decision", releaseId, specimenId],
+    async () => {
+      return await axios
+        .get<ReleaseSpecimenDecisionType>(
+          `/api/releases/${releaseId}/specimens/${specimenId}/decision`
+        )
+        .then((response) => response.data);
+    },
+    { retry: false }
+  );
+
+  if (decisionQuery.isLoading) return <div className="p-2">Loading...</div>;
+
+  if (!decisionQuery.isSuccess)
+    return (
+      <div className="p-2">
+        No selection decision has been made for this specimen
+      </div>
+    );
+
+  const decision = decisionQuery.data;
+
+  return (
+    <div className="p-2 max-w-md text-sm text-left">
+      <p className="font-bold">
+        {decision.selected ? "Selected" : "Not selected"} by select job
+      </p>
+      {decision.manualPinReason && (
+        <p>
+          Manually {decision.selected ? "included" : "excluded"} -{" "}
+          {decision.manualPinReason}
+        </p>
+      )}
+      {decision.evaluations.length === 0 && (
+        <p>No consent statements applied to this specimen</p>
+      )}
+      <ul>
+        {decision.evaluations.map((ev, index) => (
+          <li
+            key={index}
+            className={classNames({
+              "text-green-700": ev.allowed,
+              "text-red-700": !ev.allowed,
+            })}
+          >
+            <span className="font-mono">
+              {ev.level}
+              {ev.code && ` ${ev.code}`}
+              {ev.modifier && ` (${ev.modifier})`}
+            </span>{" "}
+            {ev.reason}
+            {ev.field && (
+              <span className="italic"> [application field {ev.field}]</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
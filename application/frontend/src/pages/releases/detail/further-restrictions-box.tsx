@@ -1,18 +1,62 @@
-import React from "react";
+import React, { useState } from "react";
+import { useMutation, useQueryClient } from "react-query";
+import {
+  ReleaseAllowedFileTypesRequestType,
+  ReleaseFileTypeType,
+} from "@umccr/elsa-types";
 import { Box } from "../../../components/boxes";
 import { ReleaseTypeLocal } from "./shared-types";
 import { HrDiv, LeftDiv, RightDiv } from "../../../components/rh/rh-structural";
 import { RhCheckItem, RhChecks } from "../../../components/rh/rh-checks";
+import { axiosPostArgMutationFn, REACT_QUERY_RELEASE_KEYS } from "./queries";
 
 type Props = {
   releaseId: string;
   releaseData: ReleaseTypeLocal;
 };
 
+const FILE_TYPES: ReleaseFileTypeType[] = ["VCF", "BAM", "CRAM", "FASTQ"];
+
 export const FutherRestrictionsBox: React.FC<Props> = ({
   releaseId,
   releaseData,
 }) => {
+  const queryClient = useQueryClient();
+
+  const [lastMutateError, setLastMutateError] = useState<string | null>(null);
+
+  const isDataOwner = releaseData.roleInRelease === "DataOwner";
+
+  const fileTypesMutate = useMutation(
+    axiosPostArgMutationFn<ReleaseAllowedFileTypesRequestType>(
+      `/api/releases/${releaseId}/allowed-file-types`
+    )
+  );
+
+  const toggleFileType = (fileType: ReleaseFileTypeType, allowed: boolean) => {
+    const fileTypes: ReleaseFileTypeType[] = allowed
+      ? [...releaseData.allowedFileTypes, fileType]
+      : releaseData.allowedFileTypes.filter((ft) => ft !== fileType);
+
+    fileTypesMutate.mutate(
+      { fileTypes },
+      {
+        onSuccess: (result: ReleaseTypeLocal) => {
+          queryClient.setQueryData(
+            REACT_QUERY_RELEASE_KEYS.detail(releaseId),
+            result
+          );
+          setLastMutateError(null);
+        },
+        onError: (err: any) => {
+          setLastMutateError(
+            err?.response?.data?.detail ?? "File types not changed"
+          );
+        },
+      }
+    );
+  };
+
   return (
     <Box heading="Further Restrictions">
       <div className="md:grid md:grid-cols-5 md:gap-6">
@@ -23,10 +67,21 @@ export const FutherRestrictionsBox: React.FC<Props> = ({
           }
         />
         <RightDiv>
+          {lastMutateError && (
+            <p className="font-bold text-red-700 border-gray-800 border-2 p-2">
+              {lastMutateError}
+            </p>
+          )}
           <RhChecks label="File types">
-            <RhCheckItem label="VCF" />
-            <RhCheckItem label="BAM" />
-            <RhCheckItem label="FASTQ" />
+            {FILE_TYPES.map((ft) => (
+              <RhCheckItem
+                key={ft}
+                label={ft}
+                checked={releaseData.allowedFileTypes.includes(ft)}
+                disabled={!isDataOwner || fileTypesMutate.isLoading}
+                onChange={(e) => toggleFileType(ft, e.target.checked)}
+              />
+            ))}
           </RhChecks>
         </RightDiv>
       </div>
@@ -56,7 +111,10 @@ export const FutherRestrictionsBox: React.FC<Props> = ({
         <RightDiv>
           <RhChecks label="Access">
             <RhCheckItem label="S3" />
-            <RhCheckItem label="htsget" />
+            <RhCheckItem
+              label="htsget"
+              extra={`${window.location.origin}/api/releases/${releaseId}/htsget`}
+            />
             <RhCheckItem label="DRS" />
           </RhChecks>
         </RightDiv>
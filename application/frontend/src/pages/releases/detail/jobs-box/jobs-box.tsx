@@ -0,0 +1,199 @@
+import React, { useState } from "react";
+import { useQuery } from "react-query";
+import axios from "axios";
+import classNames from "classnames";
+import {
+  ReleaseJobSelectionComparisonType,
+  ReleaseJobSummaryType,
+} from "@umccr/elsa-types";
+import { Box } from "../../../../components/boxes";
+import { SelectionPreview } from "./selection-preview";
+
+type Props = {
+  releaseId: string;
+
+  // whether a job is currently running - when this changes a job has (probably) just finished
+  // so the history is refetched
+  isJobRunning: boolean;
+};
+
+/**
+ * A box showing the history of the jobs that have run against a release - allowing the
+ * specimens selected by any of them to be compared against the current selection (and the
+ * changes of dry runs to be previewed and accepted).
+ */
+export const JobsBox: React.FC<Props> = ({ releaseId, isJobRunning }) => {
+  const [compareJobId, setCompareJobId] = useState<string | undefined>(
+    undefined
+  );
+  const [previewJobId, setPreviewJobId] = useState<string | undefined>(
+    undefined
+  );
+
+  const jobsQuery = useQuery(
+    ["release-jobs", releaseId, isJobRunning],
+    async () => {
+      return await axios
+        .get<ReleaseJobSummaryType[]>(`/api/releases/${releaseId}/jobs`)
+        .then((response) => response.data);
+    }
+  );
+
+  const comparisonQuery = useQuery(
+    ["release-job-comparison", releaseId, compareJobId],
+    async () => {
+      return await axios
+        .get<ReleaseJobSelectionComparisonType>(
+          `/api/releases/${releaseId}/jobs/${compareJobId}/comparison`
+        )
+        .then((response) => response.data);
+    },
+    { enabled: !!compareJobId }
+  );
+
+  const dateString = (d?: Date | string) =>
+    d ? new Date(d).toLocaleString() : "";
+
+  return (
+    <Box heading="Job History">
+      <div className="flex flex-col space-y-4">
+        {jobsQuery.isSuccess && jobsQuery.data.length === 0 && (
+          <p>No jobs have been run for this release</p>
+        )}
+        {jobsQuery.isSuccess && jobsQuery.data.length > 0 && (
+          <table className="w-full text-sm text-left text-gray-500">
+            <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3">
+                  Job
+                </th>
+                <th scope="col" className="px-6 py-3">
+                  Status
+                </th>
+                <th scope="col" className="px-6 py-3">
+                  Created
+                </th>
+                <th scope="col" className="px-6 py-3">
+                  Started
+                </th>
+                <th scope="col" className="px-6 py-3">
+                  Ended
+                </th>
+                <th scope="col" className="px-6 py-3">
+                  Queued
+                </th>
+                <th scope="col" className="px-6 py-3">
+                  Selected
+                </th>
+                <th scope="col" className="px-6 py-3">
+                  Final Messages
+                </th>
+                <th scope="col" className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {jobsQuery.data.map((j) => (
+                <tr
+                  key={j.id}
+                  className={classNames("border-b", {
+                    "bg-white": j.id !== compareJobId,
+                    "bg-blue-50": j.id === compareJobId,
+                  })}
+                >
+                  <td className="px-6 py-4">{j.jobType}</td>
+                  <td
+                    className={classNames("px-6 py-4 font-bold", {
+                      "text-red-700": j.status === "failed",
+                    })}
+                  >
+                    {j.status}
+                    {j.isDryRun && (
+                      <span className="block text-xs font-normal">
+                        dry run{j.previewOutcome && ` (${j.previewOutcome})`}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4">{dateString(j.created)}</td>
+                  <td className="px-6 py-4">{dateString(j.started)}</td>
+                  <td className="px-6 py-4">{dateString(j.ended)}</td>
+                  <td className="px-6 py-4">{j.initialTodoCount}</td>
+                  <td className="px-6 py-4">{j.selectedCount}</td>
+                  <td className="px-6 py-4">
+                    <ul className="text-xs">
+                      {j.messages.map((m, i) => (
+                        <li key={i}>{m.text}</li>
+                      ))}
+                    </ul>
+                  </td>
+                  <td className="px-6 py-4">
+                    {j.jobType === "SelectJob" && j.status === "succeeded" && (
+                      <button
+                        className="font-medium text-blue-600 hover:underline"
+                        onClick={() =>
+                          setCompareJobId(
+                            j.id === compareJobId ? undefined : j.id
+                          )
+                        }
+                      >
+                        {j.id === compareJobId ? "Hide" : "Compare"}
+                      </button>
+                    )}
+                    {j.isDryRun &&
+                      j.status === "succeeded" &&
+                      !j.previewOutcome && (
+                        <button
+                          className="ml-2 font-medium text-blue-600 hover:underline"
+                          onClick={() =>
+                            setPreviewJobId(
+                              j.id === previewJobId ? undefined : j.id
+                            )
+                          }
+                        >
+                          {j.id === previewJobId ? "Hide" : "Preview"}
+                        </button>
+                      )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {previewJobId && (
+          <SelectionPreview
+            releaseId={releaseId}
+            jobId={previewJobId}
+            onDecided={() => setPreviewJobId(undefined)}
+          />
+        )}
+        {compareJobId && comparisonQuery.isSuccess && (
+          <div className="text-sm">
+            <p>
+              The job selected {comparisonQuery.data.jobSelectedCount}{" "}
+              specimen(s) and {comparisonQuery.data.currentSelectedCount}{" "}
+              specimen(s) are currently selected -{" "}
+              {comparisonQuery.data.bothSelectedCount} specimen(s) are in both.
+            </p>
+            <div className="grid grid-cols-2 gap-4 mt-2">
+              <div>
+                <h3 className="font-medium">Only selected by the job</h3>
+                <ul className="font-mono text-xs">
+                  {comparisonQuery.data.onlyInJob.map((s, i) => (
+                    <li key={i}>{s}</li>
+                  ))}
+                </ul>
+              </div>
+              <div>
+                <h3 className="font-medium">Only in the current selection</h3>
+                <ul className="font-mono text-xs">
+                  {comparisonQuery.data.onlyInCurrent.map((s, i) => (
+                    <li key={i}>{s}</li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </Box>
+  );
+};
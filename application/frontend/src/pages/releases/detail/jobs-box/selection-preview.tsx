@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "react-query";
+import axios from "axios";
+import {
+  ReleaseSelectionPreviewAcceptType,
+  ReleaseSelectionPreviewSpecimenType,
+  ReleaseSelectionPreviewType,
+} from "@umccr/elsa-types";
+import { axiosPostArgMutationFn, REACT_QUERY_RELEASE_KEYS } from "../queries";
+import { ReleaseTypeLocal } from "../shared-types";
+
+type Props = {
+  releaseId: string;
+  jobId: string;
+
+  // called once the preview has been accepted or rejected
+  onDecided: () => void;
+};
+
+/**
+ * The changes a dry run select job would make to the selection of the release - with
+ * the ability to accept all, some or none of them.
+ */
+export const SelectionPreview: React.FC<Props> = ({
+  releaseId,
+  jobId,
+  onDecided,
+}) => {
+  const queryClient = useQueryClient();
+
+  const previewQuery = useQuery(
+    ["release-job-preview", releaseId, jobId],
+    async () => {
+      return await axios
+        .get<ReleaseSelectionPreviewType>(
+          `/api/releases/${releaseId}/jobs/${jobId}/preview`
+        )
+        .then((response) => response.data);
+    }
+  );
+
+  // the specimen ids of the changes that have been ticked for acceptance
+  const [ticked, setTicked] = useState<Set<string>>(new Set());
+
+  // by default every change is ticked
+  useEffect(() => {
+    if (previewQuery.isSuccess)
+      setTicked(
+        new Set(
+          [...previewQuery.data.added, ...previewQuery.data.removed].map(
+            (sp) => sp.id
+          )
+        )
+      );
+  }, [previewQuery.isSuccess, previewQuery.data]);
+
+  const afterDecided = () => {
+    queryClient.invalidateQueries("releases-cases");
+    queryClient.invalidateQueries(["release-jobs", releaseId]);
+    onDecided();
+  };
+
+  const acceptMutate = useMutation(
+    axiosPostArgMutationFn<ReleaseSelectionPreviewAcceptType>(
+      `/api/releases/${releaseId}/jobs/${jobId}/preview/accept`
+    )
+  );
+
+  const rejectMutate = useMutation(() =>
+    axios.post(`/api/releases/${releaseId}/jobs/${jobId}/preview/reject`)
+  );
+
+  const onAccept = (accept: ReleaseSelectionPreviewAcceptType) =>
+    acceptMutate.mutate(accept, {
+      onSuccess: (result: ReleaseTypeLocal) => {
+        queryClient.setQueryData(
+          REACT_QUERY_RELEASE_KEYS.detail(releaseId),
+          result
+        );
+        afterDecided();
+      },
+    });
+
+  const toggle = (id: string) => {
+    const newTicked = new Set(ticked);
+    if (newTicked.has(id)) newTicked.delete(id);
+    else newTicked.add(id);
+    setTicked(newTicked);
+  };
+
+  const specimenList = (
+    heading: string,
+    specimens: ReleaseSelectionPreviewSpecimenType[]
+  ) => (
+    <div>
+      <h3 className="font-medium">
+        {heading} ({specimens.length})
+      </h3>
+      <ul className="font-mono text-xs">
+        {specimens.map((sp) => (
+          <li key={sp.id}>
+            <label>
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={ticked.has(sp.id)}
+                onChange={() => toggle(sp.id)}
+              />
+              {sp.externalId} (case {sp.caseExternalId})
+              {sp.pinned && (
+                <span className="ml-2 italic">
+                  pinned to {sp.pinned} - the pin overrides this change
+                </span>
+              )}
+            </label>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  if (!previewQuery.isSuccess) return <></>;
+
+  const preview = previewQuery.data;
+
+  const isDecided = !!preview.previewOutcome;
+
+  return (
+    <div className="flex flex-col space-y-4 text-sm">
+      <p>
+        The job would add {preview.added.length} specimen(s) to and remove{" "}
+        {preview.removed.length} specimen(s) from the release -{" "}
+        {preview.unchangedCount} specimen(s) are unchanged.
+        {isDecided && ` This preview was ${preview.previewOutcome}.`}
+      </p>
+      <table className="w-full text-left text-gray-500">
+        <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+          <tr>
+            <th scope="col" className="px-6 py-3">
+              Dataset
+            </th>
+            <th scope="col" className="px-6 py-3">
+              Added
+            </th>
+            <th scope="col" className="px-6 py-3">
+              Removed
+            </th>
+            <th scope="col" className="px-6 py-3">
+              Unchanged
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {preview.datasets.map((d) => (
+            <tr key={d.datasetUri} className="bg-white border-b">
+              <td className="px-6 py-4 font-mono">{d.datasetUri}</td>
+              <td className="px-6 py-4">{d.addedCount}</td>
+              <td className="px-6 py-4">{d.removedCount}</td>
+              <td className="px-6 py-4">{d.unchangedCount}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="grid grid-cols-2 gap-4">
+        {specimenList("Added", preview.added)}
+        {specimenList("Removed", preview.removed)}
+      </div>
+      {!isDecided && (
+        <div className="flex flex-row space-x-4">
+          <button className="btn-blue h-8" onClick={() => onAccept({})}>
+            Accept All
+          </button>
+          <button
+            className="btn-blue h-8"
+            onClick={() =>
+              onAccept({
+                addedSpecimenIds: preview.added
+                  .filter((sp) => ticked.has(sp.id))
+                  .map((sp) => sp.id),
+                removedSpecimenIds: preview.removed
+                  .filter((sp) => ticked.has(sp.id))
+                  .map((sp) => sp.id),
+              })
+            }
+          >
+            Accept Ticked
+          </button>
+          <button
+            className="btn-blue h-8"
+            onClick={() =>
+              rejectMutate.mutate(undefined, { onSuccess: afterDecided })
+            }
+          >
+            Reject
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
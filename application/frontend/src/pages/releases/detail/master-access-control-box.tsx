@@ -1,30 +1,75 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { useMutation, useQueryClient } from "react-query";
+import { ReleaseMasterAccessRequestType } from "@umccr/elsa-types";
 import { Box } from "../../../components/boxes";
 import { ReleaseTypeLocal } from "./shared-types";
 import { LeftDiv, RightDiv } from "../../../components/rh/rh-structural";
-import { axiosPostArgMutationFn, REACT_QUERY_RELEASE_KEYS } from "./queries";
+import { RhInput } from "../../../components/rh/rh-input";
+import {
+  axiosPostArgMutationFn,
+  axiosPostNullMutationFn,
+  REACT_QUERY_RELEASE_KEYS,
+} from "./queries";
 
 type Props = {
   releaseId: string;
   releaseData: ReleaseTypeLocal;
 };
 
+/**
+ * Convert a date into the (local time) string format used by datetime-local inputs.
+ */
+function toDateTimeLocal(d?: string | Date): string {
+  if (!d) return "";
+
+  const dt = new Date(d);
+
+  return new Date(dt.getTime() - dt.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+}
+
 export const MasterAccessControlBox: React.FC<Props> = ({
   releaseId,
   releaseData,
 }) => {
   const queryClient = useQueryClient();
 
-  const afterMutateUpdateQueryData = (result: ReleaseTypeLocal) => {
-    queryClient.setQueryData(
-      REACT_QUERY_RELEASE_KEYS.detail(releaseId),
-      result
-    );
+  const [start, setStart] = useState<string>("");
+  const [end, setEnd] = useState<string>("");
+  const [lastMutateError, setLastMutateError] = useState<string | null>(null);
+
+  // whenever the release changes we reset the inputs to the current access window
+  useEffect(() => {
+    setStart(toDateTimeLocal(releaseData.accessStartDate));
+    setEnd(toDateTimeLocal(releaseData.accessEndDate));
+  }, [releaseData.accessStartDate, releaseData.accessEndDate]);
+
+  const afterMutate = {
+    onSuccess: (result: ReleaseTypeLocal) => {
+      queryClient.setQueryData(
+        REACT_QUERY_RELEASE_KEYS.detail(releaseId),
+        result
+      );
+      setLastMutateError(null);
+    },
+    onError: (err: any) => {
+      setLastMutateError(err?.response?.data?.detail ?? "Access not changed");
+    },
   };
 
-  const applyAllMutate = useMutation(
-    axiosPostArgMutationFn(`/api/releases/${releaseId}/masterAccess`)
+  const accessMutate = useMutation(
+    axiosPostArgMutationFn<ReleaseMasterAccessRequestType>(
+      `/api/releases/${releaseId}/access`
+    )
+  );
+
+  const stopMutate = useMutation(
+    axiosPostNullMutationFn(`/api/releases/${releaseId}/access/stop`)
+  );
+
+  const revokeMutate = useMutation(
+    axiosPostNullMutationFn(`/api/releases/${releaseId}/access/revoke`)
   );
 
   return (
@@ -37,8 +82,70 @@ export const MasterAccessControlBox: React.FC<Props> = ({
           }
         />
         <RightDiv>
-          <button className="bg-green-400 p-4 rounded">Start</button>
-          <button className="bg-red-400 p-4 rounded">Stop All Access</button>
+          <div className="flex flex-col space-y-4">
+            {lastMutateError && (
+              <p className="font-bold text-red-700 border-gray-800 border-2 p-2">
+                {lastMutateError}
+              </p>
+            )}
+            <p>
+              Access is currently{" "}
+              <span className="font-bold">
+                {releaseData.accessEnabled ? "enabled" : "not enabled"}
+              </span>
+            </p>
+            <div className="grid grid-cols-6 gap-6">
+              <RhInput
+                label="Start"
+                type="datetime-local"
+                value={start}
+                onChange={(e) => setStart(e.target.value)}
+              />
+              <RhInput
+                label="End"
+                type="datetime-local"
+                value={end}
+                onChange={(e) => setEnd(e.target.value)}
+              />
+            </div>
+            <div className="flex flex-row space-x-4">
+              <button
+                className="bg-green-400 p-4 rounded"
+                disabled={!start || !end}
+                onClick={() =>
+                  accessMutate.mutate(
+                    {
+                      start: new Date(start).toISOString(),
+                      end: new Date(end).toISOString(),
+                    },
+                    afterMutate
+                  )
+                }
+              >
+                Start
+              </button>
+              <button
+                className="bg-red-400 p-4 rounded"
+                disabled={!releaseData.accessEnabled}
+                onClick={() => stopMutate.mutate(null, afterMutate)}
+              >
+                Stop All Access
+              </button>
+              <button
+                className="bg-red-400 p-4 rounded"
+                onClick={() => {
+                  if (
+                    window.confirm(
+                      "This will delete any access points, change the release password and invalidate all manifests - are you sure?"
+                    )
+                  )
+                    revokeMutate.mutate(null, afterMutate);
+                }}
+              >
+                Revoke Issued Access
+              </button>
+            </div>
+          </div>
         </RightDiv>
       </div>
     </Box>
@@ -0,0 +1,195 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "react-query";
+import axios from "axios";
+import {
+  ReleaseParticipantAddRequestType,
+  ReleaseParticipantRoleType,
+  ReleaseParticipantType,
+} from "@umccr/elsa-types";
+import { Box } from "../../../components/boxes";
+import { LeftDiv, RightDiv } from "../../../components/rh/rh-structural";
+import { RhInput } from "../../../components/rh/rh-input";
+import { RhSelect } from "../../../components/rh/rh-select";
+
+type Props = {
+  releaseId: string;
+  // whether the current user can change the participants
+  isEditable: boolean;
+};
+
+const ROLES: ReleaseParticipantRoleType[] = ["DataOwner", "PI", "Member"];
+
+const roleOptions = ROLES.map((r) => ({ label: r, value: r }));
+
+/**
+ * A box showing the users participating in a release - and allowing data owners
+ * to invite users, change their roles and remove them.
+ */
+export const ParticipantsBox: React.FC<Props> = ({ releaseId, isEditable }) => {
+  const queryClient = useQueryClient();
+
+  const participantsQueryKey = ["release-participants", releaseId];
+
+  const [who, setWho] = useState("");
+  const [role, setRole] = useState<ReleaseParticipantRoleType>("Member");
+  const [lastMutateError, setLastMutateError] = useState<string | null>(null);
+
+  const participantsQuery = useQuery(participantsQueryKey, async () => {
+    return await axios
+      .get<ReleaseParticipantType[]>(`/api/releases/${releaseId}/participants`)
+      .then((response) => response.data);
+  });
+
+  const afterMutate = {
+    onSuccess: (result: ReleaseParticipantType[]) => {
+      queryClient.setQueryData(participantsQueryKey, result);
+      setLastMutateError(null);
+    },
+    onError: (err: any) => {
+      setLastMutateError(
+        err?.response?.data?.detail ?? "Participants not changed"
+      );
+    },
+  };
+
+  const addMutate = useMutation((r: ReleaseParticipantAddRequestType) =>
+    axios
+      .post<ReleaseParticipantType[]>(
+        `/api/releases/${releaseId}/participants`,
+        r
+      )
+      .then((response) => response.data)
+  );
+
+  const roleMutate = useMutation(
+    (c: { participantId: string; role: ReleaseParticipantRoleType }) =>
+      axios
+        .post<ReleaseParticipantType[]>(
+          `/api/releases/${releaseId}/participants/${c.participantId}`,
+          { role: c.role }
+        )
+        .then((response) => response.data)
+  );
+
+  const removeMutate = useMutation((participantId: string) =>
+    axios
+      .delete<ReleaseParticipantType[]>(
+        `/api/releases/${releaseId}/participants/${participantId}`
+      )
+      .then((response) => response.data)
+  );
+
+  return (
+    <Box heading="Participants">
+      <div className="md:grid md:grid-cols-5 md:gap-6">
+        <LeftDiv
+          heading={"Participants"}
+          extra={
+            "The users involved in this release. Data owners manage the release - PIs and members are the researchers who are given access to the released data."
+          }
+        />
+        <RightDiv>
+          <div className="flex flex-col space-y-4">
+            {lastMutateError && (
+              <p className="font-bold text-red-700 border-gray-800 border-2 p-2">
+                {lastMutateError}
+              </p>
+            )}
+            <table className="w-full text-sm text-left text-gray-500">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3">Subject</th>
+                  <th className="px-6 py-3">Name</th>
+                  <th className="px-6 py-3">Email</th>
+                  <th className="px-6 py-3">Role</th>
+                  {isEditable && <th className="px-6 py-3" />}
+                </tr>
+              </thead>
+              <tbody>
+                {(participantsQuery.data ?? []).map((p) => (
+                  <tr key={p.id} className="bg-white border-b">
+                    <td className="px-6 py-4 font-mono">{p.subjectId}</td>
+                    <td className="px-6 py-4">{p.displayName}</td>
+                    <td className="px-6 py-4">{p.email}</td>
+                    <td className="px-6 py-4">
+                      {isEditable ? (
+                        <select
+                          value={p.role}
+                          onChange={(e) =>
+                            roleMutate.mutate(
+                              {
+                                participantId: p.id,
+                                role: e.target
+                                  .value as ReleaseParticipantRoleType,
+                              },
+                              afterMutate
+                            )
+                          }
+                        >
+                          {ROLES.map((r) => (
+                            <option key={r} value={r}>
+                              {r}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        p.role
+                      )}
+                    </td>
+                    {isEditable && (
+                      <td className="px-6 py-4 text-right">
+                        <button
+                          className="text-red-600 hover:underline"
+                          onClick={() => removeMutate.mutate(p.id, afterMutate)}
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {isEditable && (
+              <>
+                <div className="grid grid-cols-6 gap-6 items-end">
+                  <RhInput
+                    label="Invite by subject id or email"
+                    value={who}
+                    onChange={(e) => setWho(e.target.value)}
+                  />
+                  <RhSelect
+                    label="Role"
+                    options={roleOptions}
+                    value={role}
+                    onChange={(e) =>
+                      setRole(e.target.value as ReleaseParticipantRoleType)
+                    }
+                  />
+                </div>
+                <button
+                  className="btn-blue w-60"
+                  disabled={!who.trim()}
+                  onClick={() =>
+                    addMutate.mutate(
+                      { subjectIdOrEmail: who.trim(), role: role },
+                      {
+                        ...afterMutate,
+                        onSuccess: (result) => {
+                          afterMutate.onSuccess(result);
+                          setWho("");
+                        },
+                      }
+                    )
+                  }
+                >
+                  Invite
+                </button>
+              </>
+            )}
+          </div>
+        </RightDiv>
+      </div>
+    </Box>
+  );
+};
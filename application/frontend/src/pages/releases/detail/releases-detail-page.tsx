@@ -6,16 +6,18 @@ import { LayoutBase } from "../../../layouts/layout-base";
 import { CasesBox } from "./cases-box/cases-box";
 import { VerticalTabs } from "../../../components/vertical-tabs";
 import { AwsS3PresignedForm } from "./aws-s3-presigned-form";
+import { AwsS3AccessPointForm } from "./aws-s3-access-point-form";
 import { ApplicationCodedBox } from "./application-coded-box";
 import { InformationBox } from "./information-box";
 import { REACT_QUERY_RELEASE_KEYS, specificReleaseQuery } from "./queries";
 import { BulkBox } from "./bulk-box";
 import { isUndefined } from "lodash";
 import { FutherRestrictionsBox } from "./further-restrictions-box";
-import axios from "axios";
 import { usePageSizer } from "../../../hooks/page-sizer";
 import { MasterAccessControlBox } from "./master-access-control-box";
 import { LogsBox } from "./logs-box/logs-box";
+import { JobsBox } from "./jobs-box/jobs-box";
+import { ParticipantsBox } from "./participants-box";
 
 /**
  * The master page layout performing actions/viewing data for a single
@@ -75,14 +77,18 @@ export const ReleasesDetailPage: React.FC = () => {
                     processing is finished.
                   </p>
                   <ul className="h-12">
-                    {releaseQuery.data.runningJob!.messages.map((m) => (
-                      <li>{m}</li>
+                    {releaseQuery.data.runningJob!.messages.map((m, i) => (
+                      <li key={i}>{m.text}</li>
                     ))}
                   </ul>
                 </>
               </BoxNoPad>
             )}
 
+            {releaseQuery.data.permissionEditSelections && (
+              <JobsBox releaseId={releaseId} isJobRunning={isJobRunning} />
+            )}
+
             {releaseQuery.data.permissionEditSelections && (
               <FutherRestrictionsBox
                 releaseId={releaseId}
@@ -97,17 +103,20 @@ export const ReleasesDetailPage: React.FC = () => {
               />
             )}
 
+            <ParticipantsBox
+              releaseId={releaseId}
+              isEditable={releaseQuery.data.roleInRelease === "DataOwner"}
+            />
             <Box heading="Access Data">
               <div className="flex flex-row">
-                <VerticalTabs tabs={["AWS S3 PreSigned", "htsget"]}>
+                <VerticalTabs
+                  tabs={["AWS S3 PreSigned", "AWS S3 Access Point"]}
+                >
                   <AwsS3PresignedForm releaseId={releaseId} />
-                  <form
-                    onSubmit={() =>
-                      axios.post(`/api/releases/${releaseId}/cfn`)
-                    }
-                  >
-                    <input type="submit" className="btn-blue w-60" />
-                  </form>
+                  <AwsS3AccessPointForm
+                    releaseId={releaseId}
+                    releaseData={releaseQuery.data}
+                  />
                 </VerticalTabs>
               </div>
             </Box>
@@ -0,0 +1,302 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "react-query";
+import axios from "axios";
+import { useNavigate } from "react-router-dom";
+import {
+  DatasetOwnedType,
+  ReleaseCreateRequestType,
+  ReleaseDetailType,
+  ReleaseParticipantRoleType,
+} from "@umccr/elsa-types";
+import { Box } from "../../components/boxes";
+import { RhInput } from "../../components/rh/rh-input";
+import { RhTextArea } from "../../components/rh/rh-text-area";
+import { RhSelect } from "../../components/rh/rh-select";
+import { RhCheckItem, RhChecks } from "../../components/rh/rh-checks";
+
+type Props = {
+  onCancel: () => void;
+};
+
+const STEPS = ["Datasets", "Application", "Participants", "Review"];
+
+type StudyType = ReleaseCreateRequestType["applicationCodedStudyType"];
+
+/**
+ * A multi-step wizard for a data owner to create a new release of
+ * datasets they own.
+ */
+export const NewReleaseWizardBox: React.FC<Props> = ({ onCancel }) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [step, setStep] = useState(0);
+
+  const [datasetUris, setDatasetUris] = useState<string[]>([]);
+  const [identifier, setIdentifier] = useState("");
+  const [title, setTitle] = useState("");
+  const [details, setDetails] = useState("");
+  const [studyType, setStudyType] = useState<StudyType>("HMB");
+  const [agreesToPublish, setAgreesToPublish] = useState(false);
+  const [isNotCommercial, setIsNotCommercial] = useState(false);
+  const [participants, setParticipants] = useState<
+    ReleaseCreateRequestType["participants"]
+  >([]);
+  const [newSubjectId, setNewSubjectId] = useState("");
+  const [newRole, setNewRole] = useState<ReleaseParticipantRoleType>("PI");
+
+  const [lastMutateError, setLastMutateError] = useState<string | null>(null);
+
+  const ownedQuery = useQuery(["datasets-owned"], async () => {
+    return await axios
+      .get<DatasetOwnedType[]>(`/api/datasets/owned`)
+      .then((response) => response.data);
+  });
+
+  const createMutate = useMutation((r: ReleaseCreateRequestType) =>
+    axios
+      .post<ReleaseDetailType>(`/api/releases`, r)
+      .then((response) => response.data)
+  );
+
+  const canAdvance = [
+    datasetUris.length > 0,
+    identifier.trim().length > 0 && title.trim().length > 0,
+    true,
+    true,
+  ][step];
+
+  const toggleDataset = (uri: string, checked: boolean) =>
+    setDatasetUris(
+      checked
+        ? [...datasetUris, uri]
+        : datasetUris.filter((existing) => existing !== uri)
+    );
+
+  const addParticipant = () => {
+    const subjectId = newSubjectId.trim();
+
+    if (!subjectId || participants.some((p) => p.subjectId === subjectId))
+      return;
+
+    setParticipants([...participants, { subjectId, role: newRole }]);
+    setNewSubjectId("");
+  };
+
+  const create = () =>
+    createMutate.mutate(
+      {
+        applicationDacIdentifier: identifier,
+        applicationDacTitle: title,
+        applicationDacDetails: details || undefined,
+        applicationCodedStudyType: studyType,
+        applicationCodedStudyAgreesToPublish: agreesToPublish,
+        applicationCodedStudyIsNotCommercial: isNotCommercial,
+        datasetUris: datasetUris,
+        participants: participants,
+      },
+      {
+        onSuccess: (created) => {
+          queryClient.invalidateQueries("releases");
+          navigate(`/releases/${created.id}`);
+        },
+        onError: (err: any) => {
+          setLastMutateError(
+            err?.response?.data?.detail ?? "Release not created"
+          );
+        },
+      }
+    );
+
+  return (
+    <Box heading={`New Release - ${STEPS[step]}`}>
+      <div className="flex flex-col space-y-6">
+        <ol className="flex flex-row space-x-4 text-sm">
+          {STEPS.map((s, i) => (
+            <li
+              key={s}
+              className={i === step ? "font-bold" : "text-gray-400"}
+            >{`${i + 1}. ${s}`}</li>
+          ))}
+        </ol>
+
+        {lastMutateError && (
+          <p className="font-bold text-red-700 border-gray-800 border-2 p-2">
+            {lastMutateError}
+          </p>
+        )}
+
+        {step === 0 && (
+          <RhChecks label="Datasets you own">
+            {ownedQuery.data && ownedQuery.data.length === 0 && (
+              <p>You do not own any datasets that can be released</p>
+            )}
+            {(ownedQuery.data ?? []).map((ds) => (
+              <RhCheckItem
+                key={ds.uri}
+                label={ds.uri}
+                extra={ds.description}
+                checked={datasetUris.includes(ds.uri)}
+                onChange={(e) => toggleDataset(ds.uri, e.target.checked)}
+              />
+            ))}
+          </RhChecks>
+        )}
+
+        {step === 1 && (
+          <div className="grid grid-cols-6 gap-6">
+            <RhInput
+              label="DAC Identifier"
+              value={identifier}
+              onChange={(e) => setIdentifier(e.target.value)}
+            />
+            <RhInput
+              label="Title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+            <div className="col-span-6">
+              <RhTextArea
+                label="Details"
+                rows={4}
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+              />
+            </div>
+            <RhSelect
+              label="Study Type"
+              extra="The rest of the coded application can be edited once the release is created"
+              options={["HMB", "DS", "CC", "GRU", "POA"].map((t) => ({
+                label: t,
+                value: t,
+              }))}
+              value={studyType}
+              onChange={(e) => setStudyType(e.target.value as StudyType)}
+            />
+            <div className="col-span-6">
+              <RhChecks label="Study Conditions">
+                <RhCheckItem
+                  label="Study agrees to publish"
+                  checked={agreesToPublish}
+                  onChange={(e) => setAgreesToPublish(e.target.checked)}
+                />
+                <RhCheckItem
+                  label="Study is not commercial"
+                  checked={isNotCommercial}
+                  onChange={(e) => setIsNotCommercial(e.target.checked)}
+                />
+              </RhChecks>
+            </div>
+          </div>
+        )}
+
+        {step === 2 && (
+          <div className="flex flex-col space-y-4">
+            <p className="text-sm text-gray-500">
+              You will be a data owner of the release - other participants must
+              already be users of Elsa.
+            </p>
+            <div className="grid grid-cols-6 gap-6 items-end">
+              <RhInput
+                label="Subject Id"
+                value={newSubjectId}
+                onChange={(e) => setNewSubjectId(e.target.value)}
+              />
+              <RhSelect
+                label="Role"
+                options={["DataOwner", "PI", "Member"].map((r) => ({
+                  label: r,
+                  value: r,
+                }))}
+                value={newRole}
+                onChange={(e) =>
+                  setNewRole(e.target.value as ReleaseParticipantRoleType)
+                }
+              />
+            </div>
+            <button
+              className="btn-blue w-60"
+              disabled={!newSubjectId.trim()}
+              onClick={addParticipant}
+            >
+              Add Participant
+            </button>
+            <ul>
+              {participants.map((p) => (
+                <li key={p.subjectId} className="flex flex-row space-x-4">
+                  <span className="font-mono">{p.subjectId}</span>
+                  <span>{p.role}</span>
+                  <button
+                    className="text-red-600"
+                    onClick={() =>
+                      setParticipants(
+                        participants.filter((q) => q.subjectId !== p.subjectId)
+                      )
+                    }
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {step === 3 && (
+          <dl className="grid grid-cols-4 gap-2 text-sm">
+            <dt className="font-bold">Datasets</dt>
+            <dd className="col-span-3">{datasetUris.join(", ")}</dd>
+            <dt className="font-bold">DAC Identifier</dt>
+            <dd className="col-span-3">{identifier}</dd>
+            <dt className="font-bold">Title</dt>
+            <dd className="col-span-3">{title}</dd>
+            <dt className="font-bold">Study Type</dt>
+            <dd className="col-span-3">{studyType}</dd>
+            <dt className="font-bold">Agrees To Publish</dt>
+            <dd className="col-span-3">{agreesToPublish ? "Yes" : "No"}</dd>
+            <dt className="font-bold">Not Commercial</dt>
+            <dd className="col-span-3">{isNotCommercial ? "Yes" : "No"}</dd>
+            <dt className="font-bold">Participants</dt>
+            <dd className="col-span-3">
+              {participants.length === 0
+                ? "<only you>"
+                : participants
+                    .map((p) => `${p.subjectId} (${p.role})`)
+                    .join(", ")}
+            </dd>
+          </dl>
+        )}
+
+        <div className="flex flex-row space-x-4">
+          <button className="btn-blue w-40" onClick={onCancel}>
+            Cancel
+          </button>
+          <button
+            className="btn-blue w-40"
+            disabled={step === 0}
+            onClick={() => setStep(step - 1)}
+          >
+            Back
+          </button>
+          {step < STEPS.length - 1 ? (
+            <button
+              className="btn-blue w-40"
+              disabled={!canAdvance}
+              onClick={() => setStep(step + 1)}
+            >
+              Next
+            </button>
+          ) : (
+            <button
+              className="btn-blue w-40"
+              disabled={createMutate.isLoading}
+              onClick={create}
+            >
+              Create Release
+            </button>
+          )}
+        </div>
+      </div>
+    </Box>
+  );
+};
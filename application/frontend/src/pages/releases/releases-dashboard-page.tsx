@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useState } from "react";
 import { useEnvRelay } from "../../providers/env-relay-provider";
 import { useQuery } from "react-query";
 import axios from "axios";
@@ -10,23 +10,52 @@ import { SubmitHandler, useForm } from "react-hook-form";
 import {
   DatasetGen3SyncRequestType,
   ReleaseRemsSyncRequestType,
-  ReleaseDetailType,
+  ReleaseSummaryType,
 } from "@umccr/elsa-types";
 import { LayoutBase } from "../../layouts/layout-base";
 import { VerticalTabs } from "../../components/vertical-tabs";
+import { NewReleaseWizardBox } from "./new-release-wizard-box";
+import { usePageSizer } from "../../hooks/page-sizer";
+import usePagination from "headless-pagination-react";
+import { BoxPaginator } from "../../components/box-paginator";
+import { RhInput } from "../../components/rh/rh-input";
+import { RhSelect } from "../../components/rh/rh-select";
 
 export const ReleasesPage: React.FC = () => {
   const envRelay = useEnvRelay();
   const navigate = useNavigate();
 
+  const [showNewRelease, setShowNewRelease] = useState(false);
+
+  const pageSize = usePageSizer();
+
+  const [search, setSearch] = useState("");
+  const [accessState, setAccessState] = useState("");
+  const [releaseCount, setReleaseCount] = useState(0);
+
+  const paginator = usePagination({
+    totalItems: releaseCount,
+    perPage: pageSize,
+    maxLinks: 5,
+    initialPage: 1,
+  });
+
   const { data: releaseData } = useQuery(
-    "releases",
+    ["releases", paginator.page, search, accessState],
     async () => {
+      const params = new URLSearchParams({ page: paginator.page.toString() });
+      if (search) params.set("q", search);
+      if (accessState) params.set("state", accessState);
+
       return await axios
-        .get<ReleaseDetailType[]>(`/api/releases`)
-        .then((response) => response.data);
+        .get<ReleaseSummaryType[]>(`/api/releases?${params.toString()}`)
+        .then((response) => {
+          setReleaseCount(parseInt(response.headers["elsa-total-count"]) || 0);
+          return response.data;
+        });
     },
-    {}
+    // the progress of running jobs is live - so we keep polling
+    { keepPreviousData: true, refetchInterval: 5000 }
   );
 
   const {
@@ -73,7 +102,48 @@ export const ReleasesPage: React.FC = () => {
             </VerticalTabs>
           </div>
         </Box>
+        {showNewRelease && (
+          <NewReleaseWizardBox onCancel={() => setShowNewRelease(false)} />
+        )}
         <Box heading="Releases">
+          {!showNewRelease && (
+            <button
+              className="btn-blue w-60 mb-4"
+              onClick={() => setShowNewRelease(true)}
+            >
+              New Release
+            </button>
+          )}
+          <div className="grid grid-cols-6 gap-6 mb-4">
+            <RhInput
+              label="Search"
+              placeholder="DAC identifier or title"
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                paginator.setPage(1);
+              }}
+            />
+            <RhSelect
+              label="Access"
+              options={[
+                { label: "All", value: "" },
+                { label: "Active", value: "active" },
+                { label: "Pending", value: "pending" },
+                { label: "Ended", value: "ended" },
+              ]}
+              value={accessState}
+              onChange={(e) => {
+                setAccessState(e.target.value);
+                paginator.setPage(1);
+              }}
+            />
+          </div>
+          <BoxPaginator
+            {...paginator}
+            rowWord="releases"
+            rowCount={releaseCount}
+          />
           {releaseData && (
             <table className="w-full text-sm text-left text-gray-500 light:text-gray-400">
               <thead className="text-xs text-gray-700 uppercase bg-gray-50 light:bg-gray-700 light:text-gray-400">
@@ -96,6 +166,15 @@ export const ReleasesPage: React.FC = () => {
                   <th scope="col" className="px-6 py-3">
                     Title
                   </th>
+                  <th scope="col" className="px-6 py-3">
+                    Role
+                  </th>
+                  <th scope="col" className="px-6 py-3">
+                    Access
+                  </th>
+                  <th scope="col" className="px-6 py-3">
+                    Job
+                  </th>
                   <th scope="col" className="px-6 py-3">
                     <span className="sr-only">Edit</span>
                   </th>
@@ -123,6 +202,12 @@ export const ReleasesPage: React.FC = () => {
                       {r.applicationDacIdentifier}
                     </th>
                     <td className="px-6 py-4">{r.applicationDacTitle}</td>
+                    <td className="px-6 py-4">{r.roleInRelease}</td>
+                    <td className="px-6 py-4">{r.accessState}</td>
+                    <td className="px-6 py-4">
+                      {r.isRunningJobPercentDone !== undefined &&
+                        `${r.isRunningJobPercentDone}%`}
+                    </td>
                     <td className="px-6 py-4 text-right">
                       <a
                         href={`/releases/${r.id}`}